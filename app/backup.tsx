@@ -0,0 +1,369 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Share,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Share2, Copy, ClipboardPaste, CircleAlert as AlertCircle } from 'lucide-react-native';
+import * as Clipboard from 'expo-clipboard';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router } from 'expo-router';
+import { useUserStats } from '@/contexts/UserStatsContext';
+import {
+  createBackupArchive,
+  serializeBackupArchive,
+  parseBackupArchive,
+  diffBackupArchive,
+  restoreBackupArchive,
+  BackupArchive,
+  BackupDiff,
+  CollectionDiff,
+  RestoreMode,
+} from '@/utils/backup';
+
+const DIFF_LABELS: { key: keyof BackupDiff; label: string }[] = [
+  { key: 'templates', label: 'Templates' },
+  { key: 'plans', label: 'Plans' },
+  { key: 'sessions', label: 'Workout sessions' },
+  { key: 'clients', label: 'Clients' },
+  { key: 'exercises', label: 'Exercises' },
+  { key: 'metricEntries', label: 'Metric entries' },
+];
+
+export default function BackupScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+  const { refreshSessions } = useUserStats();
+
+  const [busy, setBusy] = useState(false);
+  const [pendingArchive, setPendingArchive] = useState<BackupArchive | null>(null);
+  const [pendingDiff, setPendingDiff] = useState<BackupDiff | null>(null);
+
+  const getArchiveText = async (): Promise<string> => {
+    const archive = await createBackupArchive();
+    return serializeBackupArchive(archive);
+  };
+
+  const handleShare = async () => {
+    try {
+      setBusy(true);
+      const archiveText = await getArchiveText();
+      await Share.share({ title: 'Workout backup', message: archiveText });
+    } catch (error) {
+      console.error('Error sharing backup:', error);
+      Alert.alert('Error', 'Failed to create backup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      setBusy(true);
+      const archiveText = await getArchiveText();
+      await Clipboard.setStringAsync(archiveText);
+      Alert.alert('Copied', 'Your backup is on the clipboard. Paste it somewhere safe.');
+    } catch (error) {
+      console.error('Error copying backup:', error);
+      Alert.alert('Error', 'Failed to create backup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handlePaste = async () => {
+    try {
+      setBusy(true);
+      const text = await Clipboard.getStringAsync();
+      const archive = parseBackupArchive(text);
+      const diff = await diffBackupArchive(archive);
+      setPendingArchive(archive);
+      setPendingDiff(diff);
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      Alert.alert('Invalid Backup', error instanceof Error ? error.message : 'Failed to read backup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async (mode: RestoreMode) => {
+    if (!pendingArchive) return;
+
+    try {
+      setBusy(true);
+      const result = await restoreBackupArchive(pendingArchive, mode);
+      await refreshSessions();
+      setPendingArchive(null);
+      setPendingDiff(null);
+
+      const upcomingReminders = pendingArchive.data.scheduledNotifications
+        .filter(notification => new Date(notification.scheduledTime) > new Date());
+      const reminderNote = upcomingReminders.length > result.notificationsRestored
+        ? '\n\nSome goal reminders could not be restored on this device. Re-enable them from Fitness Goals.'
+        : '';
+      Alert.alert('Backup Restored', `Your data has been ${mode === 'merge' ? 'merged' : 'replaced'}.${reminderNote}`);
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      Alert.alert('Error', 'Failed to restore backup');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReplace = () => {
+    Alert.alert(
+      'Replace Local Data',
+      'Everything on this device will be replaced with the backup. Records that are not in the backup will be removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => restore('replace') },
+      ]
+    );
+  };
+
+  const describeDiff = (diff: CollectionDiff): string => {
+    const parts = [];
+    if (diff.added > 0) parts.push(`${diff.added} new`);
+    if (diff.changed > 0) parts.push(`${diff.changed} changed`);
+    if (diff.unchanged > 0) parts.push(`${diff.unchanged} same`);
+    if (diff.localOnly > 0) parts.push(`${diff.localOnly} only on this device`);
+    return parts.length > 0 ? parts.join(' • ') : 'Nothing';
+  };
+
+  const renderDiff = () => {
+    if (!pendingArchive || !pendingDiff) return null;
+
+    return (
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Backup from {new Date(pendingArchive.exportedAt).toLocaleString()}</Text>
+        {DIFF_LABELS.map(({ key, label }) => (
+          <View key={key} style={styles.diffRow}>
+            <Text style={styles.diffLabel}>{label}</Text>
+            <Text style={styles.diffValue}>{describeDiff(pendingDiff[key])}</Text>
+          </View>
+        ))}
+
+        <View style={styles.noteRow}>
+          <AlertCircle size={14} color={colors.textSecondary} />
+          <Text style={styles.noteText}>
+            Merge keeps everything on this device and adds what is missing, taking the newer copy of edited items.
+            Replace makes this device match the backup exactly.
+          </Text>
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryButton]}
+            onPress={() => {
+              setPendingArchive(null);
+              setPendingDiff(null);
+            }}
+            disabled={busy}
+          >
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryButton]}
+            onPress={handleReplace}
+            disabled={busy}
+          >
+            <Text style={[styles.secondaryButtonText, { color: colors.error }]}>Replace</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.primaryButton]}
+            onPress={() => restore('merge')}
+            disabled={busy}
+          >
+            <Text style={styles.primaryButtonText}>Merge</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Backup & Restore</Text>
+        <View style={styles.headerButton}>
+          {busy && <ActivityIndicator size="small" color={colors.primary} />}
+        </View>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Export */}
+        <Text style={styles.sectionTitle}>Export</Text>
+        <Text style={styles.sectionDescription}>
+          Templates, plans, workout history, exercises, metrics, reminders and stats in one file.
+        </Text>
+        <TouchableOpacity style={styles.optionButton} onPress={handleShare} disabled={busy}>
+          <Share2 size={20} color={colors.primary} />
+          <Text style={styles.optionText}>Share backup</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.optionButton} onPress={handleCopy} disabled={busy}>
+          <Copy size={20} color={colors.primary} />
+          <Text style={styles.optionText}>Copy backup to clipboard</Text>
+        </TouchableOpacity>
+
+        {/* Import */}
+        <Text style={styles.sectionTitle}>Restore</Text>
+        <Text style={styles.sectionDescription}>
+          Copy a backup to the clipboard, then paste it here to review what will change.
+        </Text>
+        {pendingArchive ? renderDiff() : (
+          <TouchableOpacity style={styles.optionButton} onPress={handlePaste} disabled={busy}>
+            <ClipboardPaste size={20} color={colors.primary} />
+            <Text style={styles.optionText}>Paste backup from clipboard</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 4,
+  },
+  sectionDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 12,
+  },
+  optionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  optionText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 16,
+    color: colors.text,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    marginBottom: 24,
+  },
+  cardTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  diffRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    gap: 12,
+  },
+  diffLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  diffValue: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    textAlign: 'right',
+  },
+  noteRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  noteText: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+  },
+  primaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    backgroundColor: colors.surfaceSecondary,
+  },
+  secondaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+});
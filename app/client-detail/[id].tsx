@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Video, Calendar, ChevronRight } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { Client } from '@/types/workout';
+import { getClients } from '@/utils/storage';
+import { getClientLoggedExercises } from '@/lib/database';
+import { LoggedExercise, MUSCLE_TREND_WEEKS, getTrendStartKey } from '@/utils/muscleVolume';
+import { parseDateKey } from '@/utils/dates';
+import { useWeekStart } from '@/contexts/UserContext';
+import { MuscleVolumeCard } from '@/components/MuscleVolumeCard';
+
+export default function ClientDetailScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { weekStart } = useWeekStart();
+
+  const [client, setClient] = useState<Client | null>(null);
+  const [logged, setLogged] = useState<LoggedExercise[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadClient();
+  }, [id, weekStart]);
+
+  // Trainers don't sync their clients' sessions, the logs come straight from the server
+  const loadClient = async () => {
+    try {
+      const [clients, logs] = await Promise.all([
+        getClients(),
+        getClientLoggedExercises(id, getTrendStartKey(MUSCLE_TREND_WEEKS, weekStart)),
+      ]);
+      setClient(clients.find(c => c.id === id) ?? null);
+      setLogged(logs);
+    } catch (error) {
+      console.error('Error loading client:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const actions = [
+    {
+      id: 'formChecks',
+      title: 'Form checks',
+      icon: Video,
+      onPress: () => router.push(`/form-checks?clientId=${id}`),
+    },
+    {
+      id: 'plan',
+      title: 'Plan calendar',
+      icon: Calendar,
+      onPress: () => router.push(`/plan-calendar?clientId=${id}`),
+    },
+  ];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{client?.name ?? 'Client'}</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {client && (
+          <View style={styles.profileCard}>
+            <View style={styles.avatar}>
+              <Text style={styles.avatarText}>{client.name.charAt(0).toUpperCase()}</Text>
+            </View>
+            <View style={styles.profileInfo}>
+              <Text style={styles.clientName}>{client.name}</Text>
+              <Text style={styles.clientMeta}>{client.email}</Text>
+              <Text style={styles.clientMeta}>Client since {parseDateKey(client.joinDate).toLocaleDateString()}</Text>
+            </View>
+          </View>
+        )}
+
+        {loading ? (
+          <Text style={styles.emptyText}>Loading workouts...</Text>
+        ) : (
+          <MuscleVolumeCard logged={logged} colors={colors} />
+        )}
+
+        <View style={styles.actions}>
+          {actions.map(action => {
+            const IconComponent = action.icon;
+            return (
+              <TouchableOpacity key={action.id} style={styles.actionItem} onPress={action.onPress}>
+                <View style={styles.actionIcon}>
+                  <IconComponent size={20} color={colors.primary} />
+                </View>
+                <Text style={styles.actionText}>{action.title}</Text>
+                <ChevronRight size={20} color={colors.textTertiary} />
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={{ height: 100 }} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingTop: 16,
+  },
+  profileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginHorizontal: 20,
+    marginBottom: 24,
+  },
+  avatar: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: `${colors.primary}15`,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  avatarText: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 22,
+    color: colors.primary,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  clientName: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  clientMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  actions: {
+    marginHorizontal: 20,
+  },
+  actionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  actionIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: `${colors.primary}15`,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionText: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 16,
+    color: colors.text,
+  },
+});
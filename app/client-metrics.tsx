@@ -26,29 +26,30 @@ import {
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
+import { useUnitSystem } from '@/contexts/UserContext';
+import { getUnitLabel, displayValue, fromDisplayValue } from '@/utils/units';
 import { MetricChart } from '@/components/MetricChart';
 import MetricHistoryList from '@/components/MetricHistoryList';
 import { 
   getMetrics, 
   addMetricEntry, 
   getMetric,
-  MetricData,
-  Metric,
-  MetricType 
+  getMetricQuantity,
 } from '@/utils/metricsStorage';
+import { MetricData, Metric, MetricType } from '@/types/metrics';
 
 const { width } = Dimensions.get('window');
 
 const metricConfigs = [
   { key: 'weight', name: 'Weight', unit: 'kg', icon: '⚖️', color: '#3B82F6' },
-  { key: 'chest', name: 'Chest', unit: 'in', icon: '💪', color: '#10B981' },
-  { key: 'shoulders', name: 'Shoulders', unit: 'in', icon: '🏋️', color: '#F59E0B' },
-  { key: 'waist', name: 'Waist', unit: 'in', icon: '📏', color: '#EF4444' },
-  { key: 'thigh', name: 'Thigh', unit: 'in', icon: '🦵', color: '#8B5CF6' },
-  { key: 'hip', name: 'Hip', unit: 'in', icon: '📐', color: '#EC4899' },
+  { key: 'chest', name: 'Chest', unit: 'cm', icon: '💪', color: '#10B981' },
+  { key: 'shoulders', name: 'Shoulders', unit: 'cm', icon: '🏋️', color: '#F59E0B' },
+  { key: 'waist', name: 'Waist', unit: 'cm', icon: '📏', color: '#EF4444' },
+  { key: 'thigh', name: 'Thigh', unit: 'cm', icon: '🦵', color: '#8B5CF6' },
+  { key: 'hip', name: 'Hip', unit: 'cm', icon: '📐', color: '#EC4899' },
   { key: 'bodyFat', name: 'Body Fat', unit: '%', icon: '📊', color: '#06B6D4' },
-  { key: 'bicep', name: 'Bicep', unit: 'in', icon: '💪', color: '#84CC16' },
-  { key: 'waterIntake', name: 'Water Intake', unit: 'L', icon: '💧', color: '#0EA5E9' },
+  { key: 'bicep', name: 'Bicep', unit: 'cm', icon: '💪', color: '#84CC16' },
+  { key: 'waterIntake', name: 'Water Intake', unit: 'ml', icon: '💧', color: '#0EA5E9' },
   { key: 'steps', name: 'Steps', unit: 'steps', icon: '👣', color: '#F97316' },
 ];
 
@@ -62,6 +63,7 @@ export default function ClientMetricsScreen() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [newValue, setNewValue] = useState('');
   const [loading, setLoading] = useState(true);
+  const { unitSystem } = useUnitSystem();
 
   useEffect(() => {
     loadMetrics();
@@ -79,6 +81,17 @@ export default function ClientMetricsScreen() {
     }
   };
 
+  // Metrics are stored in SI units and shown in the user's unit system
+  const getDisplayUnit = (metricKey: string, unit: string): string => {
+    const quantity = getMetricQuantity(metricKey);
+    return quantity ? getUnitLabel(quantity, unitSystem) : unit;
+  };
+
+  const toDisplay = (metricKey: string, value: number): number => {
+    const quantity = getMetricQuantity(metricKey);
+    return quantity ? displayValue(value, quantity, unitSystem) : value;
+  };
+
   const handleMetricPress = (metricKey: string) => {
     setSelectedMetric(metricKey);
   };
@@ -100,8 +113,9 @@ export default function ClientMetricsScreen() {
       return;
     }
 
+    const quantity = getMetricQuantity(selectedMetric);
     try {
-      await addMetricEntry(selectedMetric as MetricType, value);
+      await addMetricEntry(selectedMetric as MetricType, quantity ? fromDisplayValue(value, quantity, unitSystem) : value);
       await loadMetrics();
       setShowAddModal(false);
       setNewValue('');
@@ -144,13 +158,13 @@ export default function ClientMetricsScreen() {
           </View>
           <View style={styles.metricInfo}>
             <Text style={styles.metricName}>{config.name}</Text>
-            <Text style={styles.metricUnit}>{config.unit}</Text>
+            <Text style={styles.metricUnit}>{getDisplayUnit(config.key, config.unit)}</Text>
           </View>
         </View>
         
         <View style={styles.metricValue}>
           <Text style={[styles.currentValue, { color: config.color }]}>
-            {metric?.currentValue || '--'}
+            {metric?.currentValue !== undefined ? toDisplay(config.key, metric.currentValue) : '--'}
           </Text>
           {change && (
             <View style={styles.changeContainer}>
@@ -163,7 +177,7 @@ export default function ClientMetricsScreen() {
                 styles.changeText,
                 { color: change.isPositive ? colors.success : colors.error }
               ]}>
-                {change.value.toFixed(1)}
+                {toDisplay(config.key, change.value).toFixed(1)}
               </Text>
             </View>
           )}
@@ -186,9 +200,11 @@ export default function ClientMetricsScreen() {
     
     if (!config || !metric) return null;
 
+    const unit = getDisplayUnit(config.key, config.unit);
+    const values = metric.entries.map(entry => toDisplay(config.key, entry.value));
     const chartData = metric.entries.slice(0, 10).reverse().map(entry => ({
       date: entry.date,
-      value: entry.value
+      value: toDisplay(config.key, entry.value)
     }));
 
     const historyData = [
@@ -198,8 +214,8 @@ export default function ClientMetricsScreen() {
         expanded: true,
         entries: metric.entries.slice(0, 10).map(entry => ({
           date: entry.date,
-          time: entry.time,
-          value: `${entry.value} ${entry.unit}`
+          time: new Date(entry.time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
+          value: `${toDisplay(config.key, entry.value)} ${unit}`
         }))
       }
     ];
@@ -227,7 +243,7 @@ export default function ClientMetricsScreen() {
           <View style={styles.currentValueCard}>
             <Text style={styles.currentValueLabel}>Current Value</Text>
             <Text style={[styles.currentValueLarge, { color: config.color }]}>
-              {metric.currentValue} {config.unit}
+              {metric.currentValue !== undefined ? toDisplay(config.key, metric.currentValue) : '--'} {unit}
             </Text>
             {metric.lastUpdated && (
               <Text style={styles.lastUpdatedDetail}>
@@ -261,8 +277,8 @@ export default function ClientMetricsScreen() {
               </View>
               <View style={styles.statItem}>
                 <Text style={styles.statValue}>
-                  {metric.entries.length > 0 
-                    ? Math.max(...metric.entries.map(e => e.value)).toFixed(1)
+                  {values.length > 0 
+                    ? Math.max(...values).toFixed(1)
                     : '--'
                   }
                 </Text>
@@ -270,8 +286,8 @@ export default function ClientMetricsScreen() {
               </View>
               <View style={styles.statItem}>
                 <Text style={styles.statValue}>
-                  {metric.entries.length > 0 
-                    ? Math.min(...metric.entries.map(e => e.value)).toFixed(1)
+                  {values.length > 0 
+                    ? Math.min(...values).toFixed(1)
                     : '--'
                   }
                 </Text>
@@ -279,8 +295,8 @@ export default function ClientMetricsScreen() {
               </View>
               <View style={styles.statItem}>
                 <Text style={styles.statValue}>
-                  {metric.entries.length > 0 
-                    ? (metric.entries.reduce((sum, e) => sum + e.value, 0) / metric.entries.length).toFixed(1)
+                  {values.length > 0 
+                    ? (values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(1)
                     : '--'
                   }
                 </Text>
@@ -429,12 +445,14 @@ export default function ClientMetricsScreen() {
                     autoFocus
                   />
                   <Text style={styles.unitLabel}>
-                    {metricConfigs.find(c => c.key === selectedMetric)?.unit}
+                    {getDisplayUnit(selectedMetric, metricConfigs.find(c => c.key === selectedMetric)?.unit ?? '')}
                   </Text>
                 </View>
                 
                 <Text style={styles.inputHint}>
-                  Current: {metrics[selectedMetric]?.currentValue || '--'} {metricConfigs.find(c => c.key === selectedMetric)?.unit}
+                  Current: {metrics[selectedMetric]?.currentValue !== undefined
+                    ? toDisplay(selectedMetric, metrics[selectedMetric].currentValue!)
+                    : '--'} {getDisplayUnit(selectedMetric, metricConfigs.find(c => c.key === selectedMetric)?.unit ?? '')}
                 </Text>
               </>
             )}
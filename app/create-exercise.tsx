@@ -22,13 +22,19 @@ import {
   Edit3,
   Target,
   Clock,
-  Hash
+  Hash,
+  Gauge,
+  Timer
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router, useLocalSearchParams } from 'expo-router';
-import { Exercise, WorkoutSet } from '@/types/workout';
+import { Exercise, WorkoutSet, EquipmentTag, DifficultyLevel, ExerciseVariation } from '@/types/workout';
 import { getExercises, saveExercises } from '@/utils/storage';
-import { generateId } from '@/utils/workoutUtils';
+import { generateId, SET_TYPES, DIFFICULTY_LEVELS, getSetTypeLabel, formatSetTargets } from '@/utils/workoutUtils';
+import { ExercisePickerModal } from '@/components/ExercisePickerModal';
+import { EQUIPMENT_TAGS, VARIATION_RELATIONS, getEquipmentTags, formatEquipmentTags } from '@/utils/substitutions';
+import { useUnitSystem, useUserRole } from '@/contexts/UserContext';
+import { getUnitLabel, displayValue, fromDisplayValue, formatQuantity } from '@/utils/units';
 
 const defaultCategories = [
   'Strength',
@@ -58,48 +64,36 @@ const defaultMuscleGroups = [
   'Full Body',
 ];
 
-const defaultEquipment = [
-  'None (Bodyweight)',
-  'Barbell',
-  'Dumbbell',
-  'Kettlebell',
-  'Resistance Bands',
-  'Cable Machine',
-  'Pull-up Bar',
-  'Bench',
-  'Medicine Ball',
-  'TRX',
-  'Cardio Machine',
-  'Other',
-];
+type SetTemplate = Omit<WorkoutSet, 'completed'>;
 
-interface SetTemplate {
-  id: string;
-  reps?: number;
-  weight?: number;
-  duration?: number;
-  restTime?: number;
-  notes?: string;
-}
+// Empty input clears the target, values are capped at the top of the scale
+const parseIntensity = (text: string, max: number): number | undefined => {
+  const value = parseFloat(text.replace(',', '.'));
+  return isNaN(value) ? undefined : Math.min(Math.max(value, 0), max);
+};
 
 export default function CreateExerciseScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  const { unitSystem } = useUnitSystem();
+  const { profileId } = useUserRole();
   const styles = createStyles(colors);
   const { edit, duplicate } = useLocalSearchParams();
 
   // Basic exercise info
   const [exerciseName, setExerciseName] = useState('');
+  const [aliases, setAliases] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
   const [selectedMuscleGroups, setSelectedMuscleGroups] = useState<string[]>([]);
-  const [selectedEquipment, setSelectedEquipment] = useState('');
+  const [selectedEquipment, setSelectedEquipment] = useState<EquipmentTag[]>([]);
   const [instructions, setInstructions] = useState('');
-  const [difficulty, setDifficulty] = useState<'Beginner' | 'Intermediate' | 'Advanced'>('Beginner');
+  const [difficulty, setDifficulty] = useState<DifficultyLevel>('beginner');
+  const [variations, setVariations] = useState<ExerciseVariation[]>([]);
+  const [library, setLibrary] = useState<Exercise[]>([]);
   
   // Custom options
   const [categories, setCategories] = useState<string[]>(defaultCategories);
   const [muscleGroups, setMuscleGroups] = useState<string[]>(defaultMuscleGroups);
-  const [equipment, setEquipment] = useState<string[]>(defaultEquipment);
   
   // Sets configuration
   const [setTemplates, setSetTemplates] = useState<SetTemplate[]>([
@@ -111,13 +105,12 @@ export default function CreateExerciseScreen() {
   // Modal states
   const [showCategoryModal, setShowCategoryModal] = useState(false);
   const [showMuscleGroupModal, setShowMuscleGroupModal] = useState(false);
-  const [showEquipmentModal, setShowEquipmentModal] = useState(false);
+  const [showVariationModal, setShowVariationModal] = useState(false);
   const [showSetConfigModal, setShowSetConfigModal] = useState(false);
   
   // Form states
   const [newCategoryName, setNewCategoryName] = useState('');
   const [newMuscleGroupName, setNewMuscleGroupName] = useState('');
-  const [newEquipmentName, setNewEquipmentName] = useState('');
   const [editingSetId, setEditingSetId] = useState<string | null>(null);
   const [tempSet, setTempSet] = useState<SetTemplate | null>(null);
   
@@ -128,23 +121,31 @@ export default function CreateExerciseScreen() {
   const isDuplicating = !!duplicate;
 
   useEffect(() => {
-    if (isEditing || isDuplicating) {
-      loadExercise();
-    }
+    loadExercise();
   }, []);
 
   const loadExercise = async () => {
     try {
-      const exerciseId = (edit || duplicate) as string;
       const exercises = await getExercises();
+      setLibrary(exercises);
+      if (!isEditing && !isDuplicating) return;
+
+      const exerciseId = (edit || duplicate) as string;
       const exercise = exercises.find(ex => ex.id === exerciseId);
       
       if (exercise) {
         setExerciseName(isDuplicating ? `${exercise.name} (Copy)` : exercise.name);
+        setAliases((exercise.aliases || []).join(', '));
         setSelectedCategory(exercise.category);
         setSelectedMuscleGroups(exercise.muscleGroups);
-        setSelectedEquipment(exercise.equipment || '');
+        setSelectedEquipment(getEquipmentTags(exercise));
         setInstructions(exercise.instructions || '');
+        setDifficulty(exercise.difficulty ?? 'beginner');
+        setVariations(exercise.variations ?? []);
+        if (exercise.defaultSets && exercise.defaultSets.length > 0) {
+          setSetTemplates(exercise.defaultSets.map(set => ({ ...set, id: generateId() })));
+          setIsTimeBased(exercise.defaultSets.every(set => !set.reps && !!set.duration));
+        }
       }
     } catch (error) {
       console.error('Error loading exercise:', error);
@@ -178,13 +179,28 @@ export default function CreateExerciseScreen() {
     }
   };
 
-  const handleAddEquipment = () => {
-    if (newEquipmentName.trim() && !equipment.includes(newEquipmentName.trim())) {
-      setEquipment(prev => [...prev, newEquipmentName.trim()]);
-      setSelectedEquipment(newEquipmentName.trim());
-      setNewEquipmentName('');
-      setShowEquipmentModal(false);
-    }
+  // Bodyweight means no equipment, so it doesn't mix with the rest
+  const handleEquipmentToggle = (tag: EquipmentTag) => {
+    setSelectedEquipment(prev => {
+      if (prev.includes(tag)) return prev.filter(item => item !== tag);
+      return tag === 'bodyweight' ? [tag] : [...prev.filter(item => item !== 'bodyweight'), tag];
+    });
+  };
+
+  // Variations
+  const handleAddVariation = (exercise: Exercise) => {
+    setVariations(prev => [...prev, { exerciseId: exercise.id, relation: 'different' }]);
+    setShowVariationModal(false);
+  };
+
+  const handleUpdateVariation = (exerciseId: string, change: Partial<ExerciseVariation>) => {
+    setVariations(prev => prev.map(variation =>
+      variation.exerciseId === exerciseId ? { ...variation, ...change } : variation
+    ));
+  };
+
+  const handleRemoveVariation = (exerciseId: string) => {
+    setVariations(prev => prev.filter(variation => variation.exerciseId !== exerciseId));
   };
 
   const handleAddSet = () => {
@@ -244,10 +260,16 @@ export default function CreateExerciseScreen() {
       const newExercise: Exercise = {
         id: isEditing ? (edit as string) : generateId(),
         name: exerciseName.trim(),
+        aliases: aliases.split(',').map(alias => alias.trim()).filter(Boolean),
         category: selectedCategory,
         muscleGroups: selectedMuscleGroups,
         instructions: instructions.trim() || undefined,
-        equipment: selectedEquipment || undefined,
+        equipment: selectedEquipment.length > 0 ? formatEquipmentTags(selectedEquipment) : undefined,
+        equipmentTags: selectedEquipment,
+        difficulty,
+        variations: variations.length > 0 ? variations : undefined,
+        createdBy: isEditing ? exercises.find(ex => ex.id === edit)?.createdBy : profileId ?? undefined,
+        defaultSets: setTemplates.map(({ id, ...set }) => set),
       };
 
       const updatedExercises = isEditing 
@@ -273,13 +295,24 @@ export default function CreateExerciseScreen() {
     <View key={set.id} style={styles.setTemplateCard}>
       <View style={styles.setTemplateHeader}>
         <View style={styles.setTemplateInfo}>
-          <Text style={styles.setTemplateTitle}>Set {index + 1}</Text>
+          <View style={styles.setTemplateTitleRow}>
+            <Text style={styles.setTemplateTitle}>Set {index + 1}</Text>
+            {set.setType && set.setType !== 'normal' && (
+              <View style={styles.setTypeBadge}>
+                <Text style={styles.setTypeBadgeText}>{getSetTypeLabel(set.setType)}</Text>
+              </View>
+            )}
+          </View>
           <Text style={styles.setTemplateDetails}>
             {set.reps ? `${set.reps} reps` : ''}
+            {set.reps && set.duration ? ' in ' : ''}
             {set.duration ? `${set.duration}s` : ''}
-            {set.weight ? ` @ ${set.weight}kg` : ''}
+            {set.weight ? ` @ ${formatQuantity(set.weight, 'weight', unitSystem)}` : ''}
             {set.restTime ? ` • Rest: ${set.restTime}s` : ''}
           </Text>
+          {formatSetTargets(set) !== '' && (
+            <Text style={styles.setTemplateDetails}>{formatSetTargets(set)}</Text>
+          )}
         </View>
         <View style={styles.setTemplateActions}>
           <TouchableOpacity 
@@ -339,6 +372,17 @@ export default function CreateExerciseScreen() {
             />
           </View>
 
+          <View style={styles.formField}>
+            <Text style={styles.fieldLabel}>Also Known As</Text>
+            <TextInput
+              style={styles.textInput}
+              value={aliases}
+              onChangeText={setAliases}
+              placeholder="Other names, comma separated (e.g. RDL)"
+              placeholderTextColor={colors.textTertiary}
+            />
+          </View>
+
           <View style={styles.formField}>
             <Text style={styles.fieldLabel}>Category *</Text>
             <TouchableOpacity
@@ -358,20 +402,20 @@ export default function CreateExerciseScreen() {
           <View style={styles.formField}>
             <Text style={styles.fieldLabel}>Difficulty Level</Text>
             <View style={styles.difficultyButtons}>
-              {(['Beginner', 'Intermediate', 'Advanced'] as const).map((level) => (
+              {DIFFICULTY_LEVELS.map((level) => (
                 <TouchableOpacity
-                  key={level}
+                  key={level.value}
                   style={[
                     styles.difficultyButton,
-                    difficulty === level && styles.selectedDifficultyButton
+                    difficulty === level.value && styles.selectedDifficultyButton
                   ]}
-                  onPress={() => setDifficulty(level)}
+                  onPress={() => setDifficulty(level.value)}
                 >
                   <Text style={[
                     styles.difficultyButtonText,
-                    difficulty === level && styles.selectedDifficultyButtonText
+                    difficulty === level.value && styles.selectedDifficultyButtonText
                   ]}>
-                    {level}
+                    {level.label}
                   </Text>
                 </TouchableOpacity>
               ))}
@@ -418,37 +462,90 @@ export default function CreateExerciseScreen() {
 
         {/* Equipment */}
         <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <Text style={styles.sectionTitle}>Equipment</Text>
-            <TouchableOpacity
-              style={styles.addButton}
-              onPress={() => setShowEquipmentModal(true)}
-            >
-              <Plus size={16} color={colors.primary} />
-              <Text style={styles.addButtonText}>Add New</Text>
-            </TouchableOpacity>
-          </View>
+          <Text style={styles.sectionTitle}>Equipment</Text>
+          <Text style={styles.sectionSubtitle}>Select everything this exercise needs, used to suggest alternatives</Text>
           <View style={styles.optionsGrid}>
-            {equipment.map((equipmentItem) => (
+            {EQUIPMENT_TAGS.map((tag) => (
               <TouchableOpacity
-                key={equipmentItem}
+                key={tag.value}
                 style={[
                   styles.optionChip,
-                  selectedEquipment === equipmentItem && styles.selectedOptionChip
+                  selectedEquipment.includes(tag.value) && styles.selectedOptionChip
                 ]}
-                onPress={() => setSelectedEquipment(equipmentItem)}
+                onPress={() => handleEquipmentToggle(tag.value)}
               >
                 <Text style={[
                   styles.optionText,
-                  selectedEquipment === equipmentItem && styles.selectedOptionText
+                  selectedEquipment.includes(tag.value) && styles.selectedOptionText
                 ]}>
-                  {equipmentItem}
+                  {tag.label}
                 </Text>
               </TouchableOpacity>
             ))}
           </View>
         </View>
 
+        {/* Variations */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Variations</Text>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setShowVariationModal(true)}
+            >
+              <Plus size={16} color={colors.primary} />
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.sectionSubtitle}>
+            Other exercises that can stand in for this one, and how they compare
+          </Text>
+          <View style={styles.setTemplatesContainer}>
+            {variations.map((variation) => {
+              const variationExercise = library.find(ex => ex.id === variation.exerciseId);
+              return (
+                <View key={variation.exerciseId} style={styles.setTemplateCard}>
+                  <View style={styles.setTemplateHeader}>
+                    <Text style={styles.setTemplateTitle}>{variationExercise?.name ?? 'Deleted exercise'}</Text>
+                    <TouchableOpacity
+                      style={styles.setActionButton}
+                      onPress={() => handleRemoveVariation(variation.exerciseId)}
+                    >
+                      <Trash2 size={16} color={colors.error} />
+                    </TouchableOpacity>
+                  </View>
+                  <View style={styles.variationRelations}>
+                    {VARIATION_RELATIONS.map((relation) => (
+                      <TouchableOpacity
+                        key={relation.value}
+                        style={[
+                          styles.difficultyButton,
+                          variation.relation === relation.value && styles.selectedDifficultyButton
+                        ]}
+                        onPress={() => handleUpdateVariation(variation.exerciseId, { relation: relation.value })}
+                      >
+                        <Text style={[
+                          styles.difficultyButtonText,
+                          variation.relation === relation.value && styles.selectedDifficultyButtonText
+                        ]}>
+                          {relation.label}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <TextInput
+                    style={styles.textInput}
+                    value={variation.equipmentChanges ?? ''}
+                    onChangeText={(text) => handleUpdateVariation(variation.exerciseId, { equipmentChanges: text || undefined })}
+                    placeholder="Equipment changes, e.g. dumbbells instead of a barbell"
+                    placeholderTextColor={colors.textTertiary}
+                  />
+                </View>
+              );
+            })}
+          </View>
+        </View>
+
         {/* Default Sets Configuration */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -633,73 +730,15 @@ export default function CreateExerciseScreen() {
         </SafeAreaView>
       </Modal>
 
-      {/* Equipment Modal */}
-      <Modal
-        visible={showEquipmentModal}
-        animationType="slide"
-        presentationStyle="pageSheet"
-        onRequestClose={() => setShowEquipmentModal(false)}
-      >
-        <SafeAreaView style={styles.modalContainer}>
-          <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Select Equipment</Text>
-            <TouchableOpacity onPress={() => setShowEquipmentModal(false)}>
-              <X size={24} color={colors.text} />
-            </TouchableOpacity>
-          </View>
-          
-          <View style={styles.modalContent}>
-            <View style={styles.addNewSection}>
-              <Text style={styles.addNewTitle}>Add New Equipment</Text>
-              <View style={styles.addNewContainer}>
-                <TextInput
-                  style={styles.addNewInput}
-                  value={newEquipmentName}
-                  onChangeText={setNewEquipmentName}
-                  placeholder="Enter equipment name"
-                  placeholderTextColor={colors.textTertiary}
-                />
-                <TouchableOpacity
-                  style={[
-                    styles.addNewButton,
-                    !newEquipmentName.trim() && styles.addNewButtonDisabled
-                  ]}
-                  onPress={handleAddEquipment}
-                  disabled={!newEquipmentName.trim()}
-                >
-                  <Plus size={20} color="#FFFFFF" />
-                </TouchableOpacity>
-              </View>
-            </View>
-
-            <ScrollView style={styles.optionsList}>
-              {equipment.map((equipmentItem) => (
-                <TouchableOpacity
-                  key={equipmentItem}
-                  style={[
-                    styles.optionItem,
-                    selectedEquipment === equipmentItem && styles.selectedOptionItem
-                  ]}
-                  onPress={() => {
-                    setSelectedEquipment(equipmentItem);
-                    setShowEquipmentModal(false);
-                  }}
-                >
-                  <Text style={[
-                    styles.optionItemText,
-                    selectedEquipment === equipmentItem && styles.selectedOptionItemText
-                  ]}>
-                    {equipmentItem}
-                  </Text>
-                  {selectedEquipment === equipmentItem && (
-                    <Text style={styles.selectedIndicator}>✓</Text>
-                  )}
-                </TouchableOpacity>
-              ))}
-            </ScrollView>
-          </View>
-        </SafeAreaView>
-      </Modal>
+      <ExercisePickerModal
+        visible={showVariationModal}
+        exercises={library}
+        title="Add Variation"
+        excludeIds={[...(isEditing ? [edit as string] : []), ...variations.map(variation => variation.exerciseId)]}
+        onSelect={handleAddVariation}
+        onClose={() => setShowVariationModal(false)}
+        colors={colors}
+      />
 
       {/* Set Configuration Modal */}
       <Modal
@@ -720,11 +759,31 @@ export default function CreateExerciseScreen() {
           </View>
           
           {tempSet && (
-            <View style={styles.modalContent}>
+            <ScrollView style={styles.modalContent}>
+              <View style={styles.setTypeField}>
+                <Text style={styles.configLabel}>Set Type</Text>
+                <View style={styles.optionsGrid}>
+                  {SET_TYPES.map(type => {
+                    const selected = (tempSet.setType || 'normal') === type.value;
+                    return (
+                      <TouchableOpacity
+                        key={type.value}
+                        style={[styles.optionChip, selected && styles.selectedOptionChip]}
+                        onPress={() => setTempSet(prev => prev ? { ...prev, setType: type.value } : null)}
+                      >
+                        <Text style={[styles.optionText, selected && styles.selectedOptionText]}>
+                          {type.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+
               <View style={styles.setConfigGrid}>
-                {!isTimeBased ? (
+                {(!isTimeBased || tempSet.setType === 'emom') && (
                   <View style={styles.configField}>
-                    <Text style={styles.configLabel}>Reps</Text>
+                    <Text style={styles.configLabel}>{tempSet.setType === 'amrap' ? 'Minimum Reps' : 'Reps'}</Text>
                     <View style={styles.configInputContainer}>
                       <Hash size={16} color={colors.textSecondary} />
                       <TextInput
@@ -737,9 +796,12 @@ export default function CreateExerciseScreen() {
                       />
                     </View>
                   </View>
-                ) : (
+                )}
+                {(isTimeBased || tempSet.setType === 'emom') && (
                   <View style={styles.configField}>
-                    <Text style={styles.configLabel}>Duration (seconds)</Text>
+                    <Text style={styles.configLabel}>
+                      {tempSet.setType === 'emom' ? 'Total Time (seconds)' : 'Duration (seconds)'}
+                    </Text>
                     <View style={styles.configInputContainer}>
                       <Clock size={16} color={colors.textSecondary} />
                       <TextInput
@@ -755,13 +817,13 @@ export default function CreateExerciseScreen() {
                 )}
 
                 <View style={styles.configField}>
-                  <Text style={styles.configLabel}>Weight (kg)</Text>
+                  <Text style={styles.configLabel}>Weight ({getUnitLabel('weight', unitSystem)})</Text>
                   <View style={styles.configInputContainer}>
                     <Target size={16} color={colors.textSecondary} />
                     <TextInput
                       style={styles.configInput}
-                      value={tempSet.weight?.toString() || ''}
-                      onChangeText={(text) => setTempSet(prev => prev ? { ...prev, weight: parseFloat(text) || 0 } : null)}
+                      value={tempSet.weight ? displayValue(tempSet.weight, 'weight', unitSystem).toString() : ''}
+                      onChangeText={(text) => setTempSet(prev => prev ? { ...prev, weight: fromDisplayValue(parseFloat(text) || 0, 'weight', unitSystem) } : null)}
                       placeholder="0"
                       placeholderTextColor={colors.textTertiary}
                       keyboardType="numeric"
@@ -783,6 +845,51 @@ export default function CreateExerciseScreen() {
                     />
                   </View>
                 </View>
+
+                <View style={styles.configField}>
+                  <Text style={styles.configLabel}>Target RPE</Text>
+                  <View style={styles.configInputContainer}>
+                    <Gauge size={16} color={colors.textSecondary} />
+                    <TextInput
+                      style={styles.configInput}
+                      value={tempSet.targetRpe?.toString() || ''}
+                      onChangeText={(text) => setTempSet(prev => prev ? { ...prev, targetRpe: parseIntensity(text, 10) } : null)}
+                      placeholder="8"
+                      placeholderTextColor={colors.textTertiary}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                </View>
+
+                <View style={styles.configField}>
+                  <Text style={styles.configLabel}>Target RIR</Text>
+                  <View style={styles.configInputContainer}>
+                    <Gauge size={16} color={colors.textSecondary} />
+                    <TextInput
+                      style={styles.configInput}
+                      value={tempSet.targetRir?.toString() || ''}
+                      onChangeText={(text) => setTempSet(prev => prev ? { ...prev, targetRir: parseIntensity(text, 10) } : null)}
+                      placeholder="2"
+                      placeholderTextColor={colors.textTertiary}
+                      keyboardType="numeric"
+                    />
+                  </View>
+                </View>
+
+                <View style={styles.configField}>
+                  <Text style={styles.configLabel}>Tempo</Text>
+                  <View style={styles.configInputContainer}>
+                    <Timer size={16} color={colors.textSecondary} />
+                    <TextInput
+                      style={styles.configInput}
+                      value={tempSet.tempo || ''}
+                      onChangeText={(text) => setTempSet(prev => prev ? { ...prev, tempo: text.trim() || undefined } : null)}
+                      placeholder="3-1-1-0"
+                      placeholderTextColor={colors.textTertiary}
+                      autoCapitalize="characters"
+                    />
+                  </View>
+                </View>
               </View>
 
               <View style={styles.configField}>
@@ -798,7 +905,7 @@ export default function CreateExerciseScreen() {
                   textAlignVertical="top"
                 />
               </View>
-            </View>
+            </ScrollView>
           )}
         </SafeAreaView>
       </Modal>
@@ -977,6 +1084,11 @@ const createStyles = (colors: any) => StyleSheet.create({
   selectedDifficultyButtonText: {
     color: '#FFFFFF',
   },
+  variationRelations: {
+    flexDirection: 'row',
+    gap: 8,
+    marginVertical: 12,
+  },
   optionsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -1025,11 +1137,27 @@ const createStyles = (colors: any) => StyleSheet.create({
   setTemplateInfo: {
     flex: 1,
   },
+  setTemplateTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
   setTemplateTitle: {
     fontFamily: 'Inter-SemiBold',
     fontSize: 14,
     color: colors.text,
-    marginBottom: 4,
+  },
+  setTypeBadge: {
+    backgroundColor: colors.primary + '15',
+    borderRadius: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  setTypeBadgeText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 11,
+    color: colors.primary,
   },
   setTemplateDetails: {
     fontFamily: 'Inter-Regular',
@@ -1139,6 +1267,9 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 16,
     color: colors.primary,
   },
+  setTypeField: {
+    marginBottom: 24,
+  },
   setConfigGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -8,6 +8,7 @@ import {
   TextInput,
   Alert,
   Modal,
+  Switch,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
@@ -21,38 +22,54 @@ import {
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router, useLocalSearchParams } from 'expo-router';
-import { WorkoutPlan, Client, WorkoutTemplate, DayOfWeek } from '@/types/workout';
+import {
+  WorkoutPlan,
+  Client,
+  WorkoutTemplate,
+  DayOfWeek,
+  PlanSchedule,
+  PlanScheduleType,
+  WeeklySchedule,
+  CustomScheduleDay,
+  MissedWorkoutPolicy,
+  PlanAdjustment,
+  DifficultyProgression,
+  ProgressionModel,
+  ProgressionRule,
+  Exercise,
+} from '@/types/workout';
 import { savePlan, getPlan, getClients, getTemplates } from '@/utils/storage';
 import { generateId, getWeekDates } from '@/utils/workoutUtils';
+import { getTodayKey, addDays } from '@/utils/dates';
+import { DEFAULT_LOAD_INCREMENT, PROGRESSION_DIRECTIONS, PROGRESSION_MODELS } from '@/utils/progression';
+import { getScheduleTemplateIds } from '@/utils/planCalendar';
+import { DEFAULT_MISSED_WORKOUT_POLICY, MISSED_WORKOUT_POLICIES } from '@/utils/missedWorkouts';
+import { useUnitSystem } from '@/contexts/UserContext';
+import { getUnitLabel, displayValue, fromDisplayValue } from '@/utils/units';
 
 const daysOfWeek: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
 
-type ScheduleType = 'weekly' | 'monthly' | 'custom';
+const monthlyWeeks = [1, 2, 3, 4];
 
-interface CustomScheduleDay {
-  id: string;
-  date: string;
-  templateId: string | null;
-  label?: string;
-}
+// The editor keeps every day filled in, a rest day is null
+const toDayMap = (week: WeeklySchedule = {}): { [key in DayOfWeek]: string | null } => {
+  return Object.fromEntries(daysOfWeek.map(day => [day, week[day] ?? null])) as { [key in DayOfWeek]: string | null };
+};
 
 export default function CreatePlanScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  const { unitSystem } = useUnitSystem();
   const styles = createStyles(colors);
   const { edit } = useLocalSearchParams();
 
   const [planName, setPlanName] = useState('');
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
-  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
-  const [endDate, setEndDate] = useState(() => {
-    const date = new Date();
-    date.setDate(date.getDate() + 28); // 4 weeks default
-    return date.toISOString().split('T')[0];
-  });
+  const [startDate, setStartDate] = useState(getTodayKey());
+  const [endDate, setEndDate] = useState(() => addDays(getTodayKey(), 28)); // 4 weeks default
   
   // Schedule type and data
-  const [scheduleType, setScheduleType] = useState<ScheduleType>('weekly');
+  const [scheduleType, setScheduleType] = useState<PlanScheduleType>('weekly');
   const [weeklySchedule, setWeeklySchedule] = useState<{ [key in DayOfWeek]: string | null }>({
     Monday: null,
     Tuesday: null,
@@ -70,6 +87,19 @@ export default function CreatePlanScreen() {
   });
   const [customSchedule, setCustomSchedule] = useState<CustomScheduleDay[]>([]);
 
+  // Progression
+  const [difficultyProgression, setDifficultyProgression] = useState<DifficultyProgression>('maintain');
+  const [progressionModel, setProgressionModel] = useState<ProgressionModel>('linear');
+  const [loadIncrement, setLoadIncrement] = useState(displayValue(DEFAULT_LOAD_INCREMENT, 'weight', unitSystem).toString());
+  const [repRangeMin, setRepRangeMin] = useState('8');
+  const [repRangeMax, setRepRangeMax] = useState('12');
+  const [exerciseOverrides, setExerciseOverrides] = useState<{ [exerciseId: string]: ProgressionModel }>({});
+
+  // Missed workouts
+  const [missedWorkoutPolicy, setMissedWorkoutPolicy] = useState<MissedWorkoutPolicy>(DEFAULT_MISSED_WORKOUT_POLICY);
+  const [autoReschedule, setAutoReschedule] = useState(false);
+  const [adjustments, setAdjustments] = useState<PlanAdjustment[]>([]);
+
   const [clients, setClients] = useState<Client[]>([]);
   const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
   const [showClientPicker, setShowClientPicker] = useState(false);
@@ -110,7 +140,30 @@ export default function CreatePlanScreen() {
         setPlanName(plan.name);
         setStartDate(plan.startDate);
         setEndDate(plan.endDate);
-        setWeeklySchedule(plan.schedule as any);
+        setScheduleType(plan.schedule.type);
+        if (plan.schedule.type === 'weekly') {
+          setWeeklySchedule(toDayMap(plan.schedule.days));
+        } else if (plan.schedule.type === 'monthly') {
+          const { weeks } = plan.schedule;
+          setMonthlySchedule(Object.fromEntries(monthlyWeeks.map((week, index) => [week, toDayMap(weeks[index])])));
+        } else {
+          setCustomSchedule(plan.schedule.days);
+        }
+        setDifficultyProgression(plan.difficultyProgression ?? 'maintain');
+        if (plan.progression) {
+          setProgressionModel(plan.progression.model);
+          setLoadIncrement(displayValue(plan.progression.loadIncrement ?? DEFAULT_LOAD_INCREMENT, 'weight', unitSystem).toString());
+          if (plan.progression.repRange) {
+            setRepRangeMin(plan.progression.repRange.min.toString());
+            setRepRangeMax(plan.progression.repRange.max.toString());
+          }
+        }
+        setMissedWorkoutPolicy(plan.missedWorkoutPolicy ?? DEFAULT_MISSED_WORKOUT_POLICY);
+        setAutoReschedule(!!plan.autoReschedule);
+        setAdjustments(plan.adjustments || []);
+        setExerciseOverrides(Object.fromEntries(
+          Object.entries(plan.exerciseProgressions || {}).map(([exerciseId, rule]) => [exerciseId, rule.model])
+        ));
         
         const client = clients.find(c => c.id === plan.clientId);
         if (client) {
@@ -165,7 +218,7 @@ export default function CreatePlanScreen() {
   const addCustomDay = () => {
     const newDay: CustomScheduleDay = {
       id: generateId(),
-      date: new Date().toISOString().split('T')[0],
+      date: getTodayKey(),
       templateId: null,
       label: `Day ${customSchedule.length + 1}`,
     };
@@ -190,12 +243,7 @@ export default function CreatePlanScreen() {
 
   const copyWeekToAll = (sourceWeek: number) => {
     const sourceSchedule = monthlySchedule[sourceWeek];
-    setMonthlySchedule(prev => ({
-      1: sourceSchedule,
-      2: sourceSchedule,
-      3: sourceSchedule,
-      4: sourceSchedule,
-    }));
+    setMonthlySchedule(Object.fromEntries(monthlyWeeks.map(week => [week, sourceSchedule])));
   };
 
   const getTemplateName = (templateId: string | null): string => {
@@ -204,7 +252,7 @@ export default function CreatePlanScreen() {
     return template?.name || 'Unknown Template';
   };
 
-  const getScheduleTypeLabel = (type: ScheduleType): string => {
+  const getScheduleTypeLabel = (type: PlanScheduleType): string => {
     switch (type) {
       case 'weekly': return 'Weekly Repeat';
       case 'monthly': return 'Monthly Plan';
@@ -213,6 +261,50 @@ export default function CreatePlanScreen() {
     }
   };
 
+  const buildSchedule = (): PlanSchedule => {
+    switch (scheduleType) {
+      case 'monthly':
+        return { type: 'monthly', weeks: monthlyWeeks.map(week => monthlySchedule[week]) };
+      case 'custom':
+        return { type: 'custom', days: [...customSchedule].sort((a, b) => a.date.localeCompare(b.date)) };
+      case 'weekly':
+      default:
+        return { type: 'weekly', days: weeklySchedule };
+    }
+  };
+
+  const getScheduledExercises = (): Exercise[] => {
+    const templateIds = getScheduleTemplateIds(buildSchedule());
+
+    const exercisesById = new Map<string, Exercise>();
+    templates
+      .filter(template => templateIds.includes(template.id))
+      .forEach(template => template.exercises.forEach(e => exercisesById.set(e.exerciseId, e.exercise)));
+    return Array.from(exercisesById.values());
+  };
+
+  // Tapping an exercise cycles through the models, starting from the plan's own rule
+  const cycleExerciseOverride = (exerciseId: string) => {
+    setExerciseOverrides(prev => {
+      const current = prev[exerciseId];
+      const models = PROGRESSION_MODELS.map(model => model.value);
+      const next = current === undefined ? models[0] : models[models.indexOf(current) + 1];
+      const { [exerciseId]: _removed, ...rest } = prev;
+      return next === undefined ? rest : { ...rest, [exerciseId]: next };
+    });
+  };
+
+  const buildProgressionRule = (model: ProgressionModel): ProgressionRule => {
+    const min = parseInt(repRangeMin) || 8;
+    const max = Math.max(parseInt(repRangeMax) || min + 4, min);
+    const increment = parseFloat(loadIncrement.replace(',', '.'));
+    return {
+      model,
+      loadIncrement: increment > 0 ? fromDisplayValue(increment, 'weight', unitSystem) : DEFAULT_LOAD_INCREMENT,
+      ...(model === 'double' ? { repRange: { min, max } } : {}),
+    };
+  };
+
   const handleSavePlan = async () => {
     if (!planName.trim()) {
       Alert.alert('Error', 'Please enter a plan name');
@@ -224,23 +316,24 @@ export default function CreatePlanScreen() {
       return;
     }
 
-    if (new Date(endDate) <= new Date(startDate)) {
+    if (endDate <= startDate) {
       Alert.alert('Error', 'End date must be after start date');
       return;
     }
 
-    // Validate schedule based on type
-    let finalSchedule: any = {};
-    if (scheduleType === 'weekly') {
-      finalSchedule = weeklySchedule;
-    } else if (scheduleType === 'monthly') {
-      finalSchedule = monthlySchedule;
-    } else if (scheduleType === 'custom') {
+    if (scheduleType === 'custom') {
       if (customSchedule.length === 0) {
         Alert.alert('Error', 'Please add at least one day to your custom schedule');
         return;
       }
-      finalSchedule = customSchedule;
+      // Days outside the plan would never show up on the calendar
+      const invalidDay = customSchedule.find(day =>
+        !/^\d{4}-\d{2}-\d{2}$/.test(day.date) || day.date < startDate || day.date > endDate
+      );
+      if (invalidDay) {
+        Alert.alert('Error', `${invalidDay.label || 'Each custom day'} needs a date between ${startDate} and ${endDate}`);
+        return;
+      }
     }
 
     setLoading(true);
@@ -252,7 +345,15 @@ export default function CreatePlanScreen() {
         name: planName.trim(),
         startDate,
         endDate,
-        schedule: finalSchedule,
+        schedule: buildSchedule(),
+        difficultyProgression,
+        progression: buildProgressionRule(progressionModel),
+        exerciseProgressions: Object.fromEntries(
+          Object.entries(exerciseOverrides).map(([exerciseId, model]) => [exerciseId, buildProgressionRule(model)])
+        ),
+        missedWorkoutPolicy,
+        autoReschedule,
+        adjustments,
         createdAt: isEditing ? new Date().toISOString() : new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -311,7 +412,7 @@ export default function CreatePlanScreen() {
   const renderMonthlySchedule = () => {
     return (
       <View style={styles.monthlyContainer}>
-        {[1, 2, 3, 4].map((week) => (
+        {monthlyWeeks.map((week) => (
           <View key={week} style={styles.weekContainer}>
             <View style={styles.weekHeader}>
               <Text style={styles.weekTitle}>Week {week}</Text>
@@ -545,6 +646,134 @@ export default function CreatePlanScreen() {
           {scheduleType === 'custom' && renderCustomSchedule()}
         </View>
 
+        {/* Progression */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Progression</Text>
+          <Text style={styles.sectionSubtitle}>
+            Targets for each session are prescribed from the client's last logged performance
+          </Text>
+
+          <Text style={styles.fieldLabel}>Difficulty</Text>
+          <View style={styles.optionRow}>
+            {PROGRESSION_DIRECTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionChip, difficultyProgression === option.value && styles.optionChipActive]}
+                onPress={() => setDifficultyProgression(option.value)}
+              >
+                <Text style={[styles.optionChipText, difficultyProgression === option.value && styles.optionChipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.fieldLabel}>Method</Text>
+          <View style={styles.optionRow}>
+            {PROGRESSION_MODELS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionChip, progressionModel === option.value && styles.optionChipActive]}
+                onPress={() => setProgressionModel(option.value)}
+              >
+                <Text style={[styles.optionChipText, progressionModel === option.value && styles.optionChipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.progressionDescription}>
+            {PROGRESSION_MODELS.find(option => option.value === progressionModel)?.description}
+          </Text>
+
+          <View style={styles.formRow}>
+            <View style={styles.formFieldHalf}>
+              <Text style={styles.fieldLabel}>Load Increment ({getUnitLabel('weight', unitSystem)})</Text>
+              <TextInput
+                style={styles.textInput}
+                value={loadIncrement}
+                onChangeText={setLoadIncrement}
+                keyboardType="decimal-pad"
+                placeholderTextColor={colors.textTertiary}
+              />
+            </View>
+            <View style={styles.formFieldHalf}>
+              <Text style={styles.fieldLabel}>Rep Range (double)</Text>
+              <View style={styles.repRangeRow}>
+                <TextInput
+                  style={[styles.textInput, styles.repRangeInput]}
+                  value={repRangeMin}
+                  onChangeText={setRepRangeMin}
+                  keyboardType="number-pad"
+                />
+                <Text style={styles.fieldLabel}>–</Text>
+                <TextInput
+                  style={[styles.textInput, styles.repRangeInput]}
+                  value={repRangeMax}
+                  onChangeText={setRepRangeMax}
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+          </View>
+
+          {getScheduledExercises().length > 0 && (
+            <>
+              <Text style={[styles.fieldLabel, styles.overridesLabel]}>Per-exercise overrides</Text>
+              {getScheduledExercises().map(exercise => {
+                const override = exerciseOverrides[exercise.id];
+                return (
+                  <TouchableOpacity
+                    key={exercise.id}
+                    style={styles.overrideRow}
+                    onPress={() => cycleExerciseOverride(exercise.id)}
+                  >
+                    <Text style={styles.overrideName} numberOfLines={1}>{exercise.name}</Text>
+                    <Text style={[styles.optionChipText, override && styles.overrideActive]}>
+                      {override ? PROGRESSION_MODELS.find(option => option.value === override)?.label : 'Plan method'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </>
+          )}
+        </View>
+
+        {/* Missed Workouts */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Missed Workouts</Text>
+          <Text style={styles.sectionSubtitle}>
+            What happens when a planned workout goes by without being logged
+          </Text>
+
+          <View style={styles.optionRow}>
+            {MISSED_WORKOUT_POLICIES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionChip, missedWorkoutPolicy === option.value && styles.optionChipActive]}
+                onPress={() => setMissedWorkoutPolicy(option.value)}
+              >
+                <Text style={[styles.optionChipText, missedWorkoutPolicy === option.value && styles.optionChipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.progressionDescription}>
+            {MISSED_WORKOUT_POLICIES.find(option => option.value === missedWorkoutPolicy)?.description}
+          </Text>
+
+          <View style={styles.toggleRow}>
+            <Text style={styles.toggleLabel}>Reschedule without asking the client</Text>
+            <Switch
+              value={autoReschedule}
+              onValueChange={setAutoReschedule}
+              trackColor={{ false: colors.border, true: colors.primary }}
+              thumbColor={colors.surface}
+            />
+          </View>
+        </View>
+
         <View style={{ height: 100 }} />
       </ScrollView>
 
@@ -600,7 +829,7 @@ export default function CreatePlanScreen() {
           <Text style={styles.modalTitle}>Select Schedule Type</Text>
           
           <View style={styles.scheduleTypeList}>
-            {(['weekly', 'monthly', 'custom'] as ScheduleType[]).map((type) => (
+            {(['weekly', 'monthly', 'custom'] as PlanScheduleType[]).map((type) => (
               <TouchableOpacity
                 key={type}
                 style={[
@@ -787,6 +1016,82 @@ const createStyles = (colors: any) => StyleSheet.create({
   placeholderText: {
     color: colors.textTertiary,
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  optionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  optionChipTextActive: {
+    color: '#FFFFFF',
+  },
+  progressionDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  toggleLabel: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  repRangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  repRangeInput: {
+    flex: 1,
+    textAlign: 'center',
+  },
+  overridesLabel: {
+    marginTop: 16,
+  },
+  overrideRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+    gap: 12,
+  },
+  overrideName: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 15,
+    color: colors.text,
+  },
+  overrideActive: {
+    color: colors.primary,
+    fontFamily: 'Inter-SemiBold',
+  },
   scheduleDescription: {
     fontFamily: 'Inter-Regular',
     fontSize: 14,
@@ -0,0 +1,748 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Plus, Minus, Trash2, Copy } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import {
+  TrainingProgram,
+  ProgramPhase,
+  ProgramType,
+  DifficultyLevel,
+  WorkoutTemplate,
+  WeeklySchedule,
+  DayOfWeek,
+} from '@/types/workout';
+import { saveProgram, getProgram, getTemplates } from '@/utils/storage';
+import { generateId, DIFFICULTY_LEVELS } from '@/utils/workoutUtils';
+import { PROGRESSION_DIRECTIONS, PROGRESSION_MODELS } from '@/utils/progression';
+import {
+  PROGRAM_TYPES,
+  createPhase,
+  createDefaultPhases,
+  getProgramDurationWeeks,
+} from '@/utils/programs';
+import { useUserRole } from '@/contexts/UserContext';
+
+const daysOfWeek: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const MAX_PHASE_WEEKS = 52;
+
+type DaySelection = { phaseId: string; weekIndex: number; day: DayOfWeek };
+
+export default function CreateProgramScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+  const { edit } = useLocalSearchParams();
+  const { profileId } = useUserRole();
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [programType, setProgramType] = useState<ProgramType>('strength');
+  const [difficulty, setDifficulty] = useState<DifficultyLevel>('intermediate');
+  const [phases, setPhases] = useState<ProgramPhase[]>(createDefaultPhases);
+  const [createdAt, setCreatedAt] = useState<string | null>(null);
+
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [selectedDay, setSelectedDay] = useState<DaySelection | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const isEditing = !!edit;
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setTemplates(await getTemplates());
+
+      if (isEditing) {
+        const program = await getProgram(edit as string);
+        if (program) {
+          setName(program.name);
+          setDescription(program.description ?? '');
+          setProgramType(program.programType);
+          setDifficulty(program.difficulty);
+          setPhases(program.phases);
+          setCreatedAt(program.createdAt);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading program:', error);
+      Alert.alert('Error', 'Failed to load program');
+    }
+  };
+
+  const getTemplateName = (templateId: string | null | undefined): string => {
+    if (!templateId) return 'Rest';
+    return templates.find(template => template.id === templateId)?.name || 'Unknown';
+  };
+
+  // Phases
+  const updatePhase = (phaseId: string, change: (phase: ProgramPhase) => ProgramPhase) => {
+    setPhases(prev => prev.map(phase => (phase.id === phaseId ? change(phase) : phase)));
+  };
+
+  const addPhase = () => {
+    setPhases(prev => [...prev, createPhase(`Phase ${prev.length + 1}`, 4)]);
+  };
+
+  const removePhase = (phaseId: string) => {
+    setPhases(prev => prev.filter(phase => phase.id !== phaseId));
+  };
+
+  // Fewer weeks than the phase lasts cycle, more than it lasts would never be reached
+  const changeDuration = (phase: ProgramPhase, delta: number) => {
+    const durationWeeks = Math.min(Math.max(phase.durationWeeks + delta, 1), MAX_PHASE_WEEKS);
+    updatePhase(phase.id, current => ({
+      ...current,
+      durationWeeks,
+      weeks: current.weeks.slice(0, durationWeeks),
+    }));
+  };
+
+  const addWeek = (phase: ProgramPhase) => {
+    updatePhase(phase.id, current => ({ ...current, weeks: [...current.weeks, { ...current.weeks[current.weeks.length - 1] }] }));
+  };
+
+  const removeWeek = (phase: ProgramPhase, weekIndex: number) => {
+    updatePhase(phase.id, current => ({ ...current, weeks: current.weeks.filter((_, index) => index !== weekIndex) }));
+  };
+
+  const copyWeekToAll = (phase: ProgramPhase, weekIndex: number) => {
+    updatePhase(phase.id, current => ({ ...current, weeks: current.weeks.map(() => ({ ...current.weeks[weekIndex] })) }));
+  };
+
+  const handleTemplateSelect = (template: WorkoutTemplate | null) => {
+    if (selectedDay) {
+      const { phaseId, weekIndex, day } = selectedDay;
+      updatePhase(phaseId, phase => ({
+        ...phase,
+        weeks: phase.weeks.map((week, index): WeeklySchedule => (
+          index === weekIndex ? { ...week, [day]: template?.id || null } : week
+        )),
+      }));
+    }
+    setSelectedDay(null);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      Alert.alert('Error', 'Please enter a program name');
+      return;
+    }
+
+    if (phases.length === 0) {
+      Alert.alert('Error', 'Please add at least one phase');
+      return;
+    }
+
+    const emptyPhase = phases.find(phase => !phase.weeks.some(week => Object.values(week).some(Boolean)));
+    if (emptyPhase) {
+      Alert.alert('Error', `${emptyPhase.name || 'Each phase'} needs at least one workout`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const now = new Date().toISOString();
+      const program: TrainingProgram = {
+        id: isEditing ? (edit as string) : generateId(),
+        name: name.trim(),
+        description: description.trim() || undefined,
+        programType,
+        difficulty,
+        phases: phases.map(phase => ({ ...phase, name: phase.name.trim() || 'Phase' })),
+        createdBy: profileId ?? 'current-user',
+        createdAt: createdAt ?? now,
+        updatedAt: now,
+      };
+
+      await saveProgram(program);
+      Alert.alert(
+        'Success',
+        `Program ${isEditing ? 'updated' : 'created'} successfully!`,
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error saving program:', error);
+      Alert.alert('Error', 'Failed to save program');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderWeek = (phase: ProgramPhase, week: WeeklySchedule, weekIndex: number) => (
+    <View key={weekIndex} style={styles.weekContainer}>
+      <View style={styles.weekHeader}>
+        <Text style={styles.weekTitle}>
+          {phase.weeks.length > 1 ? `Week ${weekIndex + 1}` : 'Every week'}
+        </Text>
+        {phase.weeks.length > 1 && (
+          <View style={styles.weekActions}>
+            <TouchableOpacity style={styles.weekActionButton} onPress={() => copyWeekToAll(phase, weekIndex)}>
+              <Copy size={14} color={colors.primary} />
+              <Text style={styles.weekActionText}>Copy to All</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.weekActionButton} onPress={() => removeWeek(phase, weekIndex)}>
+              <Trash2 size={14} color={colors.error} />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+      <View style={styles.weekGrid}>
+        {daysOfWeek.map(day => {
+          const hasWorkout = !!week[day];
+          return (
+            <TouchableOpacity
+              key={day}
+              style={[styles.dayCard, hasWorkout ? styles.activeDayCard : styles.restDayCard]}
+              onPress={() => setSelectedDay({ phaseId: phase.id, weekIndex, day })}
+            >
+              <Text style={[styles.dayName, hasWorkout && styles.activeDayName]}>{day.slice(0, 3)}</Text>
+              <Text style={styles.dayTemplate} numberOfLines={1}>{getTemplateName(week[day])}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+
+  const renderPhase = (phase: ProgramPhase, index: number) => {
+    const model = phase.progression?.model ?? 'linear';
+    return (
+      <View key={phase.id} style={styles.phaseCard}>
+        <View style={styles.phaseHeader}>
+          <Text style={styles.phaseNumber}>{index + 1}</Text>
+          <TextInput
+            style={styles.phaseName}
+            value={phase.name}
+            onChangeText={text => updatePhase(phase.id, current => ({ ...current, name: text }))}
+            placeholder="Phase name"
+            placeholderTextColor={colors.textTertiary}
+          />
+          <TouchableOpacity style={styles.iconButton} onPress={() => removePhase(phase.id)}>
+            <Trash2 size={16} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.durationRow}>
+          <Text style={styles.fieldLabel}>Duration</Text>
+          <View style={styles.stepper}>
+            <TouchableOpacity style={styles.iconButton} onPress={() => changeDuration(phase, -1)}>
+              <Minus size={16} color={colors.text} />
+            </TouchableOpacity>
+            <Text style={styles.stepperValue}>
+              {phase.durationWeeks} {phase.durationWeeks === 1 ? 'week' : 'weeks'}
+            </Text>
+            <TouchableOpacity style={styles.iconButton} onPress={() => changeDuration(phase, 1)}>
+              <Plus size={16} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <Text style={styles.fieldLabel}>Difficulty</Text>
+        <View style={styles.optionRow}>
+          {PROGRESSION_DIRECTIONS.map(option => {
+            const active = (phase.difficultyProgression ?? 'maintain') === option.value;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionChip, active && styles.optionChipActive]}
+                onPress={() => updatePhase(phase.id, current => ({ ...current, difficultyProgression: option.value }))}
+              >
+                <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={styles.fieldLabel}>Method</Text>
+        <View style={styles.optionRow}>
+          {PROGRESSION_MODELS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.optionChip, model === option.value && styles.optionChipActive]}
+              onPress={() => updatePhase(phase.id, current => ({
+                ...current,
+                progression: { ...current.progression, model: option.value },
+              }))}
+            >
+              <Text style={[styles.optionChipText, model === option.value && styles.optionChipTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {phase.weeks.map((week, weekIndex) => renderWeek(phase, week, weekIndex))}
+        {phase.weeks.length < phase.durationWeeks && (
+          <TouchableOpacity style={styles.addWeekButton} onPress={() => addWeek(phase)}>
+            <Plus size={14} color={colors.primary} />
+            <Text style={styles.addWeekText}>Add a different week</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.title}>{isEditing ? 'Edit Program' : 'Create Program'}</Text>
+        <TouchableOpacity
+          style={[styles.saveButton, loading && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={loading}
+        >
+          <Text style={styles.saveButtonText}>{loading ? 'Saving...' : 'Save'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Program Information */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Program Information</Text>
+
+          <View style={styles.formField}>
+            <Text style={styles.fieldLabel}>Program Name *</Text>
+            <TextInput
+              style={styles.textInput}
+              value={name}
+              onChangeText={setName}
+              placeholder="e.g. 8 Week Strength Block"
+              placeholderTextColor={colors.textTertiary}
+            />
+          </View>
+
+          <View style={styles.formField}>
+            <Text style={styles.fieldLabel}>Description</Text>
+            <TextInput
+              style={[styles.textInput, styles.textArea]}
+              value={description}
+              onChangeText={setDescription}
+              placeholder="What the program is for"
+              placeholderTextColor={colors.textTertiary}
+              multiline
+            />
+          </View>
+
+          <Text style={styles.fieldLabel}>Goal</Text>
+          <View style={styles.optionRow}>
+            {PROGRAM_TYPES.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionChip, programType === option.value && styles.optionChipActive]}
+                onPress={() => setProgramType(option.value)}
+              >
+                <Text style={[styles.optionChipText, programType === option.value && styles.optionChipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.fieldLabel}>Level</Text>
+          <View style={styles.optionRow}>
+            {DIFFICULTY_LEVELS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.optionChip, difficulty === option.value && styles.optionChipActive]}
+                onPress={() => setDifficulty(option.value)}
+              >
+                <Text style={[styles.optionChipText, difficulty === option.value && styles.optionChipTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        {/* Phases */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Phases • {getProgramDurationWeeks({ phases })} weeks</Text>
+          <Text style={styles.sectionSubtitle}>
+            Phases run one after the other. Within a phase its weeks repeat until the phase is over.
+          </Text>
+
+          {phases.map(renderPhase)}
+
+          <TouchableOpacity style={styles.addPhaseButton} onPress={addPhase}>
+            <Plus size={16} color={colors.primary} />
+            <Text style={styles.addPhaseText}>Add Phase</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={{ height: 100 }} />
+      </ScrollView>
+
+      {/* Template Picker Modal */}
+      <Modal
+        visible={!!selectedDay}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setSelectedDay(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHandle} />
+          <Text style={styles.modalTitle}>Select Template</Text>
+
+          <ScrollView style={styles.templateList}>
+            <TouchableOpacity style={styles.templateOption} onPress={() => handleTemplateSelect(null)}>
+              <Text style={styles.templateOptionName}>Rest Day</Text>
+              <Text style={styles.templateOptionDescription}>No workout scheduled</Text>
+            </TouchableOpacity>
+
+            {templates.map(template => (
+              <TouchableOpacity
+                key={template.id}
+                style={styles.templateOption}
+                onPress={() => handleTemplateSelect(template)}
+              >
+                <Text style={styles.templateOptionName}>{template.name}</Text>
+                <Text style={styles.templateOptionDescription}>
+                  {template.exercises.length} exercises • {template.duration} min
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  saveButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+  },
+  section: {
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.borderLight,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  sectionSubtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 16,
+    lineHeight: 20,
+  },
+  formField: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  textInput: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  textArea: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+    backgroundColor: colors.surface,
+  },
+  optionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  optionChipTextActive: {
+    color: '#FFFFFF',
+  },
+  phaseCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  phaseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  phaseNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.primary,
+    color: '#FFFFFF',
+    fontFamily: 'Inter-Bold',
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 28,
+    overflow: 'hidden',
+  },
+  phaseName: {
+    flex: 1,
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  durationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  stepperValue: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+    minWidth: 64,
+    textAlign: 'center',
+  },
+  weekContainer: {
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  weekHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  weekTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  weekActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  weekActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  weekActionText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.primary,
+    marginLeft: 4,
+  },
+  weekGrid: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  dayCard: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 2,
+    borderWidth: 1,
+    minHeight: 56,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  activeDayCard: {
+    borderColor: colors.primary,
+    backgroundColor: `${colors.primary}10`,
+  },
+  restDayCard: {
+    borderColor: colors.border,
+  },
+  dayName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 10,
+    color: colors.text,
+    marginBottom: 4,
+  },
+  activeDayName: {
+    color: colors.primary,
+  },
+  dayTemplate: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 8,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  addWeekButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingVertical: 4,
+  },
+  addWeekText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.primary,
+  },
+  addPhaseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+  },
+  addPhaseText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  // Modal Styles
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    paddingTop: 20,
+    paddingHorizontal: 20,
+  },
+  modalHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: colors.border,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    textAlign: 'center',
+    marginBottom: 32,
+  },
+  templateList: {
+    flex: 1,
+  },
+  templateOption: {
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  templateOptionName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginBottom: 4,
+  },
+  templateOptionDescription: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
@@ -13,17 +13,32 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { 
   ArrowLeft, 
   Plus, 
-  Search,
   X,
   ChevronDown,
   Trash2,
-  GripVertical
+  GripVertical,
+  Minus,
+  Timer,
+  Link,
+  Unlink,
+  Replace
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router, useLocalSearchParams } from 'expo-router';
-import { WorkoutTemplate, Exercise, TemplateExercise } from '@/types/workout';
+import { WorkoutTemplate, Exercise, TemplateExercise, ExerciseGroup } from '@/types/workout';
 import { saveTemplate, getTemplate, getExercises } from '@/utils/storage';
-import { generateId } from '@/utils/workoutUtils';
+import { generateId, getRestTime } from '@/utils/workoutUtils';
+import {
+  getExerciseBlocks,
+  getGroupTypeLabel,
+  linkWithNext,
+  unlinkExercise,
+  updateExerciseGroup,
+  normalizeExerciseGroups,
+} from '@/utils/exerciseGroups';
+import { SubstituteExerciseModal } from '@/components/SubstituteExerciseModal';
+import { estimateTemplateMinutes } from '@/utils/templateAnalysis';
+import { ExercisePickerModal } from '@/components/ExercisePickerModal';
 
 const templateCategories = [
   'Strength',
@@ -38,6 +53,8 @@ const templateCategories = [
   'Lower Body',
 ];
 
+const REST_STEP_SECONDS = 15;
+
 export default function CreateTemplateScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
@@ -47,17 +64,19 @@ export default function CreateTemplateScreen() {
   const [templateName, setTemplateName] = useState('');
   const [templateDescription, setTemplateDescription] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
-  const [estimatedDuration, setEstimatedDuration] = useState('60');
+  const [estimatedDuration, setEstimatedDuration] = useState(''); // empty uses the estimate from the sets
   const [templateExercises, setTemplateExercises] = useState<TemplateExercise[]>([]);
+  const [groups, setGroups] = useState<ExerciseGroup[]>([]);
   
   const [exercises, setExercises] = useState<Exercise[]>([]);
   const [showExercisePicker, setShowExercisePicker] = useState(false);
+  const [substitutingId, setSubstitutingId] = useState<string | null>(null);
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
 
   const isEditing = !!edit;
   const isDuplicating = !!duplicate;
+  const computedDuration = estimateTemplateMinutes({ exercises: templateExercises, groups }) || 60;
 
   useEffect(() => {
     loadExercises();
@@ -85,6 +104,7 @@ export default function CreateTemplateScreen() {
         setSelectedCategory(template.category);
         setEstimatedDuration(template.duration.toString());
         setTemplateExercises(template.exercises);
+        setGroups(template.groups || []);
       }
     } catch (error) {
       console.error('Error loading template:', error);
@@ -97,21 +117,58 @@ export default function CreateTemplateScreen() {
       id: generateId(),
       exerciseId: exercise.id,
       exercise,
-      sets: [
-        { reps: 10, weight: 0, restTime: 60 },
-        { reps: 10, weight: 0, restTime: 60 },
-        { reps: 10, weight: 0, restTime: 60 },
-      ],
+      sets: exercise.defaultSets && exercise.defaultSets.length > 0
+        ? exercise.defaultSets.map(set => ({ ...set }))
+        : [
+          { reps: 10, weight: 0, restTime: 60 },
+          { reps: 10, weight: 0, restTime: 60 },
+          { reps: 10, weight: 0, restTime: 60 },
+        ],
       order: templateExercises.length,
+      restTime: exercise.defaultSets?.[0]?.restTime ?? 60,
     };
 
     setTemplateExercises(prev => [...prev, templateExercise]);
     setShowExercisePicker(false);
-    setSearchQuery('');
+  };
+
+  // The default applies to every set, the live rest timer starts from it
+  const handleChangeRest = (templateExerciseId: string, delta: number) => {
+    setTemplateExercises(prev => prev.map(ex => {
+      if (ex.id !== templateExerciseId) return ex;
+      const restTime = Math.max(0, getRestTime(ex) + delta);
+      return { ...ex, restTime, sets: ex.sets.map(set => ({ ...set, restTime })) };
+    }));
+  };
+
+  // Sets, rest and grouping stay as they were, only the exercise changes
+  const handleSubstituteExercise = (exercise: Exercise) => {
+    setTemplateExercises(prev => prev.map(ex =>
+      ex.id === substitutingId ? { ...ex, exerciseId: exercise.id, exercise } : ex
+    ));
+    setSubstitutingId(null);
   };
 
   const handleRemoveExercise = (exerciseId: string) => {
-    setTemplateExercises(prev => prev.filter(ex => ex.id !== exerciseId));
+    applyGrouping(normalizeExerciseGroups(templateExercises.filter(ex => ex.id !== exerciseId), groups));
+  };
+
+  // Grouping
+  const applyGrouping = (result: { exercises: TemplateExercise[]; groups: ExerciseGroup[] }) => {
+    setTemplateExercises(result.exercises);
+    setGroups(result.groups);
+  };
+
+  const handleLinkWithNext = (index: number) => {
+    applyGrouping(linkWithNext(templateExercises, groups, index));
+  };
+
+  const handleUnlink = (templateExerciseId: string) => {
+    applyGrouping(unlinkExercise(templateExercises, groups, templateExerciseId));
+  };
+
+  const handleUpdateGroup = (groupId: number, change: Partial<Omit<ExerciseGroup, 'id'>>) => {
+    applyGrouping(updateExerciseGroup(templateExercises, groups, groupId, change));
   };
 
   const handleSaveTemplate = async () => {
@@ -137,8 +194,9 @@ export default function CreateTemplateScreen() {
         name: templateName.trim(),
         description: templateDescription.trim() || undefined,
         category: selectedCategory,
-        duration: parseInt(estimatedDuration) || 60,
+        duration: parseInt(estimatedDuration) || computedDuration,
         exercises: templateExercises,
+        groups: groups.length > 0 ? groups : undefined,
         createdBy: 'current-user', // TODO: Get from user context
         createdAt: isEditing ? new Date().toISOString() : new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -159,12 +217,6 @@ export default function CreateTemplateScreen() {
     }
   };
 
-  const filteredExercises = exercises.filter(exercise =>
-    exercise.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    exercise.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    exercise.muscleGroups.some(mg => mg.toLowerCase().includes(searchQuery.toLowerCase()))
-  );
-
   const renderExerciseCard = (templateExercise: TemplateExercise, index: number) => (
     <View key={templateExercise.id} style={styles.exerciseCard}>
       <View style={styles.exerciseHeader}>
@@ -175,22 +227,127 @@ export default function CreateTemplateScreen() {
             {templateExercise.exercise.muscleGroups.join(', ')}
           </Text>
         </View>
-        <TouchableOpacity
-          style={styles.removeButton}
-          onPress={() => handleRemoveExercise(templateExercise.id)}
-        >
-          <Trash2 size={16} color={colors.error} />
-        </TouchableOpacity>
+        <View style={styles.exerciseActions}>
+          {templateExercise.supersetGroup !== undefined && (
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => handleUnlink(templateExercise.id)}
+            >
+              <Unlink size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => setSubstitutingId(templateExercise.id)}
+          >
+            <Replace size={16} color={colors.textSecondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.removeButton}
+            onPress={() => handleRemoveExercise(templateExercise.id)}
+          >
+            <Trash2 size={16} color={colors.error} />
+          </TouchableOpacity>
+        </View>
       </View>
       
       <View style={styles.setsInfo}>
         <Text style={styles.setsText}>
           {templateExercise.sets.length} sets • {templateExercise.sets[0]?.reps || 0} reps each
         </Text>
+        {templateExercise.supersetGroup === undefined && (
+          <View style={styles.restControl}>
+            <TouchableOpacity
+              style={styles.restButton}
+              onPress={() => handleChangeRest(templateExercise.id, -REST_STEP_SECONDS)}
+            >
+              <Minus size={14} color={colors.textSecondary} />
+            </TouchableOpacity>
+            <Timer size={14} color={colors.textSecondary} />
+            <Text style={styles.restText}>{getRestTime(templateExercise)}s rest</Text>
+            <TouchableOpacity
+              style={styles.restButton}
+              onPress={() => handleChangeRest(templateExercise.id, REST_STEP_SECONDS)}
+            >
+              <Plus size={14} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
     </View>
   );
 
+  const renderGroupHeader = (group: ExerciseGroup) => (
+    <View style={styles.groupHeader}>
+      <TouchableOpacity
+        style={[styles.groupTypeChip, group.type === 'circuit' && styles.groupTypeChipActive]}
+        onPress={() => handleUpdateGroup(group.id, { type: group.type === 'circuit' ? 'superset' : 'circuit' })}
+      >
+        <Text style={[styles.groupTypeText, group.type === 'circuit' && styles.groupTypeTextActive]}>
+          {getGroupTypeLabel(group.type)}
+        </Text>
+      </TouchableOpacity>
+      <View style={styles.restControl}>
+        <TouchableOpacity
+          style={styles.restButton}
+          onPress={() => handleUpdateGroup(group.id, { rounds: Math.max(1, group.rounds - 1) })}
+        >
+          <Minus size={14} color={colors.textSecondary} />
+        </TouchableOpacity>
+        <Text style={styles.restText}>{group.rounds} rounds</Text>
+        <TouchableOpacity
+          style={styles.restButton}
+          onPress={() => handleUpdateGroup(group.id, { rounds: group.rounds + 1 })}
+        >
+          <Plus size={14} color={colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.restControl}>
+        <TouchableOpacity
+          style={styles.restButton}
+          onPress={() => handleUpdateGroup(group.id, { restTime: Math.max(0, group.restTime - REST_STEP_SECONDS) })}
+        >
+          <Minus size={14} color={colors.textSecondary} />
+        </TouchableOpacity>
+        <Text style={styles.restText}>{group.restTime}s</Text>
+        <TouchableOpacity
+          style={styles.restButton}
+          onPress={() => handleUpdateGroup(group.id, { restTime: group.restTime + REST_STEP_SECONDS })}
+        >
+          <Plus size={14} color={colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderExerciseList = () => {
+    const indexed = templateExercises.map((templateExercise, index) => ({ templateExercise, index }));
+    const blocks = getExerciseBlocks(indexed, item => item.templateExercise.supersetGroup, groups);
+
+    return blocks.map((block, blockIndex) => {
+      const lastItem = block.items[block.items.length - 1];
+      const canLink = blockIndex < blocks.length - 1;
+      const cards = block.items.map(item => renderExerciseCard(item.templateExercise, item.index));
+
+      return (
+        <View key={block.items[0].templateExercise.id}>
+          {block.group ? (
+            <View style={styles.groupContainer}>
+              {renderGroupHeader(block.group)}
+              {cards}
+            </View>
+          ) : cards}
+          {canLink && (
+            <TouchableOpacity style={styles.linkButton} onPress={() => handleLinkWithNext(lastItem.index)}>
+              <Link size={14} color={colors.primary} />
+              <Text style={styles.linkButtonText}>Group with next</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    });
+  };
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       {/* Header */}
@@ -264,10 +421,13 @@ export default function CreateTemplateScreen() {
                 style={styles.textInput}
                 value={estimatedDuration}
                 onChangeText={setEstimatedDuration}
-                placeholder="60"
+                placeholder={computedDuration.toString()}
                 placeholderTextColor={colors.textTertiary}
                 keyboardType="numeric"
               />
+              {templateExercises.length > 0 && (
+                <Text style={styles.fieldHint}>Estimated {computedDuration} min from sets and rest</Text>
+              )}
             </View>
           </View>
         </View>
@@ -296,7 +456,7 @@ export default function CreateTemplateScreen() {
               </TouchableOpacity>
             </View>
           ) : (
-            templateExercises.map(renderExerciseCard)
+            renderExerciseList()
           )}
         </View>
 
@@ -346,71 +506,27 @@ export default function CreateTemplateScreen() {
         </SafeAreaView>
       </Modal>
 
-      {/* Exercise Picker Modal */}
-      <Modal
+      <ExercisePickerModal
         visible={showExercisePicker}
-        animationType="slide"
-        presentationStyle="pageSheet"
-        onRequestClose={() => setShowExercisePicker(false)}
-      >
-        <SafeAreaView style={styles.modalContainer}>
-          <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Add Exercise</Text>
-            <TouchableOpacity onPress={() => setShowExercisePicker(false)}>
-              <X size={24} color={colors.text} />
-            </TouchableOpacity>
-          </View>
-          
-          {/* Search */}
-          <View style={styles.searchContainer}>
-            <Search size={20} color={colors.textTertiary} style={styles.searchIcon} />
-            <TextInput
-              style={styles.searchInput}
-              placeholder="Search exercises..."
-              placeholderTextColor={colors.textTertiary}
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-            />
-          </View>
+        exercises={exercises}
+        onSelect={handleAddExercise}
+        onClose={() => setShowExercisePicker(false)}
+        onCreateExercise={() => {
+          setShowExercisePicker(false);
+          router.push('/create-exercise');
+        }}
+        colors={colors}
+      />
 
-          <ScrollView style={styles.exerciseList}>
-            {filteredExercises.length === 0 ? (
-              <View style={styles.emptyExerciseList}>
-                <Text style={styles.emptyExerciseListText}>
-                  {searchQuery ? 'No exercises found' : 'No exercises available'}
-                </Text>
-                <TouchableOpacity
-                  style={styles.createExerciseButton}
-                  onPress={() => {
-                    setShowExercisePicker(false);
-                    router.push('/create-exercise');
-                  }}
-                >
-                  <Plus size={16} color={colors.primary} />
-                  <Text style={styles.createExerciseText}>Create New Exercise</Text>
-                </TouchableOpacity>
-              </View>
-            ) : (
-              filteredExercises.map((exercise) => (
-                <TouchableOpacity
-                  key={exercise.id}
-                  style={styles.exerciseOption}
-                  onPress={() => handleAddExercise(exercise)}
-                >
-                  <View style={styles.exerciseOptionInfo}>
-                    <Text style={styles.exerciseOptionName}>{exercise.name}</Text>
-                    <Text style={styles.exerciseOptionCategory}>{exercise.category}</Text>
-                    <Text style={styles.exerciseOptionMuscles}>
-                      {exercise.muscleGroups.join(', ')}
-                    </Text>
-                  </View>
-                  <Plus size={20} color={colors.primary} />
-                </TouchableOpacity>
-              ))
-            )}
-          </ScrollView>
-        </SafeAreaView>
-      </Modal>
+      <SubstituteExerciseModal
+        visible={substitutingId !== null}
+        exercise={templateExercises.find(ex => ex.id === substitutingId)?.exercise ?? null}
+        library={exercises}
+        excludeIds={templateExercises.map(ex => ex.exerciseId)}
+        onSelect={handleSubstituteExercise}
+        onClose={() => setSubstitutingId(null)}
+        colors={colors}
+      />
     </SafeAreaView>
   );
 }
@@ -483,6 +599,12 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.text,
     marginBottom: 8,
   },
+  fieldHint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
   textInput: {
     fontFamily: 'Inter-Regular',
     fontSize: 16,
@@ -611,12 +733,81 @@ const createStyles = (colors: any) => StyleSheet.create({
   },
   setsInfo: {
     marginTop: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
   },
   setsText: {
     fontFamily: 'Inter-Regular',
     fontSize: 14,
     color: colors.textSecondary,
   },
+  exerciseActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  groupContainer: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+    paddingLeft: 12,
+    marginBottom: 4,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+    gap: 8,
+  },
+  groupTypeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: colors.surfaceSecondary,
+  },
+  groupTypeChipActive: {
+    backgroundColor: colors.primary,
+  },
+  groupTypeText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: colors.text,
+  },
+  groupTypeTextActive: {
+    color: '#FFFFFF',
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 4,
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  linkButtonText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.primary,
+  },
+  restControl: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  restButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  restText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
   modalContainer: {
     flex: 1,
     backgroundColor: colors.background,
@@ -667,83 +858,4 @@ const createStyles = (colors: any) => StyleSheet.create({
     fontSize: 16,
     color: colors.primary,
   },
-  searchContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: colors.surfaceSecondary,
-    borderRadius: 12,
-    marginHorizontal: 20,
-    marginBottom: 16,
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-  },
-  searchIcon: {
-    marginRight: 12,
-  },
-  searchInput: {
-    flex: 1,
-    fontFamily: 'Inter-Regular',
-    fontSize: 16,
-    color: colors.text,
-  },
-  exerciseList: {
-    flex: 1,
-    paddingHorizontal: 20,
-  },
-  emptyExerciseList: {
-    alignItems: 'center',
-    paddingVertical: 40,
-  },
-  emptyExerciseListText: {
-    fontFamily: 'Inter-Regular',
-    fontSize: 16,
-    color: colors.textSecondary,
-    marginBottom: 16,
-  },
-  createExerciseButton: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: colors.surfaceSecondary,
-    borderRadius: 8,
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    borderWidth: 1,
-    borderColor: colors.primary,
-    borderStyle: 'dashed',
-  },
-  createExerciseText: {
-    fontFamily: 'Inter-SemiBold',
-    fontSize: 14,
-    color: colors.primary,
-    marginLeft: 8,
-  },
-  exerciseOption: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    backgroundColor: colors.surface,
-    borderRadius: 12,
-    padding: 16,
-    marginBottom: 8,
-  },
-  exerciseOptionInfo: {
-    flex: 1,
-  },
-  exerciseOptionName: {
-    fontFamily: 'Inter-SemiBold',
-    fontSize: 16,
-    color: colors.text,
-    marginBottom: 4,
-  },
-  exerciseOptionCategory: {
-    fontFamily: 'Inter-Medium',
-    fontSize: 12,
-    color: colors.primary,
-    marginBottom: 2,
-  },
-  exerciseOptionMuscles: {
-    fontFamily: 'Inter-Regular',
-    fontSize: 12,
-    color: colors.textSecondary,
-  },
 });
\ No newline at end of file
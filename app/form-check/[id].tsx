@@ -0,0 +1,399 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Send, CloudOff } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { FormCheckVideo, FormCheckComment, Client, SELF_CLIENT_ID } from '@/types/workout';
+import { getFormCheck, saveFormCheck, getClients } from '@/utils/storage';
+import {
+  FORM_RATINGS,
+  addFormCheckComment,
+  removeFormCheckComment,
+  rateFormCheck,
+  describeFormCheckSet,
+  formatVideoTime,
+} from '@/utils/formChecks';
+import { formatDate } from '@/utils/workoutUtils';
+import { getFormCheckVideoUrl } from '@/lib/database';
+import { useUserRole, useUnitSystem } from '@/contexts/UserContext';
+import { useSync } from '@/hooks/useSync';
+import { FormCheckPlayer } from '@/components/FormCheckPlayer';
+
+export default function FormCheckScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { userRole, profileId } = useUserRole();
+  const { unitSystem } = useUnitSystem();
+  const { lastReport } = useSync();
+  const isTrainer = userRole === 'trainer';
+  const authorId = profileId ?? SELF_CLIENT_ID;
+
+  const [formCheck, setFormCheck] = useState<FormCheckVideo | null>(null);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [videoUri, setVideoUri] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [seekRequest, setSeekRequest] = useState<{ seconds: number; requestedAt: number }>();
+  const [commentText, setCommentText] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadFormCheck();
+  }, [id]);
+
+  useEffect(() => {
+    // Comments and ratings from the other side arrive with a sync
+    if (lastReport && lastReport.pulled > 0) {
+      loadFormCheck();
+    }
+  }, [lastReport]);
+
+  const loadFormCheck = async () => {
+    try {
+      const [formCheckData, clientData] = await Promise.all([getFormCheck(id), getClients()]);
+      setFormCheck(formCheckData);
+      setClients(clientData);
+
+      // The recording device plays its own copy, everyone else streams the upload
+      if (formCheckData?.localUri) {
+        setVideoUri(formCheckData.localUri);
+      } else if (formCheckData?.storagePath) {
+        setVideoUri(await getFormCheckVideoUrl(formCheckData.storagePath));
+      }
+    } catch (error) {
+      console.error('Error loading form check:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = async (updated: FormCheckVideo) => {
+    const previous = formCheck;
+    setFormCheck(updated);
+    try {
+      await saveFormCheck(updated);
+    } catch (error) {
+      console.error('Error saving form check:', error);
+      setFormCheck(previous);
+      Alert.alert('Error', 'Failed to save your review');
+    }
+  };
+
+  const handleAddComment = async () => {
+    if (!formCheck || !commentText.trim()) return;
+    await update(addFormCheckComment(formCheck, commentText, currentTime, authorId));
+    setCommentText('');
+  };
+
+  const handleDeleteComment = (comment: FormCheckComment) => {
+    if (!formCheck || comment.authorId !== authorId) return;
+    Alert.alert('Delete Comment', comment.text, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => update(removeFormCheckComment(formCheck, comment.id)) },
+    ]);
+  };
+
+  const getAuthorName = (comment: FormCheckComment) => {
+    if (comment.authorId === authorId) return 'You';
+    if (isTrainer) return clients.find(client => client.id === comment.authorId)?.name ?? 'Client';
+    return 'Trainer';
+  };
+
+  if (!formCheck) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+            <ArrowLeft size={24} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Form Check</Text>
+          <View style={styles.headerButton} />
+        </View>
+        <Text style={[styles.emptyText, styles.content]}>{loading ? 'Loading...' : 'Form check not found'}</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const clientName = clients.find(client => client.id === formCheck.clientId)?.name;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Form Check</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {/* Session */}
+        <Text style={styles.exerciseName}>{formCheck.exerciseName} • Set {formCheck.setNumber}</Text>
+        <Text style={styles.metaText}>
+          {isTrainer && clientName ? `${clientName} • ` : ''}{formatDate(formCheck.sessionDate)}
+        </Text>
+        <Text style={styles.setText}>{describeFormCheckSet(formCheck.set, unitSystem)}</Text>
+
+        {/* Video */}
+        <View style={styles.playerContainer}>
+          {videoUri ? (
+            <FormCheckPlayer
+              uri={videoUri}
+              seekRequest={seekRequest}
+              onTimeUpdate={setCurrentTime}
+              onDuration={setDuration}
+              colors={colors}
+            />
+          ) : (
+            <View style={styles.noVideo}>
+              <CloudOff size={32} color={colors.textTertiary} />
+              <Text style={styles.emptyText}>
+                {formCheck.storagePath ? 'The video could not be loaded' : 'The video has not been uploaded yet'}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Rating */}
+        <Text style={styles.sectionTitle}>Form Rating</Text>
+        <View style={styles.ratingRow}>
+          {FORM_RATINGS.map(rating => (
+            <TouchableOpacity
+              key={rating.value}
+              style={[styles.ratingChip, formCheck.formRating === rating.value && styles.optionChipActive]}
+              onPress={() => update(rateFormCheck(formCheck, rating.value))}
+              disabled={!isTrainer}
+            >
+              <Text style={[styles.ratingValue, formCheck.formRating === rating.value && styles.optionChipTextActive]}>
+                {rating.value}
+              </Text>
+              <Text style={[styles.ratingLabel, formCheck.formRating === rating.value && styles.optionChipTextActive]}>
+                {rating.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {!isTrainer && formCheck.formRating === undefined && (
+          <Text style={styles.emptyText}>Your trainer hasn't rated this set yet.</Text>
+        )}
+
+        {/* Comments */}
+        <Text style={styles.sectionTitle}>Comments</Text>
+        {formCheck.comments.length === 0 && (
+          <Text style={styles.emptyText}>
+            Pause the video where something stands out and leave a comment, it is pinned to that moment.
+          </Text>
+        )}
+        {formCheck.comments.map(comment => (
+          <TouchableOpacity
+            key={comment.id}
+            style={styles.comment}
+            onPress={() => setSeekRequest({ seconds: comment.timestampSeconds, requestedAt: Date.now() })}
+            onLongPress={() => handleDeleteComment(comment)}
+          >
+            <View style={styles.timestampChip}>
+              <Text style={styles.timestampText}>{formatVideoTime(comment.timestampSeconds)}</Text>
+            </View>
+            <View style={styles.commentBody}>
+              <Text style={styles.commentAuthor}>{getAuthorName(comment)}</Text>
+              <Text style={styles.commentText}>{comment.text}</Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+
+        <View style={styles.commentInputRow}>
+          <View style={styles.timestampChip}>
+            <Text style={styles.timestampText}>
+              {formatVideoTime(currentTime)}{duration ? ` / ${formatVideoTime(duration)}` : ''}
+            </Text>
+          </View>
+          <TextInput
+            style={styles.commentInput}
+            value={commentText}
+            onChangeText={setCommentText}
+            placeholder="Add a comment at this moment..."
+            placeholderTextColor={colors.textTertiary}
+            multiline
+          />
+          <TouchableOpacity onPress={handleAddComment} disabled={!commentText.trim()}>
+            <Send size={20} color={commentText.trim() ? colors.primary : colors.textTertiary} />
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  exerciseName: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  metaText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  setText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.primary,
+    marginTop: 4,
+  },
+  playerContainer: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  noVideo: {
+    width: '100%',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 48,
+    borderRadius: 12,
+    backgroundColor: colors.surfaceSecondary,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  ratingRow: {
+    flexDirection: 'row',
+    gap: 6,
+    marginBottom: 8,
+  },
+  ratingChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 12,
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  optionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionChipTextActive: {
+    color: '#FFFFFF',
+  },
+  ratingValue: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  ratingLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 10,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  comment: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  timestampChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceSecondary,
+  },
+  timestampText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: colors.primary,
+  },
+  commentBody: {
+    flex: 1,
+  },
+  commentAuthor: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: colors.text,
+  },
+  commentText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.text,
+    marginTop: 2,
+  },
+  commentInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 8,
+    marginBottom: 40,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  commentInput: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.text,
+    maxHeight: 100,
+  },
+});
@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Video, MessageSquare, ChevronRight, CloudOff } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { FormCheckVideo, Client } from '@/types/workout';
+import { getFormChecks, getClientFormChecks, getClients } from '@/utils/storage';
+import { getFormRatingLabel, isFormCheckReviewed, describeFormCheckSet } from '@/utils/formChecks';
+import { formatDate } from '@/utils/workoutUtils';
+import { useUserRole, useUnitSystem } from '@/contexts/UserContext';
+import { useSync } from '@/hooks/useSync';
+
+type FormCheckFilter = 'toReview' | 'all';
+
+const FORM_CHECK_FILTERS: { value: FormCheckFilter; label: string }[] = [
+  { value: 'toReview', label: 'To Review' },
+  { value: 'all', label: 'All' },
+];
+
+export default function FormChecksScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+  const { clientId } = useLocalSearchParams<{ clientId?: string }>();
+  const { userRole } = useUserRole();
+  const { unitSystem } = useUnitSystem();
+  const { lastReport } = useSync();
+  const isTrainer = userRole === 'trainer';
+
+  const [formChecks, setFormChecks] = useState<FormCheckVideo[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [filter, setFilter] = useState<FormCheckFilter>(isTrainer ? 'toReview' : 'all');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadFormChecks();
+  }, [clientId]);
+
+  useEffect(() => {
+    // Videos from clients and reviews from trainers arrive with a sync
+    if (lastReport && lastReport.pulled > 0) {
+      loadFormChecks();
+    }
+  }, [lastReport]);
+
+  const loadFormChecks = async () => {
+    try {
+      const [formCheckData, clientData] = await Promise.all([
+        clientId ? getClientFormChecks(clientId) : getFormChecks(),
+        getClients(),
+      ]);
+      setFormChecks(formCheckData.sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+      setClients(clientData);
+    } catch (error) {
+      console.error('Error loading form checks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getClientName = (id: string) => {
+    return clients.find(client => client.id === id)?.name ?? 'Client';
+  };
+
+  const visible = filter === 'toReview' ? formChecks.filter(formCheck => !isFormCheckReviewed(formCheck)) : formChecks;
+
+  const renderFormCheck = (formCheck: FormCheckVideo) => (
+    <TouchableOpacity
+      key={formCheck.id}
+      style={styles.card}
+      onPress={() => router.push(`/form-check/${formCheck.id}`)}
+    >
+      <View style={styles.iconContainer}>
+        <Video size={20} color={colors.primary} />
+      </View>
+      <View style={styles.cardInfo}>
+        <Text style={styles.exerciseName}>
+          {formCheck.exerciseName} • Set {formCheck.setNumber}
+        </Text>
+        <Text style={styles.cardMeta} numberOfLines={1}>
+          {isTrainer && !clientId ? `${getClientName(formCheck.clientId)} • ` : ''}
+          {formatDate(formCheck.sessionDate)} • {describeFormCheckSet(formCheck.set, unitSystem)}
+        </Text>
+        <View style={styles.statusRow}>
+          <Text style={[styles.statusText, formCheck.formRating !== undefined && { color: colors.success }]}>
+            {formCheck.formRating !== undefined
+              ? `${formCheck.formRating}/5 ${getFormRatingLabel(formCheck.formRating)}`
+              : 'Awaiting review'}
+          </Text>
+          {formCheck.comments.length > 0 && (
+            <View style={styles.commentCount}>
+              <MessageSquare size={12} color={colors.textSecondary} />
+              <Text style={styles.statusText}>{formCheck.comments.length}</Text>
+            </View>
+          )}
+          {!formCheck.storagePath && (
+            <View style={styles.commentCount}>
+              <CloudOff size={12} color={colors.textTertiary} />
+              <Text style={styles.statusText}>Not uploaded</Text>
+            </View>
+          )}
+        </View>
+      </View>
+      <ChevronRight size={18} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>
+          {clientId ? `${getClientName(clientId)}'s Form Checks` : 'Form Checks'}
+        </Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <View style={styles.filters}>
+        {FORM_CHECK_FILTERS.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.optionChip, filter === option.value && styles.optionChipActive]}
+            onPress={() => setFilter(option.value)}
+          >
+            <Text style={[styles.optionChipText, filter === option.value && styles.optionChipTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {visible.length === 0 && (
+          <Text style={styles.emptyText}>
+            {loading
+              ? 'Loading...'
+              : isTrainer
+                ? 'No form checks to review. Videos your clients attach to their sets show up here.'
+                : 'No form checks yet. Tap the camera next to a completed set to record one for your trainer.'}
+          </Text>
+        )}
+        {visible.map(renderFormCheck)}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  filters: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  optionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.text,
+  },
+  optionChipTextActive: {
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  iconContainer: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  exerciseName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  cardMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 6,
+  },
+  statusText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  commentCount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+});
@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, CalendarX, CalendarCheck, ChevronRight } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router } from 'expo-router';
+import { WorkoutPlan, Client } from '@/types/workout';
+import { getPlans, getClients } from '@/utils/storage';
+import { getLoggedSessions, PlannedSessionStatus } from '@/utils/planCalendar';
+import { getMissedWorkoutHistory, describeAdjustment, MissedWorkoutRecord } from '@/utils/missedWorkouts';
+
+type PlanHistory = { plan: WorkoutPlan; records: MissedWorkoutRecord[] };
+
+export default function MissedWorkoutsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+
+  const [history, setHistory] = useState<PlanHistory[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const loadHistory = async () => {
+    try {
+      const [plans, clientData] = await Promise.all([getPlans(), getClients()]);
+      const planHistory: PlanHistory[] = [];
+      for (const plan of plans.filter(item => (item.adjustments || []).length > 0)) {
+        const sessions = await getLoggedSessions(plan.clientId);
+        planHistory.push({ plan, records: getMissedWorkoutHistory(plan, sessions) });
+      }
+
+      setHistory(planHistory.sort((a, b) =>
+        b.records[0].adjustment.missedDate.localeCompare(a.records[0].adjustment.missedDate)
+      ));
+      setClients(clientData);
+    } catch (error) {
+      console.error('Error loading missed workouts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getClientName = (clientId: string) => {
+    return clients.find(client => client.id === clientId)?.name ?? 'Client';
+  };
+
+  const getMakeupLabel = (status: PlannedSessionStatus) => {
+    switch (status) {
+      case 'completed': return 'Made up';
+      case 'missed':
+      case 'skipped': return 'Make-up missed';
+      default: return 'Make-up planned';
+    }
+  };
+
+  const renderRecord = ({ adjustment, makeup }: MissedWorkoutRecord) => (
+    <View key={adjustment.id} style={styles.recordRow}>
+      {makeup?.status === 'completed' ? (
+        <CalendarCheck size={18} color={colors.success} />
+      ) : (
+        <CalendarX size={18} color={colors.error} />
+      )}
+      <View style={styles.recordInfo}>
+        <Text style={styles.recordText}>{describeAdjustment(adjustment)}</Text>
+        {makeup && (
+          <Text style={[styles.recordStatus, makeup.status === 'completed' && { color: colors.success }]}>
+            {getMakeupLabel(makeup.status)}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Missed Workouts</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {history.length === 0 && (
+          <Text style={styles.emptyText}>
+            {loading ? 'Loading...' : 'No missed workouts. Clients are sticking to their plans.'}
+          </Text>
+        )}
+
+        {history.map(({ plan, records }) => (
+          <View key={plan.id} style={styles.card}>
+            <TouchableOpacity
+              style={styles.cardHeader}
+              onPress={() => router.push(`/plan-calendar?clientId=${plan.clientId}`)}
+            >
+              <View style={styles.cardTitleContainer}>
+                <Text style={styles.clientName}>{getClientName(plan.clientId)}</Text>
+                <Text style={styles.planName}>
+                  {plan.name} • {records.length} missed
+                </Text>
+              </View>
+              <ChevronRight size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
+            {records.map(renderRecord)}
+          </View>
+        ))}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardTitleContainer: {
+    flex: 1,
+  },
+  clientName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  planName: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  recordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  recordInfo: {
+    flex: 1,
+  },
+  recordText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  recordStatus: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,354 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Trophy } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router } from 'expo-router';
+import { WorkoutSession, Exercise, OneRepMaxFormula, PersonalRecord, SELF_CLIENT_ID } from '@/types/workout';
+import { getClientSessions, getExercises } from '@/utils/storage';
+import { formatDate } from '@/utils/workoutUtils';
+import { useUnitSystem } from '@/contexts/UserContext';
+import { displayValue, getUnitLabel } from '@/utils/units';
+import {
+  getExerciseBests,
+  getOneRepMaxFormula,
+  saveOneRepMaxFormula,
+  getPersonalRecordHistory,
+  describePersonalRecord,
+  ExerciseBests,
+  MAX_TRACKED_REPS,
+} from '@/utils/personalRecords';
+
+const FORMULAS: { value: OneRepMaxFormula; label: string }[] = [
+  { value: 'epley', label: 'Epley' },
+  { value: 'brzycki', label: 'Brzycki' },
+];
+
+const RECENT_RECORD_LIMIT = 10;
+
+export default function PersonalRecordsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+
+  const [sessions, setSessions] = useState<WorkoutSession[]>([]);
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [history, setHistory] = useState<PersonalRecord[]>([]);
+  const [formula, setFormula] = useState<OneRepMaxFormula>('epley');
+  const [loading, setLoading] = useState(true);
+  const { unitSystem } = useUnitSystem();
+  const weightUnit = getUnitLabel('weight', unitSystem);
+
+  useEffect(() => {
+    loadRecords();
+  }, []);
+
+  const loadRecords = async () => {
+    try {
+      const [sessionData, exerciseData, historyData, formulaData] = await Promise.all([
+        getClientSessions(SELF_CLIENT_ID),
+        getExercises(),
+        getPersonalRecordHistory(SELF_CLIENT_ID),
+        getOneRepMaxFormula(),
+      ]);
+      setSessions(sessionData);
+      setExercises(exerciseData);
+      setHistory(historyData);
+      setFormula(formulaData);
+    } catch (error) {
+      console.error('Error loading personal records:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFormulaChange = async (value: OneRepMaxFormula) => {
+    setFormula(value);
+    try {
+      await saveOneRepMaxFormula(value);
+    } catch (error) {
+      console.error('Error changing 1RM formula:', error);
+    }
+  };
+
+  const getExerciseName = (exerciseId: string) => {
+    return exercises.find(exercise => exercise.id === exerciseId)?.name ?? 'Unknown exercise';
+  };
+
+  const exerciseIds = Array.from(new Set(sessions.flatMap(session => session.exercises.map(e => e.exerciseId))));
+  const exerciseBests = exerciseIds
+    .map(exerciseId => getExerciseBests(sessions, exerciseId, formula))
+    .filter(bests => bests.bestSessionVolume !== null)
+    .sort((a, b) => (b.estimated1RM?.value ?? 0) - (a.estimated1RM?.value ?? 0));
+
+  const renderBests = (bests: ExerciseBests) => {
+    const repCounts = Object.keys(bests.repMaxes)
+      .map(Number)
+      .filter(reps => reps <= MAX_TRACKED_REPS)
+      .sort((a, b) => a - b);
+
+    return (
+      <View key={bests.exerciseId} style={styles.card}>
+        <Text style={styles.exerciseName}>{getExerciseName(bests.exerciseId)}</Text>
+
+        <View style={styles.statsRow}>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>
+              {bests.estimated1RM ? displayValue(bests.estimated1RM.value, 'weight', unitSystem) : '-'}
+            </Text>
+            <Text style={styles.statLabel}>Est. 1RM ({weightUnit})</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>
+              {bests.bestVolumeSet
+                ? `${displayValue(bests.bestVolumeSet.weight, 'weight', unitSystem)}×${bests.bestVolumeSet.reps}`
+                : '-'}
+            </Text>
+            <Text style={styles.statLabel}>Best set</Text>
+          </View>
+          <View style={styles.statItem}>
+            <Text style={styles.statValue}>
+              {bests.bestSessionVolume ? displayValue(bests.bestSessionVolume.value, 'weight', unitSystem, 0) : '-'}
+            </Text>
+            <Text style={styles.statLabel}>Best session ({weightUnit})</Text>
+          </View>
+        </View>
+
+        {repCounts.length > 0 && (
+          <View style={styles.repMaxList}>
+            {repCounts.map(reps => (
+              <View key={reps} style={styles.repMaxChip}>
+                <Text style={styles.repMaxReps}>{reps}RM</Text>
+                <Text style={styles.repMaxWeight}>
+                  {displayValue(bests.repMaxes[reps].value, 'weight', unitSystem)} {weightUnit}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Personal Records</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Formula */}
+        <Text style={styles.sectionTitle}>1RM estimate</Text>
+        <View style={styles.segmentedControl}>
+          {FORMULAS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.segment, formula === option.value && styles.segmentActive]}
+              onPress={() => handleFormulaChange(option.value)}
+            >
+              <Text style={[styles.segmentText, formula === option.value && styles.segmentTextActive]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* Recent PRs */}
+        <Text style={styles.sectionTitle}>Recent PRs</Text>
+        {history.length === 0 ? (
+          <Text style={styles.emptyText}>
+            {loading ? 'Loading...' : 'Beat one of your bests in a logged workout to see it here.'}
+          </Text>
+        ) : (
+          history.slice(0, RECENT_RECORD_LIMIT).map(record => (
+            <View key={record.id} style={styles.historyRow}>
+              <Trophy size={18} color={colors.warning} />
+              <View style={styles.historyInfo}>
+                <Text style={styles.historyTitle}>{getExerciseName(record.exerciseId)}</Text>
+                <Text style={styles.historyDetail}>{describePersonalRecord(record, unitSystem)}</Text>
+              </View>
+              <Text style={styles.historyDate}>{formatDate(record.date)}</Text>
+            </View>
+          ))
+        )}
+
+        {/* Bests */}
+        <Text style={styles.sectionTitle}>Exercise bests</Text>
+        {exerciseBests.length === 0 && !loading && (
+          <Text style={styles.emptyText}>Log a workout with weights to start tracking your bests.</Text>
+        )}
+        {exerciseBests.map(renderBests)}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  segmentedControl: {
+    flexDirection: 'row',
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 12,
+    padding: 4,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  segmentActive: {
+    backgroundColor: colors.surface,
+  },
+  segmentText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  segmentTextActive: {
+    fontFamily: 'Inter-SemiBold',
+    color: colors.text,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  historyInfo: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  historyDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  historyDate: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  exerciseName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  statLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginTop: 2,
+    textAlign: 'center',
+  },
+  repMaxList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 12,
+  },
+  repMaxChip: {
+    flexDirection: 'row',
+    gap: 4,
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  repMaxReps: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: colors.text,
+  },
+  repMaxWeight: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+});
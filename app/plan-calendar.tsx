@@ -0,0 +1,348 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, ChevronLeft, ChevronRight, Play } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { PlannedSession, WorkoutTemplate } from '@/types/workout';
+import { getTemplates } from '@/utils/storage';
+import { formatDate } from '@/utils/workoutUtils';
+import { getTodayKey, toDateKey, parseDateKey, addDays, getWeekStartKey, getWeekKeys } from '@/utils/dates';
+import { getPlannedCalendar, PlannedSessionStatus } from '@/utils/planCalendar';
+import { useUserRole, useWeekStart } from '@/contexts/UserContext';
+
+type CalendarEntry = { planned: PlannedSession; status: PlannedSessionStatus };
+
+const getMonthStartKey = (key: string): string => `${key.slice(0, 7)}-01`;
+
+const addMonths = (monthKey: string, months: number): string => {
+  const date = parseDateKey(monthKey);
+  return toDateKey(new Date(date.getFullYear(), date.getMonth() + months, 1));
+};
+
+export default function PlanCalendarScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+  const { clientId } = useLocalSearchParams();
+  const { profileId } = useUserRole();
+  const { weekStart } = useWeekStart();
+
+  // Trainers open a client's calendar, clients see their own
+  const calendarClientId = typeof clientId === 'string' ? clientId : profileId;
+  const today = getTodayKey();
+
+  const [month, setMonth] = useState(getMonthStartKey(today));
+  const [selectedDate, setSelectedDate] = useState(today);
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [templates, setTemplates] = useState<WorkoutTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Whole weeks covering the month
+  const firstDay = getWeekStartKey(month, weekStart);
+  const lastDay = addDays(getWeekStartKey(addDays(addMonths(month, 1), -1), weekStart), 6);
+  const weeks: string[][] = [];
+  for (let day = firstDay; day <= lastDay; day = addDays(day, 7)) {
+    weeks.push(getWeekKeys(day, weekStart));
+  }
+
+  useEffect(() => {
+    loadCalendar();
+  }, [calendarClientId, month, weekStart]);
+
+  const loadCalendar = async () => {
+    if (!calendarClientId) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const [calendar, templateData] = await Promise.all([
+        getPlannedCalendar(calendarClientId, firstDay, lastDay),
+        getTemplates(),
+      ]);
+      setEntries(calendar);
+      setTemplates(templateData);
+    } catch (error) {
+      console.error('Error loading plan calendar:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getTemplateName = (templateId: string) => {
+    return templates.find(template => template.id === templateId)?.name ?? 'Workout';
+  };
+
+  const getStatusColor = (status: PlannedSessionStatus) => {
+    switch (status) {
+      case 'completed': return colors.success;
+      case 'missed': return colors.error;
+      case 'skipped': return colors.warning;
+      case 'today': return colors.primary;
+      case 'upcoming': return colors.textTertiary;
+    }
+  };
+
+  const getStatusLabel = (status: PlannedSessionStatus) => {
+    switch (status) {
+      case 'completed': return 'Done';
+      case 'missed': return 'Missed';
+      case 'skipped': return 'Missed, skipped';
+      case 'today': return 'Today';
+      case 'upcoming': return 'Planned';
+    }
+  };
+
+  const handleStart = (planned: PlannedSession) => {
+    router.push(`/start-workout/${planned.templateId}?planId=${planned.planId}${planned.makeup ? '&makeup=true' : ''}`);
+  };
+
+  const selectedEntries = entries.filter(entry => entry.planned.date === selectedDate);
+  const monthLabel = parseDateKey(month).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  const renderDay = (day: string) => {
+    const dayEntries = entries.filter(entry => entry.planned.date === day);
+    const isSelected = day === selectedDate;
+    const inMonth = day.startsWith(month.slice(0, 7));
+
+    return (
+      <TouchableOpacity
+        key={day}
+        style={[styles.dayCell, isSelected && styles.dayCellSelected]}
+        onPress={() => setSelectedDate(day)}
+      >
+        <Text style={[
+          styles.dayNumber,
+          !inMonth && styles.dayNumberOutside,
+          day === today && styles.dayNumberToday,
+          isSelected && styles.dayNumberSelected,
+        ]}>
+          {parseDateKey(day).getDate()}
+        </Text>
+        <View style={styles.dotRow}>
+          {dayEntries.map(entry => (
+            <View key={entry.planned.id} style={[styles.dot, { backgroundColor: getStatusColor(entry.status) }]} />
+          ))}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Workout Calendar</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Month */}
+        <View style={styles.monthHeader}>
+          <TouchableOpacity style={styles.headerButton} onPress={() => setMonth(addMonths(month, -1))}>
+            <ChevronLeft size={20} color={colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.monthTitle}>{monthLabel}</Text>
+          <TouchableOpacity style={styles.headerButton} onPress={() => setMonth(addMonths(month, 1))}>
+            <ChevronRight size={20} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.weekRow}>
+          {weeks[0].map(day => (
+            <Text key={day} style={styles.weekdayLabel}>
+              {parseDateKey(day).toLocaleDateString('en-US', { weekday: 'short' }).slice(0, 2)}
+            </Text>
+          ))}
+        </View>
+        {weeks.map(week => (
+          <View key={week[0]} style={styles.weekRow}>
+            {week.map(renderDay)}
+          </View>
+        ))}
+
+        {/* Selected day */}
+        <Text style={styles.sectionTitle}>{formatDate(selectedDate)}</Text>
+        {selectedEntries.length === 0 ? (
+          <Text style={styles.emptyText}>
+            {loading ? 'Loading...' : calendarClientId ? 'Rest day' : 'Sign in to see your plan.'}
+          </Text>
+        ) : (
+          selectedEntries.map(({ planned, status }) => (
+            <View key={planned.id} style={styles.sessionRow}>
+              <View style={[styles.statusBar, { backgroundColor: getStatusColor(status) }]} />
+              <View style={styles.sessionInfo}>
+                <Text style={styles.sessionTitle}>{getTemplateName(planned.templateId)}</Text>
+                <Text style={styles.sessionDetail}>
+                  {[
+                    getStatusLabel(status),
+                    planned.makeup ? `Make-up for ${formatDate(planned.scheduledDate)}` : planned.label,
+                    `Plan week ${planned.week + 1}`,
+                  ].filter(Boolean).join(' • ')}
+                </Text>
+              </View>
+              {status === 'today' && (
+                <TouchableOpacity style={styles.startButton} onPress={() => handleStart(planned)}>
+                  <Play size={16} color="#FFFFFF" />
+                </TouchableOpacity>
+              )}
+            </View>
+          ))
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 20,
+    marginBottom: 16,
+  },
+  monthTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  weekRow: {
+    flexDirection: 'row',
+  },
+  weekdayLabel: {
+    flex: 1,
+    textAlign: 'center',
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: 8,
+  },
+  dayCell: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  dayCellSelected: {
+    backgroundColor: colors.primary,
+  },
+  dayNumber: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 15,
+    color: colors.text,
+  },
+  dayNumberOutside: {
+    color: colors.textTertiary,
+  },
+  dayNumberToday: {
+    fontFamily: 'Inter-Bold',
+    color: colors.primary,
+  },
+  dayNumberSelected: {
+    color: '#FFFFFF',
+  },
+  dotRow: {
+    flexDirection: 'row',
+    gap: 3,
+    height: 6,
+    marginTop: 4,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  statusBar: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  sessionDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  startButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
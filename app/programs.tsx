@@ -0,0 +1,464 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Plus, UserPlus, ChevronRight } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router } from 'expo-router';
+import { TrainingProgram, ProgramEnrollment, Client } from '@/types/workout';
+import { getPrograms, getEnrollments, getClients } from '@/utils/storage';
+import { getTodayKey } from '@/utils/dates';
+import {
+  PROGRAM_TYPES,
+  getProgramDurationWeeks,
+  getEnrollmentPlans,
+  getEnrollmentPosition,
+  getPhaseLabel,
+  enrollClient,
+} from '@/utils/programs';
+import { useUserRole } from '@/contexts/UserContext';
+import { useSync } from '@/hooks/useSync';
+
+export default function ProgramsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+  const { profileId } = useUserRole();
+  const { lastReport } = useSync();
+
+  const [programs, setPrograms] = useState<TrainingProgram[]>([]);
+  const [enrollments, setEnrollments] = useState<ProgramEnrollment[]>([]);
+  const [clients, setClients] = useState<Client[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [enrollingProgram, setEnrollingProgram] = useState<TrainingProgram | null>(null);
+  const [selectedClient, setSelectedClient] = useState<Client | null>(null);
+  const [startDate, setStartDate] = useState(getTodayKey());
+  const [enrolling, setEnrolling] = useState(false);
+
+  useEffect(() => {
+    loadPrograms();
+  }, []);
+
+  useEffect(() => {
+    // Progress the client logged shows up after a sync
+    if (lastReport && lastReport.pulled > 0) {
+      loadPrograms();
+    }
+  }, [lastReport]);
+
+  const loadPrograms = async () => {
+    try {
+      const [programData, enrollmentData, clientData] = await Promise.all([
+        getPrograms(),
+        getEnrollments(),
+        getClients(),
+      ]);
+
+      // Week and phase move on with the calendar here too, completion comes from the client's device
+      const today = getTodayKey();
+      const positioned = await Promise.all(enrollmentData.map(async enrollment => ({
+        ...enrollment,
+        ...getEnrollmentPosition(enrollment, await getEnrollmentPlans(enrollment), today),
+      })));
+
+      setPrograms(programData.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)));
+      setEnrollments(positioned);
+      setClients(clientData);
+    } catch (error) {
+      console.error('Error loading programs:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getClientName = (clientId: string) => {
+    return clients.find(client => client.id === clientId)?.name ?? 'Client';
+  };
+
+  const openEnroll = (program: TrainingProgram) => {
+    setEnrollingProgram(program);
+    setSelectedClient(null);
+    setStartDate(getTodayKey());
+  };
+
+  const handleEnroll = async () => {
+    if (!enrollingProgram) return;
+
+    if (!selectedClient) {
+      Alert.alert('Error', 'Please select a client');
+      return;
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+      Alert.alert('Error', 'Please enter the start date as YYYY-MM-DD');
+      return;
+    }
+
+    setEnrolling(true);
+    try {
+      await enrollClient(enrollingProgram, selectedClient.id, profileId ?? 'current-user', startDate);
+      setEnrollingProgram(null);
+      await loadPrograms();
+    } catch (error) {
+      console.error('Error enrolling client:', error);
+      Alert.alert('Error', 'Failed to enroll client');
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  const renderEnrollment = (enrollment: ProgramEnrollment) => (
+    <TouchableOpacity
+      key={enrollment.id}
+      style={styles.enrollmentRow}
+      onPress={() => router.push(`/plan-calendar?clientId=${enrollment.clientId}`)}
+    >
+      <View style={styles.enrollmentInfo}>
+        <Text style={styles.enrollmentName}>{getClientName(enrollment.clientId)}</Text>
+        <Text style={styles.enrollmentDetail}>
+          {enrollment.status === 'active' ? getPhaseLabel(enrollment) : enrollment.status === 'enrolled'
+            ? `Starts ${enrollment.startDate}`
+            : enrollment.status.charAt(0).toUpperCase() + enrollment.status.slice(1)}
+        </Text>
+        <View style={styles.progressBar}>
+          <View style={[styles.progressFill, { width: `${enrollment.completionPercentage}%` }]} />
+        </View>
+      </View>
+      <Text style={styles.enrollmentPercent}>{enrollment.completionPercentage}%</Text>
+      <ChevronRight size={18} color={colors.textSecondary} />
+    </TouchableOpacity>
+  );
+
+  const renderProgram = (program: TrainingProgram) => {
+    const programEnrollments = enrollments.filter(enrollment => enrollment.programId === program.id);
+    return (
+      <View key={program.id} style={styles.card}>
+        <TouchableOpacity style={styles.cardHeader} onPress={() => router.push(`/create-program?edit=${program.id}`)}>
+          <View style={styles.cardTitleContainer}>
+            <Text style={styles.programName}>{program.name}</Text>
+            <Text style={styles.programMeta}>
+              {PROGRAM_TYPES.find(type => type.value === program.programType)?.label} • {getProgramDurationWeeks(program)} weeks
+            </Text>
+          </View>
+          <ChevronRight size={18} color={colors.textSecondary} />
+        </TouchableOpacity>
+
+        <View style={styles.phaseRow}>
+          {program.phases.map(phase => (
+            <View key={phase.id} style={[styles.phaseBlock, { flex: phase.durationWeeks }]}>
+              <Text style={styles.phaseBlockText} numberOfLines={1}>
+                {phase.name} {phase.durationWeeks}w
+              </Text>
+            </View>
+          ))}
+        </View>
+
+        {programEnrollments.map(renderEnrollment)}
+
+        <TouchableOpacity style={styles.enrollButton} onPress={() => openEnroll(program)}>
+          <UserPlus size={16} color={colors.primary} />
+          <Text style={styles.enrollButtonText}>Enroll Client</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Programs</Text>
+        <TouchableOpacity onPress={() => router.push('/create-program')} style={styles.headerButton}>
+          <Plus size={24} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {programs.length === 0 && (
+          <Text style={styles.emptyText}>
+            {loading ? 'Loading...' : 'No programs yet. Build one out of phases, then enroll your clients.'}
+          </Text>
+        )}
+        {programs.map(renderProgram)}
+        <View style={{ height: 40 }} />
+      </ScrollView>
+
+      {/* Enroll Modal */}
+      <Modal
+        visible={!!enrollingProgram}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setEnrollingProgram(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHandle} />
+          <Text style={styles.modalTitle}>Enroll in {enrollingProgram?.name}</Text>
+
+          <Text style={styles.fieldLabel}>Start Date</Text>
+          <TextInput
+            style={styles.textInput}
+            value={startDate}
+            onChangeText={setStartDate}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={colors.textTertiary}
+          />
+
+          <Text style={[styles.fieldLabel, styles.clientLabel]}>Client</Text>
+          <ScrollView style={styles.clientList}>
+            {clients.map(client => (
+              <TouchableOpacity
+                key={client.id}
+                style={[styles.clientOption, selectedClient?.id === client.id && styles.selectedClientOption]}
+                onPress={() => setSelectedClient(client)}
+              >
+                <Text style={styles.clientAvatar}>{client.avatar}</Text>
+                <Text style={styles.clientName}>{client.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, enrolling && styles.primaryButtonDisabled]}
+            onPress={handleEnroll}
+            disabled={enrolling}
+          >
+            <Text style={styles.primaryButtonText}>{enrolling ? 'Enrolling...' : 'Enroll'}</Text>
+          </TouchableOpacity>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  cardTitleContainer: {
+    flex: 1,
+  },
+  programName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  programMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  phaseRow: {
+    flexDirection: 'row',
+    gap: 4,
+    marginBottom: 8,
+  },
+  phaseBlock: {
+    backgroundColor: `${colors.primary}15`,
+    borderRadius: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 6,
+  },
+  phaseBlockText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 11,
+    color: colors.primary,
+  },
+  enrollmentRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  enrollmentInfo: {
+    flex: 1,
+  },
+  enrollmentName: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  enrollmentDetail: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+    marginBottom: 6,
+  },
+  progressBar: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.surfaceSecondary,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: colors.success,
+  },
+  enrollmentPercent: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  enrollButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 8,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceSecondary,
+  },
+  enrollButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  // Modal Styles
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.surface,
+    paddingTop: 20,
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  modalHandle: {
+    width: 40,
+    height: 4,
+    backgroundColor: colors.border,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginBottom: 20,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  fieldLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  clientLabel: {
+    marginTop: 16,
+  },
+  textInput: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+  },
+  clientList: {
+    flex: 1,
+  },
+  clientOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  selectedClientOption: {
+    backgroundColor: `${colors.primary}20`,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  clientAvatar: {
+    fontSize: 24,
+    marginRight: 16,
+  },
+  clientName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,1082 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  X,
+  Plus,
+  Check,
+  SkipForward,
+  RotateCcw,
+  Clock,
+  Timer,
+  Replace,
+  Video,
+} from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router, useLocalSearchParams } from 'expo-router';
+import { WorkoutTemplate, WorkoutSession, WorkoutSet, SetType, Exercise, ExerciseGroup, SELF_CLIENT_ID } from '@/types/workout';
+import { getTemplate, getPlan, getExercises, getClientSessions, saveSession, saveFormCheck } from '@/utils/storage';
+import {
+  generateId,
+  createSessionFromTemplate,
+  createEmptySet,
+  formatClockTime,
+  calculateSessionVolume,
+  getSessionDuration,
+  formatDuration,
+  getRestTime,
+  getOrderedTemplateExercises,
+  DEFAULT_REST_SECONDS,
+} from '@/utils/workoutUtils';
+import { useUserStats } from '@/contexts/UserStatsContext';
+import { syncPendingChanges } from '@/lib/sync';
+import { useRestTimer } from '@/hooks/useRestTimer';
+import { recordPersonalRecords, describePersonalRecord, getOneRepMaxFormula } from '@/utils/personalRecords';
+import { prescribeWorkout, Prescription } from '@/utils/progression';
+import { getExerciseBlocks, getGroupTypeLabel } from '@/utils/exerciseGroups';
+import { useUnitSystem } from '@/contexts/UserContext';
+import { getTodayKey } from '@/utils/dates';
+import { getUnitLabel, displayValue, fromDisplayValue, formatQuantity } from '@/utils/units';
+import { Quantity } from '@/types/units';
+import { SubstituteExerciseModal } from '@/components/SubstituteExerciseModal';
+import { ExercisePickerModal } from '@/components/ExercisePickerModal';
+import { FormCheckRecorder } from '@/components/FormCheckRecorder';
+import { FormCheckDraft, createFormCheck } from '@/utils/formChecks';
+import {
+  isCardioExercise,
+  isCardioSet,
+  summarizeCardio,
+  summarizeCardioSets,
+  getPace,
+  getSpeed,
+  getSplits,
+  getHeartRateZone,
+  getHeartRateProfile,
+  getMaxHeartRate,
+  formatPace,
+  formatSpeed,
+  formatCardioTime,
+} from '@/utils/cardio';
+
+type SetField = 'reps' | 'weight' | 'duration' | 'distance' | 'heartRate' | 'rpe';
+
+interface LiveExercise {
+  key: string;
+  exercise: Exercise;
+  sets: WorkoutSet[];
+  restTime: number; // default rest after each set, in seconds
+  target?: Prescription; // set when the workout comes from a plan
+  group?: number; // ExerciseGroup id, grouped exercises are done one set each per round
+  notes?: string;
+  substitutedFor?: { exerciseId: string; name: string }; // the exercise the template had here
+  skipped: boolean;
+}
+
+const REST_STEP_SECONDS = 15;
+
+// Weight and distance are labelled with the user's unit, see SET_FIELD_QUANTITIES
+const SET_FIELD_LABELS: { [key in SetField]?: string } = {
+  reps: 'Reps',
+  duration: 'Sec',
+  heartRate: 'BPM',
+  rpe: 'RPE',
+};
+
+// Entered in the user's units, stored in kg and metres
+const SET_FIELD_QUANTITIES: { [key in SetField]?: Quantity } = {
+  weight: 'weight',
+  distance: 'distance',
+};
+
+// Shown in place of the set number so warm-ups and finishers stand out
+const SET_TYPE_MARKERS: { [key in SetType]?: string } = {
+  warmup: 'W',
+  drop: 'D',
+  amrap: 'A',
+  emom: 'E',
+  failure: 'F',
+};
+
+// Show the fields the template asked for, reps and weight when it asked for nothing, distance and
+// time for cardio. Cardio also logs the average heart rate, RPE is logged whenever the template set
+// an intensity target.
+const getSetFields = (sets: WorkoutSet[], cardio: boolean): SetField[] => {
+  const fields = (['reps', 'weight', 'duration', 'distance'] as SetField[])
+    .filter(field => sets.some(set => set[field] !== undefined));
+  const defaults: SetField[] = cardio ? ['distance', 'duration'] : ['reps', 'weight'];
+  const rated = sets.some(set => set.targetRpe !== undefined || set.targetRir !== undefined || set.rpe !== undefined);
+  return [
+    ...(fields.length > 0 ? fields : defaults),
+    ...(cardio || sets.some(set => set.heartRate !== undefined) ? ['heartRate' as SetField] : []),
+    ...(rated ? ['rpe' as SetField] : []),
+  ];
+};
+
+// Cardio times are entered in minutes, everything else in seconds
+const getFieldScale = (field: SetField, cardio: boolean): number => {
+  return field === 'duration' && cardio ? 60 : 1;
+};
+
+const isCardioLiveExercise = (liveExercise: LiveExercise): boolean => {
+  return isCardioExercise(liveExercise.exercise) || liveExercise.sets.some(isCardioSet);
+};
+
+const getSetPlaceholder = (set: WorkoutSet, field: SetField): string => {
+  if (field === 'rpe' && set.targetRpe !== undefined) return set.targetRpe.toString();
+  if (field === 'rpe' && set.targetRir !== undefined) return (10 - set.targetRir).toString();
+  return '-';
+};
+
+const formatElapsed = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
+
+export default function StartWorkoutScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+  const { id, planId, makeup } = useLocalSearchParams();
+  const { refreshSessions } = useUserStats();
+  const restTimer = useRestTimer();
+  const { unitSystem } = useUnitSystem();
+
+  const [template, setTemplate] = useState<WorkoutTemplate | null>(null);
+  const [session, setSession] = useState<WorkoutSession | null>(null);
+  const [liveExercises, setLiveExercises] = useState<LiveExercise[]>([]);
+  const [drafts, setDrafts] = useState<{ [key: string]: string }>({});
+  const [exerciseLibrary, setExerciseLibrary] = useState<Exercise[]>([]);
+  const [showExercisePicker, setShowExercisePicker] = useState(false);
+  const [substitutingKey, setSubstitutingKey] = useState<string | null>(null);
+  const [formCheckDrafts, setFormCheckDrafts] = useState<{ [setId: string]: FormCheckDraft }>({});
+  const [recordingSet, setRecordingSet] = useState<{ setId: string; title: string } | null>(null);
+  const [maxHeartRate, setMaxHeartRate] = useState<number | null>(null);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadWorkout();
+  }, [id]);
+
+  useEffect(() => {
+    if (!session) return;
+
+    const startedAt = Date.now() - elapsedSeconds * 1000;
+    const interval = setInterval(() => {
+      setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [session?.id]);
+
+  const loadWorkout = async () => {
+    try {
+      if (typeof id !== 'string') return;
+
+      const [templateData, exercises, heartRateProfile] = await Promise.all([
+        getTemplate(id),
+        getExercises(),
+        getHeartRateProfile(),
+      ]);
+      setExerciseLibrary(exercises);
+      setMaxHeartRate(getMaxHeartRate(heartRateProfile));
+      if (!templateData) return;
+
+      // Plans prescribe this session's targets from the last logged performance
+      const plan = typeof planId === 'string' ? await getPlan(planId) : null;
+      let prescriptions: Prescription[] = [];
+      if (plan) {
+        const [history, formula] = await Promise.all([getClientSessions(SELF_CLIENT_ID), getOneRepMaxFormula()]);
+        prescriptions = prescribeWorkout(templateData, plan, history, formula, getTodayKey(), unitSystem);
+      }
+
+      const newSession = createSessionFromTemplate(
+        templateData,
+        SELF_CLIENT_ID,
+        plan?.id,
+        Object.fromEntries(prescriptions.map(prescription => [prescription.templateExerciseId, prescription.sets])),
+        plan && makeup === 'true' ? 'makeup' : undefined
+      );
+
+      setTemplate(templateData);
+      setSession(newSession);
+      // Matched by position, an exercise can appear in the template more than once
+      setLiveExercises(getOrderedTemplateExercises(templateData).map((templateExercise, index) => {
+        const sessionExercise = newSession.exercises[index];
+        return {
+          key: generateId(),
+          exercise: templateExercise.exercise,
+          sets: sessionExercise.sets,
+          restTime: getRestTime(templateExercise),
+          target: prescriptions.find(p => p.templateExerciseId === templateExercise.id),
+          group: templateExercise.supersetGroup,
+          notes: sessionExercise.notes,
+          skipped: false,
+        };
+      }));
+    } catch (error) {
+      console.error('Error loading workout:', error);
+      Alert.alert('Error', 'Failed to load workout');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateExercise = (key: string, change: (exercise: LiveExercise) => LiveExercise) => {
+    setLiveExercises(prev => prev.map(exercise => (exercise.key === key ? change(exercise) : exercise)));
+  };
+
+  const handleSetValueChange = (liveExercise: LiveExercise, setId: string, field: SetField, text: string) => {
+    setDrafts(prev => ({ ...prev, [`${setId}:${field}`]: text }));
+
+    const parsed = parseFloat(text.replace(',', '.'));
+    const quantity = SET_FIELD_QUANTITIES[field];
+    const scale = getFieldScale(field, isCardioLiveExercise(liveExercise));
+    const value = isNaN(parsed) ? undefined : quantity ? fromDisplayValue(parsed, quantity, unitSystem) : parsed * scale;
+    updateExercise(liveExercise.key, exercise => ({
+      ...exercise,
+      sets: exercise.sets.map(set => (set.id === setId ? { ...set, [field]: value } : set)),
+    }));
+  };
+
+  const handleToggleSet = (exerciseKey: string, setId: string) => {
+    const liveExercise = liveExercises.find(exercise => exercise.key === exerciseKey);
+    const set = liveExercise?.sets.find(s => s.id === setId);
+    const group = template?.groups?.find(g => g.id === liveExercise?.group);
+    if (liveExercise && set && group) {
+      // Grouped exercises rest once everyone in the group has done this round
+      const round = liveExercise.sets.indexOf(set);
+      const members = liveExercises.filter(exercise => exercise.group === group.id && !exercise.skipped);
+      const label = members.map(exercise => exercise.exercise.name).join(' + ');
+      const roundDone = members.every(exercise => {
+        const memberSet = exercise.sets[round];
+        return !memberSet || (memberSet.id === setId ? !set.completed : memberSet.completed);
+      });
+
+      if (!set.completed && roundDone) {
+        restTimer.start(group.restTime, label);
+      } else if (set.completed && restTimer.exerciseName === label) {
+        restTimer.skip();
+      }
+    } else if (liveExercise && set) {
+      // A drop set follows straight on from the set before it
+      const nextSet = liveExercise.sets[liveExercise.sets.indexOf(set) + 1];
+      if (!set.completed && nextSet?.setType === 'drop') {
+        restTimer.skip();
+      } else if (!set.completed) {
+        restTimer.start(set.restTime ?? liveExercise.restTime, liveExercise.exercise.name);
+      } else if (restTimer.exerciseName === liveExercise.exercise.name) {
+        restTimer.skip();
+      }
+    }
+
+    updateExercise(exerciseKey, exercise => ({
+      ...exercise,
+      sets: exercise.sets.map(set => (set.id === setId ? { ...set, completed: !set.completed } : set)),
+    }));
+  };
+
+  const handleAddSet = (exerciseKey: string) => {
+    updateExercise(exerciseKey, exercise => ({
+      ...exercise,
+      sets: [...exercise.sets, createEmptySet(exercise.sets[exercise.sets.length - 1])],
+    }));
+  };
+
+  const handleAddRound = (groupId: number) => {
+    setLiveExercises(prev => prev.map(exercise => exercise.group === groupId
+      ? { ...exercise, sets: [...exercise.sets, createEmptySet(exercise.sets[exercise.sets.length - 1])] }
+      : exercise));
+  };
+
+  const handleToggleSkip = (exerciseKey: string) => {
+    updateExercise(exerciseKey, exercise => ({ ...exercise, skipped: !exercise.skipped }));
+  };
+
+  const handleAddExercise = (exercise: Exercise) => {
+    setLiveExercises(prev => [
+      ...prev,
+      {
+        key: generateId(),
+        exercise,
+        sets: [createEmptySet(), createEmptySet(), createEmptySet()],
+        restTime: DEFAULT_REST_SECONDS,
+        skipped: false,
+      },
+    ]);
+    setShowExercisePicker(false);
+  };
+
+  // Keeps the set structure, weights and targets were for the old exercise so they go
+  const handleSubstitute = (replacement: Exercise) => {
+    if (!substitutingKey) return;
+
+    updateExercise(substitutingKey, exercise => {
+      const original = exercise.substitutedFor ?? { exerciseId: exercise.exercise.id, name: exercise.exercise.name };
+      return {
+        ...exercise,
+        exercise: replacement,
+        sets: exercise.sets.map(set => ({ ...set, weight: undefined, completed: false })),
+        target: undefined,
+        substitutedFor: replacement.id === original.exerciseId ? undefined : original,
+      };
+    });
+
+    // Videos of the old exercise don't belong to the new one
+    const setIds = liveExercises.find(exercise => exercise.key === substitutingKey)?.sets.map(set => set.id) ?? [];
+    setFormCheckDrafts(prev => Object.fromEntries(Object.entries(prev).filter(([setId]) => !setIds.includes(setId))));
+    // Typed text wins over the set's value in the inputs, drop it so they show what the set now holds
+    const staleDrafts = setIds.flatMap(setId => [`${setId}:weight`, `${setId}:reps`]);
+    setDrafts(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => !staleDrafts.includes(key))));
+    setSubstitutingKey(null);
+  };
+
+  const handleSaveFormCheckVideo = (video: FormCheckDraft) => {
+    if (!recordingSet) return;
+    setFormCheckDrafts(prev => ({ ...prev, [recordingSet.setId]: video }));
+    setRecordingSet(null);
+  };
+
+  const handleDiscard = () => {
+    Alert.alert(
+      'Discard Workout',
+      'Nothing from this workout will be saved.',
+      [
+        { text: 'Keep Going', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => {
+            restTimer.skip();
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const finishWorkout = async () => {
+    if (!session) return;
+
+    // Only sets that were actually ticked off count as performed
+    const performedExercises = liveExercises
+      .filter(exercise => !exercise.skipped)
+      .map(exercise => ({
+        exerciseId: exercise.exercise.id,
+        sets: exercise.sets.filter(set => set.completed),
+        notes: exercise.notes,
+        substitutedFor: exercise.substitutedFor,
+      }))
+      .filter(exercise => exercise.sets.length > 0);
+
+    const now = new Date();
+    const finishedSession: WorkoutSession = {
+      ...session,
+      endTime: formatClockTime(now),
+      endedAt: now.toISOString(),
+      exercises: performedExercises,
+      completed: true,
+    };
+
+    try {
+      setSaving(true);
+      restTimer.skip();
+      await saveSession(finishedSession);
+      await saveFormChecks(finishedSession);
+      const personalRecords = await recordPersonalRecords(finishedSession);
+      await refreshSessions();
+
+      // Upload right away when online, the queue retries later otherwise
+      syncPendingChanges().catch(error => console.error('Error syncing finished workout:', error));
+
+      const volume = calculateSessionVolume(finishedSession);
+      const cardio = summarizeCardio([finishedSession], liveExercises.map(exercise => exercise.exercise), maxHeartRate);
+      const duration = Math.round(getSessionDuration(finishedSession));
+      const recordLines = personalRecords.map(record => {
+        const exerciseName = liveExercises.find(e => e.exercise.id === record.exerciseId)?.exercise.name;
+        return `${exerciseName}: ${describePersonalRecord(record, unitSystem)}`;
+      });
+      Alert.alert(
+        personalRecords.length > 0 ? 'New Personal Records! 🏆' : 'Workout Complete! 🎉',
+        `${formatDuration(duration)} • ${performedExercises.length} exercises${volume > 0 ? ` • ${formatQuantity(volume, 'weight', unitSystem, 0)} lifted` : ''}` +
+          (cardio.distance > 0 ? ` • ${formatQuantity(cardio.distance, 'distance', unitSystem)} covered` : '') +
+          (recordLines.length > 0 ? `\n\n${recordLines.join('\n')}` : ''),
+        [{ text: 'Done', onPress: () => router.back() }]
+      );
+    } catch (error) {
+      console.error('Error saving workout session:', error);
+      Alert.alert('Error', 'Failed to save workout');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Saved after the session so the sync queue pushes the session first
+  const saveFormChecks = async (finishedSession: WorkoutSession) => {
+    for (const liveExercise of liveExercises) {
+      for (const set of liveExercise.sets) {
+        const draft = formCheckDrafts[set.id];
+        // Skipped exercises and unticked sets were left out of the session, so its entry is found by set
+        const sessionExercise = draft
+          ? finishedSession.exercises.find(item => item.sets.some(logged => logged.id === set.id))
+          : undefined;
+        const formCheck = draft && sessionExercise
+          ? createFormCheck(finishedSession, sessionExercise, liveExercise.exercise, set, draft)
+          : null;
+        if (formCheck) await saveFormCheck(formCheck);
+      }
+    }
+  };
+
+  const handleFinish = () => {
+    const completedSets = liveExercises
+      .filter(exercise => !exercise.skipped)
+      .reduce((total, exercise) => total + exercise.sets.filter(set => set.completed).length, 0);
+
+    if (completedSets === 0) {
+      Alert.alert('Nothing Logged', 'Tick off at least one set before finishing, or discard the workout.');
+      return;
+    }
+
+    const remainingSets = liveExercises
+      .filter(exercise => !exercise.skipped)
+      .reduce((total, exercise) => total + exercise.sets.filter(set => !set.completed).length, 0);
+
+    if (remainingSets > 0) {
+      Alert.alert(
+        'Finish Workout',
+        `${remainingSets} ${remainingSets === 1 ? 'set is' : 'sets are'} not ticked off and won't be saved.`,
+        [
+          { text: 'Keep Going', style: 'cancel' },
+          { text: 'Finish', onPress: finishWorkout },
+        ]
+      );
+      return;
+    }
+
+    finishWorkout();
+  };
+
+  const getFieldLabel = (field: SetField, cardio: boolean): string => {
+    const quantity = SET_FIELD_QUANTITIES[field];
+    if (quantity) return getUnitLabel(quantity, unitSystem);
+    return getFieldScale(field, cardio) === 60 ? 'Min' : SET_FIELD_LABELS[field] ?? '';
+  };
+
+  const formatSetValue = (set: WorkoutSet, field: SetField, cardio: boolean): string => {
+    const value = set[field];
+    if (value === undefined) return '';
+    const quantity = SET_FIELD_QUANTITIES[field];
+    if (quantity) return displayValue(value, quantity, unitSystem).toString();
+    return (Math.round((value / getFieldScale(field, cardio)) * 100) / 100).toString();
+  };
+
+  const renderSet = (liveExercise: LiveExercise, set: WorkoutSet, index: number, fields: SetField[], cardio: boolean) => (
+    <View key={set.id} style={[styles.setRow, set.completed && styles.completedSetRow]}>
+      <Text style={[styles.setNumber, set.setType && SET_TYPE_MARKERS[set.setType] && styles.setTypeMarker]}>
+        {(set.setType && SET_TYPE_MARKERS[set.setType]) || index + 1}
+      </Text>
+      {fields.map(field => (
+        <View key={field} style={styles.setInputContainer}>
+          <TextInput
+            style={styles.setInput}
+            value={drafts[`${set.id}:${field}`] ?? formatSetValue(set, field, cardio)}
+            onChangeText={(text) => handleSetValueChange(liveExercise, set.id, field, text)}
+            keyboardType="decimal-pad"
+            placeholder={getSetPlaceholder(set, field)}
+            placeholderTextColor={colors.textTertiary}
+            editable={!liveExercise.skipped}
+          />
+          <Text style={styles.setInputLabel}>{getFieldLabel(field, cardio)}</Text>
+        </View>
+      ))}
+      {set.completed && (
+        <TouchableOpacity
+          style={[styles.setCheck, formCheckDrafts[set.id] && styles.formCheckActive]}
+          onPress={() => setRecordingSet({ setId: set.id, title: `${liveExercise.exercise.name} • Set ${index + 1}` })}
+        >
+          <Video size={16} color={formCheckDrafts[set.id] ? colors.primary : colors.textTertiary} />
+        </TouchableOpacity>
+      )}
+      <TouchableOpacity
+        style={[styles.setCheck, set.completed && styles.setCheckActive]}
+        onPress={() => handleToggleSet(liveExercise.key, set.id)}
+        disabled={liveExercise.skipped}
+      >
+        <Check size={16} color={set.completed ? '#FFFFFF' : colors.textTertiary} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderExerciseHeader = (liveExercise: LiveExercise) => {
+    const completedSets = liveExercise.sets.filter(set => set.completed).length;
+
+    return (
+      <View style={styles.exerciseHeader}>
+        <View style={styles.exerciseInfo}>
+          <Text style={styles.exerciseName}>{liveExercise.exercise.name}</Text>
+          <Text style={styles.exerciseMeta}>
+            {liveExercise.skipped
+              ? 'Skipped'
+              : `${completedSets}/${liveExercise.sets.length} sets • ${liveExercise.exercise.muscleGroups.join(', ')}`}
+          </Text>
+          {liveExercise.substitutedFor && (
+            <Text style={styles.exerciseMeta}>Instead of {liveExercise.substitutedFor.name}</Text>
+          )}
+          {liveExercise.target && !liveExercise.skipped && (
+            <Text style={styles.targetText}>
+              Target {liveExercise.target.summary}{liveExercise.target.change ? ` (${liveExercise.target.change})` : ''}
+            </Text>
+          )}
+        </View>
+        {!liveExercise.skipped && (
+          <TouchableOpacity style={styles.skipButton} onPress={() => setSubstitutingKey(liveExercise.key)}>
+            <Replace size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.skipButton} onPress={() => handleToggleSkip(liveExercise.key)}>
+          {liveExercise.skipped
+            ? <RotateCcw size={18} color={colors.primary} />
+            : <SkipForward size={18} color={colors.textSecondary} />}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  // Distance, time, pace and heart rate over the sets done so far, with splits once there is more than one
+  const renderCardioSummary = (liveExercise: LiveExercise) => {
+    const completed = liveExercise.sets.filter(set => set.completed);
+    const summary = summarizeCardioSets(completed, maxHeartRate);
+    const pace = getPace(summary.distance, summary.seconds, unitSystem);
+    const speed = getSpeed(summary.distance, summary.seconds, unitSystem);
+    if (summary.sets === 0) return null;
+
+    const zone = summary.averageHeartRate && maxHeartRate ? getHeartRateZone(summary.averageHeartRate, maxHeartRate) : null;
+    const splits = getSplits(completed, unitSystem);
+    const totals = [
+      summary.distance > 0 ? formatQuantity(summary.distance, 'distance', unitSystem) : null,
+      summary.seconds > 0 ? formatCardioTime(summary.seconds) : null,
+      pace ? formatPace(pace, unitSystem) : null,
+      speed ? formatSpeed(speed, unitSystem) : null,
+    ].filter(Boolean);
+
+    return (
+      <View style={styles.cardioSummary}>
+        <Text style={styles.cardioTotals}>{totals.join(' • ')}</Text>
+        {summary.averageHeartRate !== undefined && (
+          <Text style={styles.cardioMeta}>
+            Avg {summary.averageHeartRate} bpm{zone ? ` • Zone ${zone.zone} ${zone.label}` : ''}
+          </Text>
+        )}
+        {splits.length > 1 && (
+          <Text style={styles.cardioMeta}>
+            Splits {splits.map(split => `${split.index}: ${formatCardioTime(split.pace)}`).join('  ')}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderExercise = (liveExercise: LiveExercise) => {
+    const cardio = isCardioLiveExercise(liveExercise);
+    const fields = getSetFields(liveExercise.sets, cardio);
+
+    return (
+      <View key={liveExercise.key} style={[styles.exerciseCard, liveExercise.skipped && styles.skippedCard]}>
+        {renderExerciseHeader(liveExercise)}
+
+        {!liveExercise.skipped && (
+          <>
+            {liveExercise.sets.map((set, index) => renderSet(liveExercise, set, index, fields, cardio))}
+            {cardio && renderCardioSummary(liveExercise)}
+            <TouchableOpacity style={styles.addSetButton} onPress={() => handleAddSet(liveExercise.key)}>
+              <Plus size={16} color={colors.primary} />
+              <Text style={styles.addSetText}>Add Set</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  // Rounds alternate through the group: one set of each exercise, then rest
+  const renderGroup = (group: ExerciseGroup, members: LiveExercise[]) => {
+    const active = members.filter(exercise => !exercise.skipped);
+    const rounds = Math.max(0, ...active.map(exercise => exercise.sets.length));
+    const completedRounds = Array.from({ length: rounds }).filter((_, round) =>
+      active.every(exercise => !exercise.sets[round] || exercise.sets[round].completed)
+    ).length;
+
+    return (
+      <View key={members[0].key} style={[styles.exerciseCard, styles.groupCard]}>
+        <Text style={styles.groupTitle}>
+          {getGroupTypeLabel(group.type)} • {completedRounds}/{rounds} rounds • {group.restTime}s rest
+        </Text>
+        {members.map(exercise => (
+          <View key={exercise.key} style={exercise.skipped && styles.skippedCard}>
+            {renderExerciseHeader(exercise)}
+          </View>
+        ))}
+
+        {Array.from({ length: rounds }).map((_, round) => (
+          <View key={round} style={styles.roundContainer}>
+            <Text style={styles.roundTitle}>Round {round + 1}</Text>
+            {active.map(exercise => {
+              const cardio = isCardioLiveExercise(exercise);
+              return exercise.sets[round] && (
+                <View key={exercise.key}>
+                  <Text style={styles.roundExerciseName}>{exercise.exercise.name}</Text>
+                  {renderSet(exercise, exercise.sets[round], round, getSetFields(exercise.sets, cardio), cardio)}
+                </View>
+              );
+            })}
+          </View>
+        ))}
+
+        {active.length > 0 && (
+          <TouchableOpacity style={styles.addSetButton} onPress={() => handleAddRound(group.id)}>
+            <Plus size={16} color={colors.primary} />
+            <Text style={styles.addSetText}>Add Round</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Loading workout...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!template || !session) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <Text style={styles.loadingText}>Workout not found</Text>
+          <TouchableOpacity style={styles.finishButton} onPress={() => router.back()}>
+            <Text style={styles.finishButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleDiscard} style={styles.headerButton}>
+          <X size={24} color={colors.text} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle} numberOfLines={1}>{template.name}</Text>
+          <View style={styles.timerRow}>
+            <Clock size={14} color={colors.textSecondary} />
+            <Text style={styles.timerText}>{formatElapsed(elapsedSeconds)}</Text>
+          </View>
+        </View>
+        <TouchableOpacity style={styles.finishButton} onPress={handleFinish} disabled={saving}>
+          <Text style={styles.finishButtonText}>{saving ? 'Saving...' : 'Finish'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {getExerciseBlocks(liveExercises, exercise => exercise.group, template.groups).map(block =>
+          block.group ? renderGroup(block.group, block.items) : renderExercise(block.items[0])
+        )}
+
+        <TouchableOpacity style={styles.addExerciseButton} onPress={() => setShowExercisePicker(true)}>
+          <Plus size={20} color={colors.primary} />
+          <Text style={styles.addExerciseText}>Add Exercise</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {/* Rest Timer */}
+      {restTimer.active && (
+        <View style={styles.restBar}>
+          <View style={styles.restProgressTrack}>
+            <View
+              style={[
+                styles.restProgressFill,
+                { width: `${restTimer.duration > 0 ? (restTimer.remainingSeconds / restTimer.duration) * 100 : 0}%` },
+              ]}
+            />
+          </View>
+          <View style={styles.restContent}>
+            <View style={styles.restInfo}>
+              <View style={styles.timerRow}>
+                <Timer size={14} color={colors.textSecondary} />
+                <Text style={styles.restLabel} numberOfLines={1}>Rest • {restTimer.exerciseName}</Text>
+              </View>
+              <Text style={styles.restTime}>{formatElapsed(restTimer.remainingSeconds)}</Text>
+            </View>
+            <TouchableOpacity style={styles.restAdjustButton} onPress={() => restTimer.adjust(-REST_STEP_SECONDS)}>
+              <Text style={styles.restAdjustText}>-{REST_STEP_SECONDS}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.restAdjustButton} onPress={() => restTimer.adjust(REST_STEP_SECONDS)}>
+              <Text style={styles.restAdjustText}>+{REST_STEP_SECONDS}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.restSkipButton} onPress={restTimer.skip}>
+              <SkipForward size={16} color="#FFFFFF" />
+              <Text style={styles.restSkipText}>Skip</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      <ExercisePickerModal
+        visible={showExercisePicker}
+        exercises={exerciseLibrary}
+        onSelect={handleAddExercise}
+        onClose={() => setShowExercisePicker(false)}
+        colors={colors}
+      />
+
+      <SubstituteExerciseModal
+        visible={substitutingKey !== null}
+        exercise={liveExercises.find(exercise => exercise.key === substitutingKey)?.exercise ?? null}
+        library={exerciseLibrary}
+        excludeIds={liveExercises.map(exercise => exercise.exercise.id)}
+        onSelect={handleSubstitute}
+        onClose={() => setSubstitutingKey(null)}
+        colors={colors}
+      />
+
+      <FormCheckRecorder
+        visible={recordingSet !== null}
+        title={recordingSet?.title}
+        onSave={handleSaveFormCheckVideo}
+        onClose={() => setRecordingSet(null)}
+        colors={colors}
+      />
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  loadingText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: 12,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerCenter: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  timerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  timerText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  finishButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  finishButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  exerciseCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  skippedCard: {
+    opacity: 0.6,
+  },
+  exerciseHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  exerciseInfo: {
+    flex: 1,
+  },
+  exerciseName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  exerciseMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  groupCard: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+  },
+  groupTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: colors.primary,
+    marginBottom: 12,
+  },
+  roundContainer: {
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: 8,
+    marginTop: 8,
+  },
+  roundTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 4,
+  },
+  roundExerciseName: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginLeft: 8,
+  },
+  targetText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.primary,
+    marginTop: 4,
+  },
+  cardioSummary: {
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  cardioTotals: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  cardioMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  skipButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  setRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  completedSetRow: {
+    backgroundColor: `${colors.success}15`,
+  },
+  setNumber: {
+    width: 24,
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  setTypeMarker: {
+    color: colors.primary,
+  },
+  setInputContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+  },
+  setInput: {
+    flex: 1,
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    paddingVertical: 8,
+    textAlign: 'center',
+  },
+  setInputLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+  },
+  setCheck: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  setCheckActive: {
+    backgroundColor: colors.success,
+    borderColor: colors.success,
+  },
+  formCheckActive: {
+    borderColor: colors.primary,
+  },
+  addSetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    marginTop: 4,
+  },
+  addSetText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  addExerciseButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderStyle: 'dashed',
+    paddingVertical: 16,
+    marginBottom: 40,
+  },
+  addExerciseText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.primary,
+  },
+  restBar: {
+    backgroundColor: colors.surface,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingBottom: 24,
+  },
+  restProgressTrack: {
+    height: 3,
+    backgroundColor: colors.surfaceSecondary,
+  },
+  restProgressFill: {
+    height: 3,
+    backgroundColor: colors.primary,
+  },
+  restContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+  },
+  restInfo: {
+    flex: 1,
+  },
+  restLabel: {
+    flexShrink: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  restTime: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 28,
+    color: colors.text,
+  },
+  restAdjustButton: {
+    width: 48,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  restAdjustText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  restSkipButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    height: 40,
+    borderRadius: 20,
+    paddingHorizontal: 14,
+    backgroundColor: colors.primary,
+  },
+  restSkipText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+});
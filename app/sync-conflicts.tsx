@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ArrowLeft, Smartphone, Cloud, CircleCheck as CheckCircle } from 'lucide-react-native';
+import { useColorScheme, getColors } from '@/hooks/useColorScheme';
+import { router } from 'expo-router';
+import { resolveSyncConflict } from '@/lib/sync';
+import { getSyncConflicts, SyncConflict } from '@/utils/syncConflicts';
+import { WorkoutTemplate, WorkoutPlan } from '@/types/workout';
+import { describeSchedule, normalizePlanSchedule } from '@/utils/planCalendar';
+
+export default function SyncConflictsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = getColors(colorScheme ?? 'light');
+  const styles = createStyles(colors);
+
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadConflicts();
+  }, []);
+
+  const loadConflicts = async () => {
+    const loadedConflicts = await getSyncConflicts();
+    setConflicts(loadedConflicts);
+  };
+
+  const handleResolve = async (conflict: SyncConflict, keep: 'local' | 'remote') => {
+    try {
+      setResolvingId(conflict.id);
+      await resolveSyncConflict(conflict, keep);
+      await loadConflicts();
+    } catch (error) {
+      console.error('Error resolving sync conflict:', error);
+      Alert.alert('Error', 'Failed to resolve conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const describeRecord = (conflict: SyncConflict, record: WorkoutTemplate | WorkoutPlan | null): string => {
+    if (!record) return 'Deleted';
+
+    const updated = new Date(record.updatedAt).toLocaleString();
+    if (conflict.type === 'template') {
+      const template = record as WorkoutTemplate;
+      return `${template.exercises.length} exercises • ${template.duration} min\nUpdated ${updated}`;
+    }
+
+    const plan = record as WorkoutPlan;
+    // Conflicts recorded before plan schedules were typed still hold the old shape
+    const schedule = describeSchedule(normalizePlanSchedule(plan.schedule));
+    return `${schedule} • ${plan.startDate} to ${plan.endDate}\nUpdated ${updated}`;
+  };
+
+  const renderConflict = (conflict: SyncConflict) => {
+    const name = conflict.local?.name || conflict.remote?.name || 'Untitled';
+    const isResolving = resolvingId === conflict.id;
+
+    return (
+      <View key={conflict.id} style={styles.conflictCard}>
+        <Text style={styles.conflictType}>
+          {conflict.type === 'template' ? 'Workout Template' : 'Workout Plan'}
+        </Text>
+        <Text style={styles.conflictName}>{name}</Text>
+
+        <View style={styles.versionRow}>
+          <View style={styles.versionBox}>
+            <View style={styles.versionHeader}>
+              <Smartphone size={14} color={colors.textSecondary} />
+              <Text style={styles.versionLabel}>This device</Text>
+            </View>
+            <Text style={styles.versionText}>{describeRecord(conflict, conflict.local)}</Text>
+          </View>
+          <View style={styles.versionBox}>
+            <View style={styles.versionHeader}>
+              <Cloud size={14} color={colors.textSecondary} />
+              <Text style={styles.versionLabel}>Other device</Text>
+            </View>
+            <Text style={styles.versionText}>{describeRecord(conflict, conflict.remote)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryButton]}
+            onPress={() => handleResolve(conflict, 'local')}
+            disabled={isResolving}
+          >
+            <Text style={styles.secondaryButtonText}>Keep this device</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.primaryButton]}
+            onPress={() => handleResolve(conflict, 'remote')}
+            disabled={isResolving}
+          >
+            <Text style={styles.primaryButtonText}>Keep other device</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <ArrowLeft size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Sync Conflicts</Text>
+        <View style={styles.headerButton} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {conflicts.length === 0 ? (
+          <View style={styles.emptyState}>
+            <CheckCircle size={48} color={colors.success} />
+            <Text style={styles.emptyTitle}>All caught up</Text>
+            <Text style={styles.emptyText}>Every change has been reconciled with your other devices.</Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.description}>
+              These items were changed both here and on another device. Choose which version to keep.
+            </Text>
+            {conflicts.map(renderConflict)}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceSecondary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+    flex: 1,
+    textAlign: 'center',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  description: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginBottom: 16,
+  },
+  conflictCard: {
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  conflictType: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.textTertiary,
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  conflictName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginBottom: 12,
+  },
+  versionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  versionBox: {
+    flex: 1,
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 12,
+    padding: 12,
+  },
+  versionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  versionLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  versionText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.text,
+    lineHeight: 18,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+  },
+  primaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    backgroundColor: colors.surfaceSecondary,
+  },
+  secondaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    gap: 12,
+  },
+  emptyTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+});
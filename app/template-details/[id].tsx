@@ -18,17 +18,23 @@ import {
   Clock, 
   Dumbbell,
   ChevronRight,
-  MoreHorizontal
+  MoreHorizontal,
+  AlertTriangle
 } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router, useLocalSearchParams } from 'expo-router';
-import { WorkoutTemplate } from '@/types/workout';
+import { WorkoutTemplate, TemplateExercise } from '@/types/workout';
 import { getTemplate, deleteTemplate } from '@/utils/storage';
-import { formatDuration } from '@/utils/workoutUtils';
+import { formatDuration, getSetTypeLabel, formatSetTargets } from '@/utils/workoutUtils';
+import { useUnitSystem } from '@/contexts/UserContext';
+import { formatQuantity } from '@/utils/units';
+import { getExerciseBlocks, getGroupTypeLabel } from '@/utils/exerciseGroups';
+import { analyzeTemplate, formatRatio } from '@/utils/templateAnalysis';
 
 export default function TemplateDetailsScreen() {
   const colorScheme = useColorScheme();
   const colors = getColors(colorScheme);
+  const { unitSystem } = useUnitSystem();
   const styles = createStyles(colors);
   const { id } = useLocalSearchParams();
   
@@ -132,6 +138,109 @@ export default function TemplateDetailsScreen() {
     );
   }
 
+  const analysis = analyzeTemplate(template);
+
+  const renderAnalysis = () => {
+    const maxSets = Math.max(...analysis.muscleGroups.map(load => load.sets), 1);
+    const { push, pull, quad, hinge } = analysis.patternSets;
+
+    return (
+      <View style={styles.analysisSection}>
+        <Text style={styles.sectionTitle}>Breakdown</Text>
+        <View style={styles.infoCard}>
+          <View style={styles.analysisStats}>
+            <View style={styles.analysisStat}>
+              <Text style={styles.analysisValue}>~{formatDuration(analysis.estimatedMinutes)}</Text>
+              <Text style={styles.analysisLabel}>Estimated</Text>
+            </View>
+            <View style={styles.analysisStat}>
+              <Text style={styles.analysisValue}>{analysis.workingSets}</Text>
+              <Text style={styles.analysisLabel}>Working sets</Text>
+            </View>
+            <View style={styles.analysisStat}>
+              <Text style={styles.analysisValue}>{formatQuantity(analysis.totalVolume, 'weight', unitSystem, 0)}</Text>
+              <Text style={styles.analysisLabel}>Volume</Text>
+            </View>
+          </View>
+          {Math.abs(analysis.estimatedMinutes - template.duration) >= 10 && (
+            <Text style={styles.analysisNote}>
+              Set to {formatDuration(template.duration)} when created, the estimate goes by sets, rest and changeovers.
+            </Text>
+          )}
+
+          {analysis.muscleGroups.map(load => (
+            <View key={load.muscleGroup} style={styles.muscleRow}>
+              <Text style={styles.muscleName}>{load.muscleGroup}</Text>
+              <View style={styles.muscleTrack}>
+                <View style={[styles.muscleFill, { width: `${(load.sets / maxSets) * 100}%` }]} />
+              </View>
+              <Text style={styles.muscleSets}>
+                {load.sets} sets{load.volume > 0 ? ` • ${formatQuantity(load.volume, 'weight', unitSystem, 0)}` : ''}
+              </Text>
+            </View>
+          ))}
+
+          {(push > 0 || pull > 0 || quad > 0 || hinge > 0) && (
+            <View style={styles.balanceRow}>
+              {push > 0 && pull > 0 && <Text style={styles.infoLabel}>Push:pull {formatRatio(push, pull)}</Text>}
+              {quad > 0 && hinge > 0 && <Text style={styles.infoLabel}>Quad:hinge {formatRatio(quad, hinge)}</Text>}
+            </View>
+          )}
+          {analysis.imbalances.map(imbalance => (
+            <View key={imbalance.pair} style={styles.imbalanceRow}>
+              <AlertTriangle size={16} color={colors.warning} />
+              <Text style={styles.imbalanceText}>{imbalance.message}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderExercise = (templateExercise: TemplateExercise, index: number) => (
+    <View key={templateExercise.id} style={styles.exerciseCard}>
+      <View style={styles.exerciseHeader}>
+        <Image 
+          source={{ uri: getExerciseImage(templateExercise.exercise.name, index) }}
+          style={styles.exerciseImage}
+        />
+        <View style={styles.exerciseInfo}>
+          <Text style={styles.exerciseName}>{templateExercise.exercise.name}</Text>
+          <Text style={styles.exerciseCategory}>{templateExercise.exercise.category}</Text>
+          <Text style={styles.exerciseMuscles}>
+            {templateExercise.exercise.muscleGroups.join(', ')}
+          </Text>
+        </View>
+        <ChevronRight size={20} color={colors.textTertiary} />
+      </View>
+      
+      <View style={styles.exerciseDetails}>
+        <Text style={styles.setsTitle}>Sets Configuration:</Text>
+        {templateExercise.sets.map((set, setIndex) => (
+          <View key={setIndex} style={styles.setRow}>
+            <Text style={styles.setNumber}>
+              Set {setIndex + 1}{set.setType && set.setType !== 'normal' ? ` • ${getSetTypeLabel(set.setType)}` : ''}
+            </Text>
+            <Text style={styles.setDetails}>
+              {set.reps ? `${set.reps} reps` : ''}
+              {set.weight ? ` @ ${formatQuantity(set.weight, 'weight', unitSystem)}` : ''}
+              {set.duration ? ` ${set.duration}s` : ''}
+              {set.restTime && templateExercise.supersetGroup === undefined ? ` • Rest: ${set.restTime}s` : ''}
+              {formatSetTargets(set) ? ` • ${formatSetTargets(set)}` : ''}
+            </Text>
+          </View>
+        ))}
+      </View>
+      
+      {templateExercise.notes && (
+        <View style={styles.exerciseNotes}>
+          <Text style={styles.notesTitle}>Notes:</Text>
+          <Text style={styles.notesText}>{templateExercise.notes}</Text>
+        </View>
+      )}
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       {/* Header */}
@@ -160,7 +269,7 @@ export default function TemplateDetailsScreen() {
               </View>
               <View style={styles.metaItem}>
                 <Clock size={16} color={colors.textSecondary} />
-                <Text style={styles.metaText}>{formatDuration(template.duration)}</Text>
+                <Text style={styles.metaText}>~{formatDuration(analysis.estimatedMinutes)}</Text>
               </View>
             </View>
             <View style={[styles.categoryBadge, { backgroundColor: `${colors.primary}15` }]}>
@@ -196,50 +305,24 @@ export default function TemplateDetailsScreen() {
           </View>
         </View>
 
+        {renderAnalysis()}
+
         {/* Exercises List */}
         <View style={styles.exercisesSection}>
           <Text style={styles.sectionTitle}>Exercises ({template.exercises.length})</Text>
           
-          {template.exercises.map((templateExercise, index) => (
-            <View key={templateExercise.id} style={styles.exerciseCard}>
-              <View style={styles.exerciseHeader}>
-                <Image 
-                  source={{ uri: getExerciseImage(templateExercise.exercise.name, index) }}
-                  style={styles.exerciseImage}
-                />
-                <View style={styles.exerciseInfo}>
-                  <Text style={styles.exerciseName}>{templateExercise.exercise.name}</Text>
-                  <Text style={styles.exerciseCategory}>{templateExercise.exercise.category}</Text>
-                  <Text style={styles.exerciseMuscles}>
-                    {templateExercise.exercise.muscleGroups.join(', ')}
-                  </Text>
-                </View>
-                <ChevronRight size={20} color={colors.textTertiary} />
-              </View>
-              
-              <View style={styles.exerciseDetails}>
-                <Text style={styles.setsTitle}>Sets Configuration:</Text>
-                {templateExercise.sets.map((set, setIndex) => (
-                  <View key={setIndex} style={styles.setRow}>
-                    <Text style={styles.setNumber}>Set {setIndex + 1}</Text>
-                    <Text style={styles.setDetails}>
-                      {set.reps ? `${set.reps} reps` : ''}
-                      {set.weight ? ` @ ${set.weight}kg` : ''}
-                      {set.duration ? ` ${set.duration}s` : ''}
-                      {set.restTime ? ` • Rest: ${set.restTime}s` : ''}
-                    </Text>
-                  </View>
-                ))}
-              </View>
-              
-              {templateExercise.notes && (
-                <View style={styles.exerciseNotes}>
-                  <Text style={styles.notesTitle}>Notes:</Text>
-                  <Text style={styles.notesText}>{templateExercise.notes}</Text>
-                </View>
-              )}
+          {getExerciseBlocks(
+            template.exercises.map((templateExercise, index) => ({ templateExercise, index })),
+            item => item.templateExercise.supersetGroup,
+            template.groups
+          ).map(block => block.group ? (
+            <View key={block.items[0].templateExercise.id} style={styles.groupContainer}>
+              <Text style={styles.groupTitle}>
+                {getGroupTypeLabel(block.group.type)} • {block.group.rounds} rounds • {block.group.restTime}s rest after each round
+              </Text>
+              {block.items.map(({ templateExercise, index }) => renderExercise(templateExercise, index))}
             </View>
-          ))}
+          ) : renderExercise(block.items[0].templateExercise, block.items[0].index))}
         </View>
 
         {/* Template Info */}
@@ -458,6 +541,18 @@ const createStyles = (colors: any) => StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  groupContainer: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+    paddingLeft: 12,
+    marginBottom: 12,
+  },
+  groupTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: colors.primary,
+    marginBottom: 8,
+  },
   exerciseHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -533,6 +628,87 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.textSecondary,
     lineHeight: 16,
   },
+  analysisSection: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  analysisStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  analysisStat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  analysisValue: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 18,
+    color: colors.text,
+  },
+  analysisLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  analysisNote: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginBottom: 12,
+  },
+  muscleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+  },
+  muscleName: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.text,
+    width: 88,
+  },
+  muscleTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.surfaceSecondary,
+    overflow: 'hidden',
+  },
+  muscleFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.primary,
+  },
+  muscleSets: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    minWidth: 92,
+    textAlign: 'right',
+  },
+  balanceRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  imbalanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  imbalanceText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.warning,
+    flex: 1,
+  },
   templateInfoSection: {
     padding: 20,
   },
@@ -10,12 +10,14 @@ import {
   Modal,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft, Plus, Search, Filter, Clock, Dumbbell, Edit, Trash2, Copy, X } from 'lucide-react-native';
+import { ArrowLeft, Plus, Search, Filter, Clock, Dumbbell, Edit, Trash2, Copy, X, RefreshCw, Layers, AlertTriangle } from 'lucide-react-native';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
 import { router } from 'expo-router';
 import { WorkoutTemplate } from '@/types/workout';
 import { getTemplates, deleteTemplate } from '@/utils/storage';
 import { formatDuration } from '@/utils/workoutUtils';
+import { analyzeTemplate } from '@/utils/templateAnalysis';
+import { useSync } from '@/hooks/useSync';
 
 const categories = ['All', 'Strength', 'Cardio', 'Bodyweight', 'HIIT', 'Flexibility', 'Athletic Performance', 'Rehabilitation'];
 
@@ -32,11 +34,19 @@ export default function TemplatesScreen() {
   const [showCategoryModal, setShowCategoryModal] = useState(false);
   const [newCategory, setNewCategory] = useState('');
   const [customCategories, setCustomCategories] = useState<string[]>([]);
+  const { syncing, pendingCount, conflictCount, lastReport, sync } = useSync();
 
   useEffect(() => {
     loadTemplates();
   }, []);
 
+  useEffect(() => {
+    // Templates changed on another device show up after a sync
+    if (lastReport && lastReport.pulled > 0) {
+      loadTemplates();
+    }
+  }, [lastReport]);
+
   useEffect(() => {
     filterTemplates();
   }, [templates, searchQuery, selectedCategory]);
@@ -118,66 +128,85 @@ export default function TemplatesScreen() {
 
   const allCategories = [...categories, ...customCategories];
 
-  const renderTemplateCard = (template: WorkoutTemplate) => (
-    <TouchableOpacity
-      key={template.id}
-      style={styles.templateCard}
-      onPress={() => router.push(`/template-details/${template.id}`)}
-    >
-      <View style={styles.templateHeader}>
-        <View style={styles.templateInfo}>
-          <Text style={styles.templateName}>{template.name}</Text>
-          {template.description && (
-            <Text style={styles.templateDescription} numberOfLines={2}>
-              {template.description}
-            </Text>
-          )}
-        </View>
-        <View style={styles.templateActions}>
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={() => handleEditTemplate(template)}
-          >
-            <Edit size={16} color={colors.primary} />
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={() => handleDuplicateTemplate(template)}
-          >
-            <Copy size={16} color={colors.textSecondary} />
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={styles.actionButton}
-            onPress={() => handleDeleteTemplate(template)}
-          >
-            <Trash2 size={16} color={colors.error} />
-          </TouchableOpacity>
+  const renderTemplateCard = (template: WorkoutTemplate) => {
+    const analysis = analyzeTemplate(template);
+    return (
+      <TouchableOpacity
+        key={template.id}
+        style={styles.templateCard}
+        onPress={() => router.push(`/template-details/${template.id}`)}
+      >
+        <View style={styles.templateHeader}>
+          <View style={styles.templateInfo}>
+            <Text style={styles.templateName}>{template.name}</Text>
+            {template.description && (
+              <Text style={styles.templateDescription} numberOfLines={2}>
+                {template.description}
+              </Text>
+            )}
+          </View>
+          <View style={styles.templateActions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleEditTemplate(template)}
+            >
+              <Edit size={16} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleDuplicateTemplate(template)}
+            >
+              <Copy size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleDeleteTemplate(template)}
+            >
+              <Trash2 size={16} color={colors.error} />
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
 
-      <View style={styles.templateMeta}>
-        <View style={styles.metaItem}>
-          <Dumbbell size={14} color={colors.textSecondary} />
-          <Text style={styles.metaText}>{template.exercises.length} exercises</Text>
-        </View>
-        <View style={styles.metaItem}>
-          <Clock size={14} color={colors.textSecondary} />
-          <Text style={styles.metaText}>{formatDuration(template.duration)}</Text>
+        <View style={styles.templateMeta}>
+          <View style={styles.metaItem}>
+            <Dumbbell size={14} color={colors.textSecondary} />
+            <Text style={styles.metaText}>{template.exercises.length} exercises</Text>
+          </View>
+          <View style={styles.metaItem}>
+            <Layers size={14} color={colors.textSecondary} />
+            <Text style={styles.metaText}>{analysis.workingSets} sets</Text>
+          </View>
+          <View style={styles.metaItem}>
+            <Clock size={14} color={colors.textSecondary} />
+            <Text style={styles.metaText}>~{formatDuration(analysis.estimatedMinutes)}</Text>
+          </View>
         </View>
-      </View>
 
-      <View style={styles.templateFooter}>
-        <View style={[styles.categoryBadge, { backgroundColor: `${colors.primary}15` }]}>
-          <Text style={[styles.categoryText, { color: colors.primary }]}>
-            {template.category}
+        {analysis.muscleGroups.length > 0 && (
+          <Text style={styles.muscleSummary} numberOfLines={1}>
+            {analysis.muscleGroups.slice(0, 4).map(load => `${load.muscleGroup} ${load.sets}`).join(' • ')}
+          </Text>
+        )}
+        {analysis.imbalances.length > 0 && (
+          <View style={styles.imbalanceRow}>
+            <AlertTriangle size={14} color={colors.warning} />
+            <Text style={styles.imbalanceText} numberOfLines={1}>{analysis.imbalances[0].message}</Text>
+          </View>
+        )}
+
+        <View style={styles.templateFooter}>
+          <View style={[styles.categoryBadge, { backgroundColor: `${colors.primary}15` }]}>
+            <Text style={[styles.categoryText, { color: colors.primary }]}>
+              {template.category}
+            </Text>
+          </View>
+          <Text style={styles.templateDate}>
+            {new Date(template.updatedAt).toLocaleDateString()}
           </Text>
         </View>
-        <Text style={styles.templateDate}>
-          {new Date(template.updatedAt).toLocaleDateString()}
-        </Text>
-      </View>
-    </TouchableOpacity>
-  );
+      </TouchableOpacity>
+    );
+  };
 
   if (loading) {
     return (
@@ -215,6 +244,42 @@ export default function TemplatesScreen() {
         </View>
       </View>
 
+      {/* Sync Status */}
+      {(pendingCount > 0 || syncing) && (
+        <View style={styles.syncBanner}>
+          <Text style={styles.syncBannerText}>
+            {syncing
+              ? 'Syncing changes...'
+              : `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} waiting to sync`}
+            {!syncing && lastReport && lastReport.failed.length > 0
+              ? ` • ${lastReport.failed.length} failed`
+              : ''}
+          </Text>
+          <TouchableOpacity
+            style={styles.syncButton}
+            onPress={() => sync({ force: true })}
+            disabled={syncing}
+          >
+            <RefreshCw size={14} color={colors.primary} />
+            <Text style={styles.syncButtonText}>Retry</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {conflictCount > 0 && (
+        <View style={styles.syncBanner}>
+          <Text style={styles.syncBannerText}>
+            {`${conflictCount} ${conflictCount === 1 ? 'item was' : 'items were'} changed on another device`}
+          </Text>
+          <TouchableOpacity
+            style={styles.syncButton}
+            onPress={() => router.push('/sync-conflicts')}
+          >
+            <Text style={styles.syncButtonText}>Review</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Search Bar */}
       <View style={styles.searchContainer}>
         <Search size={20} color={colors.textTertiary} style={styles.searchIcon} />
@@ -388,6 +453,33 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.primary,
     marginLeft: 4,
   },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: `${colors.warning}15`,
+    borderRadius: 12,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  syncBannerText: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.text,
+  },
+  syncButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  syncButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: colors.primary,
+  },
   searchContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -519,6 +611,26 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.textSecondary,
     marginLeft: 4,
   },
+  muscleSummary: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  imbalanceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  imbalanceText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.warning,
+    flex: 1,
+  },
   templateFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -0,0 +1,154 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Circle, Ellipse, Rect, G } from 'react-native-svg';
+import { MuscleVolume, WEEKLY_SET_TARGET } from '@/utils/muscleVolume';
+
+interface BodyHeatmapProps {
+  muscles: MuscleVolume[];
+  selectedMuscle?: string | null;
+  onSelectMuscle?: (muscleGroup: string) => void;
+  colors: any;
+}
+
+type Shape =
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; rx: number };
+
+interface MuscleRegion {
+  muscleGroup: string;
+  shapes: Shape[];
+}
+
+// Both figures share a 100 x 220 box, mirrored shapes are listed left then right
+const mirror = (shape: Shape): Shape[] => {
+  return shape.type === 'ellipse'
+    ? [shape, { ...shape, cx: 100 - shape.cx }]
+    : [shape, { ...shape, x: 100 - shape.x - shape.width }];
+};
+
+const FRONT_REGIONS: MuscleRegion[] = [
+  { muscleGroup: 'Shoulders', shapes: mirror({ type: 'ellipse', cx: 30, cy: 48, rx: 8, ry: 7 }) },
+  { muscleGroup: 'Chest', shapes: mirror({ type: 'ellipse', cx: 42, cy: 57, rx: 8.5, ry: 7 }) },
+  { muscleGroup: 'Biceps', shapes: mirror({ type: 'ellipse', cx: 25, cy: 70, rx: 4.5, ry: 10 }) },
+  { muscleGroup: 'Forearms', shapes: mirror({ type: 'ellipse', cx: 21, cy: 94, rx: 4, ry: 11 }) },
+  { muscleGroup: 'Core', shapes: [{ type: 'rect', x: 40, y: 67, width: 20, height: 36, rx: 5 }] },
+  { muscleGroup: 'Quadriceps', shapes: mirror({ type: 'ellipse', cx: 42, cy: 138, rx: 7.5, ry: 23 }) },
+];
+
+const BACK_REGIONS: MuscleRegion[] = [
+  { muscleGroup: 'Shoulders', shapes: mirror({ type: 'ellipse', cx: 30, cy: 48, rx: 8, ry: 7 }) },
+  { muscleGroup: 'Back', shapes: [{ type: 'rect', x: 37, y: 44, width: 26, height: 50, rx: 9 }] },
+  { muscleGroup: 'Triceps', shapes: mirror({ type: 'ellipse', cx: 25, cy: 70, rx: 4.5, ry: 10 }) },
+  { muscleGroup: 'Forearms', shapes: mirror({ type: 'ellipse', cx: 21, cy: 94, rx: 4, ry: 11 }) },
+  { muscleGroup: 'Glutes', shapes: mirror({ type: 'ellipse', cx: 43, cy: 112, rx: 7.5, ry: 8 }) },
+  { muscleGroup: 'Hamstrings', shapes: mirror({ type: 'ellipse', cx: 42, cy: 142, rx: 6.5, ry: 18 }) },
+  { muscleGroup: 'Calves', shapes: mirror({ type: 'ellipse', cx: 42, cy: 184, rx: 5.5, ry: 13 }) },
+];
+
+// Head, torso, arms and legs drawn underneath the muscles
+const SILHOUETTE: Shape[] = [
+  { type: 'rect', x: 32, y: 38, width: 36, height: 80, rx: 12 },
+  ...mirror({ type: 'rect', x: 17, y: 42, width: 14, height: 68, rx: 7 }),
+  ...mirror({ type: 'rect', x: 33, y: 104, width: 16, height: 106, rx: 8 }),
+];
+
+export const BodyHeatmap: React.FC<BodyHeatmapProps> = ({
+  muscles,
+  selectedMuscle,
+  onSelectMuscle,
+  colors,
+}) => {
+  const styles = createStyles(colors);
+  const setsByMuscle = new Map(muscles.map(muscle => [muscle.muscleGroup, muscle.sets]));
+
+  // Shade grows up to the top of the weekly target, past it the colour changes
+  const getFill = (muscleGroup: string): { fill: string; opacity: number } => {
+    const sets = setsByMuscle.get(muscleGroup) ?? 0;
+    if (sets <= 0) return { fill: colors.border, opacity: 1 };
+    if (sets > WEEKLY_SET_TARGET.max) return { fill: colors.warning, opacity: 1 };
+    return { fill: colors.primary, opacity: 0.2 + 0.8 * (sets / WEEKLY_SET_TARGET.max) };
+  };
+
+  const renderShape = (shape: Shape, key: string, props: object) => {
+    return shape.type === 'ellipse'
+      ? <Ellipse key={key} cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} {...props} />
+      : <Rect key={key} x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={shape.rx} {...props} />;
+  };
+
+  const renderFigure = (regions: MuscleRegion[], label: string) => (
+    <View style={styles.figure}>
+      <Svg width={120} height={264} viewBox="0 0 100 220">
+        <Circle cx={50} cy={20} r={13} fill={colors.surfaceSecondary} />
+        {SILHOUETTE.map((shape, index) => renderShape(shape, `body-${index}`, { fill: colors.surfaceSecondary }))}
+        {regions.map(region => {
+          const { fill, opacity } = getFill(region.muscleGroup);
+          const selected = selectedMuscle === region.muscleGroup;
+          return (
+            <G key={region.muscleGroup} onPress={onSelectMuscle ? () => onSelectMuscle(region.muscleGroup) : undefined}>
+              {region.shapes.map((shape, index) => renderShape(shape, `${region.muscleGroup}-${index}`, {
+                fill,
+                fillOpacity: opacity,
+                stroke: selected ? colors.text : colors.background,
+                strokeWidth: selected ? 1.5 : 0.75,
+              }))}
+            </G>
+          );
+        })}
+      </Svg>
+      <Text style={styles.figureLabel}>{label}</Text>
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.figures}>
+        {renderFigure(FRONT_REGIONS, 'Front')}
+        {renderFigure(BACK_REGIONS, 'Back')}
+      </View>
+      <View style={styles.legend}>
+        <View style={[styles.legendSwatch, { backgroundColor: colors.border }]} />
+        <Text style={styles.legendText}>0</Text>
+        <View style={[styles.legendSwatch, { backgroundColor: colors.primary, opacity: 0.6 }]} />
+        <Text style={styles.legendText}>{WEEKLY_SET_TARGET.min}</Text>
+        <View style={[styles.legendSwatch, { backgroundColor: colors.primary }]} />
+        <Text style={styles.legendText}>{WEEKLY_SET_TARGET.max}</Text>
+        <View style={[styles.legendSwatch, { backgroundColor: colors.warning }]} />
+        <Text style={styles.legendText}>{WEEKLY_SET_TARGET.max}+ sets</Text>
+      </View>
+    </View>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  figures: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  figure: {
+    alignItems: 'center',
+  },
+  figureLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+  },
+  legendText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginRight: 6,
+  },
+});
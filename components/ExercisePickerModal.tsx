@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X, Plus, Search } from 'lucide-react-native';
+import { Exercise } from '@/types/workout';
+import { useUserRole } from '@/contexts/UserContext';
+import { DIFFICULTY_LEVELS } from '@/utils/workoutUtils';
+import { EQUIPMENT_TAGS, getEquipmentTags, formatEquipmentTags } from '@/utils/substitutions';
+import {
+  ExerciseFilters,
+  EMPTY_EXERCISE_FILTERS,
+  EXERCISE_OWNERSHIP_OPTIONS,
+  buildSearchIndex,
+  searchExercises,
+  getFacetCounts,
+  hasActiveFilters,
+} from '@/utils/exerciseSearch';
+
+interface ExercisePickerModalProps {
+  visible: boolean;
+  exercises: Exercise[];
+  title?: string;
+  excludeIds?: string[];
+  onSelect: (exercise: Exercise) => void;
+  onClose: () => void;
+  onCreateExercise?: () => void; // shown when nothing matches
+  colors: any;
+}
+
+type FacetListKey = 'muscleGroups' | 'equipment' | 'difficulty';
+
+export const ExercisePickerModal: React.FC<ExercisePickerModalProps> = ({
+  visible,
+  exercises,
+  title = 'Add Exercise',
+  excludeIds = [],
+  onSelect,
+  onClose,
+  onCreateExercise,
+  colors,
+}) => {
+  const styles = createStyles(colors);
+  const { profileId } = useUserRole();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<ExerciseFilters>(EMPTY_EXERCISE_FILTERS);
+
+  // Every visit starts from a clean search
+  useEffect(() => {
+    if (!visible) {
+      setQuery('');
+      setFilters(EMPTY_EXERCISE_FILTERS);
+    }
+  }, [visible]);
+
+  const index = useMemo(
+    () => buildSearchIndex(exercises.filter(exercise => !excludeIds.includes(exercise.id))),
+    [exercises, excludeIds.join(',')]
+  );
+  const results = searchExercises(index, query, filters, profileId);
+  const counts = getFacetCounts(index, query, filters, profileId);
+
+  const toggleFacet = <K extends FacetListKey>(key: K, value: ExerciseFilters[K][number]) => {
+    setFilters(prev => {
+      const selected = prev[key] as ExerciseFilters[K][number][];
+      return {
+        ...prev,
+        [key]: selected.includes(value) ? selected.filter(item => item !== value) : [...selected, value],
+      };
+    });
+  };
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void, count?: number) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.optionChip, active && styles.optionChipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>
+        {label}{count !== undefined ? ` ${count}` : ''}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  // Options with no results are hidden unless they are selected
+  const muscleGroups = Object.keys(counts.muscleGroups)
+    .concat(filters.muscleGroups.filter(muscleGroup => !(muscleGroup in counts.muscleGroups)))
+    .sort();
+  const equipment = EQUIPMENT_TAGS.filter(tag => counts.equipment[tag.value] || filters.equipment.includes(tag.value));
+  const difficulty = DIFFICULTY_LEVELS.filter(level => counts.difficulty[level.value] || filters.difficulty.includes(level.value));
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{title}</Text>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        {/* Search */}
+        <View style={styles.searchContainer}>
+          <Search size={20} color={colors.textTertiary} style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search name, muscle or equipment..."
+            placeholderTextColor={colors.textTertiary}
+            value={query}
+            onChangeText={setQuery}
+            autoCorrect={false}
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')}>
+              <X size={18} color={colors.textTertiary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Facets */}
+        <View style={styles.facets}>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {EXERCISE_OWNERSHIP_OPTIONS.map(option => renderChip(
+              option.value,
+              option.label,
+              filters.ownership === option.value,
+              () => setFilters(prev => ({ ...prev, ownership: option.value }))
+            ))}
+            {difficulty.map(level => renderChip(
+              level.value,
+              level.label,
+              filters.difficulty.includes(level.value),
+              () => toggleFacet('difficulty', level.value),
+              counts.difficulty[level.value]
+            ))}
+          </ScrollView>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {muscleGroups.map(muscleGroup => renderChip(
+              muscleGroup,
+              muscleGroup,
+              filters.muscleGroups.includes(muscleGroup),
+              () => toggleFacet('muscleGroups', muscleGroup),
+              counts.muscleGroups[muscleGroup]
+            ))}
+          </ScrollView>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {equipment.map(tag => renderChip(
+              tag.value,
+              tag.label,
+              filters.equipment.includes(tag.value),
+              () => toggleFacet('equipment', tag.value),
+              counts.equipment[tag.value]
+            ))}
+          </ScrollView>
+        </View>
+
+        <ScrollView style={styles.exerciseList} keyboardShouldPersistTaps="handled">
+          {results.length === 0 && (
+            <View style={styles.emptyState}>
+              <Text style={styles.emptyText}>
+                {query || hasActiveFilters(filters) ? 'No exercises found' : 'No exercises available'}
+              </Text>
+              {hasActiveFilters(filters) && (
+                <TouchableOpacity onPress={() => setFilters(EMPTY_EXERCISE_FILTERS)}>
+                  <Text style={styles.linkText}>Clear filters</Text>
+                </TouchableOpacity>
+              )}
+              {onCreateExercise && (
+                <TouchableOpacity style={styles.createButton} onPress={onCreateExercise}>
+                  <Plus size={16} color={colors.primary} />
+                  <Text style={styles.linkText}>Create New Exercise</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+          {results.map(exercise => (
+            <TouchableOpacity
+              key={exercise.id}
+              style={styles.exerciseOption}
+              onPress={() => onSelect(exercise)}
+            >
+              <View style={styles.exerciseInfo}>
+                <Text style={styles.exerciseName}>{exercise.name}</Text>
+                <Text style={styles.exerciseMeta} numberOfLines={1}>
+                  {exercise.category} • {exercise.muscleGroups.join(', ')}
+                </Text>
+                <Text style={styles.exerciseMeta} numberOfLines={1}>
+                  {formatEquipmentTags(getEquipmentTags(exercise))}
+                </Text>
+              </View>
+              <Plus size={20} color={colors.primary} />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surfaceSecondary,
+    borderRadius: 12,
+    marginHorizontal: 20,
+    marginTop: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  searchIcon: {
+    marginRight: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+  },
+  facets: {
+    paddingVertical: 12,
+    gap: 8,
+  },
+  chipRow: {
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  optionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.text,
+  },
+  optionChipTextActive: {
+    color: '#FFFFFF',
+  },
+  exerciseList: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 32,
+    gap: 12,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.textSecondary,
+  },
+  linkText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  exerciseOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  exerciseInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  exerciseName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  exerciseMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,100 @@
+import React, { useEffect, useRef } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+
+interface FormCheckPlayerProps {
+  uri: string;
+  seekRequest?: { seconds: number; requestedAt: number }; // a new request every time, seeking twice to the same spot still works
+  onTimeUpdate?: (seconds: number) => void;
+  onDuration?: (seconds: number) => void;
+  colors: any;
+}
+
+/*
+  There is no native video player in the app, the video plays in a web view.
+  The page reports the playback position back, so comments can be pinned to
+  it, and seeks when asked to.
+*/
+const buildPlayerHtml = (uri: string): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1">
+<style>
+  html, body { margin: 0; height: 100%; background: #000; }
+  video { width: 100%; height: 100%; object-fit: contain; }
+</style>
+</head>
+<body>
+<video id="video" src=${JSON.stringify(uri)} controls playsinline preload="metadata"></video>
+<script>
+  var video = document.getElementById('video');
+  var post = function (message) { window.ReactNativeWebView.postMessage(JSON.stringify(message)); };
+  video.addEventListener('timeupdate', function () { post({ type: 'time', seconds: video.currentTime }); });
+  video.addEventListener('seeked', function () { post({ type: 'time', seconds: video.currentTime }); });
+  video.addEventListener('loadedmetadata', function () { post({ type: 'duration', seconds: video.duration }); });
+  window.seekTo = function (seconds) { video.currentTime = seconds; video.pause(); };
+</script>
+</body>
+</html>`;
+
+export const FormCheckPlayer: React.FC<FormCheckPlayerProps> = ({
+  uri,
+  seekRequest,
+  onTimeUpdate,
+  onDuration,
+  colors,
+}) => {
+  const styles = createStyles(colors);
+  const webViewRef = useRef<WebView>(null);
+
+  useEffect(() => {
+    if (seekRequest) {
+      webViewRef.current?.injectJavaScript(`window.seekTo(${seekRequest.seconds}); true;`);
+    }
+  }, [seekRequest]);
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    try {
+      const message = JSON.parse(event.nativeEvent.data);
+      if (message.type === 'time') onTimeUpdate?.(message.seconds);
+      if (message.type === 'duration' && isFinite(message.seconds)) onDuration?.(message.seconds);
+    } catch (error) {
+      console.error('Error reading player message:', error);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <WebView
+        ref={webViewRef}
+        source={{ html: buildPlayerHtml(uri) }}
+        originWhitelist={['*']}
+        onMessage={handleMessage}
+        allowsInlineMediaPlayback
+        mediaPlaybackRequiresUserAction={false}
+        allowFileAccess
+        allowFileAccessFromFileURLs
+        allowingReadAccessToURL={uri.startsWith('file://') ? uri : undefined}
+        scrollEnabled={false}
+        style={styles.webView}
+      />
+    </View>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    aspectRatio: 9 / 16,
+    maxHeight: 420,
+    width: '100%',
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#000000',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  webView: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+});
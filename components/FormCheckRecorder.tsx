@@ -0,0 +1,400 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CameraView, useCameraPermissions, useMicrophonePermissions } from 'expo-camera';
+import * as MediaLibrary from 'expo-media-library';
+import { X, Video, SwitchCamera, Film } from 'lucide-react-native';
+import {
+  FORM_CHECK_MAX_SECONDS,
+  FormCheckDraft,
+  LibraryVideo,
+  saveRecording,
+  getRecentVideos,
+  resolveLibraryVideo,
+  formatVideoTime,
+} from '@/utils/formChecks';
+
+interface FormCheckRecorderProps {
+  visible: boolean;
+  title?: string; // e.g. "Squat • Set 2"
+  onSave: (video: FormCheckDraft) => void;
+  onClose: () => void;
+  colors: any;
+}
+
+type RecorderTab = 'record' | 'library';
+
+export const FormCheckRecorder: React.FC<FormCheckRecorderProps> = ({
+  visible,
+  title = 'Form Check',
+  onSave,
+  onClose,
+  colors,
+}) => {
+  const styles = createStyles(colors);
+  const cameraRef = useRef<CameraView>(null);
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const [microphonePermission, requestMicrophonePermission] = useMicrophonePermissions();
+  const [libraryPermission, requestLibraryPermission] = MediaLibrary.usePermissions();
+  const [tab, setTab] = useState<RecorderTab>('record');
+  const [facing, setFacing] = useState<'front' | 'back'>('back');
+  const [cameraReady, setCameraReady] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [videos, setVideos] = useState<LibraryVideo[]>([]);
+
+  useEffect(() => {
+    if (!visible) {
+      setTab('record');
+      setCameraReady(false);
+      setRecording(false);
+      setElapsed(0);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    if (!recording) return;
+    const timer = setInterval(() => setElapsed(prev => prev + 1), 1000);
+    return () => clearInterval(timer);
+  }, [recording]);
+
+  useEffect(() => {
+    if (visible && tab === 'library' && libraryPermission?.granted) {
+      getRecentVideos()
+        .then(setVideos)
+        .catch(error => console.error('Error loading videos:', error));
+    }
+  }, [visible, tab, libraryPermission?.granted]);
+
+  const requestRecordingPermissions = async () => {
+    await requestCameraPermission();
+    await requestMicrophonePermission();
+    await requestLibraryPermission();
+  };
+
+  const finish = async (getUri: () => Promise<string>, durationSeconds?: number) => {
+    setSaving(true);
+    try {
+      onSave({ localUri: await getUri(), durationSeconds });
+    } catch (error) {
+      console.error('Error saving form check video:', error);
+      Alert.alert('Error', 'Failed to save the video');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRecord = async () => {
+    if (!cameraRef.current || !cameraReady) return;
+
+    if (recording) {
+      cameraRef.current.stopRecording();
+      return;
+    }
+
+    const startedAt = Date.now();
+    setElapsed(0);
+    setRecording(true);
+    try {
+      // Resolves once stopped or the limit is reached
+      const result = await cameraRef.current.recordAsync({ maxDuration: FORM_CHECK_MAX_SECONDS });
+      setRecording(false);
+      if (result?.uri) {
+        await finish(() => saveRecording(result.uri), Math.round((Date.now() - startedAt) / 1000));
+      }
+    } catch (error) {
+      setRecording(false);
+      console.error('Error recording video:', error);
+      Alert.alert('Error', 'Recording failed');
+    }
+  };
+
+  const renderRecordTab = () => {
+    const granted = cameraPermission?.granted && microphonePermission?.granted && libraryPermission?.granted;
+    if (!granted) {
+      return (
+        <View style={styles.permissionState}>
+          <Video size={48} color={colors.textTertiary} />
+          <Text style={styles.permissionText}>
+            Recording needs the camera and microphone, and access to your photos to keep the video.
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={requestRecordingPermissions}>
+            <Text style={styles.primaryButtonText}>Allow Access</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.cameraContainer}>
+        <CameraView
+          ref={cameraRef}
+          style={styles.camera}
+          mode="video"
+          facing={facing}
+          onCameraReady={() => setCameraReady(true)}
+        />
+        <View style={styles.cameraControls}>
+          <Text style={styles.timerText}>
+            {formatVideoTime(elapsed)} / {formatVideoTime(FORM_CHECK_MAX_SECONDS)}
+          </Text>
+          <TouchableOpacity
+            style={[styles.recordButton, recording && styles.recordButtonActive]}
+            onPress={handleRecord}
+            disabled={!cameraReady || saving}
+          >
+            <View style={[styles.recordDot, recording && styles.recordDotActive]} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.flipButton}
+            onPress={() => setFacing(prev => (prev === 'back' ? 'front' : 'back'))}
+            disabled={recording}
+          >
+            <SwitchCamera size={24} color="#FFFFFF" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderLibraryTab = () => {
+    if (!libraryPermission?.granted) {
+      return (
+        <View style={styles.permissionState}>
+          <Film size={48} color={colors.textTertiary} />
+          <Text style={styles.permissionText}>Allow access to your videos to attach one you already recorded.</Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={requestLibraryPermission}>
+            <Text style={styles.primaryButtonText}>Allow Access</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView style={styles.videoList}>
+        {videos.length === 0 && <Text style={styles.emptyText}>No recent videos</Text>}
+        {videos.map(video => (
+          <TouchableOpacity
+            key={video.id}
+            style={styles.videoOption}
+            onPress={() => finish(() => resolveLibraryVideo(video), video.durationSeconds)}
+            disabled={saving}
+          >
+            <Film size={20} color={colors.primary} />
+            <View style={styles.videoInfo}>
+              <Text style={styles.videoName}>{new Date(video.creationTime).toLocaleString()}</Text>
+              <Text style={styles.videoMeta}>{formatVideoTime(video.durationSeconds)}</Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>{title}</Text>
+          <TouchableOpacity onPress={onClose} disabled={recording}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.tabs}>
+          {([['record', 'Record'], ['library', 'Choose Video']] as [RecorderTab, string][]).map(([value, label]) => (
+            <TouchableOpacity
+              key={value}
+              style={[styles.optionChip, tab === value && styles.optionChipActive]}
+              onPress={() => setTab(value)}
+              disabled={recording}
+            >
+              <Text style={[styles.optionChipText, tab === value && styles.optionChipTextActive]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {tab === 'record' ? renderRecordTab() : renderLibraryTab()}
+
+        {saving && (
+          <View style={styles.savingOverlay}>
+            <ActivityIndicator size="large" color={colors.primary} />
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  tabs: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  optionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.text,
+  },
+  optionChipTextActive: {
+    color: '#FFFFFF',
+  },
+  permissionState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+    gap: 16,
+  },
+  permissionText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  primaryButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  cameraContainer: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  camera: {
+    flex: 1,
+  },
+  cameraControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 20,
+  },
+  timerText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: '#FFFFFF',
+    width: 88,
+  },
+  recordButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    borderWidth: 4,
+    borderColor: '#FFFFFF',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  recordButtonActive: {
+    borderColor: colors.error,
+  },
+  recordDot: {
+    width: 52,
+    height: 52,
+    borderRadius: 26,
+    backgroundColor: colors.error,
+  },
+  recordDotActive: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+  },
+  flipButton: {
+    width: 88,
+    alignItems: 'flex-end',
+  },
+  videoList: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 32,
+  },
+  videoOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  videoInfo: {
+    flex: 1,
+  },
+  videoName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  videoMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  savingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+});
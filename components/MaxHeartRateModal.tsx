@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X } from 'lucide-react-native';
+import {
+  HeartRateProfile,
+  HEART_RATE_ZONES,
+  getMaxHeartRate,
+  estimateMaxHeartRate,
+  formatZoneRange,
+  saveHeartRateProfile,
+} from '@/utils/cardio';
+
+interface MaxHeartRateModalProps {
+  visible: boolean;
+  profile: HeartRateProfile;
+  onSave: (profile: HeartRateProfile) => void;
+  onClose: () => void;
+  colors: any;
+}
+
+const parseWholeNumber = (text: string): number | undefined => {
+  const value = parseInt(text, 10);
+  return isNaN(value) || value <= 0 ? undefined : value;
+};
+
+// A measured max heart rate wins over the age estimate, the zones preview whichever applies
+export const MaxHeartRateModal: React.FC<MaxHeartRateModalProps> = ({
+  visible,
+  profile,
+  onSave,
+  onClose,
+  colors,
+}) => {
+  const styles = createStyles(colors);
+  const [maxText, setMaxText] = useState('');
+  const [ageText, setAgeText] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setMaxText(profile.maxHeartRate?.toString() ?? '');
+      setAgeText(profile.age?.toString() ?? '');
+    }
+  }, [visible]);
+
+  const draft: HeartRateProfile = { maxHeartRate: parseWholeNumber(maxText), age: parseWholeNumber(ageText) };
+  const maxHeartRate = getMaxHeartRate(draft);
+
+  const handleSave = async () => {
+    if (draft.maxHeartRate !== undefined && (draft.maxHeartRate < 100 || draft.maxHeartRate > 240)) {
+      Alert.alert('Error', 'Max heart rate should be between 100 and 240 bpm');
+      return;
+    }
+
+    try {
+      await saveHeartRateProfile(draft);
+      onSave(draft);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to save heart rate settings');
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <Text style={styles.modalTitle}>Max Heart Rate</Text>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content}>
+          <Text style={styles.label}>Max heart rate (bpm)</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="e.g. 188"
+            placeholderTextColor={colors.textTertiary}
+            value={maxText}
+            onChangeText={setMaxText}
+            keyboardType="number-pad"
+          />
+
+          <Text style={styles.label}>Age</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Used to estimate it if you don't know"
+            placeholderTextColor={colors.textTertiary}
+            value={ageText}
+            onChangeText={setAgeText}
+            keyboardType="number-pad"
+          />
+          {!draft.maxHeartRate && draft.age !== undefined && (
+            <Text style={styles.hint}>Estimated at {estimateMaxHeartRate(draft.age)} bpm (208 - 0.7 × age)</Text>
+          )}
+
+          <Text style={styles.sectionTitle}>Zones</Text>
+          {maxHeartRate ? (
+            HEART_RATE_ZONES.map(zone => (
+              <View key={zone.zone} style={styles.zoneRow}>
+                <Text style={styles.zoneName}>Zone {zone.zone} • {zone.label}</Text>
+                <Text style={styles.zoneRange}>{formatZoneRange(zone, maxHeartRate)}</Text>
+              </View>
+            ))
+          ) : (
+            <Text style={styles.hint}>Enter a max heart rate or your age to see your zones.</Text>
+          )}
+        </ScrollView>
+
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+            <Text style={styles.saveButtonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  label: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontFamily: 'Inter-Regular',
+    fontSize: 16,
+    color: colors.text,
+    marginBottom: 16,
+  },
+  hint: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: -8,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  zoneName: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  zoneRange: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  saveButton: {
+    backgroundColor: colors.primary,
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { ChevronLeft, ChevronRight } from 'lucide-react-native';
+import { BodyHeatmap } from '@/components/BodyHeatmap';
+import {
+  LoggedExercise,
+  SetTargetStatus,
+  WEEKLY_SET_TARGET,
+  MUSCLE_TREND_WEEKS,
+  getMuscleVolumeTrend,
+  getSetTargetStatus,
+  formatSetCount,
+} from '@/utils/muscleVolume';
+import { parseDateKey } from '@/utils/dates';
+import { formatQuantity } from '@/utils/units';
+import { useUnitSystem, useWeekStart } from '@/contexts/UserContext';
+
+interface MuscleVolumeCardProps {
+  logged: LoggedExercise[];
+  colors: any;
+}
+
+const TREND_BAR_HEIGHT = 20;
+
+// Hard sets per muscle for a week on a body heatmap, with each muscle's last few weeks next to it
+export const MuscleVolumeCard: React.FC<MuscleVolumeCardProps> = ({ logged, colors }) => {
+  const styles = createStyles(colors);
+  const { unitSystem } = useUnitSystem();
+  const { weekStart } = useWeekStart();
+  const [weekIndex, setWeekIndex] = useState(MUSCLE_TREND_WEEKS - 1);
+  const [selectedMuscle, setSelectedMuscle] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedMuscle(null);
+  }, [weekIndex]);
+
+  const trend = getMuscleVolumeTrend(logged, MUSCLE_TREND_WEEKS, weekStart);
+  const week = trend[weekIndex];
+  const inRange = week.muscles.filter(muscle => getSetTargetStatus(muscle.sets) === 'inRange').length;
+
+  const getStatusColor = (status: SetTargetStatus): string => {
+    switch (status) {
+      case 'inRange': return colors.success;
+      case 'over': return colors.warning;
+      case 'under': return colors.primary;
+      default: return colors.textTertiary;
+    }
+  };
+
+  const getWeekLabel = (): string => {
+    if (weekIndex === MUSCLE_TREND_WEEKS - 1) return 'This week';
+    if (weekIndex === MUSCLE_TREND_WEEKS - 2) return 'Last week';
+    return `Week of ${parseDateKey(week.weekStart).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}`;
+  };
+
+  const getTrendSets = (muscleGroup: string): number[] => {
+    return trend.map(entry => entry.muscles.find(muscle => muscle.muscleGroup === muscleGroup)?.sets ?? 0);
+  };
+
+  const visibleMuscles = selectedMuscle
+    ? week.muscles.filter(muscle => muscle.muscleGroup === selectedMuscle)
+    : week.muscles;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>MUSCLE VOLUME</Text>
+        <View style={styles.weekNav}>
+          <TouchableOpacity onPress={() => setWeekIndex(index => Math.max(index - 1, 0))} disabled={weekIndex === 0}>
+            <ChevronLeft size={20} color={weekIndex === 0 ? colors.textTertiary : colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.weekLabel}>{getWeekLabel()}</Text>
+          <TouchableOpacity
+            onPress={() => setWeekIndex(index => Math.min(index + 1, MUSCLE_TREND_WEEKS - 1))}
+            disabled={weekIndex === MUSCLE_TREND_WEEKS - 1}
+          >
+            <ChevronRight size={20} color={weekIndex === MUSCLE_TREND_WEEKS - 1 ? colors.textTertiary : colors.text} />
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <BodyHeatmap
+        muscles={week.muscles}
+        selectedMuscle={selectedMuscle}
+        onSelectMuscle={(muscleGroup) => setSelectedMuscle(prev => (prev === muscleGroup ? null : muscleGroup))}
+        colors={colors}
+      />
+
+      <Text style={styles.summary}>
+        {week.muscles.length === 0
+          ? 'No hard sets logged'
+          : `${inRange} of ${week.muscles.length} muscles in the ${WEEKLY_SET_TARGET.min}-${WEEKLY_SET_TARGET.max} set range`}
+      </Text>
+
+      {selectedMuscle && visibleMuscles.length === 0 && (
+        <Text style={styles.summary}>No hard sets for {selectedMuscle}</Text>
+      )}
+
+      {visibleMuscles.map(muscle => {
+        const status = getSetTargetStatus(muscle.sets);
+        const trendSets = getTrendSets(muscle.muscleGroup);
+        const maxTrendSets = Math.max(...trendSets, WEEKLY_SET_TARGET.max);
+        return (
+          <TouchableOpacity
+            key={muscle.muscleGroup}
+            style={styles.muscleRow}
+            onPress={() => setSelectedMuscle(prev => (prev === muscle.muscleGroup ? null : muscle.muscleGroup))}
+          >
+            <View style={styles.muscleInfo}>
+              <Text style={styles.muscleName}>{muscle.muscleGroup}</Text>
+              <Text style={styles.muscleMeta}>
+                {muscle.volume > 0 ? formatQuantity(muscle.volume, 'weight', unitSystem, 0) : 'Bodyweight'}
+              </Text>
+            </View>
+            <View style={styles.trend}>
+              {trendSets.map((sets, index) => (
+                <View
+                  key={index}
+                  style={[
+                    styles.trendBar,
+                    {
+                      height: Math.max((sets / maxTrendSets) * TREND_BAR_HEIGHT, 2),
+                      backgroundColor: index === weekIndex ? getStatusColor(status) : colors.border,
+                    },
+                  ]}
+                />
+              ))}
+            </View>
+            <Text style={[styles.muscleSets, { color: getStatusColor(status) }]}>
+              {formatSetCount(muscle.sets)} sets
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 20,
+    marginHorizontal: 20,
+    marginBottom: 24,
+    shadowColor: colors.shadow,
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: colors.textSecondary,
+    letterSpacing: 0.5,
+  },
+  weekNav: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  weekLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.text,
+    minWidth: 96,
+    textAlign: 'center',
+  },
+  summary: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  muscleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.borderLight,
+  },
+  muscleInfo: {
+    flex: 1,
+  },
+  muscleName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+  },
+  muscleMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  trend: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 3,
+    height: TREND_BAR_HEIGHT,
+  },
+  trendBar: {
+    width: 6,
+    borderRadius: 2,
+  },
+  muscleSets: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    minWidth: 64,
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,225 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X, Replace } from 'lucide-react-native';
+import { Exercise, EquipmentTag } from '@/types/workout';
+import {
+  EQUIPMENT_TAGS,
+  getAvailableEquipment,
+  saveAvailableEquipment,
+  rankSubstitutes,
+  describeSubstitute,
+} from '@/utils/substitutions';
+
+interface SubstituteExerciseModalProps {
+  visible: boolean;
+  exercise: Exercise | null;
+  library: Exercise[];
+  excludeIds?: string[]; // exercises already in the workout
+  onSelect: (exercise: Exercise) => void;
+  onClose: () => void;
+  colors: any;
+}
+
+export const SubstituteExerciseModal: React.FC<SubstituteExerciseModalProps> = ({
+  visible,
+  exercise,
+  library,
+  excludeIds = [],
+  onSelect,
+  onClose,
+  colors,
+}) => {
+  const styles = createStyles(colors);
+  const [available, setAvailable] = useState<EquipmentTag[]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      getAvailableEquipment().then(setAvailable);
+    }
+  }, [visible]);
+
+  const handleToggleEquipment = async (tag: EquipmentTag) => {
+    const updated = available.includes(tag) ? available.filter(item => item !== tag) : [...available, tag];
+    setAvailable(updated);
+    try {
+      await saveAvailableEquipment(updated);
+    } catch (error) {
+      console.error('Error updating available equipment:', error);
+    }
+  };
+
+  // Templates keep a copy of the exercise, the library one has the latest tags and variations
+  const original = exercise ? library.find(item => item.id === exercise.id) ?? exercise : null;
+  const suggestions = original ? rankSubstitutes(original, library, available, excludeIds) : [];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <View style={styles.headerInfo}>
+            <Text style={styles.modalTitle}>Swap Exercise</Text>
+            {exercise && <Text style={styles.modalSubtitle}>Alternatives to {exercise.name}</Text>}
+          </View>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.equipmentSection}>
+          <Text style={styles.sectionLabel}>Equipment I have</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {EQUIPMENT_TAGS.filter(tag => tag.value !== 'bodyweight').map(tag => (
+              <TouchableOpacity
+                key={tag.value}
+                style={[styles.optionChip, available.includes(tag.value) && styles.optionChipActive]}
+                onPress={() => handleToggleEquipment(tag.value)}
+              >
+                <Text style={[styles.optionChipText, available.includes(tag.value) && styles.optionChipTextActive]}>
+                  {tag.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+
+        <ScrollView style={styles.list}>
+          {suggestions.length === 0 && (
+            <Text style={styles.emptyText}>
+              No exercise in your library works the same muscles. Add one, or link variations from the exercise editor.
+            </Text>
+          )}
+          {suggestions.map(suggestion => (
+            <TouchableOpacity
+              key={suggestion.exercise.id}
+              style={[styles.option, suggestion.missingEquipment.length > 0 && styles.optionUnavailable]}
+              onPress={() => onSelect(suggestion.exercise)}
+            >
+              <View style={styles.optionInfo}>
+                <Text style={styles.optionName}>{suggestion.exercise.name}</Text>
+                <Text
+                  style={[styles.optionMeta, suggestion.missingEquipment.length > 0 && { color: colors.warning }]}
+                  numberOfLines={2}
+                >
+                  {describeSubstitute(suggestion)}
+                </Text>
+              </View>
+              <Replace size={20} color={colors.primary} />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  modalTitle: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  modalSubtitle: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  equipmentSection: {
+    paddingVertical: 16,
+  },
+  sectionLabel: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.text,
+    marginBottom: 8,
+    paddingHorizontal: 20,
+  },
+  chipRow: {
+    gap: 8,
+    paddingHorizontal: 20,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceSecondary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  optionChipActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionChipText: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 13,
+    color: colors.text,
+  },
+  optionChipTextActive: {
+    color: '#FFFFFF',
+  },
+  list: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  emptyText: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  optionUnavailable: {
+    opacity: 0.7,
+  },
+  optionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  optionName: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 16,
+    color: colors.text,
+  },
+  optionMeta: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+});
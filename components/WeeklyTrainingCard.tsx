@@ -0,0 +1,226 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Exercise } from '@/types/workout';
+import { getExercises } from '@/utils/storage';
+import { getWeeklyStats, calculateSessionVolume } from '@/utils/workoutUtils';
+import { summarizeCardio, formatCardioTime, HEART_RATE_ZONES } from '@/utils/cardio';
+import { getTodayKey, getWeekKeys, parseDateKey } from '@/utils/dates';
+import { formatQuantity } from '@/utils/units';
+import { useUserStats } from '@/contexts/UserStatsContext';
+import { useUnitSystem, useWeekStart } from '@/contexts/UserContext';
+
+interface WeeklyTrainingCardProps {
+  maxHeartRate?: number | null; // zones are left out without one
+  colors: any;
+}
+
+const BAR_HEIGHT = 64;
+
+// Strength volume and cardio for the current week, with a bar per day for each
+export const WeeklyTrainingCard: React.FC<WeeklyTrainingCardProps> = ({ maxHeartRate, colors }) => {
+  const styles = createStyles(colors);
+  const { workoutSessions } = useUserStats();
+  const { unitSystem } = useUnitSystem();
+  const { weekStart } = useWeekStart();
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+
+  useEffect(() => {
+    getExercises()
+      .then(setExercises)
+      .catch(error => console.error('Error loading exercises:', error));
+  }, []);
+
+  const stats = getWeeklyStats(workoutSessions, weekStart, exercises, maxHeartRate);
+  const days = getWeekKeys(getTodayKey(), weekStart).map(key => {
+    const sessions = workoutSessions.filter(session => session.completed && session.date === key);
+    return {
+      key,
+      volume: sessions.reduce((total, session) => total + calculateSessionVolume(session), 0),
+      cardioSeconds: summarizeCardio(sessions, exercises).seconds,
+    };
+  });
+  const maxVolume = Math.max(...days.map(day => day.volume), 1);
+  const maxCardioSeconds = Math.max(...days.map(day => day.cardioSeconds), 1);
+  const zoneTotal = Object.values(stats.cardio.zoneSeconds).reduce((total, seconds) => total + (seconds ?? 0), 0);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>THIS WEEK</Text>
+
+      <View style={styles.totals}>
+        <View style={styles.total}>
+          <View style={[styles.legendDot, { backgroundColor: colors.primary }]} />
+          <View>
+            <Text style={styles.totalValue}>{formatQuantity(stats.totalVolume, 'weight', unitSystem, 0)}</Text>
+            <Text style={styles.totalLabel}>Strength volume</Text>
+          </View>
+        </View>
+        <View style={styles.total}>
+          <View style={[styles.legendDot, { backgroundColor: colors.success }]} />
+          <View>
+            <Text style={styles.totalValue}>
+              {stats.cardio.distance > 0 ? formatQuantity(stats.cardio.distance, 'distance', unitSystem) : '—'}
+            </Text>
+            <Text style={styles.totalLabel}>
+              Cardio{stats.cardio.seconds > 0 ? ` • ${formatCardioTime(stats.cardio.seconds)}` : ''}
+            </Text>
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.chart}>
+        {days.map(day => (
+          <View key={day.key} style={styles.day}>
+            <View style={styles.bars}>
+              <View style={[styles.bar, { height: (day.volume / maxVolume) * BAR_HEIGHT, backgroundColor: colors.primary }]} />
+              <View style={[styles.bar, { height: (day.cardioSeconds / maxCardioSeconds) * BAR_HEIGHT, backgroundColor: colors.success }]} />
+            </View>
+            <Text style={styles.dayLabel}>
+              {parseDateKey(day.key).toLocaleDateString(undefined, { weekday: 'narrow' })}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      {zoneTotal > 0 && (
+        <View style={styles.zones}>
+          <Text style={styles.zonesTitle}>
+            Time in heart rate zones{stats.cardio.averageHeartRate ? ` • avg ${stats.cardio.averageHeartRate} bpm` : ''}
+          </Text>
+          {HEART_RATE_ZONES.map(zone => {
+            const seconds = stats.cardio.zoneSeconds[zone.zone] ?? 0;
+            return (
+              <View key={zone.zone} style={styles.zoneRow}>
+                <Text style={styles.zoneLabel}>Z{zone.zone} {zone.label}</Text>
+                <View style={styles.zoneTrack}>
+                  <View style={[styles.zoneFill, { width: `${(seconds / zoneTotal) * 100}%` }]} />
+                </View>
+                <Text style={styles.zoneTime}>{formatCardioTime(seconds)}</Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (colors: any) => StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 12,
+    padding: 20,
+    marginHorizontal: 20,
+    marginBottom: 24,
+    shadowColor: colors.shadow,
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 1,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  title: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 12,
+    color: colors.textSecondary,
+    letterSpacing: 0.5,
+    marginBottom: 12,
+  },
+  totals: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 16,
+  },
+  total: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginTop: 8,
+  },
+  totalValue: {
+    fontFamily: 'Inter-Bold',
+    fontSize: 20,
+    color: colors.text,
+  },
+  totalLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  chart: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  day: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 3,
+    height: BAR_HEIGHT,
+  },
+  bar: {
+    width: 8,
+    borderRadius: 4,
+    minHeight: 2,
+  },
+  dayLabel: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 11,
+    color: colors.textTertiary,
+    marginTop: 6,
+  },
+  zones: {
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    gap: 8,
+  },
+  zonesTitle: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: colors.text,
+  },
+  zoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  zoneLabel: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 12,
+    color: colors.textSecondary,
+    width: 96,
+  },
+  zoneTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.surfaceSecondary,
+    overflow: 'hidden',
+  },
+  zoneFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.error,
+  },
+  zoneTime: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.text,
+    width: 48,
+    textAlign: 'right',
+  },
+});
@@ -16,6 +16,9 @@ import { Users, Calendar, TrendingUp, Clock, MessageSquare, Plus, Star, Activity
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { router } from 'expo-router';
+import { getPlans, getFormChecks } from '@/utils/storage';
+import { isFormCheckReviewed } from '@/utils/formChecks';
+import { addDays, getTodayKey } from '@/utils/dates';
 
 const { width } = Dimensions.get('window');
 
@@ -157,6 +160,34 @@ export default function CoachingTrainerView() {
   const [showFilters, setShowFilters] = useState(false);
   const [selectedFilter, setSelectedFilter] = useState('all');
   const [showQuickActions, setShowQuickActions] = useState(false);
+  const [missedThisWeek, setMissedThisWeek] = useState(0);
+  const [formChecksToReview, setFormChecksToReview] = useState(0);
+
+  useEffect(() => {
+    loadMissedWorkouts();
+    loadFormChecks();
+  }, []);
+
+  const loadMissedWorkouts = async () => {
+    try {
+      const since = addDays(getTodayKey(), -7);
+      const plans = await getPlans();
+      setMissedThisWeek(plans
+        .flatMap(plan => plan.adjustments || [])
+        .filter(adjustment => adjustment.missedDate >= since).length);
+    } catch (error) {
+      console.error('Error loading missed workouts:', error);
+    }
+  };
+
+  const loadFormChecks = async () => {
+    try {
+      const formChecks = await getFormChecks();
+      setFormChecksToReview(formChecks.filter(formCheck => !isFormCheckReviewed(formCheck)).length);
+    } catch (error) {
+      console.error('Error loading form checks:', error);
+    }
+  };
 
   const filters = ['all', 'active', 'inactive', 'high-progress'];
   const unreadNotifications = notifications.filter(n => !n.read).length;
@@ -443,6 +474,28 @@ export default function CoachingTrainerView() {
       >
         {selectedTab === 'clients' ? (
           <>
+            {/* Missed Workouts */}
+            {missedThisWeek > 0 && (
+              <TouchableOpacity style={styles.missedCard} onPress={() => router.push('/missed-workouts')}>
+                <AlertCircle size={20} color={colors.error} />
+                <Text style={styles.missedText}>
+                  {missedThisWeek} missed {missedThisWeek === 1 ? 'workout' : 'workouts'} in the last 7 days
+                </Text>
+                <ChevronRight size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+
+            {/* Form Checks */}
+            {formChecksToReview > 0 && (
+              <TouchableOpacity style={[styles.missedCard, styles.formCheckCard]} onPress={() => router.push('/form-checks')}>
+                <Video size={20} color={colors.primary} />
+                <Text style={styles.missedText}>
+                  {formChecksToReview} form {formChecksToReview === 1 ? 'check' : 'checks'} to review
+                </Text>
+                <ChevronRight size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+
             {/* Quick Stats */}
             <View style={styles.statsContainer}>
               <View style={styles.statCard}>
@@ -499,6 +552,22 @@ export default function CoachingTrainerView() {
                 <Calendar size={20} color={colors.success} />
                 <Text style={styles.quickActionText}>Plans</Text>
               </TouchableOpacity>
+
+              <TouchableOpacity 
+                style={styles.quickActionButton}
+                onPress={() => router.push('/programs')}
+              >
+                <Target size={20} color={colors.info} />
+                <Text style={styles.quickActionText}>Programs</Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity 
+                style={styles.quickActionButton}
+                onPress={() => router.push('/form-checks')}
+              >
+                <Video size={20} color={colors.primary} />
+                <Text style={styles.quickActionText}>Form Checks</Text>
+              </TouchableOpacity>
               
               <TouchableOpacity 
                 style={styles.quickActionButton}
@@ -760,6 +829,27 @@ const createStyles = (colors: any) => StyleSheet.create({
   scrollView: {
     flex: 1,
   },
+  missedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: colors.surface,
+    marginHorizontal: 20,
+    marginBottom: 16,
+    borderRadius: 12,
+    padding: 16,
+    borderLeftWidth: 4,
+    borderLeftColor: colors.error,
+  },
+  formCheckCard: {
+    borderLeftColor: colors.primary,
+  },
+  missedText: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
   statsContainer: {
     flexDirection: 'row',
     paddingHorizontal: 20,
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -9,12 +9,21 @@ import {
   Alert,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import { User, Settings, Clock, Droplets, TrendingUp, Calendar, Camera, ChartBar as BarChart3, Target, ChevronRight, Activity, LogOut, Footprints } from 'lucide-react-native';
+import { User, Settings, Clock, Droplets, TrendingUp, Calendar, Camera, ChartBar as BarChart3, Target, ChevronRight, Activity, LogOut, Footprints, Archive, Trophy, Ruler, Video, HeartPulse } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '@/hooks/useColorScheme';
-import { useUserRole } from '@/contexts/UserContext';
+import { useUserRole, useUnitSystem, useWeekStart } from '@/contexts/UserContext';
+import { getUnitLabel, displayValue, formatQuantity } from '@/utils/units';
 import { useAuth } from '@/contexts/AuthContext';
 import { router } from 'expo-router';
+import { WeeklyTrainingCard } from '@/components/WeeklyTrainingCard';
+import { MuscleVolumeCard } from '@/components/MuscleVolumeCard';
+import { MaxHeartRateModal } from '@/components/MaxHeartRateModal';
+import { HeartRateProfile, getHeartRateProfile, getMaxHeartRate } from '@/utils/cardio';
+import { getLoggedExercises } from '@/utils/muscleVolume';
+import { getExercises } from '@/utils/storage';
+import { useUserStats } from '@/contexts/UserStatsContext';
+import { Exercise } from '@/types/workout';
 
 const { width } = Dimensions.get('window');
 
@@ -27,7 +36,7 @@ const weightData = [
   { date: '6/22', weight: 69.5 },
 ];
 
-// Dummy chest data for demonstration
+// Dummy chest data for demonstration, in cm like stored measurements
 const chestData = [
   { date: '4/24', value: 98 },
   { date: '5/6', value: 97.5 },
@@ -43,6 +52,17 @@ export default function ProfileClientView() {
   const styles = createStyles(colors);
   const { userRole, userName, setUserRole } = useUserRole();
   const { user, signOut, loading } = useAuth();
+  const { unitSystem, setUnitSystem } = useUnitSystem();
+  const { weekStart, setWeekStart } = useWeekStart();
+  const [heartRateProfile, setHeartRateProfile] = useState<HeartRateProfile>({});
+  const [showHeartRateModal, setShowHeartRateModal] = useState(false);
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const { workoutSessions } = useUserStats();
+
+  useEffect(() => {
+    getHeartRateProfile().then(setHeartRateProfile);
+    getExercises().then(setExercises);
+  }, []);
 
   if (loading) return null; // Prevent hook mismatch by not rendering until auth is ready
 
@@ -67,11 +87,36 @@ export default function ProfileClientView() {
             // Just call signOut; let auth context handle navigation and errors
             signOut();
           }
+        },
+        {
+          text: 'Sign Out & Remove Data',
+          style: 'destructive',
+          onPress: () => {
+            // For shared devices: nothing from this account stays behind
+            signOut({ removeLocalData: true });
+          }
         }
       ]
     );
   };
 
+  const handleChangeUnits = () => {
+    Alert.alert(
+      'Units',
+      'Measurements are stored the same way either way, only how they are shown changes.',
+      [
+        { text: 'Metric (kg, cm, km, L)', onPress: () => setUnitSystem('metric') },
+        { text: 'Imperial (lb, in, mi, fl oz)', onPress: () => setUnitSystem('imperial') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const maxHeartRate = getMaxHeartRate(heartRateProfile);
+  const weightUnit = getUnitLabel('weight', unitSystem);
+  const lengthUnit = getUnitLabel('length', unitSystem);
+  const chestChange = chestData[0].value - chestData[chestData.length - 1].value;
+
   const menuItems = [
     {
       id: 'steps',
@@ -94,6 +139,20 @@ export default function ProfileClientView() {
       color: colors.success,
       onPress: () => {},
     },
+    {
+      id: 'records',
+      title: 'Personal records',
+      icon: Trophy,
+      color: colors.warning,
+      onPress: () => router.push('/personal-records'),
+    },
+    {
+      id: 'formChecks',
+      title: 'Form checks',
+      icon: Video,
+      color: colors.primary,
+      onPress: () => router.push('/form-checks'),
+    },
     {
       id: 'progress',
       title: 'Progress photo',
@@ -109,6 +168,34 @@ export default function ProfileClientView() {
       color: colors.info,
       onPress: () => router.push('/fitness-goals'),
     }] : []),
+    {
+      id: 'units',
+      title: `Units: ${unitSystem === 'imperial' ? 'Imperial' : 'Metric'}`,
+      icon: Ruler,
+      color: colors.info,
+      onPress: handleChangeUnits,
+    },
+    {
+      id: 'maxHeartRate',
+      title: maxHeartRate ? `Max heart rate: ${maxHeartRate} bpm` : 'Set max heart rate',
+      icon: HeartPulse,
+      color: colors.error,
+      onPress: () => setShowHeartRateModal(true),
+    },
+    {
+      id: 'weekStart',
+      title: `Week starts on ${weekStart === 'sunday' ? 'Sunday' : 'Monday'}`,
+      icon: Calendar,
+      color: colors.primary,
+      onPress: () => setWeekStart(weekStart === 'sunday' ? 'monday' : 'sunday'),
+    },
+    {
+      id: 'backup',
+      title: 'Backup & restore',
+      icon: Archive,
+      color: colors.textSecondary,
+      onPress: () => router.push('/backup'),
+    },
   
   ];
 
@@ -246,6 +333,10 @@ export default function ProfileClientView() {
           </View>
         </View>
 
+        <WeeklyTrainingCard maxHeartRate={maxHeartRate} colors={colors} />
+
+        <MuscleVolumeCard logged={getLoggedExercises(workoutSessions, exercises)} colors={colors} />
+
          <View style={styles.metricsSection}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Metrics</Text>
@@ -255,26 +346,24 @@ export default function ProfileClientView() {
           </View>
           <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ paddingVertical: 4 }}>
             <View style={[styles.metricsCard, { width: width - 80, marginRight: 16 }]}> 
-              <Text style={styles.metricsTitle}>WEIGHT (KG)</Text>
+              <Text style={styles.metricsTitle}>WEIGHT ({weightUnit.toUpperCase()})</Text>
               <View style={styles.weightInfo}>
-                <Text style={styles.currentWeight}>{currentWeight}</Text>
+                <Text style={styles.currentWeight}>{displayValue(currentWeight, 'weight', unitSystem)}</Text>
                 <Text style={styles.weightProgress}>
-                  {currentWeight > goalWeight ? `${(currentWeight - goalWeight).toFixed(1)} kg to goal` : 'Goal reached!'}
+                  {currentWeight > goalWeight ? `${formatQuantity(currentWeight - goalWeight, 'weight', unitSystem)} to goal` : 'Goal reached!'}
                 </Text>
               </View>
-              {renderMetricChart(weightData.map(d => ({ date: d.date, value: d.weight })), 'Weight')}
+              {renderMetricChart(weightData.map(d => ({ date: d.date, value: displayValue(d.weight, 'weight', unitSystem) })), 'Weight')}
             </View>
             <View style={[styles.metricsCard, { width: width - 80 }]}> 
-              <Text style={styles.metricsTitle}>CHEST (CM)</Text>
+              <Text style={styles.metricsTitle}>CHEST ({lengthUnit.toUpperCase()})</Text>
               <View style={styles.weightInfo}>
-                <Text style={styles.currentWeight}>{chestData[chestData.length - 1].value}</Text>
+                <Text style={styles.currentWeight}>{displayValue(chestData[chestData.length - 1].value, 'length', unitSystem)}</Text>
                 <Text style={styles.weightProgress}>
-                  {chestData[0].value - chestData[chestData.length - 1].value > 0
-                    ? `${(chestData[0].value - chestData[chestData.length - 1].value).toFixed(1)} cm progress`
-                    : 'No change'}
+                  {chestChange > 0 ? `${formatQuantity(chestChange, 'length', unitSystem)} progress` : 'No change'}
                 </Text>
               </View>
-              {renderMetricChart(chestData, 'Chest')}
+              {renderMetricChart(chestData.map(d => ({ date: d.date, value: displayValue(d.value, 'length', unitSystem) })), 'Chest')}
             </View>
           </ScrollView>
         </View>
@@ -297,6 +386,17 @@ export default function ProfileClientView() {
 
         <View style={{ height: 100 }} />
       </ScrollView>
+
+      <MaxHeartRateModal
+        visible={showHeartRateModal}
+        profile={heartRateProfile}
+        onSave={(profile) => {
+          setHeartRateProfile(profile);
+          setShowHeartRateModal(false);
+        }}
+        onClose={() => setShowHeartRateModal(false)}
+        colors={colors}
+      />
     </SafeAreaView>
   );
 }
@@ -26,15 +26,29 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { router } from 'expo-router';
-import { WorkoutPlan, WorkoutTemplate } from '@/types/workout';
-import { getClientPlans, getTemplate } from '@/utils/storage';
-import { getDayOfWeek, isToday } from '@/utils/workoutUtils';
+import { WorkoutPlan, WorkoutTemplate, PlannedSession, ProgramEnrollment } from '@/types/workout';
+import { getPlan, getTemplate } from '@/utils/storage';
+import { isToday } from '@/utils/workoutUtils';
+import { onDayChange, parseDateKey } from '@/utils/dates';
+import { getPlannedSessionsOn } from '@/utils/planCalendar';
+import {
+  reconcileMissedWorkouts,
+  proposeAdjustment,
+  saveAdjustment,
+  describeAdjustment,
+  MissedWorkout,
+} from '@/utils/missedWorkouts';
+import { refreshEnrollments, getPhaseLabel } from '@/utils/programs';
+import { useUnitSystem, useUserRole } from '@/contexts/UserContext';
+import { getUnitLabel } from '@/utils/units';
 
 const { width } = Dimensions.get('window');
 
 export default function TodayClientView() {
 const colorScheme = useColorScheme() ?? 'light';
   const colors = getColors(colorScheme);
+  const { unitSystem } = useUnitSystem();
+  const { profileId } = useUserRole();
   const styles = createStyles(colors);
 
   const [showMissedWorkout, setShowMissedWorkout] = useState(true);
@@ -43,6 +57,10 @@ const colorScheme = useColorScheme() ?? 'light';
   const [userName] = useState('Vinay');
   const [todaysWorkout, setTodaysWorkout] = useState<WorkoutTemplate | null>(null);
   const [currentPlan, setCurrentPlan] = useState<WorkoutPlan | null>(null);
+  const [plannedSession, setPlannedSession] = useState<PlannedSession | null>(null);
+  const [missedWorkouts, setMissedWorkouts] = useState<MissedWorkout[]>([]);
+  const [rescheduled, setRescheduled] = useState<MissedWorkout[]>([]);
+  const [enrollment, setEnrollment] = useState<ProgramEnrollment | null>(null);
   const [activeGoal, setActiveGoal] = useState({
     title: 'Lose 10kg for Summer',
     emoji: '🏖️',
@@ -52,35 +70,55 @@ const colorScheme = useColorScheme() ?? 'light';
 
   useEffect(() => {
     loadTodaysWorkout();
-  }, []);
+    return onDayChange(() => loadTodaysWorkout());
+  }, [profileId]);
 
   const loadTodaysWorkout = async () => {
     try {
-      // Get current client's plans
-      const clientId = 'client-1'; // TODO: Get from user context
-      const plans = await getClientPlans(clientId);
-      
-      // Find active plan for today
-      const today = new Date().toISOString().split('T')[0];
-      const activePlan = plans.find(plan => 
-        plan.startDate <= today && plan.endDate >= today
-      );
+      if (!profileId) return;
+
+      // Rescheduling can move a missed workout onto today, so it runs first
+      const reconciliation = await reconcileMissedWorkouts(profileId);
+      setMissedWorkouts(reconciliation.pending);
+      setRescheduled(reconciliation.applied);
 
-      if (activePlan) {
-        setCurrentPlan(activePlan);
-        const dayOfWeek = getDayOfWeek(new Date());
-        const templateId = activePlan.schedule[dayOfWeek];
-        
-        if (templateId) {
-          const template = await getTemplate(templateId);
-          setTodaysWorkout(template);
-        }
+      const enrollments = await refreshEnrollments(profileId);
+      setEnrollment(enrollments.find(item => item.status === 'active' || item.status === 'enrolled') ?? null);
+
+      const [planned] = await getPlannedSessionsOn(profileId);
+      setPlannedSession(planned ?? null);
+      if (!planned) {
+        setCurrentPlan(null);
+        setTodaysWorkout(null);
+        return;
       }
+
+      const [plan, template] = await Promise.all([getPlan(planned.planId), getTemplate(planned.templateId)]);
+      setCurrentPlan(plan);
+      setTodaysWorkout(template);
     } catch (error) {
       console.error('Error loading today\'s workout:', error);
     }
   };
 
+  const handleResolveMissed = async (missed: MissedWorkout, skip: boolean) => {
+    try {
+      await saveAdjustment(missed.plan.id, skip ? proposeAdjustment(missed.plan, missed.planned, 'skip') : missed.proposal);
+      await loadTodaysWorkout();
+    } catch (error) {
+      console.error('Error rescheduling missed workout:', error);
+    }
+  };
+
+  const getProposalLabel = (missed: MissedWorkout) => {
+    const { proposal } = missed;
+    if (proposal.policy === 'push') return 'Push plan';
+    if (proposal.policy === 'nextRestDay' && proposal.date) {
+      return `Make up ${parseDateKey(proposal.date).toLocaleDateString('en-US', { weekday: 'short' })}`;
+    }
+    return null;
+  };
+
   const getCurrentDate = () => {
     const date = new Date();
     return date.toLocaleDateString('en-US', { 
@@ -105,7 +143,9 @@ const colorScheme = useColorScheme() ?? 'light';
 
   const handleStartWorkout = () => {
     if (todaysWorkout) {
-      router.push(`/start-workout/${todaysWorkout.id}`);
+      router.push(currentPlan
+        ? `/start-workout/${todaysWorkout.id}?planId=${currentPlan.id}${plannedSession?.makeup ? '&makeup=true' : ''}`
+        : `/start-workout/${todaysWorkout.id}`);
     }
   };
 
@@ -286,6 +326,29 @@ const colorScheme = useColorScheme() ?? 'light';
         {/* Today's Workout */}
         {renderTodaysWorkout()}
 
+        <TouchableOpacity style={styles.calendarLink} onPress={() => router.push('/plan-calendar')}>
+          <Calendar size={18} color={colors.primary} />
+          <Text style={styles.calendarLinkText}>Workout calendar</Text>
+          <ChevronRight size={16} color={colors.textSecondary} />
+        </TouchableOpacity>
+
+        {/* Program */}
+        {enrollment && (
+          <View style={styles.programCard}>
+            <View style={styles.programHeader}>
+              <Target size={18} color={colors.primary} />
+              <Text style={styles.calendarLinkText}>{enrollment.programName}</Text>
+              <Text style={styles.programPercent}>{enrollment.completionPercentage}%</Text>
+            </View>
+            <Text style={styles.programPhase}>
+              {enrollment.status === 'enrolled' ? `Starts ${enrollment.startDate}` : getPhaseLabel(enrollment)}
+            </Text>
+            <View style={styles.programBar}>
+              <View style={[styles.programBarFill, { width: `${enrollment.completionPercentage}%` }]} />
+            </View>
+          </View>
+        )}
+
         {/* Fitness Goal Card */}
         <TouchableOpacity style={styles.goalCard} onPress={handleGoalPress}>
           <View style={styles.goalHeader}>
@@ -327,13 +390,27 @@ const colorScheme = useColorScheme() ?? 'light';
         </TouchableOpacity>
 
         {/* Missed Workout Alert */}
-        {showMissedWorkout && (
+        {showMissedWorkout && missedWorkouts.length > 0 && (
           <View style={styles.alertCard}>
-            <View style={styles.alertContent}>
-              <Text style={styles.alertIcon}>⚠️</Text>
-              <Text style={styles.alertText}>
-                You missed <Text style={styles.alertHighlight}>1 workout</Text> from Saturday
-              </Text>
+            <View style={styles.alertBody}>
+              <View style={styles.alertContent}>
+                <Text style={styles.alertIcon}>⚠️</Text>
+                <Text style={styles.alertText}>
+                  You missed <Text style={styles.alertHighlight}>
+                    {missedWorkouts.length} {missedWorkouts.length === 1 ? 'workout' : 'workouts'}
+                  </Text> from {parseDateKey(missedWorkouts[0].planned.date).toLocaleDateString('en-US', { weekday: 'long' })}
+                </Text>
+              </View>
+              <View style={styles.alertActions}>
+                {getProposalLabel(missedWorkouts[0]) && (
+                  <TouchableOpacity style={styles.alertAction} onPress={() => handleResolveMissed(missedWorkouts[0], false)}>
+                    <Text style={styles.alertActionText}>{getProposalLabel(missedWorkouts[0])}</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.alertAction} onPress={() => handleResolveMissed(missedWorkouts[0], true)}>
+                  <Text style={styles.alertActionText}>Skip</Text>
+                </TouchableOpacity>
+              </View>
             </View>
             <TouchableOpacity 
               onPress={() => setShowMissedWorkout(false)}
@@ -344,6 +421,22 @@ const colorScheme = useColorScheme() ?? 'light';
           </View>
         )}
 
+        {/* Rescheduled by the plan */}
+        {showMissedWorkout && missedWorkouts.length === 0 && rescheduled.length > 0 && (
+          <View style={[styles.alertCard, styles.infoAlertCard]}>
+            <View style={styles.alertContent}>
+              <Text style={styles.alertIcon}>📅</Text>
+              <Text style={styles.alertText}>{describeAdjustment(rescheduled[rescheduled.length - 1].proposal)}</Text>
+            </View>
+            <TouchableOpacity 
+              onPress={() => setShowMissedWorkout(false)}
+              style={styles.alertClose}
+            >
+              <X size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Steps Tracker */}
         <View style={styles.card}>
           <View style={styles.cardHeader}>
@@ -447,7 +540,7 @@ const colorScheme = useColorScheme() ?? 'light';
             </View>
             <View style={styles.statItem}>
               <Text style={styles.statNumber}>0</Text>
-              <Text style={styles.statLabel}>Water (L)</Text>
+              <Text style={styles.statLabel}>Water ({getUnitLabel('volume', unitSystem)})</Text>
             </View>
           </View>
         </View>
@@ -688,11 +781,34 @@ const createStyles = (colors: any) => StyleSheet.create({
     borderLeftWidth: 4,
     borderLeftColor: colors.error,
   },
+  infoAlertCard: {
+    borderLeftColor: colors.primary,
+  },
+  alertBody: {
+    flex: 1,
+  },
   alertContent: {
     flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
   },
+  alertActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+    marginLeft: 24,
+  },
+  alertAction: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: colors.surfaceSecondary,
+  },
+  alertActionText: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 13,
+    color: colors.text,
+  },
   alertIcon: {
     fontSize: 16,
     marginRight: 8,
@@ -785,6 +901,58 @@ const createStyles = (colors: any) => StyleSheet.create({
   //   justifyContent: 'center',
   //   alignItems: 'center',
   // },
+  calendarLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: colors.surface,
+    marginHorizontal: 20,
+    marginBottom: 16,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  calendarLinkText: {
+    flex: 1,
+    fontFamily: 'Inter-Medium',
+    fontSize: 14,
+    color: colors.text,
+  },
+  programCard: {
+    backgroundColor: colors.surface,
+    marginHorizontal: 20,
+    marginBottom: 16,
+    borderRadius: 12,
+    padding: 16,
+  },
+  programHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  programPercent: {
+    fontFamily: 'Inter-SemiBold',
+    fontSize: 14,
+    color: colors.primary,
+  },
+  programPhase: {
+    fontFamily: 'Inter-Regular',
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 4,
+    marginBottom: 10,
+  },
+  programBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.surfaceSecondary,
+    overflow: 'hidden',
+  },
+  programBarFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.primary,
+  },
   goalCard: {
     backgroundColor: colors.surface,
     marginHorizontal: 20,
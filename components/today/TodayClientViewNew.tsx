@@ -26,12 +26,16 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { useTodayDataNew } from '../../hooks/useTodayDataNew';
+import { useUnitSystem } from '../../contexts/UserContext';
+import { displayValue, getUnitLabel } from '../../utils/units';
+import { getTodayKey, diffInDays } from '../../utils/dates';
 import { TodayClientData } from '../../lib/todayQueries';
 import { router } from 'expo-router';
 
 export default function TodayClientViewNew() {
   const colorScheme = useColorScheme() ?? 'light';
   const colors = getColors(colorScheme);
+  const { unitSystem } = useUnitSystem();
   const styles = createStyles(colors);
   const { data, loading, error, refreshData } = useTodayDataNew();
 
@@ -74,11 +78,7 @@ export default function TodayClientViewNew() {
 
   const calculateDaysLeft = (targetDate: string | null) => {
     if (!targetDate) return 0;
-    const target = new Date(targetDate);
-    const today = new Date();
-    const diffTime = target.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return Math.max(0, diffDays);
+    return Math.max(0, diffInDays(targetDate, getTodayKey()));
   };
 
   const daysLeft = calculateDaysLeft(activeGoal.target_date);
@@ -367,8 +367,8 @@ export default function TodayClientViewNew() {
               <Text style={styles.statLabel}>Calories</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statNumber}>{((clientData?.todayStats?.water_intake_ml || 0) / 1000).toFixed(1)}</Text>
-              <Text style={styles.statLabel}>Water (L)</Text>
+              <Text style={styles.statNumber}>{displayValue(clientData?.todayStats?.water_intake_ml || 0, 'volume', unitSystem)}</Text>
+              <Text style={styles.statLabel}>Water ({getUnitLabel('volume', unitSystem)})</Text>
             </View>
           </View>
         </View>
@@ -26,6 +26,9 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useColorScheme, getColors } from '../../hooks/useColorScheme';
 import { useTodayData } from '../../hooks/useTodayData';
+import { useUnitSystem } from '../../contexts/UserContext';
+import { displayValue, getUnitLabel } from '../../utils/units';
+import { getTodayKey, diffInDays } from '../../utils/dates';
 import { router } from 'expo-router';
 
 const { width } = Dimensions.get('window');
@@ -33,6 +36,7 @@ const { width } = Dimensions.get('window');
 export default function TodayClientViewWithData() {
   const colorScheme = useColorScheme() ?? 'light';
   const colors = getColors(colorScheme);
+  const { unitSystem } = useUnitSystem();
   const styles = createStyles(colors);
   const { profile, todayStats, workoutSessions, activeGoals, clientAssignment, loading, refreshData } = useTodayData();
 
@@ -73,11 +77,7 @@ export default function TodayClientViewWithData() {
 
   const calculateDaysLeft = (targetDate: string | null) => {
     if (!targetDate) return 0;
-    const target = new Date(targetDate);
-    const today = new Date();
-    const diffTime = target.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    return Math.max(0, diffDays);
+    return Math.max(0, diffInDays(targetDate, getTodayKey()));
   };
 
   const daysLeft = calculateDaysLeft(activeGoal.target_date);
@@ -352,8 +352,8 @@ export default function TodayClientViewWithData() {
               <Text style={styles.statLabel}>Calories</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statNumber}>{((todayStats?.water_intake_ml || 0) / 1000).toFixed(1)}</Text>
-              <Text style={styles.statLabel}>Water (L)</Text>
+              <Text style={styles.statNumber}>{displayValue(todayStats?.water_intake_ml || 0, 'volume', unitSystem)}</Text>
+              <Text style={styles.statLabel}>Water ({getUnitLabel('volume', unitSystem)})</Text>
             </View>
           </View>
         </View>
@@ -48,6 +48,10 @@ export default function TodayTrainerViewNew() {
 
   const upcomingSessions = trainerData?.trainingSessions?.filter(s => s.status === 'scheduled') || [];
 
+  const hasWorkedOutToday = (clientId: string) => {
+    return trainerData?.clientWorkouts?.some(w => w.client_id === clientId && w.completed) || false;
+  };
+
   // Navigation handlers
   const handleViewAllSessions = () => {
     router.push('/trainer/sessions');
@@ -198,6 +202,9 @@ export default function TodayTrainerViewNew() {
                 <View style={styles.clientInfo}>
                   <Text style={styles.clientName}>{client.full_name || 'Unknown'}</Text>
                   <Text style={styles.clientEmail}>{client.email}</Text>
+                  {hasWorkedOutToday(client.id) && (
+                    <Text style={styles.clientWorkoutDone}>✓ Completed today's workout</Text>
+                  )}
                 </View>
                 <View style={styles.clientActions}>
                   <TouchableOpacity style={styles.clientActionButton}>
@@ -487,6 +494,12 @@ const createStyles = (colors: any) => StyleSheet.create({
     color: colors.textSecondary,
     marginTop: 2,
   },
+  clientWorkoutDone: {
+    fontFamily: 'Inter-Medium',
+    fontSize: 12,
+    color: colors.success,
+    marginTop: 2,
+  },
   clientActions: {
     flexDirection: 'row',
     gap: 8,
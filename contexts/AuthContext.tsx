@@ -1,6 +1,13 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { setActiveAccount, clearAccountData } from '@/utils/accountStorage';
+import { cancelAllGoalNotifications, rescheduleGoalNotifications } from '@/utils/notificationService';
+import { runStorageMigrations } from '@/utils/storageMigrations';
+
+interface SignOutOptions {
+  removeLocalData?: boolean; // wipe this account's cached data instead of just locking it
+}
 
 interface AuthContextType {
   user: User | null;
@@ -8,10 +15,17 @@ interface AuthContextType {
   loading: boolean;
   signUp: (email: string, password: string, userData?: any) => Promise<{ data: any; error: any }>;
   signIn: (email: string, password: string) => Promise<{ data: any; error: any }>;
-  signOut: () => Promise<{ error: any }>;
+  signOut: (options?: SignOutOptions) => Promise<{ error: any }>;
   resetPassword: (email: string) => Promise<{ data: any; error: any }>;
 }
 
+// Runs whenever an account becomes active, before any screen reads its data
+const prepareAccount = async (): Promise<void> => {
+  await runStorageMigrations();
+  // Signing out only cancels reminders with the OS, bring back the ones still ahead
+  await rescheduleGoalNotifications();
+};
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 interface AuthProviderProps {
@@ -25,7 +39,9 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   useEffect(() => {
     // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
+      // Local storage has to point at this account, and be migrated, before any screen reads from it
+      await setActiveAccount(session?.user?.id ?? null, prepareAccount);
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
@@ -35,6 +51,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
       async (event, session) => {
         console.log('Auth state changed:', event, session?.user?.email);
+        await setActiveAccount(session?.user?.id ?? null, prepareAccount);
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
@@ -63,9 +80,28 @@ export function AuthProvider({ children }: AuthProviderProps) {
     return { data, error };
   };
 
-  const signOut = async () => {
+  const signOut = async (options: SignOutOptions = {}) => {
+    const accountId = user?.id;
+
+    // Reminders belong to this account and must not fire for whoever signs in next
+    await cancelAllGoalNotifications();
+
     const { error } = await supabase.auth.signOut();
-    return { error };
+    if (error) {
+      return { error };
+    }
+
+    // Signing out switches to the guest namespace, which locks this account's data until it signs in again
+    await setActiveAccount(null, prepareAccount);
+    if (accountId && options.removeLocalData) {
+      try {
+        await clearAccountData(accountId);
+      } catch (clearError) {
+        return { error: clearError };
+      }
+    }
+
+    return { error: null };
   };
 
   const resetPassword = async (email: string) => {
@@ -85,7 +121,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
   return (
     <AuthContext.Provider value={value}>
-      {children}
+      {/* Screens read local data as soon as they mount, hold them back until it's on the current schema */}
+      {loading ? null : children}
     </AuthContext.Provider>
   );
 }
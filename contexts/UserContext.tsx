@@ -1,5 +1,9 @@
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { getCurrentUserProfile, updateUnitSystem } from '@/lib/database';
+import { getUnitSystem, saveUnitSystem, DEFAULT_UNIT_SYSTEM } from '@/utils/units';
+import { UnitSystem } from '@/types/units';
+import { getWeekStart, saveWeekStart, WeekStart, DEFAULT_WEEK_START } from '@/utils/dates';
 
 export type UserRole = 'client' | 'trainer' | 'nutritionist' | 'admin' | 'hr';
 
@@ -8,6 +12,11 @@ interface UserContextType {
   setUserRole: (role: UserRole | null) => void;
   userName: string;
   setUserName: (name: string) => void;
+  profileId: string | null; // plans and sessions assigned to this user carry it as their clientId
+  unitSystem: UnitSystem;
+  setUnitSystem: (system: UnitSystem) => Promise<void>;
+  weekStart: WeekStart;
+  setWeekStart: (weekStart: WeekStart) => Promise<void>;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
@@ -19,6 +28,9 @@ interface UserProviderProps {
 export function UserProvider({ children }: UserProviderProps) {
   const [userRole, setUserRole] = useState<UserRole | null>(null);
   const [userName, setUserName] = useState<string>('User');
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [weekStart, setWeekStartState] = useState<WeekStart>(DEFAULT_WEEK_START);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -28,14 +40,50 @@ export function UserProvider({ children }: UserProviderProps) {
       setUserRole(role);
       const name = user.user_metadata?.full_name || user.email?.split('@')[0] || 'User';
       setUserName(name);
+      loadProfile();
+      getWeekStart().then(setWeekStartState);
     } else {
       setUserRole(null);
       setUserName('User');
+      setProfileId(null);
+      setUnitSystemState(DEFAULT_UNIT_SYSTEM);
+      setWeekStartState(DEFAULT_WEEK_START);
     }
   }, [user]);
 
+  // The cached choice shows right away, the profile wins once it has loaded
+  const loadProfile = async () => {
+    setUnitSystemState(await getUnitSystem());
+
+    const profile = await getCurrentUserProfile();
+    setProfileId(profile?.id ?? null);
+    if (profile?.unit_system) {
+      setUnitSystemState(profile.unit_system);
+      await saveUnitSystem(profile.unit_system);
+    }
+  };
+
+  const setUnitSystem = async (system: UnitSystem) => {
+    setUnitSystemState(system);
+    try {
+      await saveUnitSystem(system);
+      await updateUnitSystem(system);
+    } catch (error) {
+      console.error('Error changing unit system:', error);
+    }
+  };
+
+  const setWeekStart = async (value: WeekStart) => {
+    setWeekStartState(value);
+    try {
+      await saveWeekStart(value);
+    } catch (error) {
+      console.error('Error changing week start:', error);
+    }
+  };
+
   return (
-    <UserContext.Provider value={{ userRole, setUserRole, userName, setUserName }}>
+    <UserContext.Provider value={{ userRole, setUserRole, userName, setUserName, profileId, unitSystem, setUnitSystem, weekStart, setWeekStart }}>
       {children}
     </UserContext.Provider>
   );
@@ -47,4 +95,14 @@ export function useUserRole() {
     throw new Error('useUserRole must be used within a UserProvider');
   }
   return context;
-}
\ No newline at end of file
+}
+
+export function useUnitSystem() {
+  const { unitSystem, setUnitSystem } = useUserRole();
+  return { unitSystem, setUnitSystem };
+}
+
+export function useWeekStart() {
+  const { weekStart, setWeekStart } = useUserRole();
+  return { weekStart, setWeekStart };
+}
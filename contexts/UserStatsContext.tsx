@@ -1,19 +1,22 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-interface WorkoutSession {
-  id: string;
-  date: string;
-  duration: number; // in minutes
-  type: string;
-  completed: boolean;
-}
+import { accountStorage, onAccountChange } from '@/utils/accountStorage';
+import { WorkoutSession, SELF_CLIENT_ID } from '@/types/workout';
+import { getClientSessions, saveSession } from '@/utils/storage';
+import { recordPersonalRecords } from '@/utils/personalRecords';
+import {
+  generateId,
+  getCurrentStreak as calculateCurrentStreak,
+  getLongestStreak as calculateLongestStreak,
+  getTrainingMinutes,
+} from '@/utils/workoutUtils';
+import { getTodayKey, addDays, toDateKey, onDayChange } from '@/utils/dates';
 
 interface UserStatsContextType {
   streakDays: number;
   trainingMinutes: number;
   workoutSessions: WorkoutSession[];
-  addWorkoutSession: (session: Omit<WorkoutSession, 'id'>) => Promise<void>;
+  addWorkoutSession: (session: Omit<WorkoutSession, 'id' | 'clientId' | 'synced'>) => Promise<void>;
+  refreshSessions: () => Promise<void>;
   updateStreakDays: () => Promise<void>;
   getTotalTrainingMinutes: () => number;
   getWeeklyTrainingMinutes: () => number;
@@ -28,10 +31,9 @@ interface UserStatsProviderProps {
   children: ReactNode;
 }
 
+// Sessions themselves live in utils/storage, these only cache the derived streaks
 const STORAGE_KEYS = {
-  WORKOUT_SESSIONS: '@workout_sessions',
   STREAK_DAYS: '@streak_days',
-  LAST_WORKOUT_DATE: '@last_workout_date',
   LONGEST_STREAK: '@longest_streak',
 };
 
@@ -43,57 +45,59 @@ export function UserStatsProvider({ children }: UserStatsProviderProps) {
   // Load data from storage on app start
   useEffect(() => {
     loadStoredData();
+
+    // Another account means another set of sessions and streaks
+    return onAccountChange(() => {
+      setStreakDays(0);
+      loadStoredData();
+    });
   }, []);
 
-  // Update training minutes when sessions change
+  // Update training minutes and streak when sessions change
   useEffect(() => {
-    const totalMinutes = getTotalTrainingMinutes();
-    setTrainingMinutes(totalMinutes);
+    setTrainingMinutes(getTotalTrainingMinutes());
+    updateStreakDays();
+  }, [workoutSessions]);
+
+  // A streak without a workout yesterday ends at midnight, even while the app stays open
+  useEffect(() => {
+    return onDayChange(() => updateStreakDays());
   }, [workoutSessions]);
 
   const loadStoredData = async () => {
     try {
-      const [sessionsData, streakData] = await Promise.all([
-        AsyncStorage.getItem(STORAGE_KEYS.WORKOUT_SESSIONS),
-        AsyncStorage.getItem(STORAGE_KEYS.STREAK_DAYS),
-      ]);
-
-      if (sessionsData) {
-        const sessions = JSON.parse(sessionsData);
-        setWorkoutSessions(sessions);
-      }
-
+      const streakData = await accountStorage.getItem(STORAGE_KEYS.STREAK_DAYS);
       if (streakData) {
         setStreakDays(parseInt(streakData, 10));
       }
 
-      // Update streak on app load
-      await updateStreakDays();
+      await refreshSessions();
     } catch (error) {
       console.error('Error loading stored data:', error);
     }
   };
 
-  const addWorkoutSession = async (session: Omit<WorkoutSession, 'id'>) => {
+  const refreshSessions = async () => {
+    try {
+      // A trainer's device also holds the sessions they logged for clients, only their own count here
+      const sessions = await getClientSessions(SELF_CLIENT_ID);
+      setWorkoutSessions(sessions);
+    } catch (error) {
+      console.error('Error loading workout sessions:', error);
+    }
+  };
+
+  const addWorkoutSession = async (session: Omit<WorkoutSession, 'id' | 'clientId' | 'synced'>) => {
     try {
       const newSession: WorkoutSession = {
         ...session,
-        id: Date.now().toString(),
+        id: generateId(),
+        clientId: SELF_CLIENT_ID,
+        synced: false,
       };
-
-      const updatedSessions = [...workoutSessions, newSession];
-      setWorkoutSessions(updatedSessions);
-
-      // Save to storage
-      await AsyncStorage.setItem(
-        STORAGE_KEYS.WORKOUT_SESSIONS,
-        JSON.stringify(updatedSessions)
-      );
-
-      // Update streak if workout is completed
-      if (session.completed) {
-        await updateStreakDays();
-      }
+      await saveSession(newSession);
+      await recordPersonalRecords(newSession);
+      await refreshSessions();
     } catch (error) {
       console.error('Error adding workout session:', error);
     }
@@ -105,14 +109,14 @@ export function UserStatsProvider({ children }: UserStatsProviderProps) {
       setStreakDays(currentStreak);
 
       // Save current streak
-      await AsyncStorage.setItem(STORAGE_KEYS.STREAK_DAYS, currentStreak.toString());
+      await accountStorage.setItem(STORAGE_KEYS.STREAK_DAYS, currentStreak.toString());
 
       // Update longest streak if current is higher
-      const longestStreakData = await AsyncStorage.getItem(STORAGE_KEYS.LONGEST_STREAK);
+      const longestStreakData = await accountStorage.getItem(STORAGE_KEYS.LONGEST_STREAK);
       const longestStreak = longestStreakData ? parseInt(longestStreakData, 10) : 0;
 
       if (currentStreak > longestStreak) {
-        await AsyncStorage.setItem(STORAGE_KEYS.LONGEST_STREAK, currentStreak.toString());
+        await accountStorage.setItem(STORAGE_KEYS.LONGEST_STREAK, currentStreak.toString());
       }
     } catch (error) {
       console.error('Error updating streak days:', error);
@@ -120,77 +124,26 @@ export function UserStatsProvider({ children }: UserStatsProviderProps) {
   };
 
   const getCurrentStreak = (): number => {
-    if (workoutSessions.length === 0) return 0;
-
-    // Sort sessions by date (most recent first)
-    const completedSessions = workoutSessions
-      .filter(session => session.completed)
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-
-    if (completedSessions.length === 0) return 0;
-
-    let streak = 0;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    // Check if there's a workout today or yesterday (to account for current day)
-    const mostRecentWorkout = new Date(completedSessions[0].date);
-    mostRecentWorkout.setHours(0, 0, 0, 0);
-
-    const daysDiff = Math.floor((today.getTime() - mostRecentWorkout.getTime()) / (1000 * 60 * 60 * 24));
-
-    // If last workout was more than 1 day ago, streak is broken
-    if (daysDiff > 1) return 0;
-
-    // Count consecutive days with workouts
-    const workoutDates = new Set(
-      completedSessions.map(session => {
-        const date = new Date(session.date);
-        date.setHours(0, 0, 0, 0);
-        return date.getTime();
-      })
-    );
-
-    let currentDate = new Date(mostRecentWorkout);
-    while (workoutDates.has(currentDate.getTime())) {
-      streak++;
-      currentDate.setDate(currentDate.getDate() - 1);
-    }
-
-    return streak;
+    return calculateCurrentStreak(workoutSessions);
   };
 
   const getLongestStreak = (): number => {
-    // This would be loaded from AsyncStorage in a real implementation
-    return Math.max(streakDays, 7); // Mock data for demo
+    return calculateLongestStreak(workoutSessions);
   };
 
   const getTotalTrainingMinutes = (): number => {
-    return workoutSessions
-      .filter(session => session.completed)
-      .reduce((total, session) => total + session.duration, 0);
+    return getTrainingMinutes(workoutSessions);
   };
 
+  // The last seven days including today, since is inclusive
   const getWeeklyTrainingMinutes = (): number => {
-    const oneWeekAgo = new Date();
-    oneWeekAgo.setDate(oneWeekAgo.getDate() - 7);
-
-    return workoutSessions
-      .filter(session => 
-        session.completed && new Date(session.date) >= oneWeekAgo
-      )
-      .reduce((total, session) => total + session.duration, 0);
+    return getTrainingMinutes(workoutSessions, addDays(getTodayKey(), -6));
   };
 
   const getMonthlyTrainingMinutes = (): number => {
     const oneMonthAgo = new Date();
     oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-
-    return workoutSessions
-      .filter(session => 
-        session.completed && new Date(session.date) >= oneMonthAgo
-      )
-      .reduce((total, session) => total + session.duration, 0);
+    return getTrainingMinutes(workoutSessions, toDateKey(oneMonthAgo));
   };
 
   return (
@@ -200,6 +153,7 @@ export function UserStatsProvider({ children }: UserStatsProviderProps) {
         trainingMinutes,
         workoutSessions,
         addWorkoutSession,
+        refreshSessions,
         updateStreakDays,
         getTotalTrainingMinutes,
         getWeeklyTrainingMinutes,
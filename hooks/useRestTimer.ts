@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  scheduleRestTimerNotification,
+  cancelRestTimerNotification,
+} from '@/utils/notificationService';
+
+interface RestTimer {
+  endsAt: number; // epoch ms, so the countdown survives the app being backgrounded
+  duration: number; // in seconds, including adjustments
+  exerciseName: string;
+}
+
+export function useRestTimer() {
+  const [timer, setTimer] = useState<RestTimer | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const notificationId = useRef<string | null>(null);
+  const scheduleToken = useRef(0);
+
+  const cancelNotification = () => {
+    scheduleToken.current++;
+    if (notificationId.current) {
+      cancelRestTimerNotification(notificationId.current);
+      notificationId.current = null;
+    }
+  };
+
+  // The OS delivers the notification if the app is in the background when rest ends
+  const scheduleNotification = async (endsAt: number, exerciseName: string) => {
+    cancelNotification();
+    const token = scheduleToken.current;
+    const id = await scheduleRestTimerNotification((endsAt - Date.now()) / 1000, exerciseName);
+
+    // The timer was changed while the notification was being scheduled
+    if (token !== scheduleToken.current) {
+      if (id) cancelRestTimerNotification(id);
+      return;
+    }
+    notificationId.current = id;
+  };
+
+  useEffect(() => {
+    if (!timer) return;
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= timer.endsAt) {
+        notificationId.current = null; // already delivered
+        setTimer(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  useEffect(() => {
+    return () => cancelNotification();
+  }, []);
+
+  const start = (seconds: number, exerciseName: string) => {
+    if (seconds <= 0) {
+      skip();
+      return;
+    }
+
+    const current = Date.now();
+    const endsAt = current + seconds * 1000;
+    setNow(current);
+    setTimer({ endsAt, duration: seconds, exerciseName });
+    scheduleNotification(endsAt, exerciseName);
+  };
+
+  const adjust = (deltaSeconds: number) => {
+    if (!timer) return;
+
+    const current = Date.now();
+    const endsAt = timer.endsAt + deltaSeconds * 1000;
+    if (endsAt <= current) {
+      skip();
+      return;
+    }
+
+    setNow(current);
+    setTimer({ ...timer, endsAt, duration: Math.max(0, timer.duration + deltaSeconds) });
+    scheduleNotification(endsAt, timer.exerciseName);
+  };
+
+  const skip = () => {
+    cancelNotification();
+    setTimer(null);
+  };
+
+  return {
+    active: timer !== null,
+    remainingSeconds: timer ? Math.max(0, Math.ceil((timer.endsAt - now) / 1000)) : 0,
+    duration: timer?.duration ?? 0,
+    exerciseName: timer?.exerciseName,
+    start,
+    adjust,
+    skip,
+  };
+}
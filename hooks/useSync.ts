@@ -0,0 +1,60 @@
+import { useState, useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { syncPendingChanges, SyncOptions, SyncReport } from '@/lib/sync';
+import { getPendingSync } from '@/utils/storage';
+import { getSyncConflicts } from '@/utils/syncConflicts';
+
+export function useSync() {
+  const { user } = useAuth();
+  const [syncing, setSyncing] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [conflictCount, setConflictCount] = useState(0);
+  const [lastReport, setLastReport] = useState<SyncReport | null>(null);
+
+  const refreshPendingCount = async () => {
+    const pendingSync = await getPendingSync();
+    const conflicts = await getSyncConflicts();
+    setPendingCount(pendingSync.length);
+    setConflictCount(conflicts.length);
+  };
+
+  const sync = async (options: SyncOptions = {}) => {
+    if (!user) {
+      await refreshPendingCount();
+      return;
+    }
+
+    try {
+      setSyncing(true);
+      const report = await syncPendingChanges(options);
+      setLastReport(report);
+    } catch (error) {
+      console.error('Error syncing pending changes:', error);
+    } finally {
+      setSyncing(false);
+      await refreshPendingCount();
+    }
+  };
+
+  useEffect(() => {
+    sync();
+
+    // Retry whenever the app comes back to the foreground
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        sync();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [user]);
+
+  return {
+    syncing,
+    pendingCount,
+    conflictCount,
+    lastReport,
+    sync,
+  };
+}
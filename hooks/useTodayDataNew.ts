@@ -1,26 +1,36 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import {
   getClientTodayData,
   getTrainerTodayData,
   getNutritionistTodayData,
   getAdminTodayData,
-  TodayClientData,
-  TodayTrainerData,
-  TodayNutritionistData,
-  TodayAdminData,
 } from '@/lib/todayQueries';
-
-type TodayData = TodayClientData | TodayTrainerData | TodayNutritionistData | TodayAdminData | null;
+import { subscribeToTodayChanges, applyTodayChange, TodayData, TodayRole } from '@/lib/todayRealtime';
 
 export function useTodayDataNew() {
   const { user } = useAuth();
   const [data, setData] = useState<TodayData>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  // Bumped by every load and by the effect cleanup, a load that finds it changed has been superseded
+  const requestRef = useRef(0);
+
+  // Get user role from metadata
+  const userRole: TodayRole = user?.user_metadata?.role || 'client';
+
+  const stopRealtime = () => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+  };
 
   const loadTodayData = async () => {
+    const requestId = ++requestRef.current;
+    const isCurrent = () => requestId === requestRef.current;
+
     if (!user) {
+      stopRealtime();
       setData(null);
       setLoading(false);
       return;
@@ -30,8 +40,6 @@ export function useTodayDataNew() {
       setLoading(true);
       setError(null);
 
-      // Get user role from metadata
-      const userRole = user.user_metadata?.role || 'client';
       let todayData: TodayData = null;
 
       switch (userRole) {
@@ -53,18 +61,34 @@ export function useTodayDataNew() {
           break;
       }
 
+      if (!isCurrent()) return;
       setData(todayData);
+
+      // Keep the cached data current instead of waiting for the next pull to refresh
+      stopRealtime();
+      if (todayData) {
+        unsubscribeRef.current = subscribeToTodayChanges(userRole, todayData, (change) => {
+          setData(current => applyTodayChange(current, userRole, change));
+        });
+      }
     } catch (err) {
+      if (!isCurrent()) return;
       console.error('Error loading today data:', err);
       setError('Failed to load data');
     } finally {
-      setLoading(false);
+      if (isCurrent()) setLoading(false);
     }
   };
 
   useEffect(() => {
     loadTodayData();
-  }, [user]);
+
+    // A different user or role needs different channels, and a load still in flight must not subscribe
+    return () => {
+      requestRef.current++;
+      stopRealtime();
+    };
+  }, [user?.id, userRole]);
 
   const refreshData = () => {
     loadTodayData();
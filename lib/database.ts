@@ -1,4 +1,7 @@
 import { supabase } from './supabase';
+import { getTodayKey } from '@/utils/dates';
+import { UnitSystem } from '@/types/units';
+import { LoggedExercise } from '@/utils/muscleVolume';
 
 export interface Profile {
   id: string;
@@ -7,6 +10,7 @@ export interface Profile {
   full_name?: string;
   role: 'client' | 'trainer' | 'nutritionist' | 'admin' | 'hr';
   avatar_url?: string;
+  unit_system?: UnitSystem;
   created_at: string;
   updated_at: string;
 }
@@ -149,10 +153,32 @@ export const createOrUpdateProfile = async (profileData: Partial<Profile>): Prom
   }
 };
 
+export const updateUnitSystem = async (unitSystem: UnitSystem): Promise<boolean> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ unit_system: unitSystem, updated_at: new Date().toISOString() })
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error updating unit system:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in updateUnitSystem:', error);
+    return false;
+  }
+};
+
 // Today's data functions
 export const getTodayStats = async (userId: string): Promise<DailyStats | null> => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
     
     const { data, error } = await supabase
       .from('daily_stats')
@@ -175,7 +201,7 @@ export const getTodayStats = async (userId: string): Promise<DailyStats | null>
 
 export const updateTodayStats = async (userId: string, stats: Partial<DailyStats>): Promise<DailyStats | null> => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
     
     const { data, error } = await supabase
       .from('daily_stats')
@@ -203,7 +229,7 @@ export const updateTodayStats = async (userId: string, stats: Partial<DailyStats
 // Workout sessions
 export const getTodayWorkoutSessions = async (clientId: string): Promise<WorkoutSession[]> => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
     
     const { data, error } = await supabase
       .from('workout_sessions')
@@ -226,7 +252,7 @@ export const getTodayWorkoutSessions = async (clientId: string): Promise<Workout
 
 export const getTrainerTodaySessions = async (trainerId: string): Promise<TrainingSession[]> => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
     
     const { data, error } = await supabase
       .from('training_sessions')
@@ -252,7 +278,7 @@ export const getTrainerTodaySessions = async (trainerId: string): Promise<Traini
 
 export const getNutritionistTodayConsultations = async (nutritionistId: string): Promise<Consultation[]> => {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
     
     const { data, error } = await supabase
       .from('consultations')
@@ -373,7 +399,7 @@ export const getSystemStats = async () => {
   try {
     const [usersResult, sessionsResult, assignmentsResult] = await Promise.all([
       supabase.from('profiles').select('role', { count: 'exact' }),
-      supabase.from('workout_sessions').select('completed', { count: 'exact' }).eq('date', new Date().toISOString().split('T')[0]),
+      supabase.from('workout_sessions').select('completed', { count: 'exact' }).eq('date', getTodayKey()),
       supabase.from('client_assignments').select('status', { count: 'exact' }).eq('status', 'active')
     ]);
 
@@ -396,4 +422,57 @@ export const getSystemStats = async () => {
       systemHealth: 0,
     };
   }
-};
\ No newline at end of file
+};
+
+// Form check videos
+export const FORM_CHECK_BUCKET = 'form-checks';
+
+// The bucket is private, videos are streamed through a link that expires after an hour
+export const getFormCheckVideoUrl = async (storagePath: string): Promise<string | null> => {
+  try {
+    const { data, error } = await supabase.storage
+      .from(FORM_CHECK_BUCKET)
+      .createSignedUrl(storagePath, 60 * 60);
+
+    if (error) {
+      console.error('Error creating form check video link:', error);
+      return null;
+    }
+
+    return data.signedUrl;
+  } catch (error) {
+    console.error('Error in getFormCheckVideoUrl:', error);
+    return null;
+  }
+};
+
+// Client workout logs
+// Performed sets with the exercise's muscle groups, for a trainer looking at a client they don't sync sessions for
+export const getClientLoggedExercises = async (clientId: string, since: string): Promise<LoggedExercise[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('workout_logs')
+      .select(`
+        sets_performed,
+        exercise:exercises(muscle_groups),
+        session:workout_sessions!inner(date, client_id, completed)
+      `)
+      .eq('session.client_id', clientId)
+      .eq('session.completed', true)
+      .gte('session.date', since);
+
+    if (error) {
+      console.error('Error fetching client workout logs:', error);
+      return [];
+    }
+
+    return (data || []).flatMap((row: any) => row.exercise && row.session ? [{
+      date: row.session.date,
+      muscleGroups: row.exercise.muscle_groups ?? [],
+      sets: row.sets_performed ?? [],
+    }] : []);
+  } catch (error) {
+    console.error('Error in getClientLoggedExercises:', error);
+    return [];
+  }
+};
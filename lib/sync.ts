@@ -0,0 +1,1258 @@
+import { supabase } from './supabase';
+import { getCurrentUserProfile, Profile, FORM_CHECK_BUCKET } from './database';
+import {
+  getPendingSync,
+  addToPendingSync,
+  removeSyncItem,
+  updateSyncItem,
+  getTemplate,
+  getPlan,
+  getSession,
+  getClient,
+  isLocalOnlyClient,
+  getProgram,
+  getEnrollment,
+  getFormCheck,
+  getExercises,
+  getRemoteId,
+  getLocalId,
+  setRemoteId,
+  markSessionSynced,
+  storeTemplateFromRemote,
+  removeTemplateFromRemote,
+  updateTemplateVersion,
+  storePlanFromRemote,
+  removePlanFromRemote,
+  updatePlanVersion,
+  storeEnrollmentFromRemote,
+  storeFormCheckFromRemote,
+  addTombstone,
+  getTombstone,
+  removeTombstone,
+  PendingSyncItem,
+} from '@/utils/storage';
+import {
+  getConflictId,
+  getSyncConflict,
+  saveSyncConflict,
+  removeSyncConflict,
+  ConflictRecordType,
+  SyncConflict,
+} from '@/utils/syncConflicts';
+import {
+  Exercise,
+  TemplateExercise,
+  WorkoutTemplate,
+  WorkoutPlan,
+  PlanSchedule,
+  WeeklySchedule,
+  CustomScheduleDay,
+  DayOfWeek,
+  ProgressionRule,
+  WorkoutSession,
+  Client,
+  TrainingProgram,
+  ProgramEnrollment,
+  FormCheckVideo,
+  FormCheckComment,
+  SELF_CLIENT_ID,
+} from '@/types/workout';
+import { getSessionDuration, calculateTotalVolume } from '@/utils/workoutUtils';
+import { normalizePlanSchedule } from '@/utils/planCalendar';
+import { getProgramDurationWeeks } from '@/utils/programs';
+import { getEquipmentTags } from '@/utils/substitutions';
+import { summarizeCardioSets } from '@/utils/cardio';
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+const TEMPLATE_SELECT = '*, template_exercises(*, exercise:exercises(*))';
+
+const DAY_INDEX: { [key: string]: number } = {
+  Sunday: 0,
+  Monday: 1,
+  Tuesday: 2,
+  Wednesday: 3,
+  Thursday: 4,
+  Friday: 5,
+  Saturday: 6,
+};
+
+export interface SyncItemFailure {
+  item: PendingSyncItem;
+  error: string;
+}
+
+export interface SyncReport {
+  startedAt: string;
+  finishedAt: string;
+  pulled: number;
+  pushed: PendingSyncItem[];
+  failed: SyncItemFailure[];
+  deferred: PendingSyncItem[];
+  conflicts: SyncConflict[];
+  pullError?: string;
+}
+
+export interface SyncOptions {
+  force?: boolean; // also retry items still backing off, for when the user asks to retry
+}
+
+// Thrown when the server copy moved on since this device last synced the record
+class SyncConflictError extends Error {
+  conflict: SyncConflict;
+
+  constructor(conflict: SyncConflict) {
+    super(`Conflicting changes for ${conflict.type} ${conflict.localId}`);
+    this.conflict = conflict;
+  }
+}
+
+let activeSync: Promise<SyncReport> | null = null;
+
+export const getRetryDelay = (attempts: number): number => {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS);
+};
+
+const unwrap = <T>(result: { data: T; error: { message: string } | null }): NonNullable<T> => {
+  if (result.error) {
+    throw new Error(result.error.message);
+  }
+  return result.data as NonNullable<T>;
+};
+
+// Local client records carry the profile they're linked to, other ids already are one
+const getClientProfileId = async (clientId: string, profile: Profile): Promise<string> => {
+  if (clientId === SELF_CLIENT_ID) return profile.id;
+  const client = await getClient(clientId);
+  return client?.profileId ?? clientId;
+};
+
+const isRemoteNewer = (
+  remote: { version?: number; updatedAt: string },
+  local: { version?: number; updatedAt: string }
+): boolean => {
+  const remoteVersion = remote.version ?? 1;
+  const localVersion = local.version ?? 1;
+  if (remoteVersion !== localVersion) {
+    return remoteVersion > localVersion;
+  }
+  return new Date(remote.updatedAt).getTime() > new Date(local.updatedAt).getTime();
+};
+
+// Only updates the row if nobody else bumped its version in the meantime
+const versionedUpdate = async (
+  table: string,
+  remoteId: string,
+  expectedVersion: number,
+  changes: Record<string, unknown>
+): Promise<boolean> => {
+  const rows = unwrap(await supabase
+    .from(table)
+    .update({ ...changes, version: expectedVersion + 1 })
+    .eq('id', remoteId)
+    .eq('version', expectedVersion)
+    .is('deleted_at', null)
+    .select('id'));
+  return rows.length > 0;
+};
+
+// Exercises
+const ensureRemoteExercise = async (exercise: Exercise, profile: Profile): Promise<string> => {
+  const existingId = await getRemoteId('exercise', exercise.id);
+  if (existingId) return existingId;
+
+  const row = unwrap(await supabase
+    .from('exercises')
+    .insert({
+      name: exercise.name,
+      aliases: exercise.aliases ?? [],
+      category: exercise.category,
+      muscle_groups: exercise.muscleGroups,
+      equipment: exercise.equipment,
+      equipment_tags: getEquipmentTags(exercise),
+      difficulty_level: exercise.difficulty,
+      instructions: exercise.instructions,
+      default_sets: exercise.defaultSets ?? [],
+      created_by: profile.id,
+      is_public: false,
+    })
+    .select('id')
+    .single());
+
+  // Mapped before the variations, two exercises listing each other would otherwise insert forever
+  await setRemoteId('exercise', exercise.id, row.id);
+  await pushExerciseVariations(exercise, row.id, profile);
+  return row.id;
+};
+
+// Variations that are in the local library, each linked to its own exercise row
+const pushExerciseVariations = async (exercise: Exercise, remoteId: string, profile: Profile): Promise<void> => {
+  if (!exercise.variations?.length) return;
+
+  const library = await getExercises();
+  const variationRows = [];
+  for (const variation of exercise.variations) {
+    const variationExercise = library.find(item => item.id === variation.exerciseId);
+    if (!variationExercise) continue;
+
+    variationRows.push({
+      parent_exercise_id: remoteId,
+      variation_exercise_id: await ensureRemoteExercise(variationExercise, profile),
+      name: variationExercise.name,
+      difficulty_modifier: variation.relation,
+      equipment_changes: variation.equipmentChanges,
+    });
+  }
+
+  if (variationRows.length > 0) {
+    unwrap(await supabase.from('exercise_variations').insert(variationRows));
+  }
+};
+
+// Templates
+const toLocalTemplate = async (row: any, localId: string): Promise<WorkoutTemplate> => {
+  const rows = [...(row.template_exercises || [])].sort((a, b) => a.order_index - b.order_index);
+  const exercises: TemplateExercise[] = [];
+
+  for (const templateExercise of rows) {
+    let exerciseId = await getLocalId('exercise', templateExercise.exercise_id);
+    if (!exerciseId) {
+      exerciseId = templateExercise.exercise_id as string;
+      await setRemoteId('exercise', exerciseId, exerciseId);
+    }
+
+    exercises.push({
+      id: templateExercise.id,
+      exerciseId,
+      exercise: {
+        id: exerciseId,
+        name: templateExercise.exercise?.name ?? '',
+        aliases: templateExercise.exercise?.aliases ?? undefined,
+        category: templateExercise.exercise?.category ?? '',
+        muscleGroups: templateExercise.exercise?.muscle_groups ?? [],
+        instructions: templateExercise.exercise?.instructions ?? undefined,
+        equipment: templateExercise.exercise?.equipment ?? undefined,
+        equipmentTags: templateExercise.exercise?.equipment_tags ?? undefined,
+        difficulty: templateExercise.exercise?.difficulty_level ?? undefined,
+        createdBy: templateExercise.exercise?.created_by ?? undefined,
+      },
+      sets: templateExercise.sets_config || [],
+      order: templateExercise.order_index,
+      restTime: templateExercise.rest_time_seconds ?? undefined,
+      supersetGroup: templateExercise.superset_group ?? undefined,
+      notes: templateExercise.notes ?? undefined,
+    });
+  }
+
+  return {
+    id: localId,
+    name: row.name,
+    description: row.description ?? undefined,
+    category: row.category,
+    duration: row.estimated_duration_minutes ?? 60,
+    exercises,
+    groups: row.exercise_groups?.length ? row.exercise_groups : undefined,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    isPublic: row.is_public,
+    version: row.version,
+  };
+};
+
+const fetchRemoteTemplate = async (remoteId: string, localId: string): Promise<{ template: WorkoutTemplate | null; version: number } | null> => {
+  const row = unwrap(await supabase
+    .from('workout_templates')
+    .select(TEMPLATE_SELECT)
+    .eq('id', remoteId)
+    .maybeSingle());
+  if (!row) return null;
+
+  return {
+    template: row.deleted_at ? null : await toLocalTemplate(row, localId),
+    version: row.version,
+  };
+};
+
+const pushTemplate = async (template: WorkoutTemplate, profile: Profile): Promise<void> => {
+  const exerciseIds: string[] = [];
+  for (const templateExercise of template.exercises) {
+    exerciseIds.push(await ensureRemoteExercise(templateExercise.exercise, profile));
+  }
+
+  const templateRow = {
+    name: template.name,
+    description: template.description,
+    category: template.category,
+    estimated_duration_minutes: template.duration,
+    exercise_groups: template.groups ?? [],
+    created_by: profile.id,
+    is_public: template.isPublic,
+    updated_at: template.updatedAt,
+  };
+
+  let remoteId = await getRemoteId('template', template.id);
+  let version = 1;
+  if (remoteId) {
+    const expectedVersion = template.version ?? 1;
+    const updated = await versionedUpdate('workout_templates', remoteId, expectedVersion, templateRow);
+    if (!updated) {
+      const remote = await fetchRemoteTemplate(remoteId, template.id);
+      throw new SyncConflictError(await recordConflict('template', template.id, template, remote?.template ?? null, remote?.version ?? expectedVersion));
+    }
+    version = expectedVersion + 1;
+  } else {
+    const row = unwrap(await supabase
+      .from('workout_templates')
+      .insert({ ...templateRow, created_at: template.createdAt, version })
+      .select('id')
+      .single());
+    remoteId = row.id as string;
+    await setRemoteId('template', template.id, remoteId);
+  }
+
+  // Exercises are rewritten as a whole, the template is the unit of change
+  unwrap(await supabase.from('template_exercises').delete().eq('template_id', remoteId));
+  if (template.exercises.length > 0) {
+    unwrap(await supabase.from('template_exercises').insert(
+      template.exercises.map((templateExercise, index) => ({
+        template_id: remoteId,
+        exercise_id: exerciseIds[index],
+        order_index: templateExercise.order,
+        sets_config: templateExercise.sets,
+        rest_time_seconds: templateExercise.restTime ?? templateExercise.sets[0]?.restTime ?? 60,
+        superset_group: templateExercise.supersetGroup ?? null,
+        notes: templateExercise.notes,
+      }))
+    ));
+  }
+
+  await updateTemplateVersion(template.id, version);
+};
+
+const deleteRemoteTemplate = async (localId: string): Promise<void> => {
+  const remoteId = await getRemoteId('template', localId);
+  const tombstone = await getTombstone('template', localId);
+
+  if (remoteId) {
+    const expectedVersion = tombstone?.version ?? 1;
+    const deleted = await versionedUpdate('workout_templates', remoteId, expectedVersion, {
+      deleted_at: new Date().toISOString(),
+    });
+
+    if (!deleted) {
+      const remote = await fetchRemoteTemplate(remoteId, localId);
+      // Someone edited it after we last synced: deleting would silently drop their work
+      if (remote?.template) {
+        throw new SyncConflictError(await recordConflict('template', localId, null, remote.template, remote.version));
+      }
+    }
+    await setRemoteId('template', localId, null);
+  }
+
+  await removeTombstone('template', localId);
+};
+
+const mergeRemoteTemplate = async (row: any, pendingSync: PendingSyncItem[]): Promise<boolean> => {
+  const localId = (await getLocalId('template', row.id)) || row.id as string;
+  if (await getSyncConflict('template', localId)) return false;
+
+  const isDirty = pendingSync.some(item => item.type === 'template' && item.id === localId);
+  const local = await getTemplate(localId);
+
+  if (row.deleted_at) {
+    if (!local) return false;
+    if (isDirty) {
+      await recordConflict('template', localId, local, null, row.version);
+      return false;
+    }
+    await removeTemplateFromRemote(localId);
+    await setRemoteId('template', localId, null);
+    return true;
+  }
+
+  // Deleted here and not pushed yet, the push decides what happens
+  if (await getTombstone('template', localId)) return false;
+
+  const remote = await toLocalTemplate(row, localId);
+  if (!local) {
+    await setRemoteId('template', localId, row.id);
+    await storeTemplateFromRemote(remote);
+    return true;
+  }
+
+  if (!isRemoteNewer(remote, local)) return false;
+
+  if (isDirty) {
+    await recordConflict('template', localId, local, remote, row.version);
+    return false;
+  }
+
+  await storeTemplateFromRemote(remote);
+  return true;
+};
+
+// Plans
+const mapScheduleTemplates = async (
+  schedule: PlanSchedule,
+  mapId: (templateId: string) => Promise<string>
+): Promise<PlanSchedule> => {
+  const mapWeek = async (week: WeeklySchedule): Promise<WeeklySchedule> => {
+    const mapped: WeeklySchedule = {};
+    for (const [day, templateId] of Object.entries(week) as [DayOfWeek, string | null | undefined][]) {
+      mapped[day] = templateId ? await mapId(templateId) : null;
+    }
+    return mapped;
+  };
+
+  switch (schedule.type) {
+    case 'weekly':
+      return { type: 'weekly', days: await mapWeek(schedule.days) };
+    case 'monthly': {
+      const weeks: WeeklySchedule[] = [];
+      for (const week of schedule.weeks) weeks.push(await mapWeek(week));
+      return { type: 'monthly', weeks };
+    }
+    case 'custom': {
+      const days: CustomScheduleDay[] = [];
+      for (const day of schedule.days) {
+        days.push({ ...day, templateId: day.templateId ? await mapId(day.templateId) : null });
+      }
+      return { type: 'custom', days };
+    }
+  }
+};
+
+const toLocalPlan = async (row: any, localId: string): Promise<WorkoutPlan> => {
+  // Rows pushed before schedules were typed hold a bare day map, normalizing reads both
+  const schedule = await mapScheduleTemplates(
+    normalizePlanSchedule(row.schedule_config),
+    async remoteTemplateId => (await getLocalId('template', remoteTemplateId)) || remoteTemplateId
+  );
+
+  // Overrides are keyed by server exercise ids
+  const progressionConfig = row.progression_config || {};
+  let exerciseProgressions: { [exerciseId: string]: ProgressionRule } | undefined;
+  if (progressionConfig.exercises) {
+    exerciseProgressions = {};
+    for (const [remoteExerciseId, rule] of Object.entries(progressionConfig.exercises)) {
+      const exerciseId = (await getLocalId('exercise', remoteExerciseId)) || remoteExerciseId;
+      exerciseProgressions[exerciseId] = rule as ProgressionRule;
+    }
+  }
+
+  return {
+    id: localId,
+    clientId: row.client_id,
+    trainerId: row.trainer_id,
+    name: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    schedule,
+    difficultyProgression: row.difficulty_progression ?? undefined,
+    progression: progressionConfig.default ?? undefined,
+    exerciseProgressions,
+    missedWorkoutPolicy: row.missed_workout_policy ?? undefined,
+    autoReschedule: row.auto_reschedule ?? undefined,
+    adjustments: row.schedule_adjustments ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    version: row.version,
+  };
+};
+
+const fetchRemotePlan = async (remoteId: string, localId: string): Promise<{ plan: WorkoutPlan | null; version: number } | null> => {
+  const row = unwrap(await supabase
+    .from('workout_plans')
+    .select('*')
+    .eq('id', remoteId)
+    .maybeSingle());
+  if (!row) return null;
+
+  return {
+    plan: row.deleted_at ? null : await toLocalPlan(row, localId),
+    version: row.version,
+  };
+};
+
+// Clients can't write their plans, only replace the adjustments through adjust_plan_schedule
+const pushPlanAdjustments = async (plan: WorkoutPlan, remoteId: string): Promise<void> => {
+  const expectedVersion = plan.version ?? 1;
+  const version = unwrap(await supabase.rpc('adjust_plan_schedule', {
+    plan_uuid: remoteId,
+    expected_version: expectedVersion,
+    adjustments: plan.adjustments ?? [],
+  }));
+  if (typeof version !== 'number') {
+    const remote = await fetchRemotePlan(remoteId, plan.id);
+    throw new SyncConflictError(await recordConflict('plan', plan.id, plan, remote?.plan ?? null, remote?.version ?? expectedVersion));
+  }
+  await updatePlanVersion(plan.id, version);
+};
+
+const pushPlan = async (plan: WorkoutPlan, profile: Profile): Promise<void> => {
+  // A plan pulled onto its client's device: the trainer owns everything but the missed workout adjustments
+  const isClientCopy = plan.clientId === profile.id && plan.trainerId !== profile.id;
+  if (isClientCopy) {
+    const remoteId = await getRemoteId('plan', plan.id);
+    if (remoteId) await pushPlanAdjustments(plan, remoteId);
+    return;
+  }
+
+  // The schedule is stored with server template ids so other devices can resolve it
+  const scheduleConfig = await mapScheduleTemplates(plan.schedule, async templateId => {
+    const remoteTemplateId = await getRemoteId('template', templateId);
+    if (!remoteTemplateId) {
+      throw new Error(`Template ${templateId} has not been synced yet`);
+    }
+    return remoteTemplateId;
+  });
+
+  const planTemplates: { template_id: string; day_of_week?: number; week_number?: number; scheduled_date?: string }[] = [];
+  const addWeek = (week: WeeklySchedule, weekNumber?: number) => {
+    for (const [day, templateId] of Object.entries(week)) {
+      if (templateId && DAY_INDEX[day] !== undefined) {
+        planTemplates.push({ template_id: templateId, day_of_week: DAY_INDEX[day], week_number: weekNumber });
+      }
+    }
+  };
+  if (scheduleConfig.type === 'weekly') addWeek(scheduleConfig.days);
+  if (scheduleConfig.type === 'monthly') scheduleConfig.weeks.forEach((week, index) => addWeek(week, index + 1));
+  if (scheduleConfig.type === 'custom') {
+    scheduleConfig.days.forEach(day => {
+      if (day.templateId) planTemplates.push({ template_id: day.templateId, scheduled_date: day.date });
+    });
+  }
+
+  const exerciseProgressions: { [exerciseId: string]: ProgressionRule } = {};
+  for (const [exerciseId, rule] of Object.entries(plan.exerciseProgressions || {})) {
+    exerciseProgressions[(await getRemoteId('exercise', exerciseId)) || exerciseId] = rule;
+  }
+
+  const planRow = {
+    name: plan.name,
+    client_id: await getClientProfileId(plan.clientId, profile),
+    start_date: plan.startDate,
+    end_date: plan.endDate,
+    plan_type: plan.schedule.type,
+    schedule_config: scheduleConfig,
+    difficulty_progression: plan.difficultyProgression ?? 'maintain',
+    progression_config: {
+      ...(plan.progression ? { default: plan.progression } : {}),
+      ...(plan.exerciseProgressions ? { exercises: exerciseProgressions } : {}),
+    },
+    missed_workout_policy: plan.missedWorkoutPolicy ?? null,
+    auto_reschedule: plan.autoReschedule ?? false,
+    schedule_adjustments: plan.adjustments ?? [],
+    status: 'active',
+    updated_at: plan.updatedAt,
+  };
+
+  let remoteId = await getRemoteId('plan', plan.id);
+  let version = 1;
+  if (remoteId) {
+    const expectedVersion = plan.version ?? 1;
+    const updated = await versionedUpdate('workout_plans', remoteId, expectedVersion, planRow);
+    if (!updated) {
+      const remote = await fetchRemotePlan(remoteId, plan.id);
+      throw new SyncConflictError(await recordConflict('plan', plan.id, plan, remote?.plan ?? null, remote?.version ?? expectedVersion));
+    }
+    version = expectedVersion + 1;
+  } else {
+    const row = unwrap(await supabase
+      .from('workout_plans')
+      // The plan stays with the trainer who created it, updates never reassign it
+      .insert({ ...planRow, trainer_id: profile.id, created_at: plan.createdAt, version })
+      .select('id')
+      .single());
+    remoteId = row.id as string;
+    await setRemoteId('plan', plan.id, remoteId);
+  }
+
+  unwrap(await supabase.from('plan_templates').delete().eq('plan_id', remoteId));
+  if (planTemplates.length > 0) {
+    unwrap(await supabase.from('plan_templates').insert(
+      planTemplates.map((planTemplate, index) => ({
+        plan_id: remoteId,
+        ...planTemplate,
+        order_index: index,
+      }))
+    ));
+  }
+
+  await updatePlanVersion(plan.id, version);
+};
+
+const deleteRemotePlan = async (localId: string): Promise<void> => {
+  const remoteId = await getRemoteId('plan', localId);
+  const tombstone = await getTombstone('plan', localId);
+
+  if (remoteId) {
+    const expectedVersion = tombstone?.version ?? 1;
+    const deleted = await versionedUpdate('workout_plans', remoteId, expectedVersion, {
+      deleted_at: new Date().toISOString(),
+    });
+
+    if (!deleted) {
+      const remote = await fetchRemotePlan(remoteId, localId);
+      if (remote?.plan) {
+        throw new SyncConflictError(await recordConflict('plan', localId, null, remote.plan, remote.version));
+      }
+    }
+    await setRemoteId('plan', localId, null);
+  }
+
+  await removeTombstone('plan', localId);
+};
+
+const mergeRemotePlan = async (row: any, pendingSync: PendingSyncItem[]): Promise<boolean> => {
+  const localId = (await getLocalId('plan', row.id)) || row.id as string;
+  if (await getSyncConflict('plan', localId)) return false;
+
+  const isDirty = pendingSync.some(item => item.type === 'plan' && item.id === localId);
+  const local = await getPlan(localId);
+
+  if (row.deleted_at) {
+    if (!local) return false;
+    if (isDirty) {
+      await recordConflict('plan', localId, local, null, row.version);
+      return false;
+    }
+    await removePlanFromRemote(localId);
+    await setRemoteId('plan', localId, null);
+    return true;
+  }
+
+  if (await getTombstone('plan', localId)) return false;
+
+  const remote = await toLocalPlan(row, localId);
+  if (!local) {
+    await setRemoteId('plan', localId, row.id);
+    await storePlanFromRemote(remote);
+    return true;
+  }
+
+  if (!isRemoteNewer(remote, local)) return false;
+
+  if (isDirty) {
+    await recordConflict('plan', localId, local, remote, row.version);
+    return false;
+  }
+
+  await storePlanFromRemote(remote);
+  return true;
+};
+
+// Sessions
+const pushSession = async (session: WorkoutSession, profile: Profile): Promise<void> => {
+  const remoteTemplateId = session.templateId ? await getRemoteId('template', session.templateId) : null;
+  const remotePlanId = session.planId ? await getRemoteId('plan', session.planId) : null;
+  const duration = getSessionDuration(session);
+
+  const sessionRow = {
+    client_id: await getClientProfileId(session.clientId, profile),
+    template_id: remoteTemplateId || session.templateId || null,
+    plan_id: remotePlanId,
+    session_type: session.sessionType ?? (session.templateId ? 'planned' : 'custom'),
+    date: session.date,
+    start_time: session.startTime,
+    end_time: session.endTime,
+    duration_minutes: duration > 0 ? Math.round(duration) : null,
+    exercises: session.exercises,
+    notes: session.notes,
+    completed: session.completed,
+    updated_at: new Date().toISOString(),
+  };
+
+  let remoteId = await getRemoteId('session', session.id);
+  if (remoteId) {
+    unwrap(await supabase.from('workout_sessions').update(sessionRow).eq('id', remoteId));
+  } else {
+    const row = unwrap(await supabase
+      .from('workout_sessions')
+      .insert(sessionRow)
+      .select('id')
+      .single());
+    remoteId = row.id as string;
+    await setRemoteId('session', session.id, remoteId);
+  }
+
+  await pushWorkoutLogs(session, remoteId, profile);
+  await markSessionSynced(session.id);
+};
+
+// Looks an exercise up in the local library, then in the template the session was started from
+const findLocalExercise = async (exerciseId: string, templateId?: string): Promise<Exercise | null> => {
+  const exercises = await getExercises();
+  const exercise = exercises.find(e => e.id === exerciseId);
+  if (exercise) return exercise;
+
+  const template = templateId ? await getTemplate(templateId) : null;
+  return template?.exercises.find(e => e.exerciseId === exerciseId)?.exercise ?? null;
+};
+
+// One workout_logs row per performed exercise, rewritten whenever the session is pushed
+const pushWorkoutLogs = async (session: WorkoutSession, remoteSessionId: string, profile: Profile): Promise<void> => {
+  const logRows = [];
+  for (const [index, sessionExercise] of session.exercises.entries()) {
+    const exercise = await findLocalExercise(sessionExercise.exerciseId, session.templateId);
+    if (!exercise) {
+      console.warn(`Skipping workout log for unknown exercise ${sessionExercise.exerciseId}`);
+      continue;
+    }
+
+    const planned = sessionExercise.substitutedFor
+      ? await findLocalExercise(sessionExercise.substitutedFor.exerciseId, session.templateId)
+      : null;
+
+    const performedSets = sessionExercise.sets.filter(set => set.completed);
+    const cardio = summarizeCardioSets(performedSets);
+    logRows.push({
+      session_id: remoteSessionId,
+      exercise_id: await ensureRemoteExercise(exercise, profile),
+      substituted_for_exercise_id: planned ? await ensureRemoteExercise(planned, profile) : null,
+      order_index: index,
+      sets_performed: performedSets,
+      total_volume_kg: calculateTotalVolume(performedSets),
+      total_reps: performedSets.reduce((total, set) => total + (set.reps || 0), 0),
+      total_time_seconds: performedSets.reduce((total, set) => total + (set.duration || 0), 0),
+      total_distance_meters: cardio.distance,
+      average_heart_rate: cardio.averageHeartRate ?? null,
+      rest_time_seconds: performedSets.reduce((total, set) => total + (set.restTime || 0), 0),
+      notes: sessionExercise.notes,
+      completed: performedSets.length === sessionExercise.sets.length,
+    });
+  }
+
+  unwrap(await supabase.from('workout_logs').delete().eq('session_id', remoteSessionId));
+  if (logRows.length > 0) {
+    unwrap(await supabase.from('workout_logs').insert(logRows));
+  }
+};
+
+// Clients
+const pushClient = async (client: Client, profile: Profile): Promise<void> => {
+  const clientProfileId = await getClientProfileId(client.id, profile);
+  const { data: existing, error } = await supabase
+    .from('client_assignments')
+    .select('id')
+    .eq('client_id', clientProfileId)
+    .eq('trainer_id', profile.id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  if (existing) {
+    unwrap(await supabase
+      .from('client_assignments')
+      .update({ status: 'active', updated_at: new Date().toISOString() })
+      .eq('id', existing.id));
+    return;
+  }
+
+  unwrap(await supabase.from('client_assignments').insert({
+    client_id: clientProfileId,
+    trainer_id: profile.id,
+    assigned_by: profile.id,
+    assigned_date: client.joinDate,
+    status: 'active',
+  }));
+};
+
+// Programs
+const pushProgram = async (program: TrainingProgram, profile: Profile): Promise<void> => {
+  const phases = [];
+  for (const phase of program.phases) {
+    const schedule = await mapScheduleTemplates({ type: 'monthly', weeks: phase.weeks }, async templateId => {
+      const remoteTemplateId = await getRemoteId('template', templateId);
+      if (!remoteTemplateId) {
+        throw new Error(`Template ${templateId} has not been synced yet`);
+      }
+      return remoteTemplateId;
+    });
+    phases.push({ ...phase, weeks: schedule.type === 'monthly' ? schedule.weeks : phase.weeks });
+  }
+
+  const programRow = {
+    name: program.name,
+    description: program.description ?? null,
+    created_by: profile.id,
+    program_type: program.programType,
+    difficulty_level: program.difficulty,
+    duration_weeks: getProgramDurationWeeks(program),
+    program_phases: phases,
+    updated_at: program.updatedAt,
+  };
+
+  const remoteId = await getRemoteId('program', program.id);
+  if (remoteId) {
+    unwrap(await supabase.from('training_programs').update(programRow).eq('id', remoteId));
+    return;
+  }
+
+  const row = unwrap(await supabase
+    .from('training_programs')
+    .insert({ ...programRow, created_at: program.createdAt })
+    .select('id')
+    .single());
+  await setRemoteId('program', program.id, row.id as string);
+};
+
+// Enrollments
+// Progress is written by the client's device and read by the trainer's, the latest update wins
+const toLocalEnrollment = async (row: any, localId: string): Promise<ProgramEnrollment> => {
+  const modifications = row.custom_modifications || {};
+  const planIds: string[] = [];
+  for (const remotePlanId of modifications.plan_ids || []) {
+    planIds.push((await getLocalId('plan', remotePlanId)) || remotePlanId);
+  }
+
+  return {
+    id: localId,
+    programId: (await getLocalId('program', row.program_id)) || row.program_id,
+    programName: modifications.program_name ?? 'Program',
+    phases: modifications.phases || [],
+    clientId: row.client_id,
+    trainerId: row.trainer_id,
+    planIds,
+    enrollmentDate: row.enrollment_date,
+    startDate: row.start_date,
+    expectedEndDate: row.expected_end_date,
+    actualEndDate: row.actual_end_date ?? undefined,
+    currentPhase: row.current_phase,
+    currentWeek: row.current_week,
+    status: row.status,
+    completionPercentage: row.completion_percentage,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+};
+
+const pushEnrollment = async (enrollment: ProgramEnrollment, profile: Profile): Promise<void> => {
+  const remotePlanIds: string[] = [];
+  for (const planId of enrollment.planIds) {
+    remotePlanIds.push((await getRemoteId('plan', planId)) || planId);
+  }
+
+  const enrollmentRow = {
+    program_id: (await getRemoteId('program', enrollment.programId)) || enrollment.programId,
+    client_id: await getClientProfileId(enrollment.clientId, profile),
+    trainer_id: enrollment.trainerId || profile.id,
+    enrollment_date: enrollment.enrollmentDate,
+    start_date: enrollment.startDate,
+    expected_end_date: enrollment.expectedEndDate,
+    actual_end_date: enrollment.actualEndDate ?? null,
+    current_phase: enrollment.currentPhase,
+    current_week: enrollment.currentWeek,
+    status: enrollment.status,
+    completion_percentage: enrollment.completionPercentage,
+    custom_modifications: {
+      program_name: enrollment.programName,
+      phases: enrollment.phases,
+      plan_ids: remotePlanIds,
+    },
+    updated_at: enrollment.updatedAt,
+  };
+
+  const remoteId = await getRemoteId('enrollment', enrollment.id);
+  if (remoteId) {
+    unwrap(await supabase.from('program_enrollments').update(enrollmentRow).eq('id', remoteId));
+    return;
+  }
+
+  const row = unwrap(await supabase
+    .from('program_enrollments')
+    .insert({ ...enrollmentRow, created_at: enrollment.createdAt })
+    .select('id')
+    .single());
+  await setRemoteId('enrollment', enrollment.id, row.id as string);
+};
+
+const mergeRemoteEnrollment = async (row: any, pendingSync: PendingSyncItem[]): Promise<boolean> => {
+  const localId = (await getLocalId('enrollment', row.id)) || row.id as string;
+  if (pendingSync.some(item => item.type === 'enrollment' && item.id === localId)) return false;
+
+  const local = await getEnrollment(localId);
+  const remote = await toLocalEnrollment(row, localId);
+  if (local && !isRemoteNewer(remote, local)) return false;
+
+  if (!local) await setRemoteId('enrollment', localId, row.id);
+  await storeEnrollmentFromRemote(remote);
+  return true;
+};
+
+// Form checks
+// The client owns the video, the trainer the rating. Both can comment, comments are merged by id.
+const toLocalFormCheck = async (row: any, localId: string, profile: Profile, local: FormCheckVideo | null): Promise<FormCheckVideo> => {
+  return {
+    id: localId,
+    sessionId: (await getLocalId('session', row.session_id)) || row.session_id,
+    clientId: row.client_id === profile.id ? SELF_CLIENT_ID : row.client_id,
+    exerciseId: (await getLocalId('exercise', row.exercise_id)) || row.exercise_id,
+    exerciseName: row.exercise_name,
+    setId: row.set_id,
+    setNumber: row.set_number,
+    set: row.set_snapshot,
+    sessionDate: row.session_date,
+    localUri: local?.localUri, // the recording only exists on the device that made it
+    storagePath: row.storage_path ?? undefined,
+    durationSeconds: row.duration_seconds ?? undefined,
+    comments: row.comments || [],
+    formRating: row.form_rating ?? undefined,
+    reviewedAt: row.reviewed_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+};
+
+const mergeComments = (local: FormCheckComment[], remote: FormCheckComment[]): FormCheckComment[] => {
+  const merged = new Map(remote.map(comment => [comment.id, comment]));
+  local.forEach(comment => merged.set(comment.id, comment));
+  return Array.from(merged.values()).sort((a, b) => a.timestampSeconds - b.timestampSeconds);
+};
+
+const uploadFormCheckVideo = async (formCheck: FormCheckVideo, clientProfileId: string): Promise<string> => {
+  const extension = formCheck.localUri?.split('.').pop()?.toLowerCase() || 'mp4';
+  const storagePath = `${clientProfileId}/${formCheck.id}.${extension}`;
+
+  const response = await fetch(formCheck.localUri!);
+  const video = await response.arrayBuffer();
+  unwrap(await supabase.storage
+    .from(FORM_CHECK_BUCKET)
+    .upload(storagePath, video, {
+      contentType: extension === 'mov' ? 'video/quicktime' : 'video/mp4',
+      upsert: true,
+    }));
+  return storagePath;
+};
+
+const pushFormCheck = async (formCheck: FormCheckVideo, profile: Profile): Promise<void> => {
+  const isOwnVideo = formCheck.clientId === SELF_CLIENT_ID || formCheck.clientId === profile.id;
+  let remoteId = await getRemoteId('formCheck', formCheck.id);
+
+  // Comments made on another device since this one last pulled
+  let comments = formCheck.comments;
+  if (remoteId) {
+    const existing = unwrap(await supabase
+      .from('form_check_videos')
+      .select('comments')
+      .eq('id', remoteId)
+      .maybeSingle());
+    comments = mergeComments(formCheck.comments, existing?.comments || []);
+  }
+
+  if (!isOwnVideo) {
+    if (!remoteId) throw new Error('Form check has not been uploaded by the client yet');
+    // Trainers can only write the review, through review_form_check
+    unwrap(await supabase.rpc('review_form_check', {
+      form_check_uuid: remoteId,
+      new_comments: comments,
+      new_rating: formCheck.formRating ?? null,
+      new_reviewed_at: formCheck.reviewedAt ?? null,
+    }));
+    await storeFormCheckFromRemote({ ...formCheck, comments });
+    return;
+  }
+
+  // The session row has to exist first, it is pushed ahead of the form check but may have failed
+  const remoteSessionId = await getRemoteId('session', formCheck.sessionId);
+  if (!remoteSessionId) throw new Error('Session has not been synced yet');
+
+  const session = await getSession(formCheck.sessionId);
+  const exercise = await findLocalExercise(formCheck.exerciseId, session?.templateId);
+  if (!exercise) throw new Error(`Unknown exercise ${formCheck.exerciseId}`);
+
+  let storagePath = formCheck.storagePath;
+  if (!storagePath && formCheck.localUri) {
+    storagePath = await uploadFormCheckVideo(formCheck, profile.id);
+  }
+
+  const formCheckRow = {
+    session_id: remoteSessionId,
+    exercise_id: await ensureRemoteExercise(exercise, profile),
+    exercise_name: formCheck.exerciseName,
+    set_id: formCheck.setId,
+    set_number: formCheck.setNumber,
+    set_snapshot: formCheck.set,
+    session_date: formCheck.sessionDate,
+    storage_path: storagePath ?? null,
+    duration_seconds: formCheck.durationSeconds ?? null,
+    comments,
+    updated_at: formCheck.updatedAt,
+  };
+
+  if (remoteId) {
+    unwrap(await supabase.from('form_check_videos').update(formCheckRow).eq('id', remoteId));
+  } else {
+    const row = unwrap(await supabase
+      .from('form_check_videos')
+      // client_id is set once, clients can't update it
+      .insert({ ...formCheckRow, client_id: profile.id, created_at: formCheck.createdAt })
+      .select('id')
+      .single());
+    remoteId = row.id as string;
+    await setRemoteId('formCheck', formCheck.id, remoteId);
+  }
+
+  await storeFormCheckFromRemote({ ...formCheck, storagePath, comments });
+};
+
+const mergeRemoteFormCheck = async (row: any, profile: Profile, pendingSync: PendingSyncItem[]): Promise<boolean> => {
+  const localId = (await getLocalId('formCheck', row.id)) || row.id as string;
+  if (pendingSync.some(item => item.type === 'formCheck' && item.id === localId)) return false;
+
+  const local = await getFormCheck(localId);
+  const remote = await toLocalFormCheck(row, localId, profile, local);
+  if (local && !isRemoteNewer(remote, local)) return false;
+
+  if (!local) await setRemoteId('formCheck', localId, row.id);
+  await storeFormCheckFromRemote(remote);
+  return true;
+};
+
+// Conflicts
+const recordConflict = async (
+  type: ConflictRecordType,
+  localId: string,
+  local: WorkoutTemplate | WorkoutPlan | null,
+  remote: WorkoutTemplate | WorkoutPlan | null,
+  remoteVersion: number
+): Promise<SyncConflict> => {
+  const conflict: SyncConflict = {
+    id: getConflictId(type, localId),
+    type,
+    localId,
+    local,
+    remote,
+    remoteVersion,
+    detectedAt: new Date().toISOString(),
+  };
+  await saveSyncConflict(conflict);
+  return conflict;
+};
+
+export const resolveSyncConflict = async (conflict: SyncConflict, keep: 'local' | 'remote'): Promise<void> => {
+  const { type, localId } = conflict;
+
+  if (keep === 'remote') {
+    if (conflict.remote) {
+      if (type === 'template') {
+        await storeTemplateFromRemote(conflict.remote as WorkoutTemplate);
+      } else {
+        await storePlanFromRemote(conflict.remote as WorkoutPlan);
+      }
+    } else {
+      if (type === 'template') {
+        await removeTemplateFromRemote(localId);
+      } else {
+        await removePlanFromRemote(localId);
+      }
+      await setRemoteId(type, localId, null);
+    }
+
+    await removeTombstone(type, localId);
+    await removeSyncItem(type, localId);
+  } else if (conflict.local) {
+    // Rebase the local copy on the server version so the next push fast-forwards.
+    // If the server copy was deleted the record is pushed again as a new row.
+    const version = conflict.remote ? conflict.remoteVersion : undefined;
+    if (!conflict.remote) {
+      await setRemoteId(type, localId, null);
+    }
+
+    if (type === 'template') {
+      await storeTemplateFromRemote({ ...(conflict.local as WorkoutTemplate), version });
+    } else {
+      await storePlanFromRemote({ ...(conflict.local as WorkoutPlan), version });
+    }
+    await addToPendingSync(type, localId, 'update');
+  } else {
+    await addTombstone(type, localId, conflict.remoteVersion);
+    await addToPendingSync(type, localId, 'delete');
+  }
+
+  await removeSyncConflict(conflict.id);
+};
+
+// Pull
+const pullRemoteChanges = async (profile: Profile): Promise<number> => {
+  const pendingSync = await getPendingSync();
+  let pulled = 0;
+
+  const templateRows = unwrap(await supabase
+    .from('workout_templates')
+    .select(TEMPLATE_SELECT)
+    .eq('created_by', profile.id));
+  for (const row of templateRows) {
+    if (await mergeRemoteTemplate(row, pendingSync)) pulled++;
+  }
+
+  const planRows = unwrap(await supabase
+    .from('workout_plans')
+    .select('*')
+    .or(`trainer_id.eq.${profile.id},client_id.eq.${profile.id}`));
+  for (const row of planRows) {
+    if (await mergeRemotePlan(row, pendingSync)) pulled++;
+  }
+
+  // After plans, so enrollments can find their phase plans
+  const enrollmentRows = unwrap(await supabase
+    .from('program_enrollments')
+    .select('*')
+    .or(`trainer_id.eq.${profile.id},client_id.eq.${profile.id}`));
+  for (const row of enrollmentRows) {
+    if (await mergeRemoteEnrollment(row, pendingSync)) pulled++;
+  }
+
+  // Own form checks and those of the trainer's clients, RLS decides which
+  const formCheckRows = unwrap(await supabase
+    .from('form_check_videos')
+    .select('*'));
+  for (const row of formCheckRows) {
+    if (await mergeRemoteFormCheck(row, profile, pendingSync)) pulled++;
+  }
+
+  return pulled;
+};
+
+// Push
+// Items queued for clients that only exist on this device are dropped, they can never be sent
+const pushItem = async (item: PendingSyncItem, profile: Profile): Promise<void> => {
+  switch (item.type) {
+    case 'template': {
+      if (item.action === 'delete') {
+        await deleteRemoteTemplate(item.id);
+        return;
+      }
+      const template = await getTemplate(item.id);
+      if (template) await pushTemplate(template, profile);
+      return;
+    }
+    case 'plan': {
+      if (item.action === 'delete') {
+        await deleteRemotePlan(item.id);
+        return;
+      }
+      const plan = await getPlan(item.id);
+      if (plan && !(await isLocalOnlyClient(plan.clientId))) await pushPlan(plan, profile);
+      return;
+    }
+    case 'session': {
+      const session = await getSession(item.id);
+      if (session && !(await isLocalOnlyClient(session.clientId))) await pushSession(session, profile);
+      return;
+    }
+    case 'client': {
+      const client = await getClient(item.id);
+      if (client?.profileId) await pushClient(client, profile);
+      return;
+    }
+    case 'program': {
+      const program = await getProgram(item.id);
+      if (program) await pushProgram(program, profile);
+      return;
+    }
+    case 'enrollment': {
+      const enrollment = await getEnrollment(item.id);
+      if (enrollment && !(await isLocalOnlyClient(enrollment.clientId))) await pushEnrollment(enrollment, profile);
+      return;
+    }
+    case 'formCheck': {
+      const formCheck = await getFormCheck(item.id);
+      if (formCheck) await pushFormCheck(formCheck, profile);
+      return;
+    }
+    default:
+      throw new Error(`Unknown sync item type: ${(item as PendingSyncItem).type}`);
+  }
+};
+
+const runSync = async (options: SyncOptions): Promise<SyncReport> => {
+  const report: SyncReport = {
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    pulled: 0,
+    pushed: [],
+    failed: [],
+    deferred: [],
+    conflicts: [],
+  };
+
+  const profile = await getCurrentUserProfile();
+  if (!profile) {
+    // Not signed in (or offline), nothing can be exchanged yet
+    report.deferred = await getPendingSync();
+    report.finishedAt = new Date().toISOString();
+    return report;
+  }
+
+  try {
+    report.pulled = await pullRemoteChanges(profile);
+  } catch (error) {
+    report.pullError = error instanceof Error ? error.message : String(error);
+    console.error('Error pulling remote changes:', report.pullError);
+  }
+
+  const now = Date.now();
+  const pendingSync = await getPendingSync();
+  const orderedItems = [...pendingSync].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const item of orderedItems) {
+    if (item.type === 'template' || item.type === 'plan') {
+      const conflict = await getSyncConflict(item.type, item.id);
+      if (conflict) {
+        // Waits for the user to pick a side on the conflicts screen
+        report.conflicts.push(conflict);
+        continue;
+      }
+    }
+
+    if (!options.force && item.nextAttemptAt && new Date(item.nextAttemptAt).getTime() > now) {
+      report.deferred.push(item);
+      continue;
+    }
+
+    try {
+      await pushItem(item, profile);
+      await removeSyncItem(item.type, item.id, item.timestamp);
+      report.pushed.push(item);
+    } catch (error) {
+      if (error instanceof SyncConflictError) {
+        report.conflicts.push(error.conflict);
+        continue;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      const attempts = (item.attempts || 0) + 1;
+      const failedItem: PendingSyncItem = {
+        ...item,
+        attempts,
+        lastError: message,
+        nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)).toISOString(),
+      };
+      await updateSyncItem(failedItem);
+      report.failed.push({ item: failedItem, error: message });
+      console.error(`Error syncing ${item.type} ${item.id}:`, message);
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+};
+
+// Pull remote changes, then push every queued local change. Concurrent callers share the same run.
+export const syncPendingChanges = async (options: SyncOptions = {}): Promise<SyncReport> => {
+  if (activeSync && options.force) {
+    // The run in progress may have skipped backed-off items, retry them once it's done
+    return activeSync.then(() => syncPendingChanges(options));
+  }
+  if (!activeSync) {
+    activeSync = runSync(options).finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+};
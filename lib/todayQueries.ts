@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { getTodayKey } from '@/utils/dates';
 
 export interface TodayClientData {
   profile: any;
@@ -12,6 +13,7 @@ export interface TodayTrainerData {
   profile: any;
   trainingSessions: any[];
   clients: any[];
+  clientWorkouts: any[]; // today's workout_sessions of assigned clients
 }
 
 export interface TodayNutritionistData {
@@ -55,7 +57,7 @@ export const getClientTodayData = async (): Promise<TodayClientData | null> => {
     const profile = await getCurrentUserProfile();
     if (!profile || profile.role !== 'client') return null;
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
 
     // Get today's stats
     const { data: todayStats } = await supabase
@@ -112,7 +114,7 @@ export const getTrainerTodayData = async (): Promise<TodayTrainerData | null> =>
     const profile = await getCurrentUserProfile();
     if (!profile || profile.role !== 'trainer') return null;
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
 
     // Get today's training sessions
     const { data: trainingSessions } = await supabase
@@ -136,10 +138,23 @@ export const getTrainerTodayData = async (): Promise<TodayTrainerData | null> =>
 
     const clients = clientAssignments?.map(assignment => assignment.client).filter(Boolean) || [];
 
+    // Get today's workouts logged by those clients
+    const { data: clientWorkouts } = clients.length > 0
+      ? await supabase
+          .from('workout_sessions')
+          .select(`
+            *,
+            client:profiles!workout_sessions_client_id_fkey(id, full_name, email)
+          `)
+          .in('client_id', clients.map((client: any) => client.id))
+          .eq('date', today)
+      : { data: [] };
+
     return {
       profile,
       trainingSessions: trainingSessions || [],
       clients,
+      clientWorkouts: clientWorkouts || [],
     };
   } catch (error) {
     console.error('Error fetching trainer today data:', error);
@@ -153,7 +168,7 @@ export const getNutritionistTodayData = async (): Promise<TodayNutritionistData
     const profile = await getCurrentUserProfile();
     if (!profile || profile.role !== 'nutritionist') return null;
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
 
     // Get today's consultations
     const { data: consultations } = await supabase
@@ -197,7 +212,7 @@ export const getAdminTodayData = async (): Promise<TodayAdminData | null> => {
     // Get system statistics
     const [usersResult, sessionsResult, assignmentsResult] = await Promise.all([
       supabase.from('profiles').select('role', { count: 'exact' }),
-      supabase.from('workout_sessions').select('completed', { count: 'exact' }).eq('date', new Date().toISOString().split('T')[0]),
+      supabase.from('workout_sessions').select('completed', { count: 'exact' }).eq('date', getTodayKey()),
       supabase.from('client_assignments').select('status', { count: 'exact' }).eq('status', 'active')
     ]);
 
@@ -232,7 +247,7 @@ export const updateDailyStats = async (stats: {
     const profile = await getCurrentUserProfile();
     if (!profile) return null;
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
 
     const { data, error } = await supabase
       .from('daily_stats')
@@ -271,7 +286,7 @@ export const createWorkoutSession = async (sessionData: {
     const profile = await getCurrentUserProfile();
     if (!profile) return null;
 
-    const today = new Date().toISOString().split('T')[0];
+    const today = getTodayKey();
 
     const { data, error } = await supabase
       .from('workout_sessions')
@@ -0,0 +1,208 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { getTodayKey } from '@/utils/dates';
+import {
+  TodayClientData,
+  TodayTrainerData,
+  TodayNutritionistData,
+  TodayAdminData,
+} from './todayQueries';
+
+export type TodayRole = 'client' | 'trainer' | 'nutritionist' | 'admin' | 'hr';
+
+export type TodayTable = 'workout_sessions' | 'training_sessions' | 'consultations' | 'goals' | 'daily_stats';
+
+export type TodayData = TodayClientData | TodayTrainerData | TodayNutritionistData | TodayAdminData | null;
+
+export interface TodayChange {
+  table: TodayTable;
+  payload: RealtimePostgresChangesPayload<{ [key: string]: any }>;
+}
+
+interface TableSubscription {
+  table: TodayTable;
+  filter?: string;
+}
+
+// Which rows each role needs to hear about. Filters keep the server from sending other people's rows.
+const getSubscriptions = (role: TodayRole, data: NonNullable<TodayData>): TableSubscription[] => {
+  const profileId = data.profile?.id;
+
+  switch (role) {
+    case 'client':
+      return [
+        { table: 'workout_sessions', filter: `client_id=eq.${profileId}` },
+        { table: 'daily_stats', filter: `user_id=eq.${profileId}` },
+        { table: 'goals', filter: `user_id=eq.${profileId}` },
+      ];
+    case 'trainer': {
+      const clientIds = (data as TodayTrainerData).clients.map(client => client.id);
+      return [
+        { table: 'training_sessions', filter: `trainer_id=eq.${profileId}` },
+        ...(clientIds.length > 0
+          ? [{ table: 'workout_sessions' as TodayTable, filter: `client_id=in.(${clientIds.join(',')})` }]
+          : []),
+      ];
+    }
+    case 'nutritionist':
+      return [{ table: 'consultations', filter: `nutritionist_id=eq.${profileId}` }];
+    case 'admin':
+    case 'hr':
+      return [{ table: 'workout_sessions' }];
+    default:
+      return [];
+  }
+};
+
+// Subscribes to every table the role's Today screen shows. Returns the cleanup function.
+export const subscribeToTodayChanges = (
+  role: TodayRole,
+  data: NonNullable<TodayData>,
+  onChange: (change: TodayChange) => void
+): (() => void) => {
+  const subscriptions = getSubscriptions(role, data);
+  if (subscriptions.length === 0) {
+    return () => {};
+  }
+
+  const channel = supabase.channel(`today:${role}:${data.profile?.id}`);
+  subscriptions.forEach(({ table, filter }) => {
+    channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, ...(filter ? { filter } : {}) },
+      (payload) => onChange({ table, payload })
+    );
+  });
+
+  channel.subscribe((status) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.error('Error subscribing to today changes:', status);
+    }
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Patching
+const patchRows = (
+  rows: any[],
+  payload: TodayChange['payload'],
+  belongs: (row: any) => boolean,
+  decorate: (row: any, previous?: any) => any = row => row
+): any[] => {
+  if (payload.eventType === 'DELETE') {
+    return rows.filter(row => row.id !== payload.old.id);
+  }
+
+  const previous = rows.find(row => row.id === payload.new.id);
+  const remaining = rows.filter(row => row.id !== payload.new.id);
+  if (!belongs(payload.new)) {
+    return remaining;
+  }
+
+  // Realtime rows come without joins, carry over what the initial query fetched
+  const row = decorate({ ...previous, ...payload.new }, previous);
+  return previous
+    ? rows.map(existing => (existing.id === row.id ? row : existing))
+    : [...remaining, row];
+};
+
+const byTime = (field: string) => (a: any, b: any) => (a[field] || '').localeCompare(b[field] || '');
+
+const findClient = (clients: any[], clientId: string) => {
+  const client = clients.find(c => c.id === clientId);
+  return client ? { id: client.id, full_name: client.full_name, email: client.email } : undefined;
+};
+
+// Applies one realtime change to the cached Today data and returns the new object
+export const applyTodayChange = (data: TodayData, role: TodayRole, change: TodayChange): TodayData => {
+  if (!data) return data;
+
+  const today = getTodayKey();
+  const { table, payload } = change;
+
+  if (role === 'client') {
+    const clientData = data as TodayClientData;
+    switch (table) {
+      case 'workout_sessions':
+        return {
+          ...clientData,
+          workoutSessions: patchRows(clientData.workoutSessions, payload, row => row.date === today)
+            .sort(byTime('start_time')),
+        };
+      case 'goals':
+        return {
+          ...clientData,
+          activeGoals: patchRows(clientData.activeGoals, payload, row => row.status === 'active'),
+        };
+      case 'daily_stats':
+        if (payload.eventType === 'DELETE') {
+          return clientData.todayStats?.id === payload.old.id ? { ...clientData, todayStats: null } : clientData;
+        }
+        return payload.new.date === today
+          ? { ...clientData, todayStats: { ...clientData.todayStats, ...payload.new } }
+          : clientData;
+      default:
+        return data;
+    }
+  }
+
+  if (role === 'trainer') {
+    const trainerData = data as TodayTrainerData;
+    switch (table) {
+      case 'training_sessions':
+        return {
+          ...trainerData,
+          trainingSessions: patchRows(
+            trainerData.trainingSessions,
+            payload,
+            row => row.scheduled_date === today,
+            (row, previous) => ({ ...row, client: previous?.client ?? findClient(trainerData.clients, row.client_id) })
+          ).sort(byTime('scheduled_time')),
+        };
+      case 'workout_sessions':
+        return {
+          ...trainerData,
+          clientWorkouts: patchRows(
+            trainerData.clientWorkouts,
+            payload,
+            row => row.date === today,
+            (row, previous) => ({ ...row, client: previous?.client ?? findClient(trainerData.clients, row.client_id) })
+          ),
+        };
+      default:
+        return data;
+    }
+  }
+
+  if (role === 'nutritionist' && table === 'consultations') {
+    const nutritionistData = data as TodayNutritionistData;
+    return {
+      ...nutritionistData,
+      consultations: patchRows(
+        nutritionistData.consultations,
+        payload,
+        row => row.scheduled_date === today,
+        (row, previous) => ({ ...row, client: previous?.client ?? findClient(nutritionistData.clients, row.client_id) })
+      ).sort(byTime('scheduled_time')),
+    };
+  }
+
+  if ((role === 'admin' || role === 'hr') && table === 'workout_sessions') {
+    // Only a count is shown. Updates and deletes only carry the old primary key, so just count new sessions for today.
+    const adminData = data as TodayAdminData;
+    if (payload.eventType !== 'INSERT' || payload.new.date !== today) return data;
+
+    return {
+      ...adminData,
+      systemStats: {
+        ...adminData.systemStats,
+        todaySessions: (adminData.systemStats?.todaySessions || 0) + 1,
+      },
+    };
+  }
+
+  return data;
+};
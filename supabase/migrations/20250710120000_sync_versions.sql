@@ -0,0 +1,21 @@
+/*
+  # Sync Versions and Soft Deletes
+
+  1. Modified Tables
+    - `workout_templates` - add `version` and `deleted_at`
+    - `workout_plans` - add `version` and `deleted_at`
+
+  2. Purpose
+    - `version` is bumped on every write so devices can detect concurrent edits
+    - `deleted_at` keeps deleted rows around as tombstones so other devices
+      learn about the delete instead of re-uploading their stale copy
+*/
+
+ALTER TABLE workout_templates ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+ALTER TABLE workout_templates ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE workout_plans ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+ALTER TABLE workout_plans ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_workout_templates_created_by_updated ON workout_templates(created_by, updated_at);
+CREATE INDEX IF NOT EXISTS idx_workout_plans_trainer_updated ON workout_plans(trainer_id, updated_at);
@@ -0,0 +1,26 @@
+/*
+  # Realtime for Today screens
+
+  1. Publication
+    - Add `workout_sessions`, `training_sessions`, `consultations`, `goals`
+      and `daily_stats` to the `supabase_realtime` publication so the Today
+      screens receive inserts, updates and deletes as they happen
+
+  2. Security
+    - Realtime respects the existing RLS policies, no new policies needed
+*/
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['workout_sessions', 'training_sessions', 'consultations', 'goals', 'daily_stats']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
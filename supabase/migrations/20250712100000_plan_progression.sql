@@ -0,0 +1,13 @@
+/*
+  # Plan Progression Rules
+
+  1. Modified Tables
+    - `workout_plans` - add `progression_config`
+
+  2. Purpose
+    - `difficulty_progression` says which way a plan moves, `progression_config`
+      says how: the plan's rule (linear load, double progression or percentage
+      waves) and the trainer's per-exercise overrides, keyed by exercise id
+*/
+
+ALTER TABLE workout_plans ADD COLUMN IF NOT EXISTS progression_config jsonb NOT NULL DEFAULT '{}';
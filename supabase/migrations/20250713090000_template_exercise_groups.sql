@@ -0,0 +1,13 @@
+/*
+  # Template Exercise Groups
+
+  1. Modified Tables
+    - `workout_templates` - add `exercise_groups`
+
+  2. Purpose
+    - `template_exercises.superset_group` says which exercises belong together,
+      `exercise_groups` describes each group: superset, circuit or giant set,
+      the number of rounds and the rest taken after each round
+*/
+
+ALTER TABLE workout_templates ADD COLUMN IF NOT EXISTS exercise_groups jsonb NOT NULL DEFAULT '[]';
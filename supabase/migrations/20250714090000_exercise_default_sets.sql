@@ -0,0 +1,14 @@
+/*
+  # Exercise Default Sets
+
+  1. Modified Tables
+    - `exercises` - add `default_sets`
+
+  2. Purpose
+    - The sets an exercise starts with when it is added to a template.
+      Each set can carry a type (warm-up, drop, AMRAP, EMOM, failure),
+      a target RPE or RIR and a tempo, the same shape as
+      `template_exercises.sets_config`
+*/
+
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS default_sets jsonb NOT NULL DEFAULT '[]';
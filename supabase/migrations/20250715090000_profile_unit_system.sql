@@ -0,0 +1,15 @@
+/*
+  # Profile Unit System
+
+  1. Modified Tables
+    - `profiles` - add `unit_system`
+
+  2. Purpose
+    - Which units the user reads and enters values in: metric (kg, cm, km, L)
+      or imperial (lb, in, mi, fl oz)
+    - Only affects display. Measurements, daily stats and workout sets stay in
+      SI units (`weight_kg`, `chest_cm`, `water_intake_ml`...) whatever is chosen
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS unit_system text NOT NULL DEFAULT 'metric'
+  CHECK (unit_system IN ('metric', 'imperial'));
@@ -0,0 +1,56 @@
+/*
+  # Plan Missed Workouts
+
+  1. Modified Tables
+    - `workout_plans` - add `missed_workout_policy`, `auto_reschedule` and
+      `schedule_adjustments`
+
+  2. New Functions
+    - `adjust_plan_schedule` - lets the plan's client replace its
+      `schedule_adjustments`, the only change a client can make to a plan
+
+  3. Purpose
+    - What happens to a planned workout the client did not log: `skip` leaves it,
+      `push` moves it and the rest of the plan back a day, `nextRestDay` makes it
+      up on the next free day
+    - `auto_reschedule` applies the policy on the client's device without asking
+    - `schedule_adjustments` records each decision, keyed by schedule slot, so
+      every device derives the same calendar. Make-up sessions are logged with
+      `workout_sessions.session_type = 'makeup'`
+
+  4. Security
+    - Clients can only read their plans, so their adjustments go through
+      `adjust_plan_schedule`. It checks the caller is the plan's client and the
+      version they based the change on, and touches nothing else.
+*/
+
+ALTER TABLE workout_plans ADD COLUMN IF NOT EXISTS missed_workout_policy text
+  CHECK (missed_workout_policy IN ('skip', 'push', 'nextRestDay'));
+
+ALTER TABLE workout_plans ADD COLUMN IF NOT EXISTS auto_reschedule boolean NOT NULL DEFAULT false;
+
+ALTER TABLE workout_plans ADD COLUMN IF NOT EXISTS schedule_adjustments jsonb NOT NULL DEFAULT '[]';
+
+-- Returns the new version, or null when the plan isn't the caller's or moved on since expected_version
+CREATE OR REPLACE FUNCTION adjust_plan_schedule(plan_uuid uuid, expected_version integer, adjustments jsonb)
+RETURNS integer AS $$
+DECLARE
+  new_version integer;
+BEGIN
+  IF jsonb_typeof(adjustments) <> 'array' THEN
+    RAISE EXCEPTION 'adjustments must be an array';
+  END IF;
+
+  UPDATE workout_plans
+  SET schedule_adjustments = adjustments,
+      version = version + 1,
+      updated_at = now()
+  WHERE id = plan_uuid
+  AND version = expected_version
+  AND deleted_at IS NULL
+  AND client_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+  RETURNING version INTO new_version;
+
+  RETURN new_version;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,26 @@
+/*
+  # Exercise Substitution
+
+  1. Modified Tables
+    - `exercises` - add `equipment_tags`
+    - `exercise_variations` - add `variation_exercise_id`
+    - `workout_logs` - add `substituted_for_exercise_id`
+
+  2. Purpose
+    - `equipment_tags` are the structured form of the free-text `equipment`
+      column (`barbell`, `dumbbell`, `pullUpBar`, ...), matched against the
+      equipment a user has when suggesting alternatives
+    - `variation_exercise_id` links a variation to the library exercise it
+      describes, so variations form a graph between exercises.
+      `difficulty_modifier` says how it compares to the parent exercise
+    - `substituted_for_exercise_id` records the planned exercise when it was
+      swapped for another one during the workout
+*/
+
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS equipment_tags text[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE exercise_variations ADD COLUMN IF NOT EXISTS variation_exercise_id uuid
+  REFERENCES exercises(id) ON DELETE CASCADE;
+
+ALTER TABLE workout_logs ADD COLUMN IF NOT EXISTS substituted_for_exercise_id uuid
+  REFERENCES exercises(id) ON DELETE SET NULL;
@@ -0,0 +1,12 @@
+/*
+  # Exercise Aliases
+
+  1. Modified Tables
+    - `exercises` - add `aliases`
+
+  2. Purpose
+    - Other names an exercise goes by ("RDL" for Romanian Deadlift), matched
+      by exercise search alongside the name
+*/
+
+ALTER TABLE exercises ADD COLUMN IF NOT EXISTS aliases text[] NOT NULL DEFAULT '{}';
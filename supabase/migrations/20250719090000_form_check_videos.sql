@@ -0,0 +1,217 @@
+/*
+  # Form Check Videos
+
+  1. New Tables
+    - `form_check_videos` - a short video of one logged set
+      - `session_id`, `exercise_id` - the session and exercise the set belongs to
+      - `set_id`, `set_number`, `set_snapshot` - the set as it was logged
+      - `storage_path` - the video in the `form-checks` bucket
+      - `comments` - timestamped comments, `[{ id, timestampSeconds, text, authorId, createdAt }]`
+      - `form_rating` - the trainer's 1-5 assessment
+
+  2. Storage
+    - Private `form-checks` bucket, one folder per client profile id
+
+  3. Security
+    - Clients manage their own form checks and videos, but can't rate them:
+      `form_rating` and `reviewed_at` are left out of their column privileges
+    - Trainers read the form checks and videos of their active clients and
+      review them through `review_form_check`, which only writes `comments`,
+      `form_rating` and `reviewed_at`
+
+  4. Purpose
+    - `workout_logs.form_rating` follows the latest rated form check of the
+      exercise, including when the session is pushed again and its logs are
+      rewritten
+*/
+
+CREATE TABLE IF NOT EXISTS form_check_videos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  client_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  session_id uuid REFERENCES workout_sessions(id) ON DELETE CASCADE NOT NULL,
+  exercise_id uuid REFERENCES exercises(id) ON DELETE CASCADE NOT NULL,
+  exercise_name text NOT NULL,
+  set_id text NOT NULL,
+  set_number integer NOT NULL,
+  set_snapshot jsonb NOT NULL DEFAULT '{}',
+  session_date date NOT NULL,
+  storage_path text,
+  duration_seconds integer,
+  comments jsonb NOT NULL DEFAULT '[]',
+  form_rating integer CHECK (form_rating >= 1 AND form_rating <= 5),
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE form_check_videos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients can read own form checks"
+  ON form_check_videos
+  FOR SELECT
+  TO authenticated
+  USING (
+    client_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Clients can upload own form checks"
+  ON form_check_videos
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    client_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+    AND form_rating IS NULL
+    AND reviewed_at IS NULL
+  );
+
+CREATE POLICY "Clients can update own form checks"
+  ON form_check_videos
+  FOR UPDATE
+  TO authenticated
+  USING (
+    client_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+  )
+  WITH CHECK (
+    client_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Clients can delete own form checks"
+  ON form_check_videos
+  FOR DELETE
+  TO authenticated
+  USING (
+    client_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Trainers can read client form checks"
+  ON form_check_videos
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM client_assignments ca
+      WHERE ca.client_id = form_check_videos.client_id
+      AND ca.trainer_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+      AND ca.status = 'active'
+    )
+  );
+
+-- The review is the trainer's and the row's owner never changes
+REVOKE UPDATE ON form_check_videos FROM authenticated;
+GRANT UPDATE (
+  session_id,
+  exercise_id,
+  exercise_name,
+  set_id,
+  set_number,
+  set_snapshot,
+  session_date,
+  storage_path,
+  duration_seconds,
+  comments,
+  updated_at
+) ON form_check_videos TO authenticated;
+
+-- Trainers of the client's active assignment write the review, nothing else
+CREATE OR REPLACE FUNCTION review_form_check(
+  form_check_uuid uuid,
+  new_comments jsonb,
+  new_rating integer,
+  new_reviewed_at timestamptz
+)
+RETURNS void AS $$
+BEGIN
+  IF jsonb_typeof(new_comments) <> 'array' THEN
+    RAISE EXCEPTION 'comments must be an array';
+  END IF;
+
+  UPDATE form_check_videos fc
+  SET comments = new_comments,
+      form_rating = new_rating,
+      reviewed_at = new_reviewed_at,
+      updated_at = now()
+  WHERE fc.id = form_check_uuid
+  AND EXISTS (
+    SELECT 1 FROM client_assignments ca
+    WHERE ca.client_id = fc.client_id
+    AND ca.trainer_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+    AND ca.status = 'active'
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Form check not found or not one of your clients''';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_form_check_videos_client ON form_check_videos(client_id);
+CREATE INDEX IF NOT EXISTS idx_form_check_videos_session_exercise ON form_check_videos(session_id, exercise_id);
+
+-- Copy ratings onto the workout log of the exercise
+CREATE OR REPLACE FUNCTION apply_form_check_rating()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.form_rating IS NOT NULL THEN
+    UPDATE workout_logs
+    SET form_rating = NEW.form_rating
+    WHERE session_id = NEW.session_id AND exercise_id = NEW.exercise_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER form_check_videos_apply_rating
+  AFTER INSERT OR UPDATE OF form_rating ON form_check_videos
+  FOR EACH ROW EXECUTE FUNCTION apply_form_check_rating();
+
+CREATE OR REPLACE FUNCTION restore_form_check_rating()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.form_rating IS NULL THEN
+    SELECT fc.form_rating INTO NEW.form_rating
+    FROM form_check_videos fc
+    WHERE fc.session_id = NEW.session_id
+    AND fc.exercise_id = NEW.exercise_id
+    AND fc.form_rating IS NOT NULL
+    ORDER BY fc.reviewed_at DESC NULLS LAST
+    LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER workout_logs_restore_form_rating
+  BEFORE INSERT ON workout_logs
+  FOR EACH ROW EXECUTE FUNCTION restore_form_check_rating();
+
+-- Videos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('form-checks', 'form-checks', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Clients can manage own form check videos"
+  ON storage.objects
+  FOR ALL
+  TO authenticated
+  USING (
+    bucket_id = 'form-checks'
+    AND (storage.foldername(name))[1] = (SELECT id::text FROM profiles WHERE user_id = auth.uid())
+  )
+  WITH CHECK (
+    bucket_id = 'form-checks'
+    AND (storage.foldername(name))[1] = (SELECT id::text FROM profiles WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Trainers can watch client form check videos"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'form-checks'
+    AND EXISTS (
+      SELECT 1 FROM client_assignments ca
+      WHERE ca.client_id::text = (storage.foldername(name))[1]
+      AND ca.trainer_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+      AND ca.status = 'active'
+    )
+  );
@@ -0,0 +1,14 @@
+/*
+  # Cardio Sets
+
+  1. Modified Tables
+    - `workout_logs` - add `total_distance_meters`, `average_heart_rate`
+
+  2. Purpose
+    - Distance and the time-weighted average heart rate of the performed sets,
+      so cardio can be totalled server side the way volume already is. Per set
+      values stay in `sets_performed`
+*/
+
+ALTER TABLE workout_logs ADD COLUMN IF NOT EXISTS total_distance_meters numeric NOT NULL DEFAULT 0;
+ALTER TABLE workout_logs ADD COLUMN IF NOT EXISTS average_heart_rate integer;
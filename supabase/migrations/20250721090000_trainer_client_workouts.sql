@@ -0,0 +1,53 @@
+/*
+  # Trainer Access to Client Workouts
+
+  1. Security
+    - Trainers read the workout sessions and workout logs of their active
+      clients. Sessions pushed by clients carry no `trainer_id`, so the
+      existing trainer policy on `workout_sessions` never matched them
+    - Trainers read the private exercises their active clients created, for
+      the muscle groups of the logs
+
+  2. Purpose
+    - Weekly sets and volume per muscle group in the trainer's client detail
+*/
+
+CREATE POLICY "Trainers can read active client workout sessions"
+  ON workout_sessions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM client_assignments ca
+      WHERE ca.client_id = workout_sessions.client_id
+      AND ca.trainer_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+      AND ca.status = 'active'
+    )
+  );
+
+CREATE POLICY "Trainers can read active client workout logs"
+  ON workout_logs
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM workout_sessions ws
+      JOIN client_assignments ca ON ca.client_id = ws.client_id
+      WHERE ws.id = workout_logs.session_id
+      AND ca.trainer_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+      AND ca.status = 'active'
+    )
+  );
+
+CREATE POLICY "Trainers can read active client exercises"
+  ON exercises
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM client_assignments ca
+      WHERE ca.client_id = exercises.created_by
+      AND ca.trainer_id = (SELECT id FROM profiles WHERE user_id = auth.uid())
+      AND ca.status = 'active'
+    )
+  );
@@ -3,7 +3,7 @@ export interface MetricEntry {
   value: number;
   unit: string;
   date: string;
-  time: string;
+  time: string; // ISO timestamp
 }
 
 export interface Metric {
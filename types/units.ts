@@ -0,0 +1,8 @@
+export type UnitSystem = 'metric' | 'imperial';
+
+// What a number measures. Values are always stored in the canonical SI unit of their quantity.
+export type Quantity = 'weight' | 'length' | 'distance' | 'volume';
+
+export type CanonicalUnit = 'kg' | 'cm' | 'm' | 'ml';
+
+export type DisplayUnit = 'kg' | 'lb' | 'cm' | 'in' | 'km' | 'mi' | 'L' | 'fl oz';
@@ -1,29 +1,81 @@
 export interface Exercise {
   id: string;
   name: string;
+  aliases?: string[]; // other names people search for, e.g. "RDL"
   category: string;
   muscleGroups: string[];
   instructions?: string;
-  equipment?: string;
+  equipment?: string; // free text for display, matching goes by equipmentTags
+  equipmentTags?: EquipmentTag[]; // empty or ['bodyweight'] when nothing is needed
+  difficulty?: DifficultyLevel;
+  variations?: ExerciseVariation[];
+  createdBy?: string; // profile id, not set on the built-in library
+  defaultSets?: Omit<WorkoutSet, 'completed' | 'id'>[]; // used when the exercise is added to a template
 }
 
+export type EquipmentTag =
+  | 'bodyweight'
+  | 'barbell'
+  | 'dumbbell'
+  | 'kettlebell'
+  | 'cable'
+  | 'machine'
+  | 'bands'
+  | 'bench'
+  | 'pullUpBar'
+  | 'medicineBall'
+  | 'trx'
+  | 'cardioMachine';
+
+export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
+
+// How the variation compares to the exercise it is listed on
+export type VariationRelation = 'easier' | 'harder' | 'different';
+
+export interface ExerciseVariation {
+  exerciseId: string;
+  relation: VariationRelation;
+  equipmentChanges?: string; // e.g. "Dumbbells instead of a barbell"
+}
+
+// normal when not set. AMRAP reps are a minimum, EMOM does the reps at the top of every minute for the duration.
+export type SetType = 'normal' | 'warmup' | 'drop' | 'amrap' | 'emom' | 'failure';
+
 export interface WorkoutSet {
   id: string;
+  setType?: SetType;
   reps?: number;
   weight?: number;
   duration?: number; // in seconds
   distance?: number; // in meters
   restTime?: number; // in seconds
+  targetRpe?: number; // 1-10
+  targetRir?: number; // reps in reserve
+  tempo?: string; // eccentric-pause-concentric-pause seconds, e.g. 3-1-1-0
+  rpe?: number; // actual effort of a logged set
+  heartRate?: number; // average bpm over the set
   completed?: boolean;
   notes?: string;
 }
 
+export type ExerciseGroupType = 'superset' | 'circuit' | 'giantSet';
+
+// Exercises sharing a group are performed back to back, one set each per round
+export interface ExerciseGroup {
+  id: number; // TemplateExercise.supersetGroup, template_exercises.superset_group on the server
+  type: ExerciseGroupType;
+  rounds: number;
+  restTime: number; // rest after each full round, in seconds
+}
+
 export interface TemplateExercise {
   id: string;
   exerciseId: string;
   exercise: Exercise;
   sets: Omit<WorkoutSet, 'completed' | 'id'>[];
   order: number;
+  restTime?: number; // default rest between sets, in seconds
+  supersetGroup?: number;
   notes?: string;
 }
 
@@ -34,10 +86,55 @@ export interface WorkoutTemplate {
   category: string;
   duration: number; // estimated duration in minutes
   exercises: TemplateExercise[];
+  groups?: ExerciseGroup[];
   createdBy: string;
   createdAt: string;
   updatedAt: string;
   isPublic: boolean;
+  version?: number; // server version this copy is based on
+}
+
+export type DifficultyProgression = 'maintain' | 'increase' | 'decrease';
+
+export type ProgressionModel = 'linear' | 'double' | 'wave' | 'none';
+
+export interface ProgressionRule {
+  model: ProgressionModel;
+  loadIncrement?: number; // kg added when the targets were hit
+  repRange?: { min: number; max: number }; // double progression works up to max reps, then adds load
+  wave?: { percentage: number; reps: number }[]; // one step per plan week, percentage of estimated 1RM
+}
+
+// Template id per day, a null or missing day is a rest day
+export type WeeklySchedule = { [key in DayOfWeek]?: string | null };
+
+export interface CustomScheduleDay {
+  id: string;
+  date: string;
+  templateId: string | null;
+  label?: string;
+}
+
+export type PlanScheduleType = 'weekly' | 'monthly' | 'custom';
+
+// Weekly repeats one week, monthly cycles through its weeks counted from the plan start, custom lists dated days
+export type PlanSchedule =
+  | { type: 'weekly'; days: WeeklySchedule }
+  | { type: 'monthly'; weeks: WeeklySchedule[] }
+  | { type: 'custom'; days: CustomScheduleDay[] };
+
+// What happens to a planned workout the client did not do: leave it, push the rest of the plan back a day,
+// or make it up on the next rest day
+export type MissedWorkoutPolicy = 'skip' | 'push' | 'nextRestDay';
+
+export interface PlanAdjustment {
+  id: string;
+  slotId: string; // the planned session's schedule slot, see PlannedSession
+  scheduledDate: string; // where the schedule originally put the missed session
+  missedDate: string; // the day it was missed on, later than scheduledDate once it has been moved before
+  policy: MissedWorkoutPolicy;
+  date?: string; // the rest day a make-up was moved to
+  createdAt: string;
 }
 
 export interface WorkoutPlan {
@@ -47,31 +144,156 @@ export interface WorkoutPlan {
   name: string;
   startDate: string;
   endDate: string;
-  schedule: {
-    [key: string]: string | null; // day of week -> templateId
-  };
+  schedule: PlanSchedule;
+  difficultyProgression?: DifficultyProgression;
+  progression?: ProgressionRule;
+  exerciseProgressions?: { [exerciseId: string]: ProgressionRule }; // trainer overrides of the plan rule
+  missedWorkoutPolicy?: MissedWorkoutPolicy;
+  autoReschedule?: boolean; // apply the policy without asking the client first
+  adjustments?: PlanAdjustment[];
+  createdAt: string;
+  updatedAt: string;
+  version?: number; // server version this copy is based on
+}
+
+// A dated workout from a plan's schedule. Derived from the plan when needed, never stored.
+export interface PlannedSession {
+  id: string; // stable for the plan and day, e.g. to match the session logged for it
+  slotId: string; // the schedule day it comes from: its date, or the custom day's id. Plan ids differ per device, this does not.
+  planId: string;
+  clientId: string;
+  date: string;
+  scheduledDate: string; // the day the schedule itself puts it on, before any missed-workout adjustment
+  templateId: string;
+  label?: string;
+  week: number; // plan week, 0 is the week of the start date
+  makeup?: boolean; // moved to a rest day after being missed
+  skipped?: boolean; // missed and let go
+}
+
+export type ProgramType = 'strength' | 'weight_loss' | 'muscle_gain' | 'endurance' | 'rehabilitation' | 'sport_specific';
+
+// A block of the program, e.g. four weeks of hypertrophy. Its weeks repeat until the phase is over.
+export interface ProgramPhase {
+  id: string;
+  name: string;
+  durationWeeks: number;
+  weeks: WeeklySchedule[];
+  difficultyProgression?: DifficultyProgression;
+  progression?: ProgressionRule;
+}
+
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  description?: string;
+  programType: ProgramType;
+  difficulty: DifficultyLevel;
+  phases: ProgramPhase[];
+  createdBy: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export type EnrollmentStatus = 'enrolled' | 'active' | 'paused' | 'completed' | 'dropped';
+
+// A client following a program. Each phase becomes one of the client's plans, progress is derived from those.
+export interface ProgramEnrollment {
+  id: string;
+  programId: string;
+  programName: string;
+  phases: { name: string; durationWeeks: number }[]; // as enrolled, later edits to the program do not move a running enrollment
+  clientId: string;
+  trainerId: string;
+  planIds: string[]; // one per phase, in order
+  enrollmentDate: string;
+  startDate: string;
+  expectedEndDate: string;
+  actualEndDate?: string;
+  currentPhase: number; // 1-based
+  currentWeek: number; // 1-based, within the current phase
+  status: EnrollmentStatus;
+  completionPercentage: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SessionType = 'planned' | 'custom' | 'makeup';
+
+// Sessions logged on this device for the signed-in user rather than for a trainer's client
+export const SELF_CLIENT_ID = 'self';
+
 export interface WorkoutSession {
   id: string;
   clientId: string;
-  templateId: string;
+  templateId?: string; // not set for custom sessions logged without a template
   planId?: string;
+  sessionType?: SessionType;
+  category?: string; // e.g. Strength, Cardio, Yoga
   date: string;
   startTime?: string;
   endTime?: string;
+  startedAt?: string; // ISO timestamps, start and end times alone can't tell a workout past midnight apart
+  endedAt?: string;
+  durationMinutes?: number; // used when start and end times were not recorded
   exercises: {
     exerciseId: string;
     sets: WorkoutSet[];
     notes?: string;
+    substitutedFor?: { exerciseId: string; name: string }; // the planned exercise, when it was swapped during the workout
   }[];
   notes?: string;
   completed: boolean;
   synced: boolean;
 }
 
+// A short video of one logged set, for the trainer to check the client's form
+export interface FormCheckVideo {
+  id: string;
+  sessionId: string;
+  clientId: string;
+  exerciseId: string;
+  exerciseName: string; // the trainer may not have the exercise in their library
+  setId: string;
+  setNumber: number;
+  set: WorkoutSet; // as it was logged
+  sessionDate: string;
+  localUri?: string; // only on the device that recorded it
+  storagePath?: string; // in the form-checks bucket, set once uploaded
+  durationSeconds?: number;
+  comments: FormCheckComment[];
+  formRating?: number; // 1-5, set by the trainer
+  reviewedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FormCheckComment {
+  id: string;
+  timestampSeconds: number; // position in the video the comment is about
+  text: string;
+  authorId: string;
+  createdAt: string;
+}
+
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+export type PersonalRecordType = 'estimated1RM' | 'repMax' | 'volumeSet' | 'sessionVolume';
+
+export interface PersonalRecord {
+  id: string;
+  clientId: string;
+  exerciseId: string;
+  sessionId: string;
+  type: PersonalRecordType;
+  value: number; // kg for estimated1RM and repMax, kg x reps for the volume records
+  reps?: number; // rep count of the set, the rep range for repMax
+  weight?: number;
+  previousValue?: number;
+  date: string;
+  achievedAt: string; // ISO timestamp
+}
+
 export interface Client {
   id: string;
   name: string;
@@ -79,6 +301,7 @@ export interface Client {
   avatar?: string;
   joinDate: string;
   trainerId?: string;
+  profileId?: string; // Supabase profile once linked, clients added on this device have none and don't sync
 }
 
 export type DayOfWeek = 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday' | 'Sunday';
\ No newline at end of file
@@ -0,0 +1,149 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/*
+  Local data is namespaced per Supabase account so that a second person signing
+  in on the same device never sees the first person's cache:
+
+    @account:<userId>/<key>
+
+  While nobody is signed in the guest namespace is active. The Supabase session
+  itself is kept outside of any namespace by lib/supabase.ts.
+*/
+
+const ACCOUNT_PREFIX = '@account:';
+const GUEST_ACCOUNT = 'guest';
+const LEGACY_OWNER_KEY = '@legacy_data_owner';
+
+// Keys the app wrote before namespacing existed. Anything else under @ belongs to the device or a library.
+const LEGACY_KEYS = [
+  '@workout_templates',
+  '@workout_plans',
+  '@workout_sessions',
+  '@clients',
+  '@exercises',
+  '@client_metrics',
+  '@pending_sync',
+  '@remote_ids',
+  '@tombstones',
+  '@sync_conflicts',
+  '@user_role',
+  '@user_id',
+  '@streak_days',
+  '@longest_streak',
+  '@scheduled_notifications',
+  '@storage_schema_version',
+];
+const LEGACY_KEY_PREFIXES = ['@store:', '@storage_backup:'];
+
+const isLegacyKey = (key: string): boolean => {
+  return LEGACY_KEYS.includes(key) || LEGACY_KEY_PREFIXES.some(prefix => key.startsWith(prefix));
+};
+
+type AccountListener = (accountId: string | null) => void;
+
+let activeAccount = GUEST_ACCOUNT;
+const listeners = new Set<AccountListener>();
+
+const getNamespace = (accountId: string): string => `${ACCOUNT_PREFIX}${accountId}/`;
+
+const scoped = (key: string): string => `${getNamespace(activeAccount)}${key}`;
+
+export const getActiveAccount = (): string | null => {
+  return activeAccount === GUEST_ACCOUNT ? null : activeAccount;
+};
+
+// Notified after the namespace changed, so cached screen state can be reloaded
+export const onAccountChange = (listener: AccountListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Data written before namespacing existed belongs to whoever signs in first
+const claimLegacyData = async (accountId: string): Promise<void> => {
+  const owner = await AsyncStorage.getItem(LEGACY_OWNER_KEY);
+  if (owner) return;
+
+  const keys = await AsyncStorage.getAllKeys();
+  const legacyKeys = keys.filter(isLegacyKey);
+
+  if (legacyKeys.length > 0) {
+    const pairs = await AsyncStorage.multiGet(legacyKeys);
+    await AsyncStorage.multiSet(
+      pairs
+        .filter((pair): pair is [string, string] => pair[1] !== null)
+        .map(([key, value]) => [`${getNamespace(accountId)}${key}`, value])
+    );
+    await AsyncStorage.multiRemove(legacyKeys);
+  }
+
+  await AsyncStorage.setItem(LEGACY_OWNER_KEY, accountId);
+};
+
+// prepare (AuthContext migrates storage and reschedules reminders) runs after claiming legacy data, before listeners reload.
+// It also runs when the account didn't change, so the first call at launch covers the guest namespace.
+export const setActiveAccount = async (
+  accountId: string | null,
+  prepare?: () => Promise<unknown>
+): Promise<void> => {
+  const nextAccount = accountId || GUEST_ACCOUNT;
+  const changed = nextAccount !== activeAccount;
+
+  if (changed && accountId) {
+    try {
+      await claimLegacyData(accountId);
+    } catch (error) {
+      console.error('Error claiming legacy local data:', error);
+    }
+  }
+
+  activeAccount = nextAccount;
+
+  if (prepare) {
+    try {
+      await prepare();
+    } catch (error) {
+      console.error('Error preparing account data:', error);
+    }
+  }
+
+  if (changed) {
+    listeners.forEach(listener => listener(accountId));
+  }
+};
+
+// Removes everything cached for an account, used when signing out with "remove data from this device"
+export const clearAccountData = async (accountId: string): Promise<void> => {
+  try {
+    const namespace = getNamespace(accountId);
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(namespace)));
+  } catch (error) {
+    console.error('Error clearing account data:', error);
+    throw error;
+  }
+};
+
+// Same surface as AsyncStorage, scoped to the active account
+export const accountStorage = {
+  getItem: (key: string): Promise<string | null> => {
+    return AsyncStorage.getItem(scoped(key));
+  },
+  setItem: (key: string, value: string): Promise<void> => {
+    return AsyncStorage.setItem(scoped(key), value);
+  },
+  removeItem: (key: string): Promise<void> => {
+    return AsyncStorage.removeItem(scoped(key));
+  },
+  multiGet: async (keys: readonly string[]): Promise<[string, string | null][]> => {
+    const pairs = await AsyncStorage.multiGet(keys.map(scoped));
+    return pairs.map(([, value], index) => [keys[index], value]);
+  },
+  multiSet: (pairs: ReadonlyArray<readonly [string, string]>): Promise<void> => {
+    return AsyncStorage.multiSet(pairs.map(([key, value]) => [scoped(key), value] as const));
+  },
+  multiRemove: (keys: readonly string[]): Promise<void> => {
+    return AsyncStorage.multiRemove(keys.map(scoped));
+  },
+};
@@ -0,0 +1,373 @@
+import { accountStorage } from './accountStorage';
+import {
+  templateStore,
+  planStore,
+  sessionStore,
+  clientStore,
+  programStore,
+  enrollmentStore,
+  formCheckStore,
+  RecordStore,
+} from './recordStore';
+import { CURRENT_SCHEMA_VERSION, runStorageMigrations, upgradeData } from './storageMigrations';
+import {
+  getExercises,
+  saveExercises,
+  getRemoteIdMap,
+  saveRemoteIdMap,
+  getPendingSync,
+  savePendingSync,
+  clearTombstones,
+  PendingSyncItem,
+} from './storage';
+import { getMetrics, saveMetrics } from './metricsStorage';
+import { getPersonalRecordHistory, savePersonalRecordHistory } from './personalRecords';
+import {
+  getScheduledNotifications,
+  restoreScheduledNotifications,
+  ScheduledNotification,
+} from './notificationService';
+import { clearSyncConflicts } from './syncConflicts';
+import {
+  WorkoutTemplate,
+  WorkoutPlan,
+  WorkoutSession,
+  Client,
+  Exercise,
+  PersonalRecord,
+  TrainingProgram,
+  ProgramEnrollment,
+  FormCheckVideo,
+} from '../types/workout';
+import { MetricData } from '../types/metrics';
+
+const BACKUP_FORMAT = 'aide-backup';
+const BACKUP_VERSION = 1;
+
+const STATS_KEYS = {
+  STREAK_DAYS: '@streak_days',
+  LONGEST_STREAK: '@longest_streak',
+};
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  data: {
+    templates: WorkoutTemplate[];
+    plans: WorkoutPlan[];
+    sessions: WorkoutSession[];
+    clients: Client[];
+    programs: TrainingProgram[];
+    enrollments: ProgramEnrollment[];
+    formChecks: FormCheckVideo[];
+    exercises: Exercise[];
+    metrics: MetricData;
+    personalRecords: PersonalRecord[];
+    scheduledNotifications: ScheduledNotification[];
+    stats: {
+      streakDays: number;
+      longestStreak: number;
+    };
+    remoteIds: { [key: string]: string };
+    pendingSync: PendingSyncItem[];
+  };
+}
+
+export interface CollectionDiff {
+  added: number;
+  changed: number;
+  unchanged: number;
+  localOnly: number; // kept by merge, removed by replace
+}
+
+export interface BackupDiff {
+  templates: CollectionDiff;
+  plans: CollectionDiff;
+  sessions: CollectionDiff;
+  clients: CollectionDiff;
+  exercises: CollectionDiff;
+  metricEntries: CollectionDiff;
+}
+
+export interface RestoreResult {
+  diff: BackupDiff;
+  notificationsRestored: number;
+}
+
+// Helpers
+const readNumber = async (key: string): Promise<number> => {
+  const data = await accountStorage.getItem(key);
+  return data ? parseInt(data, 10) || 0 : 0;
+};
+
+const diffRecords = <T extends { id: string }>(local: T[], incoming: T[]): CollectionDiff => {
+  const localById = new Map(local.map(record => [record.id, JSON.stringify(record)]));
+  const incomingIds = new Set(incoming.map(record => record.id));
+  const diff: CollectionDiff = { added: 0, changed: 0, unchanged: 0, localOnly: 0 };
+
+  incoming.forEach(record => {
+    const existing = localById.get(record.id);
+    if (existing === undefined) {
+      diff.added++;
+    } else if (existing === JSON.stringify(record)) {
+      diff.unchanged++;
+    } else {
+      diff.changed++;
+    }
+  });
+  diff.localOnly = local.filter(record => !incomingIds.has(record.id)).length;
+
+  return diff;
+};
+
+const flattenMetricEntries = (metrics: MetricData) => {
+  return Object.entries(metrics).flatMap(([metricKey, metric]) =>
+    (metric.entries || []).map(entry => ({ ...entry, id: `${metricKey}:${entry.id}` }))
+  );
+};
+
+// On merge the newer copy of a record wins; records without a timestamp keep the local copy
+const mergeRecords = <T extends { id: string; updatedAt?: string }>(local: T[], incoming: T[]): T[] => {
+  const merged = new Map(local.map(record => [record.id, record]));
+  incoming.forEach(record => {
+    const existing = merged.get(record.id);
+    if (!existing) {
+      merged.set(record.id, record);
+    } else if (record.updatedAt && existing.updatedAt && record.updatedAt > existing.updatedAt) {
+      merged.set(record.id, record);
+    }
+  });
+  return Array.from(merged.values());
+};
+
+const mergeMetrics = (local: MetricData, incoming: MetricData): MetricData => {
+  const merged: MetricData = { ...local };
+  Object.entries(incoming).forEach(([metricKey, metric]) => {
+    const existing = merged[metricKey];
+    if (!existing) {
+      merged[metricKey] = metric;
+      return;
+    }
+
+    const entryIds = new Set(existing.entries.map(entry => entry.id));
+    const entries = [...existing.entries, ...metric.entries.filter(entry => !entryIds.has(entry.id))]
+      .sort((a, b) => b.time.localeCompare(a.time)); // newest first, like addMetricEntry keeps them
+    merged[metricKey] = {
+      ...existing,
+      entries,
+      currentValue: entries[0]?.value ?? existing.currentValue,
+      lastUpdated: entries[0]?.date ?? existing.lastUpdated,
+    };
+  });
+  return merged;
+};
+
+const writeStore = async <T extends { id: string }>(store: RecordStore<T>, records: T[], mode: RestoreMode): Promise<void> => {
+  const existing = mode === 'replace' ? await store.getAll() : [];
+  await store.transaction(async tx => {
+    existing.forEach(record => tx.remove(record.id));
+    records.forEach(record => tx.put(record));
+  });
+};
+
+// Export
+export const createBackupArchive = async (): Promise<BackupArchive> => {
+  // Records still in the old arrays would be left out of the archive
+  await runStorageMigrations();
+  const [
+    templates,
+    plans,
+    sessions,
+    clients,
+    programs,
+    enrollments,
+    formChecks,
+    exercises,
+    metrics,
+    personalRecords,
+    scheduledNotifications,
+    streakDays,
+    longestStreak,
+    remoteIds,
+    pendingSync,
+  ] = await Promise.all([
+    templateStore.getAll(),
+    planStore.getAll(),
+    sessionStore.getAll(),
+    clientStore.getAll(),
+    programStore.getAll(),
+    enrollmentStore.getAll(),
+    formCheckStore.getAll(),
+    getExercises(),
+    getMetrics(),
+    getPersonalRecordHistory(),
+    getScheduledNotifications(),
+    readNumber(STATS_KEYS.STREAK_DAYS),
+    readNumber(STATS_KEYS.LONGEST_STREAK),
+    getRemoteIdMap(),
+    getPendingSync(),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: {
+      templates,
+      plans,
+      sessions,
+      clients,
+      programs,
+      enrollments,
+      formChecks,
+      exercises,
+      metrics,
+      personalRecords,
+      scheduledNotifications,
+      stats: { streakDays, longestStreak },
+      remoteIds,
+      pendingSync,
+    },
+  };
+};
+
+export const serializeBackupArchive = (archive: BackupArchive): string => {
+  return JSON.stringify(archive);
+};
+
+// Import
+export const parseBackupArchive = (text: string): BackupArchive => {
+  let archive: any;
+  try {
+    archive = JSON.parse(text.trim());
+  } catch (error) {
+    throw new Error('This is not a backup file');
+  }
+
+  if (!archive || archive.format !== BACKUP_FORMAT || !archive.data) {
+    throw new Error('This is not a backup file');
+  }
+  if (typeof archive.version !== 'number' || archive.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app and try again.');
+  }
+  if (typeof archive.schemaVersion !== 'number' || archive.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app and try again.');
+  }
+
+  const collections = ['templates', 'plans', 'sessions', 'clients', 'exercises', 'scheduledNotifications', 'pendingSync'];
+  for (const collection of collections) {
+    const records = archive.data[collection];
+    if (!Array.isArray(records) || records.some((record: any) => !record || (collection !== 'pendingSync' && typeof record.id !== 'string'))) {
+      throw new Error(`The backup is damaged: ${collection} is invalid`);
+    }
+  }
+  if (typeof archive.data.metrics !== 'object' || archive.data.metrics === null) {
+    throw new Error('The backup is damaged: metrics are invalid');
+  }
+
+  const data: BackupArchive['data'] = {
+    ...archive.data,
+    personalRecords: Array.isArray(archive.data.personalRecords) ? archive.data.personalRecords : [],
+    programs: Array.isArray(archive.data.programs) ? archive.data.programs : [],
+    enrollments: Array.isArray(archive.data.enrollments) ? archive.data.enrollments : [],
+    formChecks: Array.isArray(archive.data.formChecks) ? archive.data.formChecks : [],
+    stats: archive.data.stats || { streakDays: 0, longestStreak: 0 },
+    remoteIds: archive.data.remoteIds || {},
+  };
+
+  // Backups made on an older schema go through the same migrations as stored data
+  try {
+    return {
+      ...archive,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      data: upgradeData(data, archive.schemaVersion),
+    };
+  } catch (error) {
+    throw new Error(`The backup could not be upgraded: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const diffBackupArchive = async (archive: BackupArchive): Promise<BackupDiff> => {
+  await runStorageMigrations();
+  const [templates, plans, sessions, clients, exercises, metrics] = await Promise.all([
+    templateStore.getAll(),
+    planStore.getAll(),
+    sessionStore.getAll(),
+    clientStore.getAll(),
+    getExercises(),
+    getMetrics(),
+  ]);
+
+  return {
+    templates: diffRecords(templates, archive.data.templates),
+    plans: diffRecords(plans, archive.data.plans),
+    sessions: diffRecords(sessions, archive.data.sessions),
+    clients: diffRecords(clients, archive.data.clients),
+    exercises: diffRecords(exercises, archive.data.exercises),
+    metricEntries: diffRecords(flattenMetricEntries(metrics), flattenMetricEntries(archive.data.metrics)),
+  };
+};
+
+export const restoreBackupArchive = async (archive: BackupArchive, mode: RestoreMode): Promise<RestoreResult> => {
+  const diff = await diffBackupArchive(archive);
+  const { data } = archive;
+  // Recordings stay on the device that made them, uploaded videos are fetched from storage instead
+  const formChecks = data.formChecks.map(formCheck => (
+    formCheck.storagePath ? { ...formCheck, localUri: undefined } : formCheck
+  ));
+
+  if (mode === 'replace') {
+    await writeStore(templateStore, data.templates, mode);
+    await writeStore(planStore, data.plans, mode);
+    await writeStore(sessionStore, data.sessions, mode);
+    await writeStore(clientStore, data.clients, mode);
+    await writeStore(programStore, data.programs, mode);
+    await writeStore(enrollmentStore, data.enrollments, mode);
+    await writeStore(formCheckStore, formChecks, mode);
+    await saveExercises(data.exercises);
+    await saveMetrics(data.metrics);
+    await savePersonalRecordHistory(data.personalRecords);
+    await saveRemoteIdMap(data.remoteIds);
+    await savePendingSync(data.pendingSync);
+    // Deletes and conflicts recorded on this device are about records the restore just replaced
+    await clearTombstones();
+    await clearSyncConflicts();
+    await accountStorage.setItem(STATS_KEYS.STREAK_DAYS, data.stats.streakDays.toString());
+    await accountStorage.setItem(STATS_KEYS.LONGEST_STREAK, data.stats.longestStreak.toString());
+  } else {
+    await writeStore(templateStore, mergeRecords(await templateStore.getAll(), data.templates), mode);
+    await writeStore(planStore, mergeRecords(await planStore.getAll(), data.plans), mode);
+    await writeStore(sessionStore, mergeRecords(await sessionStore.getAll(), data.sessions), mode);
+    await writeStore(clientStore, mergeRecords(await clientStore.getAll(), data.clients), mode);
+    await writeStore(programStore, mergeRecords(await programStore.getAll(), data.programs), mode);
+    await writeStore(enrollmentStore, mergeRecords(await enrollmentStore.getAll(), data.enrollments), mode);
+    await writeStore(formCheckStore, mergeRecords(await formCheckStore.getAll(), formChecks), mode);
+    await saveExercises(mergeRecords(await getExercises(), data.exercises));
+    await saveMetrics(mergeMetrics(await getMetrics(), data.metrics));
+    await savePersonalRecordHistory(mergeRecords(await getPersonalRecordHistory(), data.personalRecords));
+
+    // Mappings already on this device win, they reflect the latest sync
+    await saveRemoteIdMap({ ...data.remoteIds, ...(await getRemoteIdMap()) });
+
+    const pendingSync = await getPendingSync();
+    const queued = new Set(pendingSync.map(item => `${item.type}:${item.id}`));
+    await savePendingSync([
+      ...pendingSync,
+      ...data.pendingSync.filter(item => !queued.has(`${item.type}:${item.id}`)),
+    ]);
+
+    const longestStreak = await readNumber(STATS_KEYS.LONGEST_STREAK);
+    await accountStorage.setItem(
+      STATS_KEYS.LONGEST_STREAK,
+      Math.max(longestStreak, data.stats.longestStreak).toString()
+    );
+  }
+
+  const notificationsRestored = await restoreScheduledNotifications(data.scheduledNotifications);
+  return { diff, notificationsRestored };
+};
@@ -0,0 +1,222 @@
+import { accountStorage } from './accountStorage';
+import { Exercise, WorkoutSession, WorkoutSet } from '../types/workout';
+import { UnitSystem } from '../types/units';
+import { toDisplayValue, getUnitLabel, DEFAULT_UNIT_SYSTEM } from './units';
+import { getEquipmentTags } from './substitutions';
+
+/*
+  Cardio sets are logged as distance and time, optionally with the average
+  heart rate. Pace, speed and splits are derived from those, per kilometre or
+  mile depending on the user's units. Heart rate is placed in one of five
+  zones by its share of the user's max heart rate, which they can enter or
+  have estimated from their age.
+*/
+
+const STORAGE_KEYS = {
+  HEART_RATE_PROFILE: '@heart_rate_profile',
+};
+
+export type HeartRateZoneId = 1 | 2 | 3 | 4 | 5;
+
+export interface HeartRateZone {
+  zone: HeartRateZoneId;
+  label: string;
+  minPercent: number; // of max heart rate, inclusive
+  maxPercent: number;
+}
+
+export interface HeartRateProfile {
+  maxHeartRate?: number; // measured or entered by the user
+  age?: number; // used for an estimate when there is no max
+}
+
+export interface CardioSplit {
+  index: number; // 1-based
+  distance: number; // in display units, 1 except for the last split
+  seconds: number;
+  pace: number; // seconds per display unit
+}
+
+export interface CardioSummary {
+  distance: number; // metres
+  seconds: number;
+  sets: number;
+  averageHeartRate?: number; // weighted by time
+  zoneSeconds: { [zone in HeartRateZoneId]?: number };
+}
+
+export const HEART_RATE_ZONES: HeartRateZone[] = [
+  { zone: 1, label: 'Recovery', minPercent: 50, maxPercent: 60 },
+  { zone: 2, label: 'Endurance', minPercent: 60, maxPercent: 70 },
+  { zone: 3, label: 'Tempo', minPercent: 70, maxPercent: 80 },
+  { zone: 4, label: 'Threshold', minPercent: 80, maxPercent: 90 },
+  { zone: 5, label: 'Maximum', minPercent: 90, maxPercent: 100 },
+];
+
+// Identifying cardio
+// Cardio exercises are the ones filed as cardio or done on a cardio machine
+export const isCardioExercise = (exercise: Pick<Exercise, 'category' | 'equipment' | 'equipmentTags'>): boolean => {
+  return exercise.category.toLowerCase() === 'cardio' || getEquipmentTags(exercise).includes('cardioMachine');
+};
+
+// Sets covering a distance count as cardio whatever the exercise, a time alone could be a plank
+export const isCardioSet = (set: WorkoutSet): boolean => {
+  return set.distance !== undefined && set.distance > 0;
+};
+
+// Pace and speed
+// Seconds per kilometre or mile, null without both distance and time
+export const getPace = (distance: number, seconds: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): number | null => {
+  if (distance <= 0 || seconds <= 0) return null;
+  return seconds / toDisplayValue(distance, 'distance', system);
+};
+
+// Kilometres or miles per hour
+export const getSpeed = (distance: number, seconds: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): number | null => {
+  if (distance <= 0 || seconds <= 0) return null;
+  return toDisplayValue(distance, 'distance', system) / (seconds / 3600);
+};
+
+// e.g. 5:12 /km
+export const formatPace = (pace: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string => {
+  const total = Math.round(pace);
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')} /${getUnitLabel('distance', system)}`;
+};
+
+// e.g. 11.5 km/h, 7.2 mph
+export const formatSpeed = (speed: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string => {
+  return system === 'imperial' ? `${speed.toFixed(1)} mph` : `${speed.toFixed(1)} km/h`;
+};
+
+// e.g. 42:05, 1:03:20
+export const formatCardioTime = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const rest = (total % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
+
+/*
+  Splits per kilometre or mile over the sets in order. Pace is taken as even
+  within a set, so sets logged as laps give real splits and a single long set
+  gives even ones. The last split is whatever distance is left over.
+*/
+export const getSplits = (sets: WorkoutSet[], system: UnitSystem = DEFAULT_UNIT_SYSTEM): CardioSplit[] => {
+  const splits: CardioSplit[] = [];
+  let splitDistance = 0;
+  let splitSeconds = 0;
+
+  for (const set of sets) {
+    if (!set.distance || !set.duration) continue;
+    let remaining = toDisplayValue(set.distance, 'distance', system);
+    const secondsPerUnit = set.duration / remaining;
+
+    while (remaining > 0) {
+      const step = Math.min(remaining, 1 - splitDistance);
+      splitDistance += step;
+      splitSeconds += step * secondsPerUnit;
+      remaining -= step;
+
+      if (splitDistance >= 1 - 1e-9) {
+        splits.push({ index: splits.length + 1, distance: 1, seconds: splitSeconds, pace: splitSeconds });
+        splitDistance = 0;
+        splitSeconds = 0;
+      }
+    }
+  }
+
+  // A few dozen metres left over aren't worth a split of their own
+  if (splitDistance > 0.03) {
+    splits.push({
+      index: splits.length + 1,
+      distance: splitDistance,
+      seconds: splitSeconds,
+      pace: splitSeconds / splitDistance,
+    });
+  }
+  return splits;
+};
+
+// Heart rate
+// Tanaka, Monahan & Seals (2001), closer than 220 - age for adults over 40
+export const estimateMaxHeartRate = (age: number): number => {
+  return Math.round(208 - 0.7 * age);
+};
+
+export const getMaxHeartRate = (profile: HeartRateProfile): number | null => {
+  if (profile.maxHeartRate) return profile.maxHeartRate;
+  return profile.age ? estimateMaxHeartRate(profile.age) : null;
+};
+
+// Below zone 1 counts as no zone, above the max as zone 5
+export const getHeartRateZone = (heartRate: number, maxHeartRate: number): HeartRateZone | null => {
+  const percent = (heartRate / maxHeartRate) * 100;
+  if (percent < HEART_RATE_ZONES[0].minPercent) return null;
+  return HEART_RATE_ZONES.find(zone => percent < zone.maxPercent) ?? HEART_RATE_ZONES[HEART_RATE_ZONES.length - 1];
+};
+
+// e.g. 133-151 bpm
+export const formatZoneRange = (zone: HeartRateZone, maxHeartRate: number): string => {
+  return `${Math.round((zone.minPercent / 100) * maxHeartRate)}-${Math.round((zone.maxPercent / 100) * maxHeartRate)} bpm`;
+};
+
+export const getHeartRateProfile = async (): Promise<HeartRateProfile> => {
+  try {
+    const data = await accountStorage.getItem(STORAGE_KEYS.HEART_RATE_PROFILE);
+    return data ? JSON.parse(data) : {};
+  } catch (error) {
+    console.error('Error loading heart rate profile:', error);
+    return {};
+  }
+};
+
+export const saveHeartRateProfile = async (profile: HeartRateProfile): Promise<void> => {
+  try {
+    await accountStorage.setItem(STORAGE_KEYS.HEART_RATE_PROFILE, JSON.stringify(profile));
+  } catch (error) {
+    console.error('Error saving heart rate profile:', error);
+    throw error;
+  }
+};
+
+// Totals
+// sets are expected to be cardio already, see summarizeCardio
+export const summarizeCardioSets = (sets: WorkoutSet[], maxHeartRate?: number | null): CardioSummary => {
+  const summary: CardioSummary = { distance: 0, seconds: 0, sets: 0, zoneSeconds: {} };
+  let heartRateSeconds = 0;
+  let heartRateTotal = 0;
+
+  for (const set of sets) {
+    if (!set.distance && !set.duration) continue;
+    summary.sets++;
+    summary.distance += set.distance || 0;
+    summary.seconds += set.duration || 0;
+
+    if (set.heartRate && set.duration) {
+      heartRateSeconds += set.duration;
+      heartRateTotal += set.heartRate * set.duration;
+
+      const zone = maxHeartRate ? getHeartRateZone(set.heartRate, maxHeartRate) : null;
+      if (zone) summary.zoneSeconds[zone.zone] = (summary.zoneSeconds[zone.zone] ?? 0) + set.duration;
+    }
+  }
+
+  if (heartRateSeconds > 0) summary.averageHeartRate = Math.round(heartRateTotal / heartRateSeconds);
+  return summary;
+};
+
+// Sessions only keep exercise ids, the library says which exercises are cardio
+export const summarizeCardio = (
+  sessions: WorkoutSession[],
+  exercises: Exercise[],
+  maxHeartRate?: number | null
+): CardioSummary => {
+  const cardioIds = new Set(exercises.filter(isCardioExercise).map(exercise => exercise.id));
+  return summarizeCardioSets(
+    sessions.flatMap(session => session.exercises
+      .filter(exercise => cardioIds.has(exercise.exerciseId) || exercise.sets.some(isCardioSet))
+      .flatMap(exercise => exercise.sets)),
+    maxHeartRate
+  );
+};
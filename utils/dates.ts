@@ -0,0 +1,106 @@
+import { accountStorage } from './accountStorage';
+
+/*
+  Calendar days are keyed as YYYY-MM-DD in the device's local time zone. That is
+  what the user means by "today", and what session, plan and daily stats dates
+  hold. Never derive a key from toISOString(), that is the UTC day and is off by
+  one for part of every day outside UTC.
+*/
+
+export type WeekStart = 'monday' | 'sunday';
+
+const STORAGE_KEYS = {
+  WEEK_START: '@week_start',
+};
+
+export const DEFAULT_WEEK_START: WeekStart = 'monday';
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+// Keys
+export const toDateKey = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const getTodayKey = (): string => toDateKey(new Date());
+
+// Local midnight of the day. new Date('YYYY-MM-DD') would be UTC midnight instead.
+export const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const addDays = (key: string, days: number): string => {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+// Whole calendar days from earlier to later, unaffected by daylight saving changes
+export const diffInDays = (later: string, earlier: string): number => {
+  const toUTCDay = (key: string) => {
+    const [year, month, day] = key.slice(0, 10).split('-').map(Number);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUTCDay(later) - toUTCDay(earlier)) / (1000 * 60 * 60 * 24));
+};
+
+export const isTodayKey = (key: string): boolean => key === getTodayKey();
+
+// Weeks
+export const getWeekStartKey = (key: string, weekStart: WeekStart = DEFAULT_WEEK_START): string => {
+  const day = parseDateKey(key).getDay(); // 0 is Sunday
+  const offset = weekStart === 'monday' ? (day + 6) % 7 : day;
+  return addDays(key, -offset);
+};
+
+// The seven day keys of the week containing the given day, in order
+export const getWeekKeys = (key: string, weekStart: WeekStart = DEFAULT_WEEK_START): string[] => {
+  const first = getWeekStartKey(key, weekStart);
+  return Array.from({ length: 7 }, (_, index) => addDays(first, index));
+};
+
+export const isInSameWeek = (key: string, other: string, weekStart: WeekStart = DEFAULT_WEEK_START): boolean => {
+  return getWeekStartKey(key, weekStart) === getWeekStartKey(other, weekStart);
+};
+
+// Day boundaries. Streaks and "today" views go stale at local midnight, not when the app restarts.
+export const getMillisecondsUntilNextDay = (now: Date = new Date()): number => {
+  const next = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  return next.getTime() - now.getTime();
+};
+
+export const onDayChange = (listener: (todayKey: string) => void): (() => void) => {
+  let timeout: ReturnType<typeof setTimeout>;
+
+  const schedule = () => {
+    // A second late so the timer never fires just before midnight
+    timeout = setTimeout(() => {
+      listener(getTodayKey());
+      schedule();
+    }, getMillisecondsUntilNextDay() + 1000);
+  };
+
+  schedule();
+  return () => clearTimeout(timeout);
+};
+
+// Preferences
+export const getWeekStart = async (): Promise<WeekStart> => {
+  try {
+    const weekStart = await accountStorage.getItem(STORAGE_KEYS.WEEK_START);
+    return weekStart === 'monday' || weekStart === 'sunday' ? weekStart : DEFAULT_WEEK_START;
+  } catch (error) {
+    console.error('Error loading week start:', error);
+    return DEFAULT_WEEK_START;
+  }
+};
+
+export const saveWeekStart = async (weekStart: WeekStart): Promise<void> => {
+  try {
+    await accountStorage.setItem(STORAGE_KEYS.WEEK_START, weekStart);
+  } catch (error) {
+    console.error('Error saving week start:', error);
+    throw error;
+  }
+};
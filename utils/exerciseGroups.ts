@@ -0,0 +1,154 @@
+import { TemplateExercise, ExerciseGroup, ExerciseGroupType } from '../types/workout';
+import { getRestTime } from './workoutUtils';
+
+export interface ExerciseBlock<T> {
+  group?: ExerciseGroup;
+  items: T[];
+}
+
+export const getGroupTypeLabel = (type: ExerciseGroupType): string => {
+  switch (type) {
+    case 'superset': return 'Superset';
+    case 'circuit': return 'Circuit';
+    case 'giantSet': return 'Giant Set';
+    default: return 'Superset';
+  }
+};
+
+// Splits an ordered list into single exercises and runs of grouped exercises
+export const getExerciseBlocks = <T>(
+  items: T[],
+  getGroupId: (item: T) => number | undefined,
+  groups: ExerciseGroup[] = []
+): ExerciseBlock<T>[] => {
+  const blocks: ExerciseBlock<T>[] = [];
+
+  items.forEach(item => {
+    const groupId = getGroupId(item);
+    const group = groups.find(g => g.id === groupId);
+    const previous = blocks[blocks.length - 1];
+
+    if (group && previous?.group?.id === group.id) {
+      previous.items.push(item);
+    } else {
+      blocks.push({ group, items: [item] });
+    }
+  });
+
+  return blocks;
+};
+
+const resizeSets = (templateExercise: TemplateExercise, rounds: number): TemplateExercise => {
+  const sets = templateExercise.sets.slice(0, rounds);
+  while (sets.length < rounds) {
+    sets.push({ ...(sets[sets.length - 1] ?? { reps: 10, weight: 0 }) });
+  }
+  return { ...templateExercise, sets };
+};
+
+// Drops groups that fell below two exercises and keeps every member's set count equal to the rounds
+export const normalizeExerciseGroups = (
+  exercises: TemplateExercise[],
+  groups: ExerciseGroup[]
+): { exercises: TemplateExercise[]; groups: ExerciseGroup[] } => {
+  const memberCounts = new Map<number, number>();
+  exercises.forEach(exercise => {
+    if (exercise.supersetGroup !== undefined) {
+      memberCounts.set(exercise.supersetGroup, (memberCounts.get(exercise.supersetGroup) || 0) + 1);
+    }
+  });
+
+  const remainingGroups = groups
+    .filter(group => (memberCounts.get(group.id) || 0) >= 2)
+    .map(group => {
+      // Circuits are chosen explicitly, supersets become giant sets past two exercises
+      if (group.type === 'circuit') return group;
+      const type: ExerciseGroupType = (memberCounts.get(group.id) || 0) > 2 ? 'giantSet' : 'superset';
+      return { ...group, type };
+    });
+
+  return {
+    groups: remainingGroups,
+    exercises: exercises.map(exercise => {
+      const group = remainingGroups.find(g => g.id === exercise.supersetGroup);
+      if (!group) {
+        const { supersetGroup, ...ungrouped } = exercise;
+        return ungrouped;
+      }
+      return resizeSets(exercise, group.rounds);
+    }),
+  };
+};
+
+// Groups an exercise with the one after it, joining or merging existing groups
+export const linkWithNext = (
+  exercises: TemplateExercise[],
+  groups: ExerciseGroup[],
+  index: number
+): { exercises: TemplateExercise[]; groups: ExerciseGroup[] } => {
+  const current = exercises[index];
+  const next = exercises[index + 1];
+  if (!current || !next) return { exercises, groups };
+
+  let nextGroups = groups;
+  let groupId = current.supersetGroup ?? next.supersetGroup;
+  if (groupId === undefined) {
+    groupId = groups.reduce((max, group) => Math.max(max, group.id), 0) + 1;
+    nextGroups = [...groups, {
+      id: groupId,
+      type: 'superset',
+      rounds: current.sets.length || 3,
+      restTime: getRestTime(current),
+    }];
+  }
+
+  const absorbed = next.supersetGroup !== undefined && next.supersetGroup !== groupId ? next.supersetGroup : undefined;
+  const linked = exercises.map((exercise, i) => {
+    if (i === index || i === index + 1 || (absorbed !== undefined && exercise.supersetGroup === absorbed)) {
+      return { ...exercise, supersetGroup: groupId };
+    }
+    return exercise;
+  });
+
+  return normalizeExerciseGroups(linked, nextGroups);
+};
+
+// Unlinking from the middle splits the group in two, a side left with one exercise is dissolved
+export const unlinkExercise = (
+  exercises: TemplateExercise[],
+  groups: ExerciseGroup[],
+  templateExerciseId: string
+): { exercises: TemplateExercise[]; groups: ExerciseGroup[] } => {
+  const index = exercises.findIndex(exercise => exercise.id === templateExerciseId);
+  const groupId = exercises[index]?.supersetGroup;
+  const group = groups.find(g => g.id === groupId);
+  if (index === -1 || !group) {
+    return normalizeExerciseGroups(exercises, groups);
+  }
+
+  // Members after the unlinked exercise carry on as a new group with the same settings
+  const splitId = groups.reduce((max, g) => Math.max(max, g.id), 0) + 1;
+  const unlinked = exercises.map((exercise, i) => {
+    if (i === index) {
+      const { supersetGroup, ...ungrouped } = exercise;
+      return ungrouped;
+    }
+    if (i > index && exercise.supersetGroup === groupId) {
+      return { ...exercise, supersetGroup: splitId };
+    }
+    return exercise;
+  });
+  return normalizeExerciseGroups(unlinked, [...groups, { ...group, id: splitId }]);
+};
+
+export const updateExerciseGroup = (
+  exercises: TemplateExercise[],
+  groups: ExerciseGroup[],
+  groupId: number,
+  change: Partial<Omit<ExerciseGroup, 'id'>>
+): { exercises: TemplateExercise[]; groups: ExerciseGroup[] } => {
+  return normalizeExerciseGroups(
+    exercises,
+    groups.map(group => (group.id === groupId ? { ...group, ...change } : group))
+  );
+};
@@ -0,0 +1,302 @@
+import { Exercise, EquipmentTag, DifficultyLevel } from '../types/workout';
+import { getEquipmentTags, getEquipmentLabel } from './substitutions';
+
+/*
+  Search over the exercise library. Every exercise is indexed once as normalized
+  tokens from its name, aliases, category, muscle groups and equipment, each
+  field weighted by how much a hit there says about the exercise. A query
+  matches when each of its words matches some token exactly, as a prefix, as a
+  substring or within a couple of typos. The name is also compared with its
+  spaces removed, so "benchpres" still finds Bench Press. Common gym
+  abbreviations are indexed next to what they stand for, so RDL finds Romanian
+  Deadlift and the other way round.
+*/
+
+export type ExerciseOwnership = 'all' | 'mine' | 'library';
+
+export interface ExerciseFilters {
+  muscleGroups: string[];
+  equipment: EquipmentTag[];
+  difficulty: DifficultyLevel[];
+  ownership: ExerciseOwnership;
+}
+
+export interface ExerciseFacetCounts {
+  muscleGroups: { [muscleGroup: string]: number };
+  equipment: { [tag in EquipmentTag]?: number };
+  difficulty: { [level in DifficultyLevel]?: number };
+}
+
+interface IndexedField {
+  tokens: string[];
+  compact: string; // the whole field without spaces
+  weight: number;
+}
+
+interface IndexedExercise {
+  exercise: Exercise;
+  equipment: EquipmentTag[];
+  fields: IndexedField[];
+}
+
+export interface ExerciseSearchIndex {
+  entries: IndexedExercise[];
+}
+
+export const EMPTY_EXERCISE_FILTERS: ExerciseFilters = {
+  muscleGroups: [],
+  equipment: [],
+  difficulty: [],
+  ownership: 'all',
+};
+
+export const EXERCISE_OWNERSHIP_OPTIONS: { value: ExerciseOwnership; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'mine', label: 'Created by me' },
+  { value: 'library', label: 'Library' },
+];
+
+// Abbreviation and what it stands for, both normalized
+const SYNONYMS: { [abbreviation: string]: string } = {
+  rdl: 'romanian deadlift',
+  sldl: 'stiff leg deadlift',
+  ohp: 'overhead press',
+  bp: 'bench press',
+  db: 'dumbbell',
+  bb: 'barbell',
+  kb: 'kettlebell',
+  bw: 'bodyweight',
+  ghr: 'glute ham raise',
+  hspu: 'handstand push up',
+  abs: 'core',
+  quads: 'quadriceps',
+  hammies: 'hamstrings',
+  delts: 'shoulders',
+  pecs: 'chest',
+};
+
+const FIELD_WEIGHTS = {
+  name: 1,
+  alias: 0.9,
+  muscleGroup: 0.6,
+  category: 0.5,
+  equipment: 0.5,
+};
+
+const MATCH_SCORES = {
+  exact: 1,
+  prefix: 0.9,
+  substring: 0.7,
+  typo: 0.6, // less for every extra edit
+};
+
+// Normalizing
+const normalize = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+const tokenize = (text: string): string[] => {
+  return normalize(text).split(' ').filter(Boolean);
+};
+
+// Adds the long form next to an abbreviation and the abbreviation next to the long form
+const addSynonyms = (tokens: string[]): string[] => {
+  const text = ` ${tokens.join(' ')} `;
+  const expanded = [...tokens];
+  for (const [abbreviation, phrase] of Object.entries(SYNONYMS)) {
+    if (tokens.includes(abbreviation)) expanded.push(...phrase.split(' '));
+    if (text.includes(` ${phrase} `)) expanded.push(abbreviation);
+  }
+  return expanded;
+};
+
+// Short words have to be spelled right, "row" is one typo from "bow" and "tow"
+const getAllowedTypos = (length: number): number => {
+  if (length <= 3) return 0;
+  return length <= 7 ? 1 : 2;
+};
+
+// Optimal string alignment distance, a swapped pair of letters counts as one typo. Gives up past max.
+const getEditDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const twoRowsBack = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], twoRowsBack[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+  }
+  return row[b.length];
+};
+
+// How well one query word matches one indexed word, 0 when it doesn't
+const scoreToken = (query: string, token: string): number => {
+  if (token === query) return MATCH_SCORES.exact;
+  if (token.startsWith(query)) return MATCH_SCORES.prefix;
+  if (query.length >= 3 && token.includes(query)) return MATCH_SCORES.substring;
+
+  const allowed = getAllowedTypos(query.length);
+  if (allowed === 0) return 0;
+
+  // Compared with the whole word and with its start, the user may still be typing
+  const distance = Math.min(
+    getEditDistance(query, token, allowed),
+    getEditDistance(query, token.slice(0, query.length), allowed)
+  );
+  return distance <= allowed ? MATCH_SCORES.typo - (distance - 1) * 0.1 : 0;
+};
+
+// Indexing
+const indexField = (text: string, weight: number): IndexedField => {
+  const tokens = tokenize(text);
+  return { tokens: addSynonyms(tokens), compact: tokens.join(''), weight };
+};
+
+export const buildSearchIndex = (exercises: Exercise[]): ExerciseSearchIndex => {
+  return {
+    entries: exercises.map(exercise => {
+      const equipment = getEquipmentTags(exercise);
+      return {
+        exercise,
+        equipment,
+        fields: [
+          indexField(exercise.name, FIELD_WEIGHTS.name),
+          ...(exercise.aliases || []).map(alias => indexField(alias, FIELD_WEIGHTS.alias)),
+          indexField(exercise.category, FIELD_WEIGHTS.category),
+          ...exercise.muscleGroups.map(muscleGroup => indexField(muscleGroup, FIELD_WEIGHTS.muscleGroup)),
+          ...equipment.map(tag => indexField(getEquipmentLabel(tag), FIELD_WEIGHTS.equipment)),
+        ],
+      };
+    }),
+  };
+};
+
+// Scoring
+// Every word of the query has to match somewhere, the score is the average of the best hits
+const scoreWords = (words: string[], fields: IndexedField[]): number => {
+  let total = 0;
+  for (const word of words) {
+    let best = 0;
+    for (const field of fields) {
+      for (const token of field.tokens) {
+        best = Math.max(best, scoreToken(word, token) * field.weight);
+      }
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total / words.length;
+};
+
+// The query run together and compared with names and aliases run together, for "benchpres" and "pull-up" vs "pullup"
+const scoreCompact = (compactQuery: string, fields: IndexedField[]): number => {
+  let best = 0;
+  for (const field of fields) {
+    if (field.weight < FIELD_WEIGHTS.alias || compactQuery.length < 4) continue;
+    best = Math.max(best, scoreToken(compactQuery, field.compact) * field.weight);
+  }
+  return best;
+};
+
+const scoreEntry = (query: string, entry: IndexedExercise): number => {
+  const words = tokenize(query);
+  if (words.length === 0) return 1;
+  return Math.max(scoreWords(words, entry.fields), scoreCompact(words.join(''), entry.fields));
+};
+
+// Facets
+const matchesOwnership = (exercise: Exercise, ownership: ExerciseOwnership, profileId: string | null): boolean => {
+  switch (ownership) {
+    case 'mine': return !!exercise.createdBy && exercise.createdBy === profileId;
+    case 'library': return !exercise.createdBy || exercise.createdBy !== profileId;
+    default: return true;
+  }
+};
+
+type FacetKey = keyof Omit<ExerciseFilters, 'ownership'>;
+
+// A facet with nothing selected lets everything through. skip leaves one facet out, for counting its options.
+const matchesFilters = (
+  entry: IndexedExercise,
+  filters: ExerciseFilters,
+  profileId: string | null,
+  skip?: FacetKey
+): boolean => {
+  const { exercise } = entry;
+  if (skip !== 'muscleGroups' && filters.muscleGroups.length > 0 &&
+    !exercise.muscleGroups.some(muscleGroup => filters.muscleGroups.includes(muscleGroup))) return false;
+  if (skip !== 'equipment' && filters.equipment.length > 0 &&
+    !entry.equipment.some(tag => filters.equipment.includes(tag))) return false;
+  if (skip !== 'difficulty' && filters.difficulty.length > 0 &&
+    (!exercise.difficulty || !filters.difficulty.includes(exercise.difficulty))) return false;
+  return matchesOwnership(exercise, filters.ownership, profileId);
+};
+
+export const hasActiveFilters = (filters: ExerciseFilters): boolean => {
+  return filters.muscleGroups.length > 0 ||
+    filters.equipment.length > 0 ||
+    filters.difficulty.length > 0 ||
+    filters.ownership !== 'all';
+};
+
+// Best match first, alphabetical when there is no query
+export const searchExercises = (
+  index: ExerciseSearchIndex,
+  query: string,
+  filters: ExerciseFilters = EMPTY_EXERCISE_FILTERS,
+  profileId: string | null = null
+): Exercise[] => {
+  return index.entries
+    .filter(entry => matchesFilters(entry, filters, profileId))
+    .map(entry => ({ exercise: entry.exercise, score: scoreEntry(query, entry) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.exercise.name.localeCompare(b.exercise.name))
+    .map(result => result.exercise);
+};
+
+/*
+  How many results each facet option would give with the current query and the
+  other facets applied, so options can show a count and empty ones can be hidden.
+*/
+export const getFacetCounts = (
+  index: ExerciseSearchIndex,
+  query: string,
+  filters: ExerciseFilters,
+  profileId: string | null = null
+): ExerciseFacetCounts => {
+  const counts: ExerciseFacetCounts = { muscleGroups: {}, equipment: {}, difficulty: {} };
+  const matching = index.entries.filter(entry => scoreEntry(query, entry) > 0);
+
+  for (const entry of matching) {
+    if (matchesFilters(entry, filters, profileId, 'muscleGroups')) {
+      entry.exercise.muscleGroups.forEach(muscleGroup => {
+        counts.muscleGroups[muscleGroup] = (counts.muscleGroups[muscleGroup] ?? 0) + 1;
+      });
+    }
+    if (matchesFilters(entry, filters, profileId, 'equipment')) {
+      entry.equipment.forEach(tag => {
+        counts.equipment[tag] = (counts.equipment[tag] ?? 0) + 1;
+      });
+    }
+    if (entry.exercise.difficulty && matchesFilters(entry, filters, profileId, 'difficulty')) {
+      counts.difficulty[entry.exercise.difficulty] = (counts.difficulty[entry.exercise.difficulty] ?? 0) + 1;
+    }
+  }
+  return counts;
+};
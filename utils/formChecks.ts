@@ -0,0 +1,164 @@
+import * as MediaLibrary from 'expo-media-library';
+import { FormCheckVideo, FormCheckComment, WorkoutSession, WorkoutSet, Exercise } from '../types/workout';
+import { UnitSystem } from '../types/units';
+import { generateId, getSetTypeLabel } from './workoutUtils';
+import { formatQuantity, DEFAULT_UNIT_SYSTEM } from './units';
+
+/*
+  Form checks are short videos of a logged set. The recording is kept in the
+  device's media library so it survives cache clears, and uploaded to the
+  form-checks bucket on the next sync. Trainers watch it from there, leave
+  comments pinned to a moment of the video and rate the client's form.
+*/
+
+export const FORM_CHECK_MAX_SECONDS = 60;
+
+// Attached videos were not cut to the set, allow some setup before and after it
+const ATTACHMENT_MAX_SECONDS = 3 * 60;
+
+export const FORM_RATINGS: { value: number; label: string }[] = [
+  { value: 1, label: 'Unsafe' },
+  { value: 2, label: 'Needs work' },
+  { value: 3, label: 'Okay' },
+  { value: 4, label: 'Good' },
+  { value: 5, label: 'Excellent' },
+];
+
+// A video picked during the workout, turned into a form check once the set is saved
+export interface FormCheckDraft {
+  localUri: string;
+  durationSeconds?: number;
+}
+
+export interface LibraryVideo {
+  id: string;
+  uri: string;
+  durationSeconds: number;
+  creationTime: number;
+}
+
+// Records
+// The session exercise is passed in, an exercise can appear in a session more than once
+export const createFormCheck = (
+  session: WorkoutSession,
+  sessionExercise: WorkoutSession['exercises'][number],
+  exercise: Pick<Exercise, 'id' | 'name'>,
+  set: WorkoutSet,
+  draft: FormCheckDraft
+): FormCheckVideo | null => {
+  const setIndex = sessionExercise.sets.findIndex(item => item.id === set.id);
+  if (setIndex === -1) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: generateId(),
+    sessionId: session.id,
+    clientId: session.clientId,
+    exerciseId: exercise.id,
+    exerciseName: exercise.name,
+    setId: set.id,
+    setNumber: setIndex + 1,
+    set,
+    sessionDate: session.date,
+    localUri: draft.localUri,
+    durationSeconds: draft.durationSeconds,
+    comments: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const addFormCheckComment = (
+  formCheck: FormCheckVideo,
+  text: string,
+  timestampSeconds: number,
+  authorId: string
+): FormCheckVideo => {
+  const now = new Date().toISOString();
+  const comment: FormCheckComment = {
+    id: generateId(),
+    timestampSeconds: Math.max(0, Math.round(timestampSeconds * 10) / 10),
+    text: text.trim(),
+    authorId,
+    createdAt: now,
+  };
+  return {
+    ...formCheck,
+    comments: [...formCheck.comments, comment].sort((a, b) => a.timestampSeconds - b.timestampSeconds),
+    updatedAt: now,
+  };
+};
+
+export const removeFormCheckComment = (formCheck: FormCheckVideo, commentId: string): FormCheckVideo => {
+  return {
+    ...formCheck,
+    comments: formCheck.comments.filter(comment => comment.id !== commentId),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+export const rateFormCheck = (formCheck: FormCheckVideo, formRating: number): FormCheckVideo => {
+  const now = new Date().toISOString();
+  return { ...formCheck, formRating, reviewedAt: now, updatedAt: now };
+};
+
+export const getFormRatingLabel = (formRating?: number): string => {
+  return FORM_RATINGS.find(rating => rating.value === formRating)?.label ?? 'Not rated';
+};
+
+export const isFormCheckReviewed = (formCheck: FormCheckVideo): boolean => {
+  return formCheck.formRating !== undefined || formCheck.comments.length > 0;
+};
+
+// The set the video shows, e.g. "100 kg × 5 • RPE 8"
+export const describeFormCheckSet = (set: WorkoutSet, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string => {
+  const parts: string[] = [];
+  if (set.setType && set.setType !== 'normal') parts.push(getSetTypeLabel(set.setType));
+  if (set.weight !== undefined && set.reps !== undefined) {
+    parts.push(`${formatQuantity(set.weight, 'weight', system)} × ${set.reps}`);
+  } else if (set.reps !== undefined) {
+    parts.push(`${set.reps} reps`);
+  }
+  if (set.duration !== undefined) parts.push(`${set.duration}s`);
+  if (set.distance !== undefined) parts.push(formatQuantity(set.distance, 'distance', system));
+  if (set.rpe !== undefined) parts.push(`RPE ${set.rpe}`);
+  if (set.heartRate !== undefined) parts.push(`${set.heartRate} bpm`);
+  return parts.join(' • ');
+};
+
+// e.g. 0:07, 1:23
+export const formatVideoTime = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+// Media library
+// Moves a fresh recording out of the camera's cache into the media library, returns the file it ended up in
+export const saveRecording = async (uri: string): Promise<string> => {
+  const asset = await MediaLibrary.createAssetAsync(uri);
+  const info = await MediaLibrary.getAssetInfoAsync(asset);
+  return info.localUri ?? asset.uri;
+};
+
+// Latest videos first, long ones can't be a single set
+export const getRecentVideos = async (limit = 30): Promise<LibraryVideo[]> => {
+  const page = await MediaLibrary.getAssetsAsync({
+    first: limit,
+    mediaType: MediaLibrary.MediaType.video,
+    sortBy: [[MediaLibrary.SortBy.creationTime, false]],
+  });
+  return page.assets
+    .filter(asset => asset.duration <= ATTACHMENT_MAX_SECONDS)
+    .map(asset => ({
+      id: asset.id,
+      uri: asset.uri,
+      durationSeconds: Math.round(asset.duration),
+      creationTime: asset.creationTime,
+    }));
+};
+
+// Library assets can have a ph:// uri on iOS, uploads need the file behind it
+export const resolveLibraryVideo = async (video: LibraryVideo): Promise<string> => {
+  const info = await MediaLibrary.getAssetInfoAsync(video.id);
+  return info.localUri ?? video.uri;
+};
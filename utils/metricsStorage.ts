@@ -1,11 +1,50 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { accountStorage } from './accountStorage';
 import { MetricData, Metric, MetricEntry, MetricType } from '../types/metrics';
+import { Quantity } from '../types/units';
+import { toCanonical } from './units';
+import { getTodayKey } from './dates';
 
 const STORAGE_KEY = '@client_metrics';
 
+// Metrics without a quantity (body fat, steps) are shown as stored
+export const METRIC_QUANTITIES: { [key in MetricType]?: Quantity } = {
+  weight: 'weight',
+  chest: 'length',
+  shoulders: 'length',
+  waist: 'length',
+  thigh: 'length',
+  hip: 'length',
+  bicep: 'length',
+  waterIntake: 'volume',
+};
+
+export const getMetricQuantity = (metricType: string): Quantity | undefined => {
+  return METRIC_QUANTITIES[metricType as MetricType];
+};
+
+// Rewrites entries recorded in inches, pounds, litres... into the canonical unit of their metric
+export const normalizeMetricUnits = (metrics: MetricData): MetricData => {
+  const normalized: MetricData = {};
+  Object.entries(metrics).forEach(([metricKey, metric]) => {
+    const entries = (metric.entries || []).map(entry => {
+      const canonical = toCanonical(entry.value, entry.unit || metric.unit);
+      return canonical ? { ...entry, value: Math.round(canonical.value * 100) / 100, unit: canonical.unit } : entry;
+    });
+    const current = toCanonical(metric.currentValue ?? 0, metric.unit);
+
+    normalized[metricKey] = {
+      ...metric,
+      unit: current?.unit ?? metric.unit,
+      entries,
+      currentValue: entries[0]?.value ?? (metric.currentValue !== undefined && current ? current.value : metric.currentValue),
+    };
+  });
+  return normalized;
+};
+
 export const getMetrics = async (): Promise<MetricData> => {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEY);
+    const data = await accountStorage.getItem(STORAGE_KEY);
     return data ? JSON.parse(data) : getDefaultMetrics();
   } catch (error) {
     console.error('Error loading metrics:', error);
@@ -15,18 +54,19 @@ export const getMetrics = async (): Promise<MetricData> => {
 
 export const saveMetrics = async (metrics: MetricData): Promise<void> => {
   try {
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(metrics));
+    await accountStorage.setItem(STORAGE_KEY, JSON.stringify(metrics));
   } catch (error) {
     console.error('Error saving metrics:', error);
     throw error;
   }
 };
 
+// The value is in the metric's canonical unit, convert user input with fromDisplayValue first
 export const addMetricEntry = async (
   metricType: MetricType,
   value: number,
-  date: string = new Date().toISOString().split('T')[0],
-  time: string = new Date().toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })
+  date: string = getTodayKey(),
+  time: string = new Date().toISOString()
 ): Promise<void> => {
   const metrics = await getMetrics();
   const metric = metrics[metricType];
@@ -64,28 +104,28 @@ const getDefaultMetrics = (): MetricData => {
       currentValue: 78,
       lastUpdated: '2024-06-05',
       entries: [
-        { id: '1', value: 78, unit: 'kg', date: '2024-06-05', time: '10:31 AM' },
-        { id: '2', value: 68, unit: 'kg', date: '2024-06-02', time: '9:15 AM' },
-        { id: '3', value: 52, unit: 'kg', date: '2024-05-26', time: '8:30 AM' },
-        { id: '4', value: 58, unit: 'kg', date: '2024-04-21', time: '7:45 AM' },
+        { id: '1', value: 78, unit: 'kg', date: '2024-06-05', time: '2024-06-05T10:31:00.000Z' },
+        { id: '2', value: 68, unit: 'kg', date: '2024-06-02', time: '2024-06-02T09:15:00.000Z' },
+        { id: '3', value: 52, unit: 'kg', date: '2024-05-26', time: '2024-05-26T08:30:00.000Z' },
+        { id: '4', value: 58, unit: 'kg', date: '2024-04-21', time: '2024-04-21T07:45:00.000Z' },
       ]
     },
     chest: {
       id: 'chest',
       name: 'Chest',
-      unit: 'in',
+      unit: 'cm',
       icon: '💪',
       color: '#10B981',
-      currentValue: 36,
+      currentValue: 91.4,
       lastUpdated: '2024-06-03',
       entries: [
-        { id: '1', value: 36, unit: 'in', date: '2024-06-03', time: '2:15 PM' },
+        { id: '1', value: 91.4, unit: 'cm', date: '2024-06-03', time: '2024-06-03T14:15:00.000Z' },
       ]
     },
     shoulders: {
       id: 'shoulders',
       name: 'Shoulders',
-      unit: 'in',
+      unit: 'cm',
       icon: '🏋️',
       color: '#F59E0B',
       entries: []
@@ -93,7 +133,7 @@ const getDefaultMetrics = (): MetricData => {
     waist: {
       id: 'waist',
       name: 'Waist',
-      unit: 'in',
+      unit: 'cm',
       icon: '📏',
       color: '#EF4444',
       entries: []
@@ -101,7 +141,7 @@ const getDefaultMetrics = (): MetricData => {
     thigh: {
       id: 'thigh',
       name: 'Thigh',
-      unit: 'in',
+      unit: 'cm',
       icon: '🦵',
       color: '#8B5CF6',
       entries: []
@@ -109,7 +149,7 @@ const getDefaultMetrics = (): MetricData => {
     hip: {
       id: 'hip',
       name: 'Hip',
-      unit: 'in',
+      unit: 'cm',
       icon: '📐',
       color: '#EC4899',
       entries: []
@@ -125,7 +165,7 @@ const getDefaultMetrics = (): MetricData => {
     bicep: {
       id: 'bicep',
       name: 'Bicep',
-      unit: 'in',
+      unit: 'cm',
       icon: '💪',
       color: '#84CC16',
       entries: []
@@ -133,7 +173,7 @@ const getDefaultMetrics = (): MetricData => {
     waterIntake: {
       id: 'waterIntake',
       name: 'Water intake',
-      unit: 'L',
+      unit: 'ml',
       icon: '💧',
       color: '#0EA5E9',
       entries: []
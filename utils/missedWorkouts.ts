@@ -0,0 +1,181 @@
+import {
+  WorkoutPlan,
+  WorkoutSession,
+  PlannedSession,
+  PlanAdjustment,
+  MissedWorkoutPolicy,
+} from '../types/workout';
+import { getPlan, savePlan, getClientPlans } from './storage';
+import { generateId, formatDate } from './workoutUtils';
+import { addDays, getTodayKey } from './dates';
+import {
+  expandPlan,
+  getPlanEndDate,
+  getPlannedSessionStatus,
+  getLoggedSessions,
+  PlannedSessionStatus,
+} from './planCalendar';
+
+export const DEFAULT_MISSED_WORKOUT_POLICY: MissedWorkoutPolicy = 'skip';
+
+// Sessions missed longer ago than this are left as missed, nobody wants a backlog of old make-ups
+export const MISSED_WORKOUT_LOOKBACK_DAYS = 14;
+
+export const MISSED_WORKOUT_POLICIES: { value: MissedWorkoutPolicy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Missed workouts are let go and the plan carries on as scheduled' },
+  { value: 'push', label: 'Push plan', description: 'The missed workout and everything after it move back a day' },
+  { value: 'nextRestDay', label: 'Next rest day', description: 'The missed workout is made up on the next free day' },
+];
+
+export interface MissedWorkout {
+  plan: WorkoutPlan;
+  planned: PlannedSession;
+  proposal: PlanAdjustment;
+}
+
+export interface MissedWorkoutRecord {
+  adjustment: PlanAdjustment;
+  makeup?: { planned: PlannedSession; status: PlannedSessionStatus }; // where the workout was moved, and whether it was done
+}
+
+export interface ReconciliationResult {
+  applied: MissedWorkout[];
+  pending: MissedWorkout[];
+}
+
+// Detection
+export const findMissedSessions = (
+  plan: WorkoutPlan,
+  sessions: WorkoutSession[],
+  today: string = getTodayKey()
+): PlannedSession[] => {
+  const lookback = addDays(today, -MISSED_WORKOUT_LOOKBACK_DAYS);
+  return expandPlan(plan, lookback > plan.startDate ? lookback : plan.startDate, addDays(today, -1))
+    .filter(planned => getPlannedSessionStatus(planned, sessions, today) === 'missed');
+};
+
+const findNextRestDay = (plan: WorkoutPlan, from: string): string | null => {
+  const end = getPlanEndDate(plan);
+  const busy = new Set(expandPlan(plan, from, end).map(planned => planned.date));
+  for (let date = from; date <= end; date = addDays(date, 1)) {
+    if (!busy.has(date)) return date;
+  }
+  return null;
+};
+
+// Rescheduling
+export const proposeAdjustment = (
+  plan: WorkoutPlan,
+  planned: PlannedSession,
+  policy: MissedWorkoutPolicy = plan.missedWorkoutPolicy ?? DEFAULT_MISSED_WORKOUT_POLICY,
+  today: string = getTodayKey()
+): PlanAdjustment => {
+  const base = {
+    id: generateId(),
+    slotId: planned.slotId,
+    scheduledDate: planned.scheduledDate,
+    missedDate: planned.date,
+    createdAt: new Date().toISOString(),
+  };
+
+  if (policy === 'nextRestDay') {
+    const date = findNextRestDay(plan, today);
+    // No free day left before the plan ends
+    return date ? { ...base, policy, date } : { ...base, policy: 'skip' };
+  }
+
+  return { ...base, policy };
+};
+
+export const applyAdjustment = (plan: WorkoutPlan, adjustment: PlanAdjustment): WorkoutPlan => {
+  return {
+    ...plan,
+    adjustments: [...(plan.adjustments || []), adjustment],
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+export const saveAdjustment = async (planId: string, adjustment: PlanAdjustment): Promise<WorkoutPlan | null> => {
+  try {
+    const plan = await getPlan(planId);
+    if (!plan) return null;
+
+    const updated = applyAdjustment(plan, adjustment);
+    await savePlan(updated);
+    return updated;
+  } catch (error) {
+    console.error('Error saving plan adjustment:', error);
+    throw error;
+  }
+};
+
+export const describeAdjustment = (adjustment: PlanAdjustment): string => {
+  switch (adjustment.policy) {
+    case 'skip':
+      return `Missed ${formatDate(adjustment.missedDate)}, skipped`;
+    case 'push':
+      return `Missed ${formatDate(adjustment.missedDate)}, plan pushed back a day`;
+    case 'nextRestDay':
+      return `Missed ${formatDate(adjustment.missedDate)}, moved to ${adjustment.date ? formatDate(adjustment.date) : 'a rest day'}`;
+  }
+};
+
+// History, newest first. Only the latest decision per session still shapes the calendar, the rest stay on record.
+export const getMissedWorkoutHistory = (plan: WorkoutPlan, sessions: WorkoutSession[]): MissedWorkoutRecord[] => {
+  const planned = expandPlan(plan);
+  const today = getTodayKey();
+
+  return [...(plan.adjustments || [])]
+    .sort((a, b) => b.missedDate.localeCompare(a.missedDate) || b.createdAt.localeCompare(a.createdAt))
+    .map(adjustment => {
+      const moved = adjustment.policy === 'nextRestDay'
+        ? planned.find(item => item.slotId === adjustment.slotId && item.makeup && item.date === adjustment.date)
+        : undefined;
+      return {
+        adjustment,
+        makeup: moved ? { planned: moved, status: getPlannedSessionStatus(moved, sessions, today) } : undefined,
+      };
+    });
+};
+
+/*
+  Finds planned sessions that went by without a completed workout. Plans set to
+  reschedule automatically get their policy applied, the others come back as
+  proposals for the client to accept. Only run this where the client's sessions
+  are logged, anywhere else every planned session looks missed.
+*/
+export const reconcileMissedWorkouts = async (clientId: string): Promise<ReconciliationResult> => {
+  const result: ReconciliationResult = { applied: [], pending: [] };
+
+  try {
+    const today = getTodayKey();
+    const [plans, sessions] = await Promise.all([getClientPlans(clientId), getLoggedSessions(clientId)]);
+
+    for (const original of plans) {
+      if (original.startDate >= today) continue;
+
+      if (!original.autoReschedule) {
+        findMissedSessions(original, sessions, today).forEach(planned => {
+          result.pending.push({ plan: original, planned, proposal: proposeAdjustment(original, planned, undefined, today) });
+        });
+        continue;
+      }
+
+      // One at a time, a pushed session can land on another day that has already gone by
+      let plan = original;
+      let missed = findMissedSessions(plan, sessions, today)[0];
+      while (missed) {
+        const proposal = proposeAdjustment(plan, missed, undefined, today);
+        plan = applyAdjustment(plan, proposal);
+        result.applied.push({ plan, planned: missed, proposal });
+        missed = findMissedSessions(plan, sessions, today)[0];
+      }
+
+      if (plan !== original) await savePlan(plan);
+    }
+  } catch (error) {
+    console.error('Error reconciling missed workouts:', error);
+  }
+
+  return result;
+};
@@ -0,0 +1,137 @@
+import { Exercise, WorkoutSession, WorkoutSet } from '../types/workout';
+import { isWarmupSet } from './workoutUtils';
+import { WeekStart, getWeekStartKey, addDays, getTodayKey, DEFAULT_WEEK_START } from './dates';
+
+/*
+  Hard sets and volume per muscle group per week. The first muscle group of
+  an exercise is its primary one and gets the full set, the others get half,
+  so a bench press counts as a chest set and half a set each for shoulders
+  and triceps. Warm-ups and sets logged below RPE 6 aren't hard sets. The
+  usual guideline is 10-20 hard sets per muscle per week.
+*/
+
+// What the aggregates need from a logged exercise, from local sessions or from the server's workout logs
+export interface LoggedExercise {
+  date: string; // YYYY-MM-DD
+  muscleGroups: string[];
+  sets: WorkoutSet[];
+}
+
+export interface MuscleVolume {
+  muscleGroup: string;
+  sets: number; // weighted hard sets
+  volume: number; // weighted kg
+}
+
+export interface WeeklyMuscleVolume {
+  weekStart: string; // date key of the first day
+  muscles: MuscleVolume[]; // most sets first
+}
+
+export type SetTargetStatus = 'none' | 'under' | 'inRange' | 'over';
+
+export const PRIMARY_WEIGHT = 1;
+export const SECONDARY_WEIGHT = 0.5;
+export const WEEKLY_SET_TARGET = { min: 10, max: 20 };
+export const MUSCLE_TREND_WEEKS = 6;
+
+const HARD_SET_MIN_RPE = 6;
+
+// Names used by imported or custom exercises for the muscle groups of the library
+const MUSCLE_GROUP_ALIASES: { [name: string]: string } = {
+  abs: 'Core',
+  abdominals: 'Core',
+  obliques: 'Core',
+  lats: 'Back',
+  traps: 'Back',
+  'lower back': 'Back',
+  'upper back': 'Back',
+  quads: 'Quadriceps',
+  hamstring: 'Hamstrings',
+  glute: 'Glutes',
+  delts: 'Shoulders',
+  deltoids: 'Shoulders',
+  pecs: 'Chest',
+  calf: 'Calves',
+};
+
+export const normalizeMuscleGroup = (muscleGroup: string): string => {
+  return MUSCLE_GROUP_ALIASES[muscleGroup.trim().toLowerCase()] ?? muscleGroup.trim();
+};
+
+export const isHardSet = (set: WorkoutSet): boolean => {
+  if (!set.completed || isWarmupSet(set)) return false;
+  return set.rpe === undefined || set.rpe >= HARD_SET_MIN_RPE;
+};
+
+// Sessions only keep exercise ids, muscle groups come from the library
+export const getLoggedExercises = (sessions: WorkoutSession[], exercises: Exercise[]): LoggedExercise[] => {
+  const muscleGroups = new Map(exercises.map(exercise => [exercise.id, exercise.muscleGroups]));
+  return sessions
+    .filter(session => session.completed)
+    .flatMap(session => session.exercises
+      .filter(exercise => muscleGroups.has(exercise.exerciseId))
+      .map(exercise => ({
+        date: session.date,
+        muscleGroups: muscleGroups.get(exercise.exerciseId) ?? [],
+        sets: exercise.sets,
+      })));
+};
+
+export const getMuscleVolume = (logged: LoggedExercise[]): MuscleVolume[] => {
+  const totals = new Map<string, MuscleVolume>();
+
+  logged.forEach(exercise => {
+    const hardSets = exercise.sets.filter(isHardSet);
+    if (hardSets.length === 0) return;
+    const volume = hardSets.reduce((total, set) => total + (set.weight && set.reps ? set.weight * set.reps : 0), 0);
+
+    // An alias can repeat a group already listed, the first mention decides the weight
+    const seen = new Set<string>();
+    exercise.muscleGroups.map(normalizeMuscleGroup).forEach((muscleGroup, index) => {
+      if (seen.has(muscleGroup)) return;
+      seen.add(muscleGroup);
+
+      const weight = index === 0 ? PRIMARY_WEIGHT : SECONDARY_WEIGHT;
+      const total = totals.get(muscleGroup) ?? { muscleGroup, sets: 0, volume: 0 };
+      total.sets += hardSets.length * weight;
+      total.volume += volume * weight;
+      totals.set(muscleGroup, total);
+    });
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.sets - a.sets || b.volume - a.volume);
+};
+
+// First day of the oldest week in a trend, what logs need to be loaded from
+export const getTrendStartKey = (weeks: number, weekStart: WeekStart = DEFAULT_WEEK_START): string => {
+  return addDays(getWeekStartKey(getTodayKey(), weekStart), -(weeks - 1) * 7);
+};
+
+// The given number of weeks up to and including the current one, oldest first
+export const getMuscleVolumeTrend = (
+  logged: LoggedExercise[],
+  weeks: number,
+  weekStart: WeekStart = DEFAULT_WEEK_START
+): WeeklyMuscleVolume[] => {
+  const firstWeek = getTrendStartKey(weeks, weekStart);
+  return Array.from({ length: weeks }, (_, index) => {
+    const first = addDays(firstWeek, index * 7);
+    const last = addDays(first, 6);
+    return {
+      weekStart: first,
+      muscles: getMuscleVolume(logged.filter(exercise => exercise.date >= first && exercise.date <= last)),
+    };
+  });
+};
+
+export const getSetTargetStatus = (sets: number): SetTargetStatus => {
+  if (sets <= 0) return 'none';
+  if (sets < WEEKLY_SET_TARGET.min) return 'under';
+  return sets > WEEKLY_SET_TARGET.max ? 'over' : 'inRange';
+};
+
+// Half sets only come from secondary muscles, one decimal is enough
+export const formatSetCount = (sets: number): string => {
+  return (Math.round(sets * 10) / 10).toString();
+};
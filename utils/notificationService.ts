@@ -1,6 +1,6 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { accountStorage } from './accountStorage';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -24,10 +24,19 @@ export interface ScheduledNotification {
   type: string;
   scheduledTime: string;
   notificationId: string;
+  goalTitle?: string; // kept to schedule it again, older entries don't have them
+  goalEmoji?: string;
 }
 
 const STORAGE_KEY = '@scheduled_notifications';
 
+// How far ahead of the goal's target date each reminder fires
+const DAYS_BEFORE_TARGET: { [type: string]: number } = {
+  finish: 0,
+  oneDayBefore: 1,
+  oneWeekBefore: 7,
+};
+
 // Request notification permissions
 export const requestNotificationPermissions = async (): Promise<boolean> => {
   if (Platform.OS === 'web') {
@@ -97,6 +106,8 @@ export const scheduleGoalFinishNotification = async (
       type: 'finish',
       scheduledTime: targetDate.toISOString(),
       notificationId,
+      goalTitle,
+      goalEmoji,
     });
 
     console.log('Scheduled finish notification:', notificationId);
@@ -154,6 +165,8 @@ export const scheduleOneDayBeforeNotification = async (
       type: 'oneDayBefore',
       scheduledTime: oneDayBefore.toISOString(),
       notificationId,
+      goalTitle,
+      goalEmoji,
     });
 
     console.log('Scheduled one day before notification:', notificationId);
@@ -211,6 +224,8 @@ export const scheduleOneWeekBeforeNotification = async (
       type: 'oneWeekBefore',
       scheduledTime: oneWeekBefore.toISOString(),
       notificationId,
+      goalTitle,
+      goalEmoji,
     });
 
     console.log('Scheduled one week before notification:', notificationId);
@@ -285,7 +300,7 @@ export const cancelGoalNotifications = async (goalId: string): Promise<void> =>
 
     // Remove from storage
     const remainingNotifications = scheduledNotifications.filter(n => n.goalId !== goalId);
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(remainingNotifications));
+    await accountStorage.setItem(STORAGE_KEY, JSON.stringify(remainingNotifications));
 
     console.log('All notifications cancelled for goal:', goalId);
   } catch (error) {
@@ -293,21 +308,151 @@ export const cancelGoalNotifications = async (goalId: string): Promise<void> =>
   }
 };
 
+// Cancel every notification the OS has scheduled for the active account, e.g. before signing out.
+// The account's list is kept so rescheduleGoalNotifications can put them back when it signs in again.
+export const cancelAllGoalNotifications = async (): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  try {
+    const scheduledNotifications = await getScheduledNotifications();
+
+    for (const notification of scheduledNotifications) {
+      await Notifications.cancelScheduledNotificationAsync(notification.notificationId);
+    }
+
+    console.log('All goal notifications cancelled');
+  } catch (error) {
+    console.error('Error cancelling all goal notifications:', error);
+  }
+};
+
+// Schedule the active account's upcoming reminders again if the OS no longer has them
+export const rescheduleGoalNotifications = async (): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  try {
+    const scheduledNotifications = await getScheduledNotifications();
+    const osNotifications = await Notifications.getAllScheduledNotificationsAsync();
+    const osIds = new Set(osNotifications.map(n => n.identifier));
+    const now = new Date();
+
+    for (const notification of scheduledNotifications) {
+      const scheduledTime = new Date(notification.scheduledTime);
+      if (scheduledTime <= now || osIds.has(notification.notificationId)) continue;
+      if (!notification.goalTitle || !notification.goalEmoji) continue;
+
+      // The schedulers work from the target date and replace the stored entry with the new id
+      const targetDate = new Date(scheduledTime);
+      targetDate.setDate(scheduledTime.getDate() + (DAYS_BEFORE_TARGET[notification.type] ?? 0));
+      const { goalId, goalTitle, goalEmoji } = notification;
+
+      switch (notification.type) {
+        case 'finish':
+          await scheduleGoalFinishNotification(goalId, goalTitle, goalEmoji, targetDate);
+          break;
+        case 'oneDayBefore':
+          await scheduleOneDayBeforeNotification(goalId, goalTitle, goalEmoji, targetDate);
+          break;
+        case 'oneWeekBefore':
+          await scheduleOneWeekBeforeNotification(goalId, goalTitle, goalEmoji, targetDate);
+          break;
+      }
+    }
+  } catch (error) {
+    console.error('Error rescheduling goal notifications:', error);
+  }
+};
+
+// Rest timer. Not tracked in storage, the workout screen owns the id and cancels it.
+export const scheduleRestTimerNotification = async (
+  seconds: number,
+  exerciseName: string
+): Promise<string | null> => {
+  if (Platform.OS === 'web') {
+    return null;
+  }
+
+  try {
+    const { status, canAskAgain } = await Notifications.getPermissionsAsync();
+    if (status !== 'granted') {
+      if (!canAskAgain) return null;
+      const { status: requestedStatus } = await Notifications.requestPermissionsAsync();
+      if (requestedStatus !== 'granted') return null;
+    }
+
+    return await Notifications.scheduleNotificationAsync({
+      content: {
+        title: '⏱️ Rest is over',
+        body: `Time for your next set of ${exerciseName}`,
+        data: { type: 'restTimer' },
+        sound: 'default',
+        priority: Notifications.AndroidNotificationPriority.HIGH,
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+        seconds: Math.max(1, Math.round(seconds)),
+      },
+    });
+  } catch (error) {
+    console.error('Error scheduling rest timer notification:', error);
+    return null;
+  }
+};
+
+export const cancelRestTimerNotification = async (notificationId: string): Promise<void> => {
+  if (Platform.OS === 'web') {
+    return;
+  }
+
+  try {
+    await Notifications.cancelScheduledNotificationAsync(notificationId);
+  } catch (error) {
+    console.error('Error cancelling rest timer notification:', error);
+  }
+};
+
+// Restore reminders from a backup and schedule them again, on a new phone the OS has none of them
+export const restoreScheduledNotifications = async (notifications: ScheduledNotification[]): Promise<number> => {
+  if (Platform.OS === 'web') {
+    return 0;
+  }
+
+  try {
+    const existing = await getScheduledNotifications();
+    const now = new Date();
+
+    // Only upcoming reminders that still say which goal they're for can be scheduled again
+    const restored = notifications.filter(n =>
+      new Date(n.scheduledTime) > now && n.goalTitle && n.goalEmoji && !existing.some(e => e.id === n.id)
+    );
+    await accountStorage.setItem(STORAGE_KEY, JSON.stringify([...existing, ...restored]));
+    await rescheduleGoalNotifications();
+    return restored.length;
+  } catch (error) {
+    console.error('Error restoring scheduled notifications:', error);
+    return 0;
+  }
+};
+
 // Save scheduled notification to storage
 const saveScheduledNotification = async (notification: ScheduledNotification): Promise<void> => {
   try {
     const existing = await getScheduledNotifications();
     const updated = [...existing.filter(n => n.id !== notification.id), notification];
-    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+    await accountStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
   } catch (error) {
     console.error('Error saving scheduled notification:', error);
   }
 };
 
 // Get all scheduled notifications from storage
-const getScheduledNotifications = async (): Promise<ScheduledNotification[]> => {
+export const getScheduledNotifications = async (): Promise<ScheduledNotification[]> => {
   try {
-    const data = await AsyncStorage.getItem(STORAGE_KEY);
+    const data = await accountStorage.getItem(STORAGE_KEY);
     return data ? JSON.parse(data) : [];
   } catch (error) {
     console.error('Error getting scheduled notifications:', error);
@@ -367,7 +512,7 @@ export const cleanupExpiredNotifications = async (): Promise<void> => {
     });
 
     if (validNotifications.length !== scheduledNotifications.length) {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(validNotifications));
+      await accountStorage.setItem(STORAGE_KEY, JSON.stringify(validNotifications));
       console.log('Cleaned up expired notifications');
     }
   } catch (error) {
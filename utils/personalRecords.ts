@@ -0,0 +1,257 @@
+import { accountStorage } from './accountStorage';
+import { getData, updateData, getClientSessions } from './storage';
+import { generateId, isWarmupSet } from './workoutUtils';
+import {
+  WorkoutSession,
+  WorkoutSet,
+  OneRepMaxFormula,
+  PersonalRecord,
+  PersonalRecordType,
+} from '../types/workout';
+import { UnitSystem } from '../types/units';
+import { formatQuantity, DEFAULT_UNIT_SYSTEM } from './units';
+
+const STORAGE_KEYS = {
+  PERSONAL_RECORDS: '@personal_records',
+  ONE_REP_MAX_FORMULA: '@one_rep_max_formula',
+};
+
+// Rep maxes are tracked from 1RM to 12RM, estimates from sets above that are too unreliable to use
+export const MAX_TRACKED_REPS = 12;
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'epley';
+
+export interface SetBest {
+  value: number;
+  weight: number;
+  reps: number;
+  sessionId: string;
+  date: string;
+}
+
+export interface SessionBest {
+  value: number;
+  sessionId: string;
+  date: string;
+}
+
+export interface ExerciseBests {
+  exerciseId: string;
+  estimated1RM: SetBest | null;
+  repMaxes: { [reps: number]: SetBest }; // value is the weight lifted for exactly that many reps
+  bestVolumeSet: SetBest | null;
+  bestSessionVolume: SessionBest | null;
+}
+
+// Estimates
+export const estimateOneRepMax = (weight: number, reps: number, formula: OneRepMaxFormula): number => {
+  if (weight <= 0 || reps <= 0 || reps > MAX_TRACKED_REPS) return 0;
+  if (reps === 1) return weight;
+
+  switch (formula) {
+    case 'brzycki':
+      return weight * (36 / (37 - reps));
+    case 'epley':
+    default:
+      return weight * (1 + reps / 30);
+  }
+};
+
+const isWorkingSet = (set: WorkoutSet): set is WorkoutSet & { weight: number; reps: number } => {
+  return set.completed !== false && !isWarmupSet(set) && !!set.weight && set.weight > 0 && !!set.reps && set.reps > 0;
+};
+
+const isBetter = (candidate: number, best: { value: number } | null | undefined): boolean => {
+  return !best || candidate > best.value;
+};
+
+// Bests
+export const getExerciseBests = (
+  sessions: WorkoutSession[],
+  exerciseId: string,
+  formula: OneRepMaxFormula
+): ExerciseBests => {
+  const bests: ExerciseBests = {
+    exerciseId,
+    estimated1RM: null,
+    repMaxes: {},
+    bestVolumeSet: null,
+    bestSessionVolume: null,
+  };
+
+  // Oldest first, so a tie keeps the session that set the record first
+  const ordered = [...sessions].sort((a, b) => a.date.localeCompare(b.date));
+
+  ordered.forEach(session => {
+    const sets = session.exercises
+      .filter(exercise => exercise.exerciseId === exerciseId)
+      .flatMap(exercise => exercise.sets)
+      .filter(isWorkingSet);
+    if (sets.length === 0) return;
+
+    let sessionVolume = 0;
+    sets.forEach(set => {
+      const { weight, reps } = set;
+      const base = { weight, reps, sessionId: session.id, date: session.date };
+      sessionVolume += weight * reps;
+
+      const estimate = estimateOneRepMax(weight, reps, formula);
+      if (estimate > 0 && isBetter(estimate, bests.estimated1RM)) {
+        bests.estimated1RM = { ...base, value: estimate };
+      }
+
+      if (reps <= MAX_TRACKED_REPS && isBetter(weight, bests.repMaxes[reps])) {
+        bests.repMaxes[reps] = { ...base, value: weight };
+      }
+
+      if (isBetter(weight * reps, bests.bestVolumeSet)) {
+        bests.bestVolumeSet = { ...base, value: weight * reps };
+      }
+    });
+
+    if (isBetter(sessionVolume, bests.bestSessionVolume)) {
+      bests.bestSessionVolume = { value: sessionVolume, sessionId: session.id, date: session.date };
+    }
+  });
+
+  return bests;
+};
+
+// A weight lifted for more reps also counts as a best for fewer reps
+const getRepMaxAtLeast = (bests: ExerciseBests, reps: number): number => {
+  return Object.entries(bests.repMaxes)
+    .filter(([repCount]) => Number(repCount) >= reps)
+    .reduce((best, [, setBest]) => Math.max(best, setBest.value), 0);
+};
+
+const hasHistory = (bests: ExerciseBests): boolean => bests.bestSessionVolume !== null;
+
+// Detection. The first time an exercise is logged only sets a baseline, it is not celebrated as a PR.
+export const detectPersonalRecords = (
+  session: WorkoutSession,
+  previousSessions: WorkoutSession[],
+  formula: OneRepMaxFormula
+): PersonalRecord[] => {
+  const records: PersonalRecord[] = [];
+  const achievedAt = new Date().toISOString();
+  const history = previousSessions.filter(previous => previous.id !== session.id);
+  const exerciseIds = Array.from(new Set(session.exercises.map(exercise => exercise.exerciseId)));
+
+  const addRecord = (
+    exerciseId: string,
+    type: PersonalRecordType,
+    value: number,
+    previousValue: number,
+    set?: { weight: number; reps: number }
+  ) => {
+    records.push({
+      id: generateId(),
+      clientId: session.clientId,
+      exerciseId,
+      sessionId: session.id,
+      type,
+      value,
+      reps: set?.reps,
+      weight: set?.weight,
+      previousValue,
+      date: session.date,
+      achievedAt,
+    });
+  };
+
+  exerciseIds.forEach(exerciseId => {
+    const previous = getExerciseBests(history, exerciseId, formula);
+    if (!hasHistory(previous)) return;
+
+    const current = getExerciseBests([session], exerciseId, formula);
+
+    if (current.estimated1RM && previous.estimated1RM && current.estimated1RM.value > previous.estimated1RM.value) {
+      addRecord(exerciseId, 'estimated1RM', current.estimated1RM.value, previous.estimated1RM.value, current.estimated1RM);
+    }
+
+    Object.values(current.repMaxes).forEach(repMax => {
+      const previousBest = getRepMaxAtLeast(previous, repMax.reps);
+      if (repMax.value > previousBest) {
+        addRecord(exerciseId, 'repMax', repMax.value, previousBest, repMax);
+      }
+    });
+
+    if (current.bestVolumeSet && previous.bestVolumeSet && current.bestVolumeSet.value > previous.bestVolumeSet.value) {
+      addRecord(exerciseId, 'volumeSet', current.bestVolumeSet.value, previous.bestVolumeSet.value, current.bestVolumeSet);
+    }
+
+    if (current.bestSessionVolume && previous.bestSessionVolume && current.bestSessionVolume.value > previous.bestSessionVolume.value) {
+      addRecord(exerciseId, 'sessionVolume', current.bestSessionVolume.value, previous.bestSessionVolume.value);
+    }
+  });
+
+  return records;
+};
+
+export const describePersonalRecord = (record: PersonalRecord, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string => {
+  switch (record.type) {
+    case 'estimated1RM':
+      return `Estimated 1RM ${formatQuantity(record.value, 'weight', system)}`;
+    case 'repMax':
+      return `${record.reps}RM ${formatQuantity(record.value, 'weight', system)}`;
+    case 'volumeSet':
+      return `Best set ${formatQuantity(record.weight ?? 0, 'weight', system)} × ${record.reps}`;
+    case 'sessionVolume':
+      return `Session volume ${formatQuantity(record.value, 'weight', system, 0)}`;
+  }
+};
+
+// Preferences
+export const getOneRepMaxFormula = async (): Promise<OneRepMaxFormula> => {
+  try {
+    const formula = await accountStorage.getItem(STORAGE_KEYS.ONE_REP_MAX_FORMULA);
+    return formula === 'brzycki' || formula === 'epley' ? formula : DEFAULT_ONE_REP_MAX_FORMULA;
+  } catch (error) {
+    console.error('Error loading 1RM formula:', error);
+    return DEFAULT_ONE_REP_MAX_FORMULA;
+  }
+};
+
+export const saveOneRepMaxFormula = async (formula: OneRepMaxFormula): Promise<void> => {
+  try {
+    await accountStorage.setItem(STORAGE_KEYS.ONE_REP_MAX_FORMULA, formula);
+  } catch (error) {
+    console.error('Error saving 1RM formula:', error);
+    throw error;
+  }
+};
+
+// History
+export const getPersonalRecordHistory = async (clientId?: string): Promise<PersonalRecord[]> => {
+  const records = (await getData<PersonalRecord[]>(STORAGE_KEYS.PERSONAL_RECORDS)) || [];
+  return records
+    .filter(record => !clientId || record.clientId === clientId)
+    .sort((a, b) => b.achievedAt.localeCompare(a.achievedAt));
+};
+
+export const savePersonalRecordHistory = async (records: PersonalRecord[]): Promise<void> => {
+  await updateData<PersonalRecord[]>(STORAGE_KEYS.PERSONAL_RECORDS, () => records);
+};
+
+// Compares a saved session with the client's earlier sessions and stores any new PRs.
+// Saving the same session again replaces the records it set before.
+export const recordPersonalRecords = async (session: WorkoutSession): Promise<PersonalRecord[]> => {
+  try {
+    const [formula, sessions] = await Promise.all([
+      getOneRepMaxFormula(),
+      getClientSessions(session.clientId),
+    ]);
+    const previousSessions = sessions.filter(previous => previous.date <= session.date);
+    const records = detectPersonalRecords(session, previousSessions, formula);
+
+    await updateData<PersonalRecord[]>(STORAGE_KEYS.PERSONAL_RECORDS, current => [
+      ...(current || []).filter(record => record.sessionId !== session.id),
+      ...records,
+    ]);
+
+    return records;
+  } catch (error) {
+    console.error('Error recording personal records:', error);
+    return [];
+  }
+};
@@ -0,0 +1,249 @@
+import {
+  WorkoutPlan,
+  WorkoutSession,
+  PlanSchedule,
+  PlannedSession,
+  WeeklySchedule,
+  CustomScheduleDay,
+  DayOfWeek,
+  SELF_CLIENT_ID,
+} from '../types/workout';
+import { getClientPlans, getClientSessions } from './storage';
+import { getDayOfWeek } from './workoutUtils';
+import { getPlanWeek } from './progression';
+import { addDays, getTodayKey, parseDateKey } from './dates';
+
+/*
+  Plans only store their pattern: a repeating week, a cycle of weeks or a list of
+  dated days. This turns any of them into the concrete days a client trains on,
+  so "what is on for this client on this day" has a single answer everywhere.
+*/
+
+export type PlannedSessionStatus = 'completed' | 'missed' | 'skipped' | 'today' | 'upcoming';
+
+const DAYS_OF_WEEK: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const isDateKey = (value: unknown): value is string => {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+};
+
+const toWeeklySchedule = (value: any): WeeklySchedule => {
+  const days: WeeklySchedule = {};
+  DAYS_OF_WEEK.forEach(day => {
+    if (value && typeof value[day] === 'string') days[day] = value[day];
+  });
+  return days;
+};
+
+// Schedules
+export const createEmptySchedule = (type: PlanSchedule['type']): PlanSchedule => {
+  switch (type) {
+    case 'monthly':
+      return { type, weeks: [{}, {}, {}, {}] };
+    case 'custom':
+      return { type, days: [] };
+    case 'weekly':
+    default:
+      return { type: 'weekly', days: {} };
+  }
+};
+
+// Older plans stored the schedule as a bare day -> template map, or as the editor's raw monthly/custom state
+export const normalizePlanSchedule = (schedule: any): PlanSchedule => {
+  if (!schedule || typeof schedule !== 'object') return createEmptySchedule('weekly');
+
+  if (schedule.type === 'weekly') return { type: 'weekly', days: toWeeklySchedule(schedule.days) };
+  if (schedule.type === 'monthly' && Array.isArray(schedule.weeks)) {
+    return { type: 'monthly', weeks: schedule.weeks.map(toWeeklySchedule) };
+  }
+  if (schedule.type === 'custom' && Array.isArray(schedule.days)) {
+    return { type: 'custom', days: schedule.days.filter((day: any) => day && isDateKey(day.date)) };
+  }
+
+  if (Array.isArray(schedule)) {
+    return { type: 'custom', days: schedule.filter((day: any) => day && isDateKey(day.date)) };
+  }
+
+  // { 1: { Monday: ... }, 2: { ... } }
+  const weekNumbers = Object.keys(schedule).filter(key => /^\d+$/.test(key)).sort((a, b) => Number(a) - Number(b));
+  if (weekNumbers.length > 0) {
+    return { type: 'monthly', weeks: weekNumbers.map(week => toWeeklySchedule(schedule[week])) };
+  }
+
+  return { type: 'weekly', days: toWeeklySchedule(schedule) };
+};
+
+export const getScheduleTemplateIds = (schedule: PlanSchedule): string[] => {
+  let templateIds: (string | null | undefined)[];
+  switch (schedule.type) {
+    case 'weekly':
+      templateIds = Object.values(schedule.days);
+      break;
+    case 'monthly':
+      templateIds = schedule.weeks.flatMap(week => Object.values(week));
+      break;
+    case 'custom':
+      templateIds = schedule.days.map(day => day.templateId);
+      break;
+  }
+  return Array.from(new Set(templateIds.filter((id): id is string => !!id)));
+};
+
+export const describeSchedule = (schedule: PlanSchedule): string => {
+  const count = (days: (string | null | undefined)[]) => days.filter(Boolean).length;
+  switch (schedule.type) {
+    case 'weekly':
+      return `${count(Object.values(schedule.days))} days a week`;
+    case 'monthly':
+      return `${count(schedule.weeks.flatMap(week => Object.values(week)))} days over a ${schedule.weeks.length} week cycle`;
+    case 'custom':
+      return `${count(schedule.days.map(day => day.templateId))} dated sessions`;
+  }
+};
+
+// Expansion
+const getWeeklyTemplate = (days: WeeklySchedule | undefined, date: string): string | null => {
+  return days?.[getDayOfWeek(parseDateKey(date))] ?? null;
+};
+
+const getScheduledDays = (plan: WorkoutPlan, date: string): Pick<CustomScheduleDay, 'id' | 'templateId' | 'label'>[] => {
+  const { schedule } = plan;
+  switch (schedule.type) {
+    case 'weekly':
+      return [{ id: date, templateId: getWeeklyTemplate(schedule.days, date) }];
+    case 'monthly': {
+      if (schedule.weeks.length === 0) return [];
+      const week = getPlanWeek(plan, date) % schedule.weeks.length;
+      return [{ id: date, templateId: getWeeklyTemplate(schedule.weeks[week], date), label: `Week ${week + 1}` }];
+    }
+    case 'custom':
+      return schedule.days.filter(day => day.date === date);
+  }
+};
+
+// Every workout the schedule itself puts between the plan's start and end, rest days left out
+const expandSchedule = (plan: WorkoutPlan): PlannedSession[] => {
+  const planned: PlannedSession[] = [];
+
+  for (let date = plan.startDate; date <= plan.endDate; date = addDays(date, 1)) {
+    getScheduledDays(plan, date).forEach(day => {
+      if (!day.templateId) return;
+      planned.push({
+        id: `${plan.id}:${day.id}`,
+        slotId: day.id,
+        planId: plan.id,
+        clientId: plan.clientId,
+        date,
+        scheduledDate: date,
+        templateId: day.templateId,
+        label: day.label,
+        week: getPlanWeek(plan, date),
+      });
+    });
+  }
+
+  return planned;
+};
+
+// Each pushed session moves itself and everything scheduled after it back a day
+const getPushedDays = (plan: WorkoutPlan, scheduledDate?: string): number => {
+  return (plan.adjustments || []).filter(adjustment =>
+    adjustment.policy === 'push' && (!scheduledDate || adjustment.scheduledDate <= scheduledDate)
+  ).length;
+};
+
+export const getPlanEndDate = (plan: WorkoutPlan): string => {
+  return plan.endDate ? addDays(plan.endDate, getPushedDays(plan)) : plan.endDate;
+};
+
+// The latest decision about a missed session wins, e.g. a make-up that was missed again and then skipped
+const applyAdjustments = (plan: WorkoutPlan, planned: PlannedSession): PlannedSession => {
+  const latest = (plan.adjustments || []).filter(adjustment => adjustment.slotId === planned.slotId).pop();
+
+  if (latest?.policy === 'skip') return { ...planned, date: latest.missedDate, skipped: true };
+  if (latest?.policy === 'nextRestDay' && latest.date) return { ...planned, date: latest.date, makeup: true };
+
+  const pushedDays = getPushedDays(plan, planned.scheduledDate);
+  return pushedDays > 0 ? { ...planned, date: addDays(planned.scheduledDate, pushedDays) } : planned;
+};
+
+// The plan's workouts from `from` to `to` inclusive, on the days they happen after any rescheduling
+export const expandPlan = (plan: WorkoutPlan, from: string = plan.startDate, to: string = getPlanEndDate(plan)): PlannedSession[] => {
+  return expandSchedule(plan)
+    .map(planned => applyAdjustments(plan, planned))
+    .filter(planned => planned.date >= from && planned.date <= to)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const expandPlans = (plans: WorkoutPlan[], from: string, to: string): PlannedSession[] => {
+  return plans
+    .flatMap(plan => expandPlan(plan, from, to))
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const getActivePlans = (plans: WorkoutPlan[], date: string = getTodayKey()): WorkoutPlan[] => {
+  return plans.filter(plan => plan.startDate <= date && (!plan.endDate || getPlanEndDate(plan) >= date));
+};
+
+// Status
+export const findSessionForPlanned = (planned: PlannedSession, sessions: WorkoutSession[]): WorkoutSession | undefined => {
+  return sessions.find(session =>
+    session.planId === planned.planId &&
+    session.date === planned.date &&
+    session.templateId === planned.templateId
+  );
+};
+
+export const getPlannedSessionStatus = (
+  planned: PlannedSession,
+  sessions: WorkoutSession[],
+  today: string = getTodayKey()
+): PlannedSessionStatus => {
+  if (findSessionForPlanned(planned, sessions)?.completed) return 'completed';
+  if (planned.skipped) return 'skipped';
+  if (planned.date < today) return 'missed';
+  return planned.date === today ? 'today' : 'upcoming';
+};
+
+// Queries
+// Sessions a client logs on their own device are stored under SELF_CLIENT_ID, a trainer's copy under the client's id.
+// Matching goes by plan id, so reading both is safe.
+export const getLoggedSessions = async (clientId: string): Promise<WorkoutSession[]> => {
+  const [clientSessions, selfSessions] = await Promise.all([
+    getClientSessions(clientId),
+    clientId === SELF_CLIENT_ID ? Promise.resolve([]) : getClientSessions(SELF_CLIENT_ID),
+  ]);
+  return [...clientSessions, ...selfSessions];
+};
+
+export const getPlannedSessions = async (clientId: string, from: string, to: string): Promise<PlannedSession[]> => {
+  try {
+    return expandPlans(await getClientPlans(clientId), from, to);
+  } catch (error) {
+    console.error('Error loading planned sessions:', error);
+    return [];
+  }
+};
+
+// What is scheduled for the client on the day, usually one workout or none
+export const getPlannedSessionsOn = async (clientId: string, date: string = getTodayKey()): Promise<PlannedSession[]> => {
+  return await getPlannedSessions(clientId, date, date);
+};
+
+export const getPlannedCalendar = async (
+  clientId: string,
+  from: string,
+  to: string
+): Promise<{ planned: PlannedSession; status: PlannedSessionStatus }[]> => {
+  try {
+    const [planned, sessions] = await Promise.all([
+      getPlannedSessions(clientId, from, to),
+      getLoggedSessions(clientId),
+    ]);
+    const today = getTodayKey();
+    return planned.map(item => ({ planned: item, status: getPlannedSessionStatus(item, sessions, today) }));
+  } catch (error) {
+    console.error('Error loading plan calendar:', error);
+    return [];
+  }
+};
@@ -0,0 +1,239 @@
+import {
+  TrainingProgram,
+  ProgramPhase,
+  ProgramEnrollment,
+  ProgramType,
+  WorkoutPlan,
+  WorkoutSession,
+  PlanSchedule,
+  DifficultyProgression,
+} from '../types/workout';
+import { getPlan, savePlan, saveEnrollment, getClientEnrollments } from './storage';
+import { generateId } from './workoutUtils';
+import { addDays, diffInDays, getTodayKey } from './dates';
+import { expandPlan, getPlanEndDate, getPlannedSessionStatus, getLoggedSessions } from './planCalendar';
+
+/*
+  A program is a sequence of phases. Enrolling a client turns every phase into
+  one of the client's plans, dated back to back, so the calendar, missed workouts
+  and progression all work on programs without knowing about them. The enrollment
+  keeps the plan ids and reads its position and completion back from those plans.
+*/
+
+export const PROGRAM_TYPES: { value: ProgramType; label: string }[] = [
+  { value: 'strength', label: 'Strength' },
+  { value: 'muscle_gain', label: 'Muscle Gain' },
+  { value: 'weight_loss', label: 'Weight Loss' },
+  { value: 'endurance', label: 'Endurance' },
+  { value: 'rehabilitation', label: 'Rehab' },
+  { value: 'sport_specific', label: 'Sport' },
+];
+
+export type EnrollmentPosition = Pick<ProgramEnrollment, 'currentPhase' | 'currentWeek' | 'status' | 'actualEndDate'>;
+
+// Phases
+export const createPhase = (
+  name: string,
+  durationWeeks: number,
+  difficultyProgression: DifficultyProgression = 'maintain'
+): ProgramPhase => ({
+  id: generateId(),
+  name,
+  durationWeeks,
+  weeks: [{}],
+  difficultyProgression,
+});
+
+// Starting point for a new program: hypertrophy, strength, then a deload week
+export const createDefaultPhases = (): ProgramPhase[] => [
+  createPhase('Hypertrophy', 4, 'increase'),
+  createPhase('Strength', 3, 'increase'),
+  createPhase('Deload', 1, 'decrease'),
+];
+
+export const getProgramDurationWeeks = (program: Pick<TrainingProgram, 'phases'>): number => {
+  return program.phases.reduce((total, phase) => total + phase.durationWeeks, 0);
+};
+
+// A single week repeats weekly, several weeks cycle like a monthly plan
+const getPhaseSchedule = (phase: ProgramPhase): PlanSchedule => {
+  return phase.weeks.length > 1
+    ? { type: 'monthly', weeks: phase.weeks }
+    : { type: 'weekly', days: phase.weeks[0] || {} };
+};
+
+// Enrollment
+export const buildPhasePlans = (
+  program: TrainingProgram,
+  clientId: string,
+  trainerId: string,
+  startDate: string
+): WorkoutPlan[] => {
+  const now = new Date().toISOString();
+  let phaseStart = startDate;
+
+  return program.phases.map(phase => {
+    const plan: WorkoutPlan = {
+      id: generateId(),
+      clientId,
+      trainerId,
+      name: `${program.name}: ${phase.name}`,
+      startDate: phaseStart,
+      endDate: addDays(phaseStart, phase.durationWeeks * 7 - 1),
+      schedule: getPhaseSchedule(phase),
+      difficultyProgression: phase.difficultyProgression,
+      progression: phase.progression,
+      createdAt: now,
+      updatedAt: now,
+    };
+    phaseStart = addDays(phaseStart, phase.durationWeeks * 7);
+    return plan;
+  });
+};
+
+export const enrollClient = async (
+  program: TrainingProgram,
+  clientId: string,
+  trainerId: string,
+  startDate: string = getTodayKey()
+): Promise<ProgramEnrollment> => {
+  try {
+    const plans = buildPhasePlans(program, clientId, trainerId, startDate);
+    // Plans first, the enrollment is pushed with their server ids
+    for (const plan of plans) {
+      await savePlan(plan);
+    }
+
+    const now = new Date().toISOString();
+    const enrollment: ProgramEnrollment = {
+      id: generateId(),
+      programId: program.id,
+      programName: program.name,
+      phases: program.phases.map(phase => ({ name: phase.name, durationWeeks: phase.durationWeeks })),
+      clientId,
+      trainerId,
+      planIds: plans.map(plan => plan.id),
+      enrollmentDate: getTodayKey(),
+      startDate,
+      expectedEndDate: addDays(startDate, getProgramDurationWeeks(program) * 7 - 1),
+      currentPhase: 1,
+      currentWeek: 1,
+      status: 'enrolled',
+      completionPercentage: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const enrolled = { ...enrollment, ...getEnrollmentPosition(enrollment, plans) };
+    await saveEnrollment(enrolled);
+    return enrolled;
+  } catch (error) {
+    console.error('Error enrolling client:', error);
+    throw error;
+  }
+};
+
+// Progress
+// Where each phase starts and ends, pushed back by missed workouts. Phases whose plan is not on this device yet fall back to the program's dates.
+const getPhaseRanges = (enrollment: ProgramEnrollment, plans: (WorkoutPlan | null)[]): { start: string; end: string }[] => {
+  let phaseStart = enrollment.startDate;
+  return enrollment.phases.map((phase, index) => {
+    const plan = plans[index];
+    const range = plan
+      ? { start: plan.startDate, end: getPlanEndDate(plan) }
+      : { start: phaseStart, end: addDays(phaseStart, phase.durationWeeks * 7 - 1) };
+    phaseStart = addDays(range.end, 1);
+    return range;
+  });
+};
+
+// Moves the enrollment along with the calendar. Paused and dropped enrollments stay where they are.
+export const getEnrollmentPosition = (
+  enrollment: ProgramEnrollment,
+  plans: (WorkoutPlan | null)[],
+  today: string = getTodayKey()
+): EnrollmentPosition => {
+  const { currentPhase, currentWeek, status, actualEndDate } = enrollment;
+  if (status === 'paused' || status === 'dropped') return { currentPhase, currentWeek, status, actualEndDate };
+
+  const ranges = getPhaseRanges(enrollment, plans);
+  if (ranges.length === 0 || today < ranges[0].start) {
+    return { currentPhase: 1, currentWeek: 1, status: 'enrolled' };
+  }
+
+  const phaseIndex = ranges.findIndex(range => today <= range.end);
+  if (phaseIndex === -1) {
+    const lastPhase = enrollment.phases[ranges.length - 1];
+    return {
+      currentPhase: ranges.length,
+      currentWeek: lastPhase.durationWeeks,
+      status: 'completed',
+      actualEndDate: actualEndDate ?? ranges[ranges.length - 1].end,
+    };
+  }
+
+  const week = Math.floor(diffInDays(today, ranges[phaseIndex].start) / 7) + 1;
+  return {
+    currentPhase: phaseIndex + 1,
+    currentWeek: Math.min(Math.max(week, 1), enrollment.phases[phaseIndex].durationWeeks),
+    status: 'active',
+  };
+};
+
+// Share of the program's planned workouts that were logged as completed, whole percent
+export const getCompletionPercentage = (
+  plans: (WorkoutPlan | null)[],
+  sessions: WorkoutSession[],
+  today: string = getTodayKey()
+): number => {
+  const planned = plans.flatMap(plan => (plan ? expandPlan(plan) : []));
+  if (planned.length === 0) return 0;
+
+  const completed = planned.filter(item => getPlannedSessionStatus(item, sessions, today) === 'completed').length;
+  return Math.round((completed / planned.length) * 100);
+};
+
+export const getEnrollmentPlans = async (enrollment: ProgramEnrollment): Promise<(WorkoutPlan | null)[]> => {
+  return await Promise.all(enrollment.planIds.map(planId => getPlan(planId)));
+};
+
+export const getPhaseLabel = (enrollment: Pick<ProgramEnrollment, 'phases' | 'currentPhase' | 'currentWeek'>): string => {
+  const phase = enrollment.phases[enrollment.currentPhase - 1];
+  if (!phase) return '';
+  return `${phase.name}, week ${enrollment.currentWeek} of ${phase.durationWeeks}`;
+};
+
+/*
+  Brings the client's enrollments up to date and saves the ones that changed, so
+  the trainer sees the progress after the next sync. Like missed workout
+  reconciliation this only belongs where the client's sessions are logged,
+  anywhere else the completion would drop to zero.
+*/
+export const refreshEnrollments = async (clientId: string): Promise<ProgramEnrollment[]> => {
+  try {
+    const today = getTodayKey();
+    const [enrollments, sessions] = await Promise.all([getClientEnrollments(clientId), getLoggedSessions(clientId)]);
+
+    const refreshed: ProgramEnrollment[] = [];
+    for (const enrollment of enrollments) {
+      const plans = await getEnrollmentPlans(enrollment);
+      const position = getEnrollmentPosition(enrollment, plans, today);
+      const completionPercentage = getCompletionPercentage(plans, sessions, today);
+
+      const changed = completionPercentage !== enrollment.completionPercentage ||
+        (Object.keys(position) as (keyof EnrollmentPosition)[]).some(key => position[key] !== enrollment[key]);
+
+      if (changed) {
+        const updated = { ...enrollment, ...position, completionPercentage, updatedAt: new Date().toISOString() };
+        await saveEnrollment(updated);
+        refreshed.push(updated);
+      } else {
+        refreshed.push(enrollment);
+      }
+    }
+    return refreshed;
+  } catch (error) {
+    console.error('Error refreshing enrollments:', error);
+    return [];
+  }
+};
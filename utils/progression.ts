@@ -0,0 +1,291 @@
+import {
+  WorkoutTemplate,
+  TemplateExercise,
+  WorkoutPlan,
+  WorkoutSession,
+  WorkoutSet,
+  DifficultyProgression,
+  ProgressionModel,
+  ProgressionRule,
+  OneRepMaxFormula,
+} from '../types/workout';
+import { UnitSystem } from '../types/units';
+import { estimateOneRepMax } from './personalRecords';
+import { isWarmupSet } from './workoutUtils';
+import { diffInDays } from './dates';
+import { formatQuantity, fromDisplayValue, toDisplayValue, DEFAULT_UNIT_SYSTEM } from './units';
+
+type SetTarget = Omit<WorkoutSet, 'completed' | 'id'>;
+
+export const DEFAULT_LOAD_INCREMENT = 2.5; // kg
+// The smallest jump most gyms can load, in the plates of each unit system
+const LOAD_ROUNDING: { [key in UnitSystem]: number } = {
+  metric: 2.5, // kg
+  imperial: 5, // lb
+};
+const DELOAD_PERCENTAGE = 10;
+
+export const DEFAULT_PROGRESSION_RULE: ProgressionRule = {
+  model: 'linear',
+  loadIncrement: DEFAULT_LOAD_INCREMENT,
+};
+
+// Three building weeks and a lighter fourth week
+export const DEFAULT_WAVE: { percentage: number; reps: number }[] = [
+  { percentage: 70, reps: 10 },
+  { percentage: 75, reps: 8 },
+  { percentage: 80, reps: 6 },
+  { percentage: 65, reps: 10 },
+];
+
+export const PROGRESSION_DIRECTIONS: { value: DifficultyProgression; label: string }[] = [
+  { value: 'maintain', label: 'Maintain' },
+  { value: 'increase', label: 'Increase' },
+  { value: 'decrease', label: 'Deload' },
+];
+
+export const PROGRESSION_MODELS: { value: ProgressionModel; label: string; description: string }[] = [
+  { value: 'linear', label: 'Linear', description: 'Adds load once every set hits its target reps' },
+  { value: 'double', label: 'Double', description: 'Adds reps up to the top of the range, then adds load' },
+  { value: 'wave', label: 'Wave', description: `Weekly percentages of estimated 1RM: ${DEFAULT_WAVE.map(step => `${step.percentage}%×${step.reps}`).join(', ')}` },
+  { value: 'none', label: 'Template', description: 'Uses the template targets as written' },
+];
+
+export interface Prescription {
+  templateExerciseId: string;
+  exerciseId: string;
+  model: ProgressionModel;
+  sets: SetTarget[];
+  summary: string; // e.g. "3 × 8 @ 62.5 kg", in the user's units
+  change?: string; // what moved since last time, e.g. "+2.5 kg"
+}
+
+// Helpers
+// Rounds to a loadable weight in the user's units, the result is still in kg
+const roundLoad = (weight: number, system: UnitSystem): number => {
+  const step = LOAD_ROUNDING[system];
+  const rounded = Math.round(toDisplayValue(weight, 'weight', system) / step) * step;
+  return Math.max(0, fromDisplayValue(rounded, 'weight', system));
+};
+
+const isPerformedSet = (set: WorkoutSet): boolean => {
+  return set.completed !== false && !isWarmupSet(set) && !!set.reps && set.reps > 0;
+};
+
+const clamp = (value: number, min: number, max: number): number => Math.min(Math.max(value, min), max);
+
+export const formatTargets = (sets: SetTarget[], system: UnitSystem = DEFAULT_UNIT_SYSTEM): string => {
+  if (sets.length === 0) return '';
+
+  const reps = sets.map(set => set.reps ?? 0);
+  const weights = sets.map(set => set.weight ?? 0);
+  const sameReps = reps.every(value => value === reps[0]);
+  const topWeight = Math.max(...weights);
+  const load = topWeight > 0 ? ` @ ${formatQuantity(topWeight, 'weight', system)}` : '';
+
+  return sameReps ? `${sets.length} × ${reps[0]}${load}` : `${reps.join('/')}${load}`;
+};
+
+const formatChange = (delta: number, unit: string): string | undefined => {
+  if (delta === 0) return undefined;
+  return `${delta > 0 ? '+' : ''}${delta} ${unit}`;
+};
+
+const formatLoadChange = (delta: number, system: UnitSystem): string | undefined => {
+  if (Math.abs(delta) < 0.01) return undefined;
+  return `${delta > 0 ? '+' : '-'}${formatQuantity(Math.abs(delta), 'weight', system)}`;
+};
+
+// The newest session with the exercise is what the next targets build on
+export const getLastPerformance = (sessions: WorkoutSession[], exerciseId: string): WorkoutSet[] | null => {
+  const ordered = [...sessions].sort((a, b) =>
+    b.date.localeCompare(a.date) || (b.startTime || '').localeCompare(a.startTime || '')
+  );
+
+  for (const session of ordered) {
+    const sets = session.exercises
+      .filter(exercise => exercise.exerciseId === exerciseId)
+      .flatMap(exercise => exercise.sets)
+      .filter(isPerformedSet);
+    if (sets.length > 0) return sets;
+  }
+
+  return null;
+};
+
+export const getProgressionRule = (plan: WorkoutPlan, exerciseId: string): ProgressionRule => {
+  return plan.exerciseProgressions?.[exerciseId] ?? plan.progression ?? DEFAULT_PROGRESSION_RULE;
+};
+
+export const getPlanWeek = (plan: WorkoutPlan, date: string): number => {
+  return Math.max(0, Math.floor(diffInDays(date, plan.startDate) / 7));
+};
+
+// Models
+const prescribeLinear = (
+  templateSets: SetTarget[],
+  lastSets: WorkoutSet[],
+  topWeight: number,
+  increment: number,
+  direction: DifficultyProgression,
+  system: UnitSystem
+): { sets: SetTarget[]; change?: string } => {
+  const hitTargets = templateSets.every((set, index) => {
+    const performed = lastSets[Math.min(index, lastSets.length - 1)];
+    return (performed.reps ?? 0) >= (set.reps ?? 0);
+  });
+
+  let delta = 0;
+  if (direction === 'increase' && hitTargets && topWeight > 0) delta = increment;
+  if (direction === 'decrease' && topWeight > 0) delta = -Math.min(increment, topWeight);
+
+  const weight = roundLoad(topWeight + delta, system);
+  return {
+    sets: templateSets.map(set => ({ ...set, weight: topWeight > 0 ? weight : set.weight })),
+    change: formatLoadChange(weight - topWeight, system),
+  };
+};
+
+const prescribeDouble = (
+  templateSets: SetTarget[],
+  lastSets: WorkoutSet[],
+  topWeight: number,
+  increment: number,
+  repRange: { min: number; max: number },
+  direction: DifficultyProgression,
+  system: UnitSystem
+): { sets: SetTarget[]; change?: string } => {
+  // Every set has to reach the top of the range before the load goes up
+  const lastReps = Math.min(...lastSets.map(set => set.reps ?? 0));
+  let reps = clamp(lastReps, repRange.min, repRange.max);
+  let weight = topWeight;
+  let change: string | undefined;
+
+  if (direction === 'increase') {
+    if (lastReps >= repRange.max && topWeight > 0) {
+      weight = roundLoad(topWeight + increment, system);
+      reps = repRange.min;
+      change = formatLoadChange(weight - topWeight, system);
+    } else if (lastReps < repRange.max) {
+      reps = clamp(lastReps + 1, repRange.min, repRange.max);
+      change = formatChange(reps - lastReps, reps - lastReps === 1 ? 'rep' : 'reps');
+    }
+  } else if (direction === 'decrease' && topWeight > 0) {
+    weight = roundLoad(Math.max(0, topWeight - increment), system);
+    reps = repRange.min;
+    change = formatLoadChange(weight - topWeight, system);
+  }
+
+  return {
+    sets: templateSets.map(set => ({ ...set, reps, weight: topWeight > 0 ? weight : set.weight })),
+    change,
+  };
+};
+
+const prescribeWave = (
+  templateSets: SetTarget[],
+  lastSets: WorkoutSet[],
+  topWeight: number,
+  wave: { percentage: number; reps: number }[],
+  week: number,
+  direction: DifficultyProgression,
+  formula: OneRepMaxFormula,
+  system: UnitSystem
+): { sets: SetTarget[]; change?: string } => {
+  const step = wave[week % wave.length];
+  const estimated1RM = Math.max(
+    ...lastSets.map(set => estimateOneRepMax(set.weight ?? 0, set.reps ?? 0, formula)),
+    topWeight
+  );
+  const percentage = direction === 'decrease' ? step.percentage - DELOAD_PERCENTAGE : step.percentage;
+  const weight = roundLoad((estimated1RM * percentage) / 100, system);
+
+  return {
+    sets: templateSets.map(set => ({ ...set, reps: step.reps, weight: estimated1RM > 0 ? weight : set.weight })),
+    change: `Week ${(week % wave.length) + 1} of ${wave.length} • ${percentage}%`,
+  };
+};
+
+// Prescriptions
+export const prescribeExercise = (
+  templateExercise: TemplateExercise,
+  sessions: WorkoutSession[],
+  rule: ProgressionRule,
+  direction: DifficultyProgression,
+  week: number,
+  formula: OneRepMaxFormula,
+  system: UnitSystem = DEFAULT_UNIT_SYSTEM
+): Prescription => {
+  const base = {
+    templateExerciseId: templateExercise.id,
+    exerciseId: templateExercise.exerciseId,
+    model: rule.model,
+  };
+  // Warm-ups stay as written, only working sets progress
+  const templateSets = templateExercise.sets.filter(set => !isWarmupSet(set));
+  const withWarmups = (sets: SetTarget[]): SetTarget[] => {
+    let working = 0;
+    return templateExercise.sets.map(set => (isWarmupSet(set) ? set : sets[working++]));
+  };
+  const lastSets = getLastPerformance(sessions, templateExercise.exerciseId);
+
+  // Nothing to progress from yet, or the trainer pinned the template targets
+  if (!lastSets || rule.model === 'none' || templateSets.length === 0) {
+    return { ...base, sets: templateExercise.sets, summary: formatTargets(templateSets, system) };
+  }
+
+  const topWeight = Math.max(...lastSets.map(set => set.weight ?? 0));
+  const increment = rule.loadIncrement ?? DEFAULT_LOAD_INCREMENT;
+
+  // Maintain repeats what was lifted last time
+  if (direction === 'maintain' && rule.model !== 'wave') {
+    const sets = templateSets.map((set, index) => {
+      const performed = lastSets[Math.min(index, lastSets.length - 1)];
+      return { ...set, reps: performed.reps ?? set.reps, weight: performed.weight ?? set.weight };
+    });
+    return { ...base, sets: withWarmups(sets), summary: formatTargets(sets, system) };
+  }
+
+  let result: { sets: SetTarget[]; change?: string };
+  switch (rule.model) {
+    case 'double': {
+      const templateReps = templateSets[0].reps ?? 8;
+      const repRange = rule.repRange ?? { min: templateReps, max: templateReps + 4 };
+      result = prescribeDouble(templateSets, lastSets, topWeight, increment, repRange, direction, system);
+      break;
+    }
+    case 'wave':
+      result = prescribeWave(templateSets, lastSets, topWeight, rule.wave ?? DEFAULT_WAVE, week, direction, formula, system);
+      break;
+    case 'linear':
+    default:
+      result = prescribeLinear(templateSets, lastSets, topWeight, increment, direction, system);
+      break;
+  }
+
+  return { ...base, sets: withWarmups(result.sets), summary: formatTargets(result.sets, system), change: result.change };
+};
+
+export const prescribeWorkout = (
+  template: WorkoutTemplate,
+  plan: WorkoutPlan,
+  sessions: WorkoutSession[],
+  formula: OneRepMaxFormula,
+  date: string,
+  system: UnitSystem = DEFAULT_UNIT_SYSTEM
+): Prescription[] => {
+  const direction = plan.difficultyProgression ?? 'maintain';
+  const week = getPlanWeek(plan, date);
+
+  return template.exercises.map(templateExercise =>
+    prescribeExercise(
+      templateExercise,
+      sessions,
+      getProgressionRule(plan, templateExercise.exerciseId),
+      direction,
+      week,
+      formula,
+      system
+    )
+  );
+};
@@ -0,0 +1,248 @@
+import { accountStorage } from './accountStorage';
+import { WorkoutTemplate, WorkoutPlan, WorkoutSession, Client, TrainingProgram, ProgramEnrollment, FormCheckVideo } from '../types/workout';
+
+/*
+  Records are stored one key per record instead of one JSON array per collection:
+
+    @store:<name>:ids                 ordered list of record ids
+    @store:<name>:<id>                the record itself
+    @store:<name>:index:<indexName>   { [indexedValue]: id[] }
+
+  All writes, in every store, go through a single queue so two saves can never
+  interleave their read/modify/write and drop each other's changes.
+*/
+
+type IndexExtractor<T> = (record: T) => string | null | undefined;
+
+export interface RecordStoreConfig<T> {
+  name: string;
+  indexes: { [indexName: string]: IndexExtractor<T> };
+}
+
+export interface RecordTransaction<T> {
+  get: (id: string) => Promise<T | null>;
+  put: (record: T) => void;
+  remove: (id: string) => void;
+}
+
+export interface RecordStore<T extends { id: string }> {
+  getAll: () => Promise<T[]>;
+  get: (id: string) => Promise<T | null>;
+  getBy: (indexName: string, value: string) => Promise<T[]>;
+  put: (record: T) => Promise<void>;
+  putMany: (records: T[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  update: (id: string, change: (record: T) => T) => Promise<T | null>;
+  transaction: <R>(work: (tx: RecordTransaction<T>) => Promise<R>) => Promise<R>;
+}
+
+type IndexDocument = { [value: string]: string[] };
+
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Runs the task once every previously queued write has settled. Tasks must not queue another exclusive task and wait on it.
+export const runExclusive = <R>(task: () => Promise<R>): Promise<R> => {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+};
+
+const parse = <T>(value: string | null): T | null => {
+  return value ? JSON.parse(value) : null;
+};
+
+export const createRecordStore = <T extends { id: string }>(config: RecordStoreConfig<T>): RecordStore<T> => {
+  const idsKey = `@store:${config.name}:ids`;
+  const recordKey = (id: string) => `@store:${config.name}:${id}`;
+  const indexKey = (indexName: string) => `@store:${config.name}:index:${indexName}`;
+  const indexNames = Object.keys(config.indexes);
+
+  const getIds = async (): Promise<string[]> => {
+    return parse<string[]>(await accountStorage.getItem(idsKey)) || [];
+  };
+
+  const getMany = async (ids: string[]): Promise<T[]> => {
+    if (ids.length === 0) return [];
+    const pairs = await accountStorage.multiGet(ids.map(recordKey));
+    return pairs
+      .map(([, value]) => parse<T>(value))
+      .filter((record): record is T => record !== null);
+  };
+
+  const get = async (id: string): Promise<T | null> => {
+    try {
+      return parse<T>(await accountStorage.getItem(recordKey(id)));
+    } catch (error) {
+      console.error(`Error getting ${config.name} record:`, error);
+      return null;
+    }
+  };
+
+  const getAll = async (): Promise<T[]> => {
+    try {
+      return await getMany(await getIds());
+    } catch (error) {
+      console.error(`Error getting ${config.name} records:`, error);
+      return [];
+    }
+  };
+
+  const getBy = async (indexName: string, value: string): Promise<T[]> => {
+    if (!config.indexes[indexName]) {
+      throw new Error(`Unknown index ${indexName} on ${config.name}`);
+    }
+
+    try {
+      const index = parse<IndexDocument>(await accountStorage.getItem(indexKey(indexName))) || {};
+      return await getMany(index[value] || []);
+    } catch (error) {
+      console.error(`Error getting ${config.name} records by ${indexName}:`, error);
+      return [];
+    }
+  };
+
+  // Stages changes in memory and writes records, indexes and the id list in one batch
+  const commit = async <R>(work: (tx: RecordTransaction<T>) => Promise<R>): Promise<R> => {
+    const originals = new Map<string, T | null>();
+    const staged = new Map<string, T | null>();
+
+    const loadOriginal = async (id: string): Promise<T | null> => {
+      if (!originals.has(id)) {
+        originals.set(id, parse<T>(await accountStorage.getItem(recordKey(id))));
+      }
+      return originals.get(id) ?? null;
+    };
+
+    const tx: RecordTransaction<T> = {
+      get: async (id) => (staged.has(id) ? staged.get(id) ?? null : loadOriginal(id)),
+      put: (record) => {
+        staged.set(record.id, record);
+      },
+      remove: (id) => {
+        staged.set(id, null);
+      },
+    };
+
+    const result = await work(tx);
+    if (staged.size === 0) return result;
+
+    for (const id of staged.keys()) {
+      await loadOriginal(id);
+    }
+
+    const [idsPair, ...indexPairs] = await accountStorage.multiGet([idsKey, ...indexNames.map(indexKey)]);
+    let ids = parse<string[]>(idsPair[1]) || [];
+    const indexes = indexPairs.map(([, value]) => parse<IndexDocument>(value) || {});
+
+    const writes: [string, string][] = [];
+    const removals: string[] = [];
+
+    for (const [id, record] of staged) {
+      const original = originals.get(id) ?? null;
+
+      indexNames.forEach((indexName, position) => {
+        const index = indexes[position];
+        const extract = config.indexes[indexName];
+        const previousValue = original ? extract(original) : null;
+        if (previousValue && index[previousValue]) {
+          index[previousValue] = index[previousValue].filter(indexedId => indexedId !== id);
+          if (index[previousValue].length === 0) delete index[previousValue];
+        }
+        const nextValue = record ? extract(record) : null;
+        if (nextValue) {
+          index[nextValue] = [...(index[nextValue] || []), id];
+        }
+      });
+
+      // Saved records move to the end, matching the order the old array storage kept
+      ids = ids.filter(existingId => existingId !== id);
+      if (record) {
+        ids.push(id);
+        writes.push([recordKey(id), JSON.stringify(record)]);
+      } else {
+        removals.push(recordKey(id));
+      }
+    }
+
+    writes.push([idsKey, JSON.stringify(ids)]);
+    indexNames.forEach((indexName, position) => {
+      writes.push([indexKey(indexName), JSON.stringify(indexes[position])]);
+    });
+
+    await accountStorage.multiSet(writes);
+    if (removals.length > 0) {
+      await accountStorage.multiRemove(removals);
+    }
+
+    return result;
+  };
+
+  const transaction = <R>(work: (tx: RecordTransaction<T>) => Promise<R>): Promise<R> => {
+    return runExclusive(() => commit(work));
+  };
+
+  return {
+    getAll,
+    get,
+    getBy,
+    transaction,
+    put: (record) => transaction(async tx => tx.put(record)),
+    putMany: (records) => transaction(async tx => records.forEach(record => tx.put(record))),
+    remove: (id) => transaction(async tx => tx.remove(id)),
+    update: (id, change) => transaction(async tx => {
+      const record = await tx.get(id);
+      if (!record) return null;
+      const updated = change(record);
+      tx.put(updated);
+      return updated;
+    }),
+  };
+};
+
+// Stores
+export const templateStore = createRecordStore<WorkoutTemplate>({
+  name: 'workout_templates',
+  indexes: {},
+});
+
+export const planStore = createRecordStore<WorkoutPlan>({
+  name: 'workout_plans',
+  indexes: {
+    clientId: plan => plan.clientId,
+  },
+});
+
+export const sessionStore = createRecordStore<WorkoutSession>({
+  name: 'workout_sessions',
+  indexes: {
+    clientId: session => session.clientId,
+    date: session => session.date,
+    templateId: session => session.templateId,
+  },
+});
+
+export const clientStore = createRecordStore<Client>({
+  name: 'clients',
+  indexes: {},
+});
+
+export const programStore = createRecordStore<TrainingProgram>({
+  name: 'training_programs',
+  indexes: {},
+});
+
+export const enrollmentStore = createRecordStore<ProgramEnrollment>({
+  name: 'program_enrollments',
+  indexes: {
+    clientId: enrollment => enrollment.clientId,
+    programId: enrollment => enrollment.programId,
+  },
+});
+
+export const formCheckStore = createRecordStore<FormCheckVideo>({
+  name: 'form_checks',
+  indexes: {
+    sessionId: formCheck => formCheck.sessionId,
+    clientId: formCheck => formCheck.clientId,
+  },
+});
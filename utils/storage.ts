@@ -1,21 +1,57 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { WorkoutTemplate, WorkoutPlan, WorkoutSession, Client, Exercise } from '../types/workout';
+import { accountStorage } from './accountStorage';
+import {
+  WorkoutTemplate,
+  WorkoutPlan,
+  WorkoutSession,
+  Client,
+  Exercise,
+  TrainingProgram,
+  ProgramEnrollment,
+  FormCheckVideo,
+  SELF_CLIENT_ID,
+} from '../types/workout';
+import { runStorageMigrations } from './storageMigrations';
+import {
+  templateStore,
+  planStore,
+  sessionStore,
+  clientStore,
+  programStore,
+  enrollmentStore,
+  formCheckStore,
+  runExclusive,
+} from './recordStore';
 
 const STORAGE_KEYS = {
-  TEMPLATES: '@workout_templates',
-  PLANS: '@workout_plans',
-  SESSIONS: '@workout_sessions',
-  CLIENTS: '@clients',
   EXERCISES: '@exercises',
   PENDING_SYNC: '@pending_sync',
+  REMOTE_IDS: '@remote_ids',
+  TOMBSTONES: '@tombstones',
   USER_ROLE: '@user_role',
   USER_ID: '@user_id',
 };
 
+export type SyncEntityType = 'template' | 'plan' | 'session' | 'client' | 'program' | 'enrollment' | 'formCheck';
+
+export interface Tombstone {
+  deletedAt: string;
+  version?: number;
+}
+
+export interface PendingSyncItem {
+  type: SyncEntityType;
+  id: string;
+  action: 'create' | 'update' | 'delete';
+  timestamp: string;
+  attempts?: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
 // Generic storage functions
 export const storeData = async (key: string, data: any): Promise<void> => {
   try {
-    await AsyncStorage.setItem(key, JSON.stringify(data));
+    await accountStorage.setItem(key, JSON.stringify(data));
   } catch (error) {
     console.error('Error storing data:', error);
     throw error;
@@ -24,7 +60,7 @@ export const storeData = async (key: string, data: any): Promise<void> => {
 
 export const getData = async <T>(key: string): Promise<T | null> => {
   try {
-    const data = await AsyncStorage.getItem(key);
+    const data = await accountStorage.getItem(key);
     return data ? JSON.parse(data) : null;
   } catch (error) {
     console.error('Error getting data:', error);
@@ -32,9 +68,17 @@ export const getData = async <T>(key: string): Promise<T | null> => {
   }
 };
 
+// Read/modify/write of a whole blob, serialized with every other storage write
+export const updateData = async <T>(key: string, change: (current: T | null) => T): Promise<void> => {
+  await runExclusive(async () => {
+    const current = await getData<T>(key);
+    await storeData(key, change(current));
+  });
+};
+
 export const removeData = async (key: string): Promise<void> => {
   try {
-    await AsyncStorage.removeItem(key);
+    await accountStorage.removeItem(key);
   } catch (error) {
     console.error('Error removing data:', error);
     throw error;
@@ -43,95 +87,235 @@ export const removeData = async (key: string): Promise<void> => {
 
 // Template functions
 export const saveTemplate = async (template: WorkoutTemplate): Promise<void> => {
-  const templates = await getTemplates();
-  const updatedTemplates = templates.filter(t => t.id !== template.id);
-  updatedTemplates.push(template);
-  await storeData(STORAGE_KEYS.TEMPLATES, updatedTemplates);
+  await templateStore.put(template);
   await addToPendingSync('template', template.id, 'create');
 };
 
+// Reads wait for the storage migrations, the old JSON arrays only move into the record stores when they run
 export const getTemplates = async (): Promise<WorkoutTemplate[]> => {
-  return await getData<WorkoutTemplate[]>(STORAGE_KEYS.TEMPLATES) || [];
+  await runStorageMigrations();
+  return await templateStore.getAll();
 };
 
 export const getTemplate = async (id: string): Promise<WorkoutTemplate | null> => {
-  const templates = await getTemplates();
-  return templates.find(t => t.id === id) || null;
+  await runStorageMigrations();
+  return await templateStore.get(id);
 };
 
 export const deleteTemplate = async (id: string): Promise<void> => {
-  const templates = await getTemplates();
-  const updatedTemplates = templates.filter(t => t.id !== id);
-  await storeData(STORAGE_KEYS.TEMPLATES, updatedTemplates);
+  const deleted = await templateStore.transaction(async tx => {
+    const template = await tx.get(id);
+    tx.remove(id);
+    return template;
+  });
+  await addTombstone('template', id, deleted?.version);
   await addToPendingSync('template', id, 'delete');
 };
 
+// Remote changes are applied without queueing them for another push
+export const storeTemplateFromRemote = async (template: WorkoutTemplate): Promise<void> => {
+  await templateStore.put(template);
+};
+
+export const removeTemplateFromRemote = async (id: string): Promise<void> => {
+  await templateStore.remove(id);
+};
+
+export const updateTemplateVersion = async (id: string, version: number): Promise<void> => {
+  await templateStore.update(id, t => ({ ...t, version }));
+};
+
 // Plan functions
 export const savePlan = async (plan: WorkoutPlan): Promise<void> => {
-  const plans = await getPlans();
-  const updatedPlans = plans.filter(p => p.id !== plan.id);
-  updatedPlans.push(plan);
-  await storeData(STORAGE_KEYS.PLANS, updatedPlans);
-  await addToPendingSync('plan', plan.id, 'create');
+  await planStore.put(plan);
+  if (!(await isLocalOnlyClient(plan.clientId))) {
+    await addToPendingSync('plan', plan.id, 'create');
+  }
 };
 
 export const getPlans = async (): Promise<WorkoutPlan[]> => {
-  return await getData<WorkoutPlan[]>(STORAGE_KEYS.PLANS) || [];
+  await runStorageMigrations();
+  return await planStore.getAll();
 };
 
 export const getPlan = async (id: string): Promise<WorkoutPlan | null> => {
-  const plans = await getPlans();
-  return plans.find(p => p.id === id) || null;
+  await runStorageMigrations();
+  return await planStore.get(id);
 };
 
 export const getClientPlans = async (clientId: string): Promise<WorkoutPlan[]> => {
-  const plans = await getPlans();
-  return plans.filter(p => p.clientId === clientId);
+  await runStorageMigrations();
+  return await planStore.getBy('clientId', clientId);
+};
+
+export const deletePlan = async (id: string): Promise<void> => {
+  const deleted = await planStore.transaction(async tx => {
+    const plan = await tx.get(id);
+    tx.remove(id);
+    return plan;
+  });
+  await addTombstone('plan', id, deleted?.version);
+  await addToPendingSync('plan', id, 'delete');
+};
+
+export const storePlanFromRemote = async (plan: WorkoutPlan): Promise<void> => {
+  await planStore.put(plan);
+};
+
+export const removePlanFromRemote = async (id: string): Promise<void> => {
+  await planStore.remove(id);
+};
+
+export const updatePlanVersion = async (id: string, version: number): Promise<void> => {
+  await planStore.update(id, p => ({ ...p, version }));
 };
 
 // Session functions
 export const saveSession = async (session: WorkoutSession): Promise<void> => {
-  const sessions = await getSessions();
-  const updatedSessions = sessions.filter(s => s.id !== session.id);
-  updatedSessions.push(session);
-  await storeData(STORAGE_KEYS.SESSIONS, updatedSessions);
-  await addToPendingSync('session', session.id, 'create');
+  // Any local edit has to be pushed again
+  await sessionStore.put({ ...session, synced: false });
+  if (!(await isLocalOnlyClient(session.clientId))) {
+    await addToPendingSync('session', session.id, 'create');
+  }
+};
+
+// Flags a session as pushed without queueing it for sync again
+export const markSessionSynced = async (id: string): Promise<void> => {
+  await sessionStore.update(id, s => ({ ...s, synced: true }));
 };
 
 export const getSessions = async (): Promise<WorkoutSession[]> => {
-  return await getData<WorkoutSession[]>(STORAGE_KEYS.SESSIONS) || [];
+  await runStorageMigrations();
+  return await sessionStore.getAll();
 };
 
 export const getSession = async (id: string): Promise<WorkoutSession | null> => {
-  const sessions = await getSessions();
-  return sessions.find(s => s.id === id) || null;
+  await runStorageMigrations();
+  return await sessionStore.get(id);
 };
 
 export const getClientSessions = async (clientId: string): Promise<WorkoutSession[]> => {
-  const sessions = await getSessions();
-  return sessions.filter(s => s.clientId === clientId);
+  await runStorageMigrations();
+  return await sessionStore.getBy('clientId', clientId);
+};
+
+export const getSessionsByDate = async (date: string): Promise<WorkoutSession[]> => {
+  await runStorageMigrations();
+  return await sessionStore.getBy('date', date);
+};
+
+export const getTemplateSessions = async (templateId: string): Promise<WorkoutSession[]> => {
+  await runStorageMigrations();
+  return await sessionStore.getBy('templateId', templateId);
 };
 
 // Client functions
 export const saveClient = async (client: Client): Promise<void> => {
-  const clients = await getClients();
-  const updatedClients = clients.filter(c => c.id !== client.id);
-  updatedClients.push(client);
-  await storeData(STORAGE_KEYS.CLIENTS, updatedClients);
-  await addToPendingSync('client', client.id, 'create');
+  await clientStore.put(client);
+  if (client.profileId) {
+    await addToPendingSync('client', client.id, 'create');
+  }
+};
+
+// Server rows reference profiles. A client stored here without one ('client-1', generated ids) can never be
+// sent, ids that aren't in the store came from the server and already are profile ids.
+export const isLocalOnlyClient = async (clientId: string): Promise<boolean> => {
+  if (clientId === SELF_CLIENT_ID) return false;
+  const client = await getClient(clientId);
+  return !!client && !client.profileId;
 };
 
 export const getClients = async (): Promise<Client[]> => {
-  return await getData<Client[]>(STORAGE_KEYS.CLIENTS) || [];
+  await runStorageMigrations();
+  return await clientStore.getAll();
 };
 
 export const getClient = async (id: string): Promise<Client | null> => {
-  const clients = await getClients();
-  return clients.find(c => c.id === id) || null;
+  await runStorageMigrations();
+  return await clientStore.get(id);
+};
+
+// Program functions
+export const saveProgram = async (program: TrainingProgram): Promise<void> => {
+  await programStore.put(program);
+  await addToPendingSync('program', program.id, 'create');
+};
+
+export const getPrograms = async (): Promise<TrainingProgram[]> => {
+  await runStorageMigrations();
+  return await programStore.getAll();
+};
+
+export const getProgram = async (id: string): Promise<TrainingProgram | null> => {
+  await runStorageMigrations();
+  return await programStore.get(id);
+};
+
+// Enrollment functions
+export const saveEnrollment = async (enrollment: ProgramEnrollment): Promise<void> => {
+  await enrollmentStore.put(enrollment);
+  if (!(await isLocalOnlyClient(enrollment.clientId))) {
+    await addToPendingSync('enrollment', enrollment.id, 'create');
+  }
+};
+
+export const getEnrollments = async (): Promise<ProgramEnrollment[]> => {
+  await runStorageMigrations();
+  return await enrollmentStore.getAll();
+};
+
+export const getEnrollment = async (id: string): Promise<ProgramEnrollment | null> => {
+  await runStorageMigrations();
+  return await enrollmentStore.get(id);
+};
+
+export const getClientEnrollments = async (clientId: string): Promise<ProgramEnrollment[]> => {
+  await runStorageMigrations();
+  return await enrollmentStore.getBy('clientId', clientId);
+};
+
+export const getProgramEnrollments = async (programId: string): Promise<ProgramEnrollment[]> => {
+  await runStorageMigrations();
+  return await enrollmentStore.getBy('programId', programId);
+};
+
+export const storeEnrollmentFromRemote = async (enrollment: ProgramEnrollment): Promise<void> => {
+  await enrollmentStore.put(enrollment);
+};
+
+// Form check functions
+export const saveFormCheck = async (formCheck: FormCheckVideo): Promise<void> => {
+  await formCheckStore.put(formCheck);
+  await addToPendingSync('formCheck', formCheck.id, 'create');
+};
+
+export const getFormChecks = async (): Promise<FormCheckVideo[]> => {
+  await runStorageMigrations();
+  return await formCheckStore.getAll();
+};
+
+export const getFormCheck = async (id: string): Promise<FormCheckVideo | null> => {
+  await runStorageMigrations();
+  return await formCheckStore.get(id);
+};
+
+export const getSessionFormChecks = async (sessionId: string): Promise<FormCheckVideo[]> => {
+  await runStorageMigrations();
+  return await formCheckStore.getBy('sessionId', sessionId);
+};
+
+export const getClientFormChecks = async (clientId: string): Promise<FormCheckVideo[]> => {
+  await runStorageMigrations();
+  return await formCheckStore.getBy('clientId', clientId);
+};
+
+export const storeFormCheckFromRemote = async (formCheck: FormCheckVideo): Promise<void> => {
+  await formCheckStore.put(formCheck);
 };
 
 // Exercise functions
 export const getExercises = async (): Promise<Exercise[]> => {
+  await runStorageMigrations();
   return await getData<Exercise[]>(STORAGE_KEYS.EXERCISES) || [];
 };
 
@@ -140,38 +324,117 @@ export const saveExercises = async (exercises: Exercise[]): Promise<void> => {
 };
 
 // Sync functions
-export const addToPendingSync = async (type: string, id: string, action: 'create' | 'update' | 'delete'): Promise<void> => {
-  const pendingSync = await getData<any[]>(STORAGE_KEYS.PENDING_SYNC) || [];
-  const syncItem = {
+export const addToPendingSync = async (type: SyncEntityType, id: string, action: 'create' | 'update' | 'delete'): Promise<void> => {
+  const syncItem: PendingSyncItem = {
     type,
     id,
     action,
     timestamp: new Date().toISOString(),
   };
-  
+
   // Remove existing sync item for the same type and id
-  const updatedSync = pendingSync.filter(item => !(item.type === type && item.id === id));
-  updatedSync.push(syncItem);
-  
-  await storeData(STORAGE_KEYS.PENDING_SYNC, updatedSync);
+  await updateData<PendingSyncItem[]>(STORAGE_KEYS.PENDING_SYNC, pendingSync => [
+    ...(pendingSync || []).filter(item => !(item.type === type && item.id === id)),
+    syncItem,
+  ]);
 };
 
-export const getPendingSync = async (): Promise<any[]> => {
-  return await getData<any[]>(STORAGE_KEYS.PENDING_SYNC) || [];
+export const getPendingSync = async (): Promise<PendingSyncItem[]> => {
+  return await getData<PendingSyncItem[]>(STORAGE_KEYS.PENDING_SYNC) || [];
 };
 
 export const clearPendingSync = async (): Promise<void> => {
-  await storeData(STORAGE_KEYS.PENDING_SYNC, []);
+  await updateData<PendingSyncItem[]>(STORAGE_KEYS.PENDING_SYNC, () => []);
+};
+
+// When a timestamp is given, only that exact queue entry is removed so an edit
+// made while a sync was running stays queued.
+export const removeSyncItem = async (type: SyncEntityType, id: string, timestamp?: string): Promise<void> => {
+  await updateData<PendingSyncItem[]>(STORAGE_KEYS.PENDING_SYNC, pendingSync =>
+    (pendingSync || []).filter(item =>
+      !(item.type === type && item.id === id && (!timestamp || item.timestamp === timestamp))
+    )
+  );
 };
 
-export const removeSyncItem = async (type: string, id: string): Promise<void> => {
-  const pendingSync = await getPendingSync();
-  const updatedSync = pendingSync.filter(item => !(item.type === type && item.id === id));
-  await storeData(STORAGE_KEYS.PENDING_SYNC, updatedSync);
+export const updateSyncItem = async (syncItem: PendingSyncItem): Promise<void> => {
+  await updateData<PendingSyncItem[]>(STORAGE_KEYS.PENDING_SYNC, pendingSync =>
+    (pendingSync || []).map(item =>
+      item.type === syncItem.type && item.id === syncItem.id && item.timestamp === syncItem.timestamp
+        ? syncItem
+        : item
+    )
+  );
+};
+
+// Local ids are not UUIDs, so we remember which Supabase row each record maps to
+export const getRemoteId = async (type: string, localId: string): Promise<string | null> => {
+  const remoteIds = await getData<{ [key: string]: string }>(STORAGE_KEYS.REMOTE_IDS) || {};
+  return remoteIds[`${type}:${localId}`] || null;
+};
+
+export const getLocalId = async (type: string, remoteId: string): Promise<string | null> => {
+  const remoteIds = await getData<{ [key: string]: string }>(STORAGE_KEYS.REMOTE_IDS) || {};
+  const prefix = `${type}:`;
+  const entry = Object.entries(remoteIds).find(([key, value]) => key.startsWith(prefix) && value === remoteId);
+  return entry ? entry[0].slice(prefix.length) : null;
+};
+
+export const setRemoteId = async (type: string, localId: string, remoteId: string | null): Promise<void> => {
+  const key = `${type}:${localId}`;
+  await updateData<{ [key: string]: string }>(STORAGE_KEYS.REMOTE_IDS, current => {
+    const remoteIds = current || {};
+    if (remoteId) {
+      remoteIds[key] = remoteId;
+    } else {
+      delete remoteIds[key];
+    }
+    return remoteIds;
+  });
+};
+
+export const getRemoteIdMap = async (): Promise<{ [key: string]: string }> => {
+  return await getData<{ [key: string]: string }>(STORAGE_KEYS.REMOTE_IDS) || {};
+};
+
+export const saveRemoteIdMap = async (remoteIds: { [key: string]: string }): Promise<void> => {
+  await updateData<{ [key: string]: string }>(STORAGE_KEYS.REMOTE_IDS, () => remoteIds);
+};
+
+export const savePendingSync = async (pendingSync: PendingSyncItem[]): Promise<void> => {
+  await updateData<PendingSyncItem[]>(STORAGE_KEYS.PENDING_SYNC, () => pendingSync);
+};
+
+// Tombstones keep a deleted record from being pulled back in before the delete is pushed
+export const addTombstone = async (type: SyncEntityType, id: string, version?: number): Promise<void> => {
+  await updateData<{ [key: string]: Tombstone }>(STORAGE_KEYS.TOMBSTONES, tombstones => ({
+    ...tombstones,
+    [`${type}:${id}`]: { deletedAt: new Date().toISOString(), version },
+  }));
+};
+
+export const getTombstone = async (type: SyncEntityType, id: string): Promise<Tombstone | null> => {
+  const tombstones = await getData<{ [key: string]: Tombstone }>(STORAGE_KEYS.TOMBSTONES) || {};
+  return tombstones[`${type}:${id}`] || null;
+};
+
+export const removeTombstone = async (type: SyncEntityType, id: string): Promise<void> => {
+  await updateData<{ [key: string]: Tombstone }>(STORAGE_KEYS.TOMBSTONES, current => {
+    const tombstones = current || {};
+    delete tombstones[`${type}:${id}`];
+    return tombstones;
+  });
+};
+
+export const clearTombstones = async (): Promise<void> => {
+  await removeData(STORAGE_KEYS.TOMBSTONES);
 };
 
 // Initialize default data
 export const initializeDefaultData = async (): Promise<void> => {
+  // Old installs have to be brought up to the current shape before anything reads them
+  await runStorageMigrations();
+
   const exercises = await getExercises();
   if (exercises.length === 0) {
     const defaultExercises: Exercise[] = [
@@ -181,7 +444,9 @@ export const initializeDefaultData = async (): Promise<void> => {
         category: 'Bodyweight',
         muscleGroups: ['Chest', 'Shoulders', 'Triceps'],
         instructions: 'Start in plank position, lower body to ground, push back up',
-        equipment: 'None'
+        equipment: 'None',
+        equipmentTags: ['bodyweight'],
+        difficulty: 'beginner'
       },
       {
         id: '2',
@@ -189,7 +454,9 @@ export const initializeDefaultData = async (): Promise<void> => {
         category: 'Bodyweight',
         muscleGroups: ['Quadriceps', 'Glutes', 'Hamstrings'],
         instructions: 'Stand with feet shoulder-width apart, lower hips back and down',
-        equipment: 'None'
+        equipment: 'None',
+        equipmentTags: ['bodyweight'],
+        difficulty: 'beginner'
       },
       {
         id: '3',
@@ -197,7 +464,10 @@ export const initializeDefaultData = async (): Promise<void> => {
         category: 'Strength',
         muscleGroups: ['Chest', 'Shoulders', 'Triceps'],
         instructions: 'Lie on bench, lower bar to chest, press up',
-        equipment: 'Barbell, Bench'
+        equipment: 'Barbell, Bench',
+        equipmentTags: ['barbell', 'bench'],
+        difficulty: 'intermediate',
+        variations: [{ exerciseId: '1', relation: 'easier', equipmentChanges: 'No equipment' }]
       },
       {
         id: '4',
@@ -205,7 +475,9 @@ export const initializeDefaultData = async (): Promise<void> => {
         category: 'Strength',
         muscleGroups: ['Hamstrings', 'Glutes', 'Back'],
         instructions: 'Stand with feet hip-width apart, lift bar from ground',
-        equipment: 'Barbell'
+        equipment: 'Barbell',
+        equipmentTags: ['barbell'],
+        difficulty: 'advanced'
       },
       {
         id: '5',
@@ -213,7 +485,9 @@ export const initializeDefaultData = async (): Promise<void> => {
         category: 'Bodyweight',
         muscleGroups: ['Back', 'Biceps'],
         instructions: 'Hang from bar, pull body up until chin over bar',
-        equipment: 'Pull-up bar'
+        equipment: 'Pull-up bar',
+        equipmentTags: ['pullUpBar'],
+        difficulty: 'intermediate'
       }
     ];
     await saveExercises(defaultExercises);
@@ -248,6 +522,6 @@ export const initializeDefaultData = async (): Promise<void> => {
         trainerId: 'trainer-1'
       }
     ];
-    await storeData(STORAGE_KEYS.CLIENTS, defaultClients);
+    await clientStore.putMany(defaultClients);
   }
 };
\ No newline at end of file
@@ -0,0 +1,281 @@
+import { accountStorage, getActiveAccount } from './accountStorage';
+import { MetricData } from '../types/metrics';
+import { WorkoutSession, WorkoutPlan, Exercise, SELF_CLIENT_ID } from '../types/workout';
+import { templateStore, planStore, sessionStore, clientStore, RecordStore } from './recordStore';
+import { normalizeMetricUnits } from './metricsStorage';
+import { normalizePlanSchedule } from './planCalendar';
+import { getEquipmentTags } from './substitutions';
+
+const SCHEMA_VERSION_KEY = '@storage_schema_version';
+const BACKUP_KEY_PREFIX = '@storage_backup';
+
+// Collections of a backup archive that migrations reshaped
+export interface MigratableData {
+  metrics: MetricData;
+  plans: WorkoutPlan[];
+  exercises: Exercise[];
+}
+
+export interface StorageMigration {
+  version: number;
+  description: string;
+  keys: string[]; // blobs the migration reads or writes, backed up if it fails
+  migrate: () => Promise<void>;
+  upgradeData?: (data: MigratableData) => MigratableData; // the same change for data that isn't stored yet
+}
+
+let activeMigration: Promise<number> | null = null;
+
+// Version each account reached this launch. Failed migrations are retried on the next launch, not on every read.
+const reachedVersions = new Map<string | null, number>();
+
+// Helpers
+const parseLocaleTime = (date: string, time: string): string | null => {
+  const match = time.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const seconds = match[3] ? parseInt(match[3], 10) : 0;
+  const meridiem = match[4]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+
+  const [year, month, day] = date.split('-').map(Number);
+  const timestamp = new Date(year, month - 1, day, hours, minutes, seconds);
+  return isNaN(timestamp.getTime()) ? null : timestamp.toISOString();
+};
+
+// Throws on a time it can't read, so the migration is rolled back instead of guessing
+const toIsoMetricTimes = (metrics: MetricData): MetricData => {
+  for (const metric of Object.values(metrics)) {
+    for (const entry of metric.entries || []) {
+      if (!entry.time || /^\d{4}-\d{2}-\d{2}T/.test(entry.time)) continue;
+
+      const timestamp = parseLocaleTime(entry.date, entry.time);
+      if (!timestamp) {
+        throw new Error(`Unrecognized time "${entry.time}" for metric entry ${metric.id}/${entry.id}`);
+      }
+      entry.time = timestamp;
+    }
+  }
+  return metrics;
+};
+
+const withEquipmentTags = (exercises: Exercise[]): Exercise[] => {
+  return exercises.map(exercise => ({ ...exercise, equipmentTags: getEquipmentTags(exercise) }));
+};
+
+const moveArrayIntoStore = async <T extends { id: string }>(
+  key: string,
+  store: RecordStore<T>,
+  belongsToStore: (record: T) => boolean = () => true
+): Promise<void> => {
+  const data = await accountStorage.getItem(key);
+  if (!data) return;
+
+  const records: T[] = JSON.parse(data);
+  await store.putMany(records.filter(belongsToStore));
+
+  const remaining = records.filter(record => !belongsToStore(record));
+  if (remaining.length > 0) {
+    await accountStorage.setItem(key, JSON.stringify(remaining));
+  } else {
+    await accountStorage.removeItem(key);
+  }
+};
+
+// Migrations, applied in order. Never edit one that has shipped, add a new version instead.
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Store MetricEntry.time as an ISO timestamp instead of a locale string',
+    keys: ['@client_metrics'],
+    migrate: async () => {
+      const data = await accountStorage.getItem('@client_metrics');
+      if (!data) return;
+
+      const metrics: MetricData = JSON.parse(data);
+      await accountStorage.setItem('@client_metrics', JSON.stringify(toIsoMetricTimes(metrics)));
+    },
+    upgradeData: data => ({ ...data, metrics: toIsoMetricTimes(data.metrics) }),
+  },
+  {
+    version: 2,
+    description: 'Move templates, plans, sessions and clients from JSON arrays into the indexed record store',
+    keys: ['@workout_templates', '@workout_plans', '@workout_sessions', '@clients'],
+    migrate: async () => {
+      await moveArrayIntoStore('@workout_templates', templateStore);
+      await moveArrayIntoStore('@workout_plans', planStore);
+      // UserStatsContext keeps its own session shape under the same key, leave those where they are
+      await moveArrayIntoStore<WorkoutSession>(
+        '@workout_sessions',
+        sessionStore,
+        session => typeof session.clientId === 'string' && typeof session.templateId === 'string'
+      );
+      await moveArrayIntoStore('@clients', clientStore);
+    },
+  },
+  {
+    version: 3,
+    description: 'Convert UserStatsContext sessions ({ duration, type }) into canonical workout sessions',
+    keys: ['@workout_sessions', '@pending_sync'],
+    migrate: async () => {
+      const data = await accountStorage.getItem('@workout_sessions');
+      if (!data) return;
+
+      const legacySessions: { id: string; date: string; duration: number; type: string; completed: boolean }[] = JSON.parse(data);
+      const sessions: WorkoutSession[] = legacySessions.map(legacy => ({
+        id: `stats-${legacy.id}`,
+        clientId: SELF_CLIENT_ID,
+        sessionType: 'custom',
+        category: legacy.type,
+        date: legacy.date,
+        durationMinutes: legacy.duration,
+        exercises: [],
+        completed: legacy.completed,
+        synced: false,
+      }));
+      await sessionStore.putMany(sessions);
+
+      // They were never uploaded, queue them like any other new session
+      const pendingData = await accountStorage.getItem('@pending_sync');
+      const pendingSync = pendingData ? JSON.parse(pendingData) : [];
+      const timestamp = new Date().toISOString();
+      sessions.forEach(session => {
+        pendingSync.push({ type: 'session', id: session.id, action: 'create', timestamp });
+      });
+      await accountStorage.setItem('@pending_sync', JSON.stringify(pendingSync));
+
+      await accountStorage.removeItem('@workout_sessions');
+    },
+  },
+  {
+    version: 4,
+    description: 'Store metric entries in canonical SI units (kg, cm, ml) instead of whatever unit they were logged in',
+    keys: ['@client_metrics'],
+    migrate: async () => {
+      const data = await accountStorage.getItem('@client_metrics');
+      if (!data) return;
+
+      const metrics: MetricData = JSON.parse(data);
+      await accountStorage.setItem('@client_metrics', JSON.stringify(normalizeMetricUnits(metrics)));
+    },
+    upgradeData: data => ({ ...data, metrics: normalizeMetricUnits(data.metrics) }),
+  },
+  {
+    version: 5,
+    description: 'Store plan schedules as a typed weekly, monthly or custom schedule instead of a bare day map',
+    // Plans live one key per record. Normalizing is idempotent, so a partly migrated store is safe to retry.
+    keys: [],
+    migrate: async () => {
+      const plans = await planStore.getAll();
+      await planStore.putMany(plans.map(plan => ({ ...plan, schedule: normalizePlanSchedule(plan.schedule) })));
+    },
+    upgradeData: data => ({
+      ...data,
+      plans: data.plans.map(plan => ({ ...plan, schedule: normalizePlanSchedule(plan.schedule) })),
+    }),
+  },
+  {
+    version: 6,
+    description: 'Give library exercises structured equipment tags parsed from their free-text equipment',
+    keys: ['@exercises'],
+    migrate: async () => {
+      const data = await accountStorage.getItem('@exercises');
+      if (!data) return;
+
+      const exercises: Exercise[] = JSON.parse(data);
+      await accountStorage.setItem('@exercises', JSON.stringify(withEquipmentTags(exercises)));
+    },
+    upgradeData: data => ({ ...data, exercises: withEquipmentTags(data.exercises) }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = STORAGE_MIGRATIONS.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  0
+);
+
+export const getSchemaVersion = async (): Promise<number> => {
+  try {
+    const data = await accountStorage.getItem(SCHEMA_VERSION_KEY);
+    return data ? parseInt(data, 10) || 0 : 0;
+  } catch (error) {
+    console.error('Error loading storage schema version:', error);
+    return 0;
+  }
+};
+
+export const getMigrationBackupKey = (version: number, key: string): string => {
+  return `${BACKUP_KEY_PREFIX}:${version}:${key}`;
+};
+
+const runMigration = async (migration: StorageMigration): Promise<void> => {
+  const snapshot = (await accountStorage.multiGet(migration.keys))
+    .filter((pair): pair is [string, string] => pair[1] !== null);
+
+  try {
+    await migration.migrate();
+  } catch (error) {
+    // Keep a copy of what was there before, then put it back so the app keeps working on the old shape
+    await accountStorage.multiSet(
+      snapshot.map(([key, value]) => [getMigrationBackupKey(migration.version, key), value])
+    );
+    await accountStorage.multiSet(snapshot);
+    throw error;
+  }
+};
+
+const applyPendingMigrations = async (): Promise<number> => {
+  let version = await getSchemaVersion();
+  const pending = STORAGE_MIGRATIONS
+    .filter(migration => migration.version > version)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      await runMigration(migration);
+    } catch (error) {
+      // Later migrations may depend on this one, so stop here and retry on next launch
+      console.error(`Error running storage migration ${migration.version} (${migration.description}):`, error);
+      return version;
+    }
+
+    version = migration.version;
+    await accountStorage.setItem(SCHEMA_VERSION_KEY, version.toString());
+  }
+
+  return version;
+};
+
+// Runs data from an older schema, e.g. a backup being restored, through the same changes before it's written.
+// Migrations that only moved data between keys have nothing to do, archives already hold plain records.
+export const upgradeData = <T extends MigratableData>(data: T, fromVersion: number): T => {
+  return STORAGE_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((upgraded, migration) => (
+      migration.upgradeData ? { ...upgraded, ...migration.upgradeData(upgraded) } : upgraded
+    ), data);
+};
+
+// Brings stored data up to CURRENT_SCHEMA_VERSION. Safe to call more than once, resolves to the version reached.
+// Readers of the record stores await it too, which costs nothing once the active account has been migrated.
+export const runStorageMigrations = async (): Promise<number> => {
+  const account = getActiveAccount();
+  const reached = reachedVersions.get(account);
+  if (reached !== undefined) return reached;
+
+  if (!activeMigration) {
+    activeMigration = applyPendingMigrations()
+      .then(version => {
+        reachedVersions.set(account, version);
+        return version;
+      })
+      .finally(() => {
+        activeMigration = null;
+      });
+  }
+  return activeMigration;
+};
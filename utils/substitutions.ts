@@ -0,0 +1,195 @@
+import { accountStorage } from './accountStorage';
+import { Exercise, EquipmentTag, DifficultyLevel, VariationRelation } from '../types/workout';
+
+/*
+  Suggests alternatives for an exercise the user can't or doesn't want to do.
+  Candidates come from the whole library, scored on the muscles they share with
+  the original, whether the user has the equipment and how close the difficulty
+  is. Exercises linked as variations of each other get a bonus, in either
+  direction: listing B as an easier version of A makes A a harder version of B.
+*/
+
+const STORAGE_KEYS = {
+  AVAILABLE_EQUIPMENT: '@available_equipment',
+};
+
+export const EQUIPMENT_TAGS: { value: EquipmentTag; label: string }[] = [
+  { value: 'bodyweight', label: 'Bodyweight' },
+  { value: 'barbell', label: 'Barbell' },
+  { value: 'dumbbell', label: 'Dumbbell' },
+  { value: 'kettlebell', label: 'Kettlebell' },
+  { value: 'cable', label: 'Cable Machine' },
+  { value: 'machine', label: 'Machine' },
+  { value: 'bands', label: 'Resistance Bands' },
+  { value: 'bench', label: 'Bench' },
+  { value: 'pullUpBar', label: 'Pull-up Bar' },
+  { value: 'medicineBall', label: 'Medicine Ball' },
+  { value: 'trx', label: 'TRX' },
+  { value: 'cardioMachine', label: 'Cardio Machine' },
+];
+
+export const VARIATION_RELATIONS: { value: VariationRelation; label: string }[] = [
+  { value: 'easier', label: 'Easier' },
+  { value: 'harder', label: 'Harder' },
+  { value: 'different', label: 'Different' },
+];
+
+// Checked in order, so "cable machine" is a cable and not a machine
+const EQUIPMENT_KEYWORDS: [RegExp, EquipmentTag][] = [
+  [/\b(none|bodyweight|body weight)\b/i, 'bodyweight'],
+  [/pull-?\s?up|chin-?\s?up/i, 'pullUpBar'],
+  [/barbell/i, 'barbell'],
+  [/dumbbell/i, 'dumbbell'],
+  [/kettlebell/i, 'kettlebell'],
+  [/cable/i, 'cable'],
+  [/band/i, 'bands'],
+  [/bench/i, 'bench'],
+  [/medicine ball|med ball/i, 'medicineBall'],
+  [/trx|suspension/i, 'trx'],
+  [/treadmill|rower|rowing|bike|cycle|elliptical|cardio/i, 'cardioMachine'],
+  [/machine|smith|leg press/i, 'machine'],
+];
+
+const SCORE_WEIGHTS = {
+  muscles: 60, // scaled by the share of muscle groups in common
+  equipmentAvailable: 25,
+  missingEquipment: -20, // per piece the user doesn't have
+  sameDifficulty: 10,
+  difficultyStep: -5, // per level away from the original
+  variation: 20,
+};
+
+const DIFFICULTY_ORDER: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+export interface SubstituteSuggestion {
+  exercise: Exercise;
+  score: number;
+  sharedMuscles: string[];
+  missingEquipment: EquipmentTag[];
+  relation?: VariationRelation; // set when the two are linked as variations
+}
+
+// Equipment
+export const parseEquipmentTags = (text?: string): EquipmentTag[] => {
+  if (!text) return [];
+
+  const tags = new Set<EquipmentTag>();
+  for (const part of text.split(/[,/&+]|\band\b/i)) {
+    const match = EQUIPMENT_KEYWORDS.find(([pattern]) => pattern.test(part));
+    if (match) tags.add(match[1]);
+  }
+  return Array.from(tags);
+};
+
+// Exercises saved before tags existed only have the free-text equipment
+export const getEquipmentTags = (exercise: Pick<Exercise, 'equipment' | 'equipmentTags'>): EquipmentTag[] => {
+  return exercise.equipmentTags ?? parseEquipmentTags(exercise.equipment);
+};
+
+export const getEquipmentLabel = (tag: EquipmentTag): string => {
+  return EQUIPMENT_TAGS.find(item => item.value === tag)?.label ?? tag;
+};
+
+export const formatEquipmentTags = (tags: EquipmentTag[]): string => {
+  return tags.length > 0 ? tags.map(getEquipmentLabel).join(', ') : 'None';
+};
+
+// Equipment that is needed on top of what the user has. Bodyweight is always available.
+export const getMissingEquipment = (exercise: Exercise, available: EquipmentTag[]): EquipmentTag[] => {
+  return getEquipmentTags(exercise).filter(tag => tag !== 'bodyweight' && !available.includes(tag));
+};
+
+// Everything counts as available until the user says otherwise
+export const getAvailableEquipment = async (): Promise<EquipmentTag[]> => {
+  try {
+    const data = await accountStorage.getItem(STORAGE_KEYS.AVAILABLE_EQUIPMENT);
+    return data ? JSON.parse(data) : EQUIPMENT_TAGS.map(item => item.value);
+  } catch (error) {
+    console.error('Error loading available equipment:', error);
+    return EQUIPMENT_TAGS.map(item => item.value);
+  }
+};
+
+export const saveAvailableEquipment = async (equipment: EquipmentTag[]): Promise<void> => {
+  try {
+    await accountStorage.setItem(STORAGE_KEYS.AVAILABLE_EQUIPMENT, JSON.stringify(equipment));
+  } catch (error) {
+    console.error('Error saving available equipment:', error);
+    throw error;
+  }
+};
+
+// Variations
+const invertRelation = (relation: VariationRelation): VariationRelation => {
+  switch (relation) {
+    case 'easier': return 'harder';
+    case 'harder': return 'easier';
+    default: return 'different';
+  }
+};
+
+// How other compares to exercise, from either side of the link
+export const getVariationRelation = (exercise: Exercise, other: Exercise): VariationRelation | undefined => {
+  const own = exercise.variations?.find(variation => variation.exerciseId === other.id);
+  if (own) return own.relation;
+
+  const reverse = other.variations?.find(variation => variation.exerciseId === exercise.id);
+  return reverse ? invertRelation(reverse.relation) : undefined;
+};
+
+export const getVariationLabel = (relation: VariationRelation): string => {
+  return `${VARIATION_RELATIONS.find(item => item.value === relation)?.label ?? ''} variation`;
+};
+
+// Ranking
+const getDifficultyScore = (exercise: Exercise, candidate: Exercise): number => {
+  if (!exercise.difficulty || !candidate.difficulty) return 0;
+
+  const steps = Math.abs(DIFFICULTY_ORDER.indexOf(exercise.difficulty) - DIFFICULTY_ORDER.indexOf(candidate.difficulty));
+  return steps === 0 ? SCORE_WEIGHTS.sameDifficulty : steps * SCORE_WEIGHTS.difficultyStep;
+};
+
+export const scoreSubstitute = (
+  exercise: Exercise,
+  candidate: Exercise,
+  available: EquipmentTag[]
+): SubstituteSuggestion => {
+  const sharedMuscles = candidate.muscleGroups.filter(muscle => exercise.muscleGroups.includes(muscle));
+  const allMuscles = new Set([...exercise.muscleGroups, ...candidate.muscleGroups]);
+  const missingEquipment = getMissingEquipment(candidate, available);
+  const relation = getVariationRelation(exercise, candidate);
+
+  let score = allMuscles.size > 0 ? (sharedMuscles.length / allMuscles.size) * SCORE_WEIGHTS.muscles : 0;
+  score += missingEquipment.length === 0
+    ? SCORE_WEIGHTS.equipmentAvailable
+    : missingEquipment.length * SCORE_WEIGHTS.missingEquipment;
+  score += getDifficultyScore(exercise, candidate);
+  if (relation) score += SCORE_WEIGHTS.variation;
+
+  return { exercise: candidate, score: Math.round(score), sharedMuscles, missingEquipment, relation };
+};
+
+// Best first. Exercises with nothing in common are left out, as are the ones in excludeIds (already in the workout).
+export const rankSubstitutes = (
+  exercise: Exercise,
+  library: Exercise[],
+  available: EquipmentTag[],
+  excludeIds: string[] = []
+): SubstituteSuggestion[] => {
+  return library
+    .filter(candidate => candidate.id !== exercise.id && !excludeIds.includes(candidate.id))
+    .map(candidate => scoreSubstitute(exercise, candidate, available))
+    .filter(suggestion => suggestion.sharedMuscles.length > 0 || suggestion.relation)
+    .sort((a, b) => b.score - a.score || a.exercise.name.localeCompare(b.exercise.name));
+};
+
+// e.g. "Easier variation • Chest, Triceps • Needs Dumbbell"
+export const describeSubstitute = (suggestion: SubstituteSuggestion): string => {
+  const parts: string[] = [];
+  if (suggestion.relation) parts.push(getVariationLabel(suggestion.relation));
+  if (suggestion.sharedMuscles.length > 0) parts.push(suggestion.sharedMuscles.join(', '));
+  if (suggestion.missingEquipment.length > 0) {
+    parts.push(`Needs ${suggestion.missingEquipment.map(getEquipmentLabel).join(', ')}`);
+  }
+  return parts.join(' • ');
+};
@@ -0,0 +1,65 @@
+import { accountStorage } from './accountStorage';
+import { WorkoutTemplate, WorkoutPlan } from '../types/workout';
+
+const STORAGE_KEY = '@sync_conflicts';
+
+export type ConflictRecordType = 'template' | 'plan';
+
+export interface SyncConflict {
+  id: string;
+  type: ConflictRecordType;
+  localId: string;
+  local: WorkoutTemplate | WorkoutPlan | null; // null when deleted on this device
+  remote: WorkoutTemplate | WorkoutPlan | null; // null when deleted on the server
+  remoteVersion: number;
+  detectedAt: string;
+}
+
+export const getConflictId = (type: ConflictRecordType, localId: string): string => {
+  return `${type}:${localId}`;
+};
+
+export const getSyncConflicts = async (): Promise<SyncConflict[]> => {
+  try {
+    const data = await accountStorage.getItem(STORAGE_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error loading sync conflicts:', error);
+    return [];
+  }
+};
+
+export const getSyncConflict = async (type: ConflictRecordType, localId: string): Promise<SyncConflict | null> => {
+  const conflicts = await getSyncConflicts();
+  return conflicts.find(c => c.id === getConflictId(type, localId)) || null;
+};
+
+export const saveSyncConflict = async (conflict: SyncConflict): Promise<void> => {
+  try {
+    const conflicts = await getSyncConflicts();
+    const updated = [...conflicts.filter(c => c.id !== conflict.id), conflict];
+    await accountStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error saving sync conflict:', error);
+    throw error;
+  }
+};
+
+export const removeSyncConflict = async (id: string): Promise<void> => {
+  try {
+    const conflicts = await getSyncConflicts();
+    await accountStorage.setItem(STORAGE_KEY, JSON.stringify(conflicts.filter(c => c.id !== id)));
+  } catch (error) {
+    console.error('Error removing sync conflict:', error);
+    throw error;
+  }
+};
+
+export const clearSyncConflicts = async (): Promise<void> => {
+  try {
+    await accountStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Error clearing sync conflicts:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,179 @@
+import { WorkoutTemplate, TemplateExercise, WorkoutSet } from '../types/workout';
+import { getRestTime, isWarmupSet } from './workoutUtils';
+import { getExerciseBlocks } from './exerciseGroups';
+
+/*
+  Estimates a template from its sets instead of trusting the duration typed
+  in when it was created. Time is the work of every set, the rest after all
+  but the last set of each exercise or round, and a transition between
+  exercises for moving equipment and loading bars. Planned sets and volume
+  are then totalled per muscle group, and the balance between opposing
+  movement patterns is checked by each exercise's primary (first) muscle.
+*/
+
+type TemplateSet = Omit<WorkoutSet, 'completed' | 'id'>;
+
+export type MovementPattern = 'push' | 'pull' | 'quad' | 'hinge';
+
+export type BalancePair = 'pushPull' | 'quadHinge';
+
+export interface MuscleGroupLoad {
+  muscleGroup: string;
+  sets: number; // working sets, warm-ups left out
+  volume: number; // kg
+}
+
+export interface TemplateImbalance {
+  pair: BalancePair;
+  message: string;
+}
+
+export interface TemplateAnalysis {
+  estimatedMinutes: number;
+  totalSets: number;
+  workingSets: number;
+  totalVolume: number; // kg
+  muscleGroups: MuscleGroupLoad[]; // most sets first
+  patternSets: { [pattern in MovementPattern]: number };
+  imbalances: TemplateImbalance[];
+}
+
+const REP_SECONDS = 3; // without a tempo
+const SET_SETUP_SECONDS = 10; // unracking, getting into position
+const DEFAULT_SET_SECONDS = 45; // sets without reps, time or distance
+const DEFAULT_PACE_SECONDS = 360; // per kilometre, for distance sets without a time
+const GROUP_SWITCH_SECONDS = 15; // between exercises within a round
+const TRANSITION_SECONDS = 120; // between exercises or groups
+
+// One side more than twice the other gets flagged
+const IMBALANCE_RATIO = 2;
+
+const PRIMARY_MUSCLE_PATTERNS: { [muscleGroup: string]: MovementPattern } = {
+  Chest: 'push',
+  Shoulders: 'push',
+  Triceps: 'push',
+  Back: 'pull',
+  Lats: 'pull',
+  Biceps: 'pull',
+  Forearms: 'pull',
+  Quadriceps: 'quad',
+  Hamstrings: 'hinge',
+  Glutes: 'hinge',
+};
+
+const BALANCE_PAIRS: { pair: BalancePair; sides: [MovementPattern, MovementPattern] }[] = [
+  { pair: 'pushPull', sides: ['push', 'pull'] },
+  { pair: 'quadHinge', sides: ['quad', 'hinge'] },
+];
+
+// Time
+// Seconds per rep from a tempo like 3-1-1-0, X (explosive) counts as one
+const getRepSeconds = (tempo?: string): number => {
+  if (!tempo) return REP_SECONDS;
+  const phases = tempo.split('-').map(phase => (phase.trim().toUpperCase() === 'X' ? 1 : parseFloat(phase)));
+  if (phases.some(isNaN)) return REP_SECONDS;
+  return Math.max(phases.reduce((total, phase) => total + phase, 0), 1);
+};
+
+export const estimateSetSeconds = (set: TemplateSet): number => {
+  if (set.duration) return set.duration;
+  if (set.distance) return (set.distance / 1000) * DEFAULT_PACE_SECONDS;
+  if (set.reps) return set.reps * getRepSeconds(set.tempo) + SET_SETUP_SECONDS;
+  return DEFAULT_SET_SECONDS;
+};
+
+const estimateExerciseSeconds = (templateExercise: TemplateExercise): number => {
+  const defaultRest = getRestTime(templateExercise);
+  return templateExercise.sets.reduce((total, set, index) => {
+    const rest = index < templateExercise.sets.length - 1 ? set.restTime ?? defaultRest : 0;
+    return total + estimateSetSeconds(set) + rest;
+  }, 0);
+};
+
+// Members go back to back each round, the group's rest comes after every round but the last
+const estimateGroupSeconds = (members: TemplateExercise[], restTime: number): number => {
+  const rounds = Math.max(0, ...members.map(member => member.sets.length));
+  let total = 0;
+  for (let round = 0; round < rounds; round++) {
+    const sets = members.map(member => member.sets[round]).filter(Boolean);
+    total += sets.reduce((sum, set) => sum + estimateSetSeconds(set), 0);
+    total += Math.max(sets.length - 1, 0) * GROUP_SWITCH_SECONDS;
+    if (round < rounds - 1) total += restTime;
+  }
+  return total;
+};
+
+export const estimateTemplateMinutes = (template: Pick<WorkoutTemplate, 'exercises' | 'groups'>): number => {
+  const blocks = getExerciseBlocks(template.exercises, exercise => exercise.supersetGroup, template.groups);
+  const seconds = blocks.reduce((total, block) => {
+    return total + (block.group
+      ? estimateGroupSeconds(block.items, block.group.restTime)
+      : estimateExerciseSeconds(block.items[0]));
+  }, 0) + Math.max(blocks.length - 1, 0) * TRANSITION_SECONDS;
+  return Math.round(seconds / 60);
+};
+
+// Balance
+export const getMovementPattern = (muscleGroups: string[]): MovementPattern | null => {
+  return muscleGroups.length > 0 ? PRIMARY_MUSCLE_PATTERNS[muscleGroups[0]] ?? null : null;
+};
+
+// e.g. 3:1, 1:2.5
+export const formatRatio = (first: number, second: number): string => {
+  const format = (value: number) => (Math.round(value * 10) / 10).toString();
+  return first >= second ? `${format(first / second)}:1` : `1:${format(second / first)}`;
+};
+
+const findImbalances = (patternSets: { [pattern in MovementPattern]: number }): TemplateImbalance[] => {
+  return BALANCE_PAIRS.flatMap(({ pair, sides: [first, second] }) => {
+    const a = patternSets[first];
+    const b = patternSets[second];
+    if (a === 0 && b === 0) return [];
+
+    if (a === 0 || b === 0) {
+      const [present, missing, sets] = a > 0 ? [first, second, a] : [second, first, b];
+      return [{ pair, message: `${sets} ${present} sets and no ${missing} work to balance them` }];
+    }
+    if (a / b > IMBALANCE_RATIO || b / a > IMBALANCE_RATIO) {
+      return [{ pair, message: `${first[0].toUpperCase()}${first.slice(1)}:${second} is ${formatRatio(a, b)} (${a} ${first} sets, ${b} ${second})` }];
+    }
+    return [];
+  });
+};
+
+// Analysis
+export const analyzeTemplate = (template: Pick<WorkoutTemplate, 'exercises' | 'groups'>): TemplateAnalysis => {
+  const loads = new Map<string, MuscleGroupLoad>();
+  const patternSets: { [pattern in MovementPattern]: number } = { push: 0, pull: 0, quad: 0, hinge: 0 };
+  let totalSets = 0;
+  let workingSets = 0;
+  let totalVolume = 0;
+
+  template.exercises.forEach(templateExercise => {
+    const working = templateExercise.sets.filter(set => !isWarmupSet(set));
+    const volume = working.reduce((total, set) => total + (set.weight && set.reps ? set.weight * set.reps : 0), 0);
+    totalSets += templateExercise.sets.length;
+    workingSets += working.length;
+    totalVolume += volume;
+
+    templateExercise.exercise.muscleGroups.forEach(muscleGroup => {
+      const load = loads.get(muscleGroup) ?? { muscleGroup, sets: 0, volume: 0 };
+      load.sets += working.length;
+      load.volume += volume;
+      loads.set(muscleGroup, load);
+    });
+
+    const pattern = getMovementPattern(templateExercise.exercise.muscleGroups);
+    if (pattern) patternSets[pattern] += working.length;
+  });
+
+  return {
+    estimatedMinutes: estimateTemplateMinutes(template),
+    totalSets,
+    workingSets,
+    totalVolume,
+    muscleGroups: Array.from(loads.values()).sort((a, b) => b.sets - a.sets || b.volume - a.volume),
+    patternSets,
+    imbalances: findImbalances(patternSets),
+  };
+};
@@ -0,0 +1,97 @@
+import { accountStorage } from './accountStorage';
+import { UnitSystem, Quantity, CanonicalUnit, DisplayUnit } from '../types/units';
+
+const STORAGE_KEYS = {
+  UNIT_SYSTEM: '@unit_system',
+};
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+export const CANONICAL_UNITS: { [key in Quantity]: CanonicalUnit } = {
+  weight: 'kg',
+  length: 'cm',
+  distance: 'm',
+  volume: 'ml',
+};
+
+export const DISPLAY_UNITS: { [key in UnitSystem]: { [key in Quantity]: DisplayUnit } } = {
+  metric: { weight: 'kg', length: 'cm', distance: 'km', volume: 'L' },
+  imperial: { weight: 'lb', length: 'in', distance: 'mi', volume: 'fl oz' },
+};
+
+// How many canonical units one of each unit is worth
+const UNIT_FACTORS: { [unit: string]: { quantity: Quantity; factor: number } } = {
+  kg: { quantity: 'weight', factor: 1 },
+  lb: { quantity: 'weight', factor: 0.45359237 },
+  lbs: { quantity: 'weight', factor: 0.45359237 },
+  cm: { quantity: 'length', factor: 1 },
+  in: { quantity: 'length', factor: 2.54 },
+  m: { quantity: 'distance', factor: 1 },
+  km: { quantity: 'distance', factor: 1000 },
+  mi: { quantity: 'distance', factor: 1609.344 },
+  ml: { quantity: 'volume', factor: 1 },
+  L: { quantity: 'volume', factor: 1000 },
+  'fl oz': { quantity: 'volume', factor: 29.5735295625 },
+  oz: { quantity: 'volume', factor: 29.5735295625 }, // older water entries were labelled plain "oz"
+};
+
+const DISPLAY_DECIMALS: { [key in Quantity]: number } = {
+  weight: 1,
+  length: 1,
+  distance: 2,
+  volume: 1,
+};
+
+const round = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+// Conversion
+export const getUnitLabel = (quantity: Quantity, system: UnitSystem): DisplayUnit => {
+  return DISPLAY_UNITS[system][quantity];
+};
+
+export const toDisplayValue = (value: number, quantity: Quantity, system: UnitSystem): number => {
+  return value / UNIT_FACTORS[getUnitLabel(quantity, system)].factor;
+};
+
+export const fromDisplayValue = (value: number, quantity: Quantity, system: UnitSystem): number => {
+  return value * UNIT_FACTORS[getUnitLabel(quantity, system)].factor;
+};
+
+// Rounded for reading, e.g. 100 kg as 220.5 in imperial
+export const displayValue = (value: number, quantity: Quantity, system: UnitSystem, decimals?: number): number => {
+  return round(toDisplayValue(value, quantity, system), decimals ?? DISPLAY_DECIMALS[quantity]);
+};
+
+export const formatQuantity = (value: number, quantity: Quantity, system: UnitSystem, decimals?: number): string => {
+  return `${displayValue(value, quantity, system, decimals)} ${getUnitLabel(quantity, system)}`;
+};
+
+// Converts a value recorded in any known unit into its canonical unit, null when the unit has none (%, steps)
+export const toCanonical = (value: number, unit: string): { value: number; unit: CanonicalUnit } | null => {
+  const known = UNIT_FACTORS[unit.trim()];
+  if (!known) return null;
+  return { value: value * known.factor, unit: CANONICAL_UNITS[known.quantity] };
+};
+
+// Preferences. The profile row is the source of truth, this copy lets screens render offline.
+export const getUnitSystem = async (): Promise<UnitSystem> => {
+  try {
+    const system = await accountStorage.getItem(STORAGE_KEYS.UNIT_SYSTEM);
+    return system === 'metric' || system === 'imperial' ? system : DEFAULT_UNIT_SYSTEM;
+  } catch (error) {
+    console.error('Error loading unit system:', error);
+    return DEFAULT_UNIT_SYSTEM;
+  }
+};
+
+export const saveUnitSystem = async (system: UnitSystem): Promise<void> => {
+  try {
+    await accountStorage.setItem(STORAGE_KEYS.UNIT_SYSTEM, system);
+  } catch (error) {
+    console.error('Error saving unit system:', error);
+    throw error;
+  }
+};
@@ -1,4 +1,16 @@
-import { WorkoutTemplate, WorkoutSession, WorkoutSet, DayOfWeek } from '../types/workout';
+import { WorkoutTemplate, TemplateExercise, WorkoutSession, WorkoutSet, SetType, SessionType, DayOfWeek, DifficultyLevel, Exercise } from '../types/workout';
+import {
+  toDateKey,
+  parseDateKey,
+  getTodayKey,
+  isTodayKey,
+  diffInDays,
+  getWeekKeys,
+  isInSameWeek,
+  WeekStart,
+  DEFAULT_WEEK_START,
+} from './dates';
+import { summarizeCardio, CardioSummary } from './cardio';
 
 export const generateId = (): string => {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
@@ -13,9 +25,40 @@ export const formatDuration = (minutes: number): string => {
   return remainingMinutes > 0 ? `${hours}h ${remainingMinutes}m` : `${hours}h`;
 };
 
+export const isWarmupSet = (set: Pick<WorkoutSet, 'setType'>): boolean => set.setType === 'warmup';
+
+export const SET_TYPES: { value: SetType; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'warmup', label: 'Warm-up' },
+  { value: 'drop', label: 'Drop' },
+  { value: 'amrap', label: 'AMRAP' },
+  { value: 'emom', label: 'EMOM' },
+  { value: 'failure', label: 'Failure' },
+];
+
+export const DIFFICULTY_LEVELS: { value: DifficultyLevel; label: string }[] = [
+  { value: 'beginner', label: 'Beginner' },
+  { value: 'intermediate', label: 'Intermediate' },
+  { value: 'advanced', label: 'Advanced' },
+];
+
+export const getSetTypeLabel = (setType?: SetType): string => {
+  return SET_TYPES.find(type => type.value === (setType || 'normal'))?.label || 'Normal';
+};
+
+// Intensity and tempo targets, e.g. "RPE 8 • 2 RIR • Tempo 3-1-1-0"
+export const formatSetTargets = (set: Pick<WorkoutSet, 'targetRpe' | 'targetRir' | 'tempo'>): string => {
+  const parts: string[] = [];
+  if (set.targetRpe !== undefined) parts.push(`RPE ${set.targetRpe}`);
+  if (set.targetRir !== undefined) parts.push(`${set.targetRir} RIR`);
+  if (set.tempo) parts.push(`Tempo ${set.tempo}`);
+  return parts.join(' • ');
+};
+
+// Warm-ups are preparation, not training volume
 export const calculateTotalVolume = (sets: WorkoutSet[]): number => {
   return sets.reduce((total, set) => {
-    if (set.weight && set.reps) {
+    if (set.weight && set.reps && !isWarmupSet(set)) {
       return total + (set.weight * set.reps);
     }
     return total;
@@ -28,58 +71,27 @@ export const calculateSessionVolume = (session: WorkoutSession): number => {
   }, 0);
 };
 
-export const getPersonalRecord = (sessions: WorkoutSession[], exerciseId: string): { weight: number; reps: number } | null => {
-  let maxWeight = 0;
-  let maxReps = 0;
-
-  sessions.forEach(session => {
-    const exercise = session.exercises.find(ex => ex.exerciseId === exerciseId);
-    if (exercise) {
-      exercise.sets.forEach(set => {
-        if (set.weight && set.weight > maxWeight) {
-          maxWeight = set.weight;
-        }
-        if (set.reps && set.reps > maxReps) {
-          maxReps = set.reps;
-        }
-      });
-    }
-  });
-
-  return maxWeight > 0 || maxReps > 0 ? { weight: maxWeight, reps: maxReps } : null;
-};
-
 export const getDayOfWeek = (date: Date): DayOfWeek => {
   const days: DayOfWeek[] = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
   return days[date.getDay()] as DayOfWeek;
 };
 
-export const getWeekDates = (startDate: Date): { [key in DayOfWeek]: string } => {
+export const getWeekDates = (startDate: Date, weekStart: WeekStart = DEFAULT_WEEK_START): { [key in DayOfWeek]: string } => {
   const week: { [key in DayOfWeek]: string } = {} as any;
-  const days: DayOfWeek[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
-  
-  // Find Monday of the week
-  const monday = new Date(startDate);
-  const dayOfWeek = startDate.getDay();
-  const diff = dayOfWeek === 0 ? -6 : 1 - dayOfWeek; // Adjust for Sunday being 0
-  monday.setDate(startDate.getDate() + diff);
-
-  days.forEach((day, index) => {
-    const date = new Date(monday);
-    date.setDate(monday.getDate() + index);
-    week[day] = date.toISOString().split('T')[0];
+
+  getWeekKeys(toDateKey(startDate), weekStart).forEach(key => {
+    week[getDayOfWeek(parseDateKey(key))] = key;
   });
 
   return week;
 };
 
 export const isToday = (dateString: string): boolean => {
-  const today = new Date().toISOString().split('T')[0];
-  return dateString === today;
+  return isTodayKey(dateString);
 };
 
 export const formatDate = (dateString: string): string => {
-  const date = new Date(dateString);
+  const date = parseDateKey(dateString);
   return date.toLocaleDateString('en-US', {
     weekday: 'long',
     month: 'short',
@@ -87,40 +99,169 @@ export const formatDate = (dateString: string): string => {
   });
 };
 
-export const getWeeklyStats = (sessions: WorkoutSession[]): {
+// Live sessions
+export const formatClockTime = (date: Date): string => {
+  return date.toTimeString().slice(0, 8); // HH:MM:SS in local time
+};
+
+export const createSetsFromTemplate = (sets: Omit<WorkoutSet, 'completed' | 'id'>[]): WorkoutSet[] => {
+  return sets.map(set => ({ ...set, id: generateId(), completed: false }));
+};
+
+export const DEFAULT_REST_SECONDS = 60;
+
+export const getRestTime = (templateExercise: TemplateExercise): number => {
+  return templateExercise.restTime ?? templateExercise.sets[0]?.restTime ?? DEFAULT_REST_SECONDS;
+};
+
+export const createEmptySet = (previous?: WorkoutSet): WorkoutSet => {
+  return {
+    id: generateId(),
+    reps: previous?.reps,
+    weight: previous?.weight,
+    duration: previous?.duration,
+    distance: previous?.distance,
+    setType: previous?.setType === 'warmup' ? undefined : previous?.setType,
+    tempo: previous?.tempo,
+    targetRpe: previous?.targetRpe,
+    targetRir: previous?.targetRir,
+    restTime: previous?.restTime ?? DEFAULT_REST_SECONDS,
+    completed: false,
+  };
+};
+
+// The order a session lists them in, so session exercises pair up with these by index
+export const getOrderedTemplateExercises = (template: WorkoutTemplate): TemplateExercise[] => {
+  return [...template.exercises].sort((a, b) => a.order - b.order);
+};
+
+export const createSessionFromTemplate = (
+  template: WorkoutTemplate,
+  clientId: string,
+  planId?: string,
+  prescribedSets?: { [templateExerciseId: string]: Omit<WorkoutSet, 'completed' | 'id'>[] },
+  sessionType: SessionType = planId ? 'planned' : 'custom'
+): WorkoutSession => {
+  const now = new Date();
+  return {
+    id: generateId(),
+    clientId,
+    templateId: template.id,
+    planId,
+    sessionType,
+    category: template.category,
+    date: toDateKey(now),
+    startTime: formatClockTime(now),
+    startedAt: now.toISOString(),
+    exercises: getOrderedTemplateExercises(template).map(templateExercise => ({
+      exerciseId: templateExercise.exerciseId,
+      sets: createSetsFromTemplate(prescribedSets?.[templateExercise.id] ?? templateExercise.sets),
+      notes: templateExercise.notes,
+    })),
+    completed: false,
+    synced: false,
+  };
+};
+
+// Session stats. Everything below derives from the canonical WorkoutSession.
+export const getSessionDuration = (session: WorkoutSession): number => {
+  if (session.startedAt && session.endedAt) {
+    const elapsed = new Date(session.endedAt).getTime() - new Date(session.startedAt).getTime();
+    return Math.max(elapsed / (1000 * 60), 0); // minutes
+  }
+  if (session.startTime && session.endTime) {
+    // Sessions saved before the timestamps only have clock times, an end before the start means it ran past midnight
+    const start = new Date(`${session.date}T${session.startTime}`);
+    const end = new Date(`${session.date}T${session.endTime}`);
+    if (end < start) end.setDate(end.getDate() + 1);
+    return (end.getTime() - start.getTime()) / (1000 * 60);
+  }
+  return session.durationMinutes || 0;
+};
+
+// since is a local day key, sessions on that day count
+export const getTrainingMinutes = (sessions: WorkoutSession[], since?: string): number => {
+  return sessions
+    .filter(session => session.completed && (!since || session.date >= since))
+    .reduce((total, session) => total + getSessionDuration(session), 0);
+};
+
+// A session belongs to the local day it started on, so a workout past midnight extends that day
+const getWorkoutDays = (sessions: WorkoutSession[]): string[] => {
+  const days = new Set(
+    sessions
+      .filter(session => session.completed)
+      .map(session => session.date.slice(0, 10))
+  );
+  return Array.from(days).sort((a, b) => b.localeCompare(a)); // most recent first
+};
+
+const isPreviousDay = (later: string, earlier: string): boolean => {
+  return diffInDays(later, earlier) === 1;
+};
+
+export const getCurrentStreak = (sessions: WorkoutSession[]): number => {
+  const workoutDays = getWorkoutDays(sessions);
+  if (workoutDays.length === 0) return 0;
+
+  const today = getTodayKey();
+
+  // A workout today or yesterday keeps the streak alive
+  if (workoutDays[0] !== today && !isPreviousDay(today, workoutDays[0])) {
+    return 0;
+  }
+
+  let streak = 1;
+  while (streak < workoutDays.length && isPreviousDay(workoutDays[streak - 1], workoutDays[streak])) {
+    streak++;
+  }
+  return streak;
+};
+
+export const getLongestStreak = (sessions: WorkoutSession[]): number => {
+  const workoutDays = getWorkoutDays(sessions);
+  let longest = 0;
+  let current = 0;
+
+  workoutDays.forEach((day, index) => {
+    current = index > 0 && isPreviousDay(workoutDays[index - 1], day) ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+
+  return longest;
+};
+
+// Cardio totals need the exercise library to tell cardio from timed strength work, see summarizeCardio
+export const getWeeklyStats = (
+  sessions: WorkoutSession[],
+  weekStart: WeekStart = DEFAULT_WEEK_START,
+  exercises: Exercise[] = [],
+  maxHeartRate?: number | null
+): {
   totalSessions: number;
   totalVolume: number;
+  totalMinutes: number;
   averageDuration: number;
+  cardio: CardioSummary;
 } => {
-  const weekStart = new Date();
-  weekStart.setDate(weekStart.getDate() - weekStart.getDay() + 1); // Monday
-  weekStart.setHours(0, 0, 0, 0);
-
-  const weekEnd = new Date(weekStart);
-  weekEnd.setDate(weekStart.getDate() + 6); // Sunday
-  weekEnd.setHours(23, 59, 59, 999);
-
+  const today = getTodayKey();
   const weeklySessions = sessions.filter(session => {
-    const sessionDate = new Date(session.date);
-    return sessionDate >= weekStart && sessionDate <= weekEnd && session.completed;
+    return session.completed && isInSameWeek(session.date, today, weekStart);
   });
 
   const totalVolume = weeklySessions.reduce((total, session) => {
     return total + calculateSessionVolume(session);
   }, 0);
 
-  const totalDuration = weeklySessions.reduce((total, session) => {
-    if (session.startTime && session.endTime) {
-      const start = new Date(`${session.date}T${session.startTime}`);
-      const end = new Date(`${session.date}T${session.endTime}`);
-      return total + (end.getTime() - start.getTime()) / (1000 * 60); // minutes
-    }
-    return total;
+  const totalMinutes = weeklySessions.reduce((total, session) => {
+    return total + getSessionDuration(session);
   }, 0);
 
   return {
     totalSessions: weeklySessions.length,
     totalVolume,
-    averageDuration: weeklySessions.length > 0 ? totalDuration / weeklySessions.length : 0
+    totalMinutes,
+    averageDuration: weeklySessions.length > 0 ? totalMinutes / weeklySessions.length : 0,
+    cardio: summarizeCardio(weeklySessions, exercises, maxHeartRate),
   };
-};
\ No newline at end of file
+};